@@ -26,7 +26,18 @@ import {
   CheckSquare,
   Square,
   Repeat,
-  Filter
+  Filter,
+  RefreshCw,
+  LogOut,
+  ShieldCheck,
+  DatabaseBackup,
+  Upload,
+  History,
+  Link2,
+  Printer,
+  CalendarRange,
+  Wrench,
+  GitMerge
 } from 'lucide-react';
 import { 
   XAxis, 
@@ -37,19 +48,71 @@ import {
   AreaChart,
   Area,
   LineChart,
-  Line
+  Line,
+  ReferenceLine,
+  RadarChart,
+  Radar,
+  PolarGrid,
+  PolarAngleAxis,
+  PolarRadiusAxis
 } from 'recharts';
 
-import { Classroom, ExamResult, Student, StudentWithStats, ViewState, ExamDefinition } from './types';
+import { AbsenceReason, Classroom, ExamResult, Student, StudentWithStats, ViewState, ExamDefinition, ImportSession, ImportSessionKind, ShareLink, Term, TrashItem } from './types';
 import { 
   fetchAllData, 
-  apiAddStudent, apiUpdateStudent, apiDeleteStudent,
-  apiAddClass, apiUpdateClass, apiDeleteClass,
+  apiAddStudent, apiUpdateStudent,
+  apiAddClass, apiUpdateClass,
   apiAddExamResult, apiUpdateExamResult, apiDeleteExamResult,
-  apiAddExamDefinition, apiUpdateExamDefinition, apiDeleteExamDefinition,
-  apiDeleteMultipleStudents
+  apiAddExamDefinition, apiUpdateExamDefinition,
+  apiUpdateMultipleExamResults,
+  rescoreResults, getScoringPolicy, getMaxQuestionCount,
+  getStorageBackend, isLocalStorageBackend,
+  apiAddImportSession, apiRollbackImportSession,
+  apiAddTerm, apiApplyTermTransition,
+  fetchShareLinks, apiSaveShareLink, apiReplaceShareLink, apiRevokeShareLink, apiDeleteShareLink, apiUpdateShareSnapshots,
+  fetchTrash, apiMoveToTrash, apiRestoreFromTrash, apiPurgeTrash,
+  apiDeleteExamDefinitionPermanently, apiCommitImportWrites, apiApplyIntegrityRepair, apiMergeStudents, apiStampResultClasses, belongsTo, ChunkedWriteOptions, WriteProgress, isChunkedWriteError, describeWriteFailure
 } from './services/dataService';
 import { ExamModal } from './components/ExamModal';
+import { ExamDefinitionModal } from './components/ExamDefinitionModal';
+import { ItemAnalysisPanel } from './components/ItemAnalysisPanel';
+import { calculateSkillProfile } from './services/skillAnalysis';
+import { signOut, getCurrentProfile } from './services/authService';
+import { STORAGE_BACKEND_LABELS, switchStorageBackend } from './services/storageAdapter';
+import { getSyncState } from './services/syncQueue';
+import { SyncIndicator } from './components/SyncIndicator';
+import {
+  ROLE_LABELS, canManageClasses, canManageExamDefinitions, canManageMembers, canManageBackups, canWrite, canEditClass, canEditStudent, canRollbackImport, canManageShareLink, canManageTerms, canManageTrashItem, canRunIntegrityCheck, scopeDataToProfile
+} from './services/permissions';
+import { MembersView } from './components/MembersView';
+import { BackupView } from './components/BackupView';
+import { ResultFileImportModal } from './components/ResultFileImportModal';
+import { ImportContext, ImportPlan, listPlanWrites, planStudentImport, planResultImport, planClassChange, countPlanLines, hasPlanChanges, hasUnresolvedLines, NameResolutions } from './services/batchImport';
+import { NameResolution } from './services/nameMatching';
+import { ImportPlanPreview } from './components/ImportPlanPreview';
+import { ImportHistoryModal } from './components/ImportHistoryModal';
+import { ReportCardModal } from './components/ReportCardModal';
+import { ShareLinksModal } from './components/ShareLinksModal';
+import { createShareLink, regenerateShareLink, findStaleShareLinks } from './services/shareLinks';
+import { TermsModal } from './components/TermsModal';
+import { AuditLogView } from './components/AuditLogView';
+import { AuditTimeline } from './components/AuditTimeline';
+import { createAuditNameResolver } from './services/auditLog';
+import { TrashView } from './components/TrashView';
+import { WriteProgressPanel } from './components/WriteProgressPanel';
+import { IntegrityView } from './components/IntegrityView';
+import { IntegrityRepair, takeRepairPrefix, countRepairWrites } from './services/integrity';
+import { DuplicateStudentsModal } from './components/DuplicateStudentsModal';
+import { EarlyWarningPanel } from './components/EarlyWarningPanel';
+import { AbsenteesModal } from './components/AbsenteesModal';
+import { AttendanceReportPanel } from './components/AttendanceReportPanel';
+import { AttendanceReportKind, selectAttendanceResults, summarizeAttendance } from './services/attendance';
+import { ConflictChoice, planStudentMerge } from './services/studentMerge';
+import { GoalProgress, GoalStatus, GOAL_STATUS_LABELS, getGoalProgress } from './services/goals';
+import { TRASH_RETENTION_DAYS, trashStudent, trashClass, trashExamDefinition, isTrashExpired, isTrashItemTooLarge, getTrashedDocs, mergeRestored } from './services/trash';
+import { TermTransitionPlan, getActiveTerm, scopeDataToTerm, sortTerms } from './services/terms';
+import { buildExamRanking, printExamRanking, exportRankingPdf, exportRankingXlsx } from './services/examRanking';
+import { createImportSession, recordImportChange, planRollback, hasRollbackChanges, applyRollback, takeRollbackPrefix, RollbackPlan } from './services/importHistory';
 import { StudentFormModal } from './components/StudentFormModal';
 
 // --- HELPER FUNCTIONS ---
@@ -67,8 +130,19 @@ const formatDate = (dateString: string): string => {
   }
 };
 
+const GOAL_STATUS_STYLES: Record<GoalStatus, string> = {
+  REACHED: 'bg-green-600/20 text-green-400',
+  ON_TRACK: 'bg-indigo-600/20 text-indigo-300',
+  OFF_TRACK: 'bg-red-600/20 text-red-400',
+  NO_DATA: 'bg-gray-700 text-gray-400'
+};
+
 // --- HELPER COMPONENTS ---
 
+const GoalBadge: React.FC<{ status: GoalStatus }> = ({ status }) => (
+  <span className={`text-[9px] font-black uppercase px-2 py-0.5 rounded-full whitespace-nowrap ${GOAL_STATUS_STYLES[status]}`}>{GOAL_STATUS_LABELS[status]}</span>
+);
+
 interface InputModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -132,13 +206,25 @@ const InputModal: React.FC<InputModalProps> = ({ isOpen, onClose, onSubmit, titl
 interface ConfirmModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onConfirm: () => void;
+  onConfirm: () => void | Promise<void>; // Handlers report their own failures; anything they miss is alerted here
   title: string;
   message: string;
+  confirmLabel?: string;
 }
 
-const ConfirmModal: React.FC<ConfirmModalProps> = ({ isOpen, onClose, onConfirm, title, message }) => {
+const ConfirmModal: React.FC<ConfirmModalProps> = ({ isOpen, onClose, onConfirm, title, message, confirmLabel = 'Sil' }) => {
   if (!isOpen) return null;
+
+  const handleConfirm = async () => {
+    onClose();
+    try {
+      await onConfirm();
+    } catch (e) {
+      console.error(e);
+      alert("İşlem tamamlanamadı.");
+    }
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-[60] p-4 backdrop-blur-sm">
       <div className="bg-gray-800 rounded-lg shadow-xl w-full max-w-xs border border-gray-700 p-4">
@@ -149,7 +235,7 @@ const ConfirmModal: React.FC<ConfirmModalProps> = ({ isOpen, onClose, onConfirm,
         <p className="text-gray-300 text-sm mb-4">{message}</p>
         <div className="flex justify-end gap-2">
           <button onClick={onClose} className="px-3 py-1.5 text-xs text-gray-300 hover:text-white hover:bg-gray-700 rounded-md">Vazgeç</button>
-          <button onClick={() => { onConfirm(); onClose(); }} className="px-3 py-1.5 text-xs bg-red-600 text-white rounded-md hover:bg-red-700">Sil</button>
+          <button onClick={handleConfirm} className="px-3 py-1.5 text-xs bg-red-600 text-white rounded-md hover:bg-red-700">{confirmLabel}</button>
         </div>
       </div>
     </div>
@@ -160,17 +246,34 @@ interface BatchImportModalProps {
   isOpen: boolean;
   mode: 'student' | 'result' | 'class_change';
   onClose: () => void;
-  onProcess: (text: string) => void;
+  onPreview: (text: string, resolutions: NameResolutions) => ImportPlan;
+  onCommit: (plan: ImportPlan) => void;
+  onOpenFileImport?: () => void;
 }
 
-const BatchImportModal: React.FC<BatchImportModalProps> = ({ isOpen, mode, onClose, onProcess }) => {
+const BATCH_IMPORT_KINDS: Record<BatchImportModalProps['mode'], ImportSessionKind> = { student: 'STUDENTS', result: 'RESULTS', class_change: 'CLASS_CHANGE' };
+
+const BatchImportModal: React.FC<BatchImportModalProps> = ({ isOpen, mode, onClose, onPreview, onCommit, onOpenFileImport }) => {
   const [text, setText] = useState('');
+  // Dry-run result; nothing is written until the teacher confirms it
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [resolutions, setResolutions] = useState<NameResolutions>({});
 
   // Reset text when mode changes or modal opens
   useEffect(() => {
-    if (isOpen) setText('');
+    if (isOpen) {
+      setText('');
+      setPlan(null);
+      setResolutions({});
+    }
   }, [isOpen, mode]);
 
+  const handleResolve = (lineNumber: number, resolution: NameResolution) => {
+    const next = { ...resolutions, [lineNumber]: resolution };
+    setResolutions(next);
+    setPlan(onPreview(text, next));
+  };
+
   if (!isOpen) return null;
 
   const getTitle = () => {
@@ -194,7 +297,7 @@ const BatchImportModal: React.FC<BatchImportModalProps> = ({ isOpen, mode, onClo
   const getFormat = () => {
     switch (mode) {
       case 'student': return 'Ad Soyad Sınıf';
-      case 'result': return 'SınavAdı ÖğrenciAdıSoyadı Doğru Yanlış';
+      case 'result': return 'SınavAdı ÖğrenciAdıSoyadı Doğru Yanlış  veya  SınavAdı ÖğrenciAdıSoyadı Cevaplar';
       case 'class_change': return 'Ad Soyad YeniSınıf';
       default: return '';
     }
@@ -220,6 +323,8 @@ const BatchImportModal: React.FC<BatchImportModalProps> = ({ isOpen, mode, onClo
             <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={20} /></button>
          </div>
          <div className="p-4 flex-1 flex flex-col gap-3 bg-gray-800 overflow-y-auto">
+            {plan ? <ImportPlanPreview plan={plan} resolutions={resolutions} onResolve={handleResolve} /> : (
+            <>
             <div className="bg-gray-900/50 p-3 rounded border border-gray-700 text-sm text-gray-300 space-y-2">
                 <p>Excel'den veya başka bir listeden verileri kopyalayıp aşağıdaki alana yapıştırın.</p>
                 
@@ -236,6 +341,18 @@ const BatchImportModal: React.FC<BatchImportModalProps> = ({ isOpen, mode, onClo
                     </p>
                 )}
 
+                {mode === 'result' && (
+                    <p className="text-xs text-gray-400">
+                        * Cevap dizisi (ör. ABCD-A...) sadece cevap anahtarı tanımlı denemeler için kullanılabilir ve soru sayısı kadar karakter olmalıdır. Boş bırakılan sorular için "-" yazın.
+                    </p>
+                )}
+
+                {mode === 'result' && onOpenFileImport && (
+                    <button onClick={onOpenFileImport} className="text-xs text-green-400 font-semibold hover:text-green-300 flex items-center gap-1">
+                        <Upload size={14} /> CSV / XLSX dosyasından aktar (sütun eşleştirme ve önizleme ile)
+                    </button>
+                )}
+
                 {mode === 'class_change' && (
                     <p className="text-xs text-orange-400 font-semibold">
                         * Sadece ismi listede olan mevcut öğrencilerin sınıfları güncellenir. İsim/Soyad eşleşmezse işlem yapılmaz.
@@ -254,15 +371,31 @@ const BatchImportModal: React.FC<BatchImportModalProps> = ({ isOpen, mode, onClo
               value={text}
               onChange={e => setText(e.target.value)}
             />
+            </>
+            )}
          </div>
-         <div className="p-4 border-t border-gray-700 flex justify-end bg-gray-900">
-            <button 
-                onClick={() => onProcess(text)} 
-                disabled={!text.trim()}
-                className="bg-indigo-600 text-white px-6 py-2 rounded-lg hover:bg-indigo-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-               Verileri İşle ve Kaydet
-            </button>
+         <div className="p-4 border-t border-gray-700 flex justify-end gap-2 bg-gray-900">
+            {plan ? (
+                <>
+                    <button onClick={() => { setPlan(null); setResolutions({}); }} className="text-gray-400 hover:text-white px-4 py-2 rounded-lg font-medium">Düzenle</button>
+                    <button 
+                        onClick={() => onCommit(plan)} 
+                        disabled={!hasPlanChanges(plan) || hasUnresolvedLines(plan)}
+                        title={hasUnresolvedLines(plan) ? 'Önce seçim gereken satırları çözün' : undefined}
+                        className="bg-indigo-600 text-white px-6 py-2 rounded-lg hover:bg-indigo-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                       Onayla ve Kaydet
+                    </button>
+                </>
+            ) : (
+                <button 
+                    onClick={() => setPlan(onPreview(text, resolutions))} 
+                    disabled={!text.trim()}
+                    className="bg-indigo-600 text-white px-6 py-2 rounded-lg hover:bg-indigo-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                   Kontrol Et
+                </button>
+            )}
          </div>
       </div>
     </div>
@@ -292,8 +425,27 @@ function sortData<T>(data: T[], config: { key: string, direction: 'asc' | 'desc'
 }
 
 function App() {
+  // AuthGate only renders App once the profile is loaded
+  const profile = getCurrentProfile()!;
+  const isLocalMode = isLocalStorageBackend();
+  const canEditImportStudent = useCallback((student: Student) => canEditStudent(profile, student), [profile]);
+
+  // Appended to import summaries when some writes are waiting for connectivity
+  const pendingWritesNote = () => getSyncState().pending.length > 0 ? "\n\nBağlantı olmadığı için bazı değişiklikler cihazda bekletiliyor; bağlantı gelince otomatik gönderilecek." : '';
+
+  // Local mode has no account, so "sign out" returns to the cloud login instead. Queued changes are kept for
+  // this account and sent when it signs in again on this device, so signing out with some pending needs a confirm.
+  const handleSignOut = () => {
+    if (isLocalMode) return switchStorageBackend('firestore');
+    const pending = getSyncState().pending.length;
+    if (pending > 0 && !window.confirm(`${pending} değişiklik henüz sunucuya gönderilmedi. Çıkış yaparsanız bu cihazda bekletilir ve ancak aynı hesapla yeniden giriş yapıldığında gönderilir. Çıkış yapılsın mı?`)) return;
+    signOut();
+  };
+
   // --- STATE ---
   const [isLoading, setIsLoading] = useState(true);
+  // Large chunked writes (imports, bulk deletes) show their progress on the loading screen
+  const [writeJob, setWriteJob] = useState<{ label: string, progress: WriteProgress | null, controller: AbortController | null } | null>(null);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [view, setView] = useState<ViewState>('DASHBOARD');
   
@@ -305,11 +457,15 @@ function App() {
   // Batch Selection for Students
   const [selectedBatchStudentIds, setSelectedBatchStudentIds] = useState<Set<string>>(new Set());
 
-  // Data State
-  const [students, setStudents] = useState<Student[]>([]);
-  const [classes, setClasses] = useState<Classroom[]>([]);
-  const [exams, setExams] = useState<ExamResult[]>([]);
-  const [examDefinitions, setExamDefinitions] = useState<ExamDefinition[]>([]);
+  // Data State (whole workspace; views use the term scoped copies below)
+  const [allStudents, setStudents] = useState<Student[]>([]);
+  const [allClasses, setClasses] = useState<Classroom[]>([]);
+  const [allExams, setExams] = useState<ExamResult[]>([]);
+  const [allExamDefinitions, setExamDefinitions] = useState<ExamDefinition[]>([]);
+  const [terms, setTerms] = useState<Term[]>([]);
+  const [selectedTermId, setSelectedTermId] = useState<string | null>(null); // null: the open term
+  const [shareLinks, setShareLinks] = useState<ShareLink[]>([]);
+  const [trashItems, setTrashItems] = useState<TrashItem[]>([]);
   
   // Modals & Editing
   const [isExamModalOpen, setIsExamModalOpen] = useState(false);
@@ -319,8 +475,18 @@ function App() {
   const [isStudentModalOpen, setIsStudentModalOpen] = useState(false);
   const [editingStudent, setEditingStudent] = useState<Student | null>(null);
 
+  const [isExamDefModalOpen, setIsExamDefModalOpen] = useState(false);
+  const [editingExamDef, setEditingExamDef] = useState<ExamDefinition | null>(null);
+
   const [isBatchModalOpen, setIsBatchModalOpen] = useState(false);
   const [batchModalMode, setBatchModalMode] = useState<'student' | 'result' | 'class_change'>('student');
+  const [isResultFileModalOpen, setIsResultFileModalOpen] = useState(false);
+  const [isImportHistoryOpen, setIsImportHistoryOpen] = useState(false);
+  const [reportCardTarget, setReportCardTarget] = useState<{ title: string, students: Student[] } | null>(null);
+  const [isTermsModalOpen, setIsTermsModalOpen] = useState(false);
+  const [isDuplicatesModalOpen, setIsDuplicatesModalOpen] = useState(false);
+  const [absenteesTarget, setAbsenteesTarget] = useState<{ kind: AttendanceReportKind, id: string, title: string } | null>(null);
+  const [shareLinksTarget, setShareLinksTarget] = useState<{ student: Student | null } | null>(null);
 
   // Generic Modals
   const [inputModalConfig, setInputModalConfig] = useState<{ 
@@ -333,7 +499,7 @@ function App() {
     onSubmit: (val: string, date?: string) => void 
   }>({ isOpen: false, title: '', placeholder: '', onSubmit: () => {} });
   
-  const [confirmModalConfig, setConfirmModalConfig] = useState<{ isOpen: boolean, title: string, message: string, onConfirm: () => void }>({ isOpen: false, title: '', message: '', onConfirm: () => {} });
+  const [confirmModalConfig, setConfirmModalConfig] = useState<{ isOpen: boolean, title: string, message: string, confirmLabel?: string, onConfirm: () => void | Promise<void> }>({ isOpen: false, title: '', message: '', onConfirm: () => {} });
   
   // UI Config
   const [filterClassId, setFilterClassId] = useState<string>('all');
@@ -341,6 +507,7 @@ function App() {
   const [classDetailExamFilter, setClassDetailExamFilter] = useState<string>('last'); 
   const [filterExamDetailClassId, setFilterExamDetailClassId] = useState<string>('all'); 
   const [showBelowAverageOnly, setShowBelowAverageOnly] = useState(false);
+  const [examDetailTab, setExamDetailTab] = useState<'ranking' | 'items'>('ranking');
 
   const [searchQuery, setSearchQuery] = useState('');
   
@@ -364,6 +531,7 @@ function App() {
     // Reset view specific states
     setSelectedBatchStudentIds(new Set());
     setShowBelowAverageOnly(false);
+    setExamDetailTab('ranking');
 
     window.history.pushState({ 
         view: newView, 
@@ -399,20 +567,73 @@ function App() {
       setIsLoading(true);
       setErrorMsg(null);
       try {
-        const data = await fetchAllData();
+        const rawData = await fetchAllData();
+        const data = scopeDataToProfile(rawData, profile);
+        // Only the head teacher may write results of every class
+        if (canManageClasses(profile)) {
+          apiStampResultClasses(rawData.students, rawData.exams).catch(e => console.error("Sonuç sınıfları güncellenemedi:", e));
+        }
         setStudents(data.students);
         setClasses(data.classes);
         setExams(data.exams);
         setExamDefinitions(data.examDefinitions);
+        setTerms(data.terms);
       } catch (e: any) {
         setErrorMsg("Veriler yüklenirken bir hata oluştu.");
       } finally {
          setIsLoading(false);
       }
+      // Parent links only make sense in the cloud; a failure here must not block the app
+      if (!isLocalMode && canWrite(profile)) {
+        fetchShareLinks().then(setShareLinks).catch(e => console.error("Veli bağlantıları yüklenemedi:", e));
+      }
+      if (canWrite(profile)) {
+        loadTrash().catch(e => console.error("Çöp kutusu yüklenemedi:", e));
+      }
     };
     initData();
   }, []);
 
+  // Items past the retention period are purged on load by whoever is allowed to handle them
+  const loadTrash = async () => {
+    const items = await fetchTrash();
+    const expired = items.filter(item => isTrashExpired(item) && canManageTrashItem(profile, item));
+    if (expired.length > 0) await apiPurgeTrash(expired.map(item => item.id));
+    setTrashItems(items.filter(item => !expired.includes(item)));
+  };
+
+  // --- TERM SCOPE ---
+  const allData = useMemo(
+    () => ({ students: allStudents, classes: allClasses, exams: allExams, examDefinitions: allExamDefinitions }),
+    [allStudents, allClasses, allExams, allExamDefinitions]
+  );
+  const { students, classes, exams, examDefinitions } = useMemo(
+    () => scopeDataToTerm(allData, terms, selectedTermId),
+    [allData, terms, selectedTermId]
+  );
+  const viewedTerm = terms.find(t => t.id === selectedTermId) || getActiveTerm(terms);
+  const resolveAuditName = useMemo(
+    () => createAuditNameResolver({ students: allStudents, classes: allClasses, examDefinitions: allExamDefinitions, terms }),
+    [allStudents, allClasses, allExamDefinitions, terms]
+  );
+  // The end-of-year wizard always works on the open term, whichever term is on screen
+  const openTermData = useMemo(
+    () => isTermsModalOpen ? scopeDataToTerm(allData, terms, null) : allData,
+    [isTermsModalOpen, allData, terms]
+  );
+
+  // Keeps the snapshots behind active parent links in step with edits, batched a moment after the last change
+  useEffect(() => {
+    if (shareLinks.length === 0) return;
+    const timer = setTimeout(() => {
+      const stale = findStaleShareLinks(shareLinks.filter(l => canManageShareLink(profile, l)), allStudents, { classes: allClasses, exams: allExams, examDefinitions: allExamDefinitions });
+      if (stale.length === 0) return;
+      setShareLinks(prev => prev.map(l => stale.find(x => x.id === l.id) || l));
+      apiUpdateShareSnapshots(stale).catch(e => console.error("Veli bağlantıları güncellenemedi:", e));
+    }, 2000);
+    return () => clearTimeout(timer);
+  }, [shareLinks, allStudents, allClasses, allExams, allExamDefinitions]);
+
   // --- DERIVED DATA ---
   const studentsWithStats: StudentWithStats[] = useMemo(() => {
     return students.map(student => {
@@ -452,6 +673,13 @@ function App() {
     });
   }, [students, exams, filterExamId]);
 
+  const attendanceSource = useMemo(() => ({ students, classes, exams, examDefinitions }), [students, classes, exams, examDefinitions]);
+
+  // Goals are measured on the viewed term's results
+  const goalProgressByStudent = useMemo(() => new Map<string, GoalProgress>(
+    students.filter(s => s.goal).map(s => [s.id, getGoalProgress(s.goal!, exams.filter(e => e.studentId === s.id))])
+  ), [students, exams]);
+
   const filteredStudents = useMemo(() => {
     let result = studentsWithStats;
     if (filterClassId !== 'all') result = result.filter(s => s.classroomId === filterClassId);
@@ -477,7 +705,7 @@ function App() {
     const globalAvgIncorrect = totalExams > 0 ? (globalTotalIncorrect / totalExams).toFixed(1) : '0.0';
 
     const examStats = examDefinitions.map(def => {
-        const results = effectiveExams.filter(e => e.examId === def.id || e.examName === def.name);
+        const results = effectiveExams.filter(e => belongsTo(e, def));
         let avgNet = 0;
         let avgCorrect = 0;
         let avgIncorrect = 0;
@@ -503,7 +731,8 @@ function App() {
         globalAvgNet, 
         globalAvgCorrect, 
         globalAvgIncorrect, 
-        examStats 
+        examStats,
+        maxQuestionCount: getMaxQuestionCount(examDefinitions)
     };
   }, [students, exams, examDefinitions]);
 
@@ -515,6 +744,23 @@ function App() {
     });
   };
 
+  // Runs a chunked write with progress; cancellable writes stop after the chunk in flight
+  const runWithProgress = async <T,>(label: string, cancellable: boolean, run: (options: ChunkedWriteOptions) => Promise<T>): Promise<T> => {
+    const controller = new AbortController();
+    setWriteJob({ label, progress: null, controller: cancellable ? controller : null });
+    try {
+      return await run({ signal: controller.signal, onProgress: progress => setWriteJob(prev => prev && { ...prev, progress }) });
+    } finally {
+      setWriteJob(null);
+    }
+  };
+
+  // Hidden buttons are the primary guard; this also covers stale modals and batch paths
+  const ensureAllowed = (allowed: boolean) => {
+    if (!allowed) alert("Bu işlem için yetkiniz yok.");
+    return allowed;
+  };
+
   const toggleStudentSelection = (id: string) => {
     setSelectedBatchStudentIds(prev => {
         const next = new Set(prev);
@@ -525,6 +771,7 @@ function App() {
   };
 
   const handleAddClass = () => {
+    if (!ensureAllowed(canManageClasses(profile))) return;
     setInputModalConfig({
         isOpen: true,
         title: 'Yeni Sınıf Ekle',
@@ -532,14 +779,19 @@ function App() {
         onSubmit: async (name) => {
             if (name) {
                 const newClass = { id: Date.now().toString(), name };
-                await apiAddClass(newClass);
-                setClasses(prev => [...prev, newClass]);
+                try {
+                    await apiAddClass(newClass);
+                    setClasses(prev => [...prev, newClass]);
+                } catch (err) {
+                    alert("Sınıf eklenemedi." + describeWriteFailure(err));
+                }
             }
         }
     });
   };
 
   const handleEditClass = (id: string, currentName: string) => {
+    if (!ensureAllowed(canManageClasses(profile))) return;
     setInputModalConfig({
         isOpen: true,
         title: 'Sınıfı Düzenle',
@@ -548,80 +800,119 @@ function App() {
         onSubmit: async (name) => {
             if (name) {
                 const updated = { id, name };
-                await apiUpdateClass(updated); // Servis kullanıldı
-                setClasses(prev => prev.map(c => c.id === id ? updated : c));
+                try {
+                    await apiUpdateClass(updated); // Servis kullanıldı
+                    setClasses(prev => prev.map(c => c.id === id ? updated : c));
+                } catch (err) {
+                    alert("Sınıf güncellenemedi." + describeWriteFailure(err));
+                }
             }
         }
     });
   };
 
   const handleDeleteClass = (id: string) => {
+    if (!ensureAllowed(canManageClasses(profile))) return;
     if (students.some(s => s.classroomId === id)) {
       alert("Bu sınıfta öğrenci var, önce öğrencileri taşıyın veya silin.");
       return;
     }
+    const classroom = allClasses.find(c => c.id === id);
+    if (!classroom) return;
     setConfirmModalConfig({
         isOpen: true,
         title: 'Sınıfı Sil',
-        message: 'Bu sınıfı silmek istediğinize emin misiniz?',
+        message: `Bu sınıf çöp kutusuna taşınacak ve ${TRASH_RETENTION_DAYS} gün içinde geri yüklenebilecek. Devam etmek istiyor musunuz?`,
         onConfirm: async () => {
-            await apiDeleteClass(id);
-            setClasses(prev => prev.filter(c => c.id !== id));
+            const item = trashClass(classroom, profile);
+            try {
+                await apiMoveToTrash([item], []);
+                setClasses(prev => prev.filter(c => c.id !== id));
+                setTrashItems(prev => [item, ...prev]);
+            } catch (e) {
+                alert("Sınıf silinemedi.");
+            }
         }
     });
   };
 
   const handleSaveStudent = async (studentData: Omit<Student, 'id'> | Student) => {
-    if ('id' in studentData) {
-        await apiUpdateStudent(studentData as Student);
-        setStudents(prev => prev.map(s => s.id === studentData.id ? studentData as Student : s));
-    } else {
-        const newStudent = { ...studentData, id: Date.now().toString() };
-        await apiAddStudent(newStudent as Student);
-        setStudents(prev => [...prev, newStudent as Student]);
+    const original = 'id' in studentData ? students.find(s => s.id === studentData.id) : null;
+    if (!ensureAllowed(canEditClass(profile, studentData.classroomId) && (!original || canEditStudent(profile, original)))) return;
+    try {
+        if ('id' in studentData) {
+            await apiUpdateStudent(studentData as Student);
+            setStudents(prev => prev.map(s => s.id === studentData.id ? studentData as Student : s));
+        } else {
+            const newStudent = { ...studentData, id: Date.now().toString() };
+            await apiAddStudent(newStudent as Student);
+            setStudents(prev => [...prev, newStudent as Student]);
+        }
+    } catch (err) {
+        alert("Öğrenci kaydedilemedi." + describeWriteFailure(err));
     }
   };
 
   const handleDeleteStudent = (id: string) => {
+    if (!ensureAllowed(canEditStudent(profile, students.find(s => s.id === id)))) return;
+    const student = allStudents.find(s => s.id === id);
+    if (!student) return;
     setConfirmModalConfig({
         isOpen: true,
         title: 'Öğrenciyi Sil',
-        message: 'Öğrenci silinsin mi?',
+        message: `Öğrenci tüm sonuçlarıyla birlikte çöp kutusuna taşınacak ve ${TRASH_RETENTION_DAYS} gün içinde geri yüklenebilecek. Veli bağlantıları iptal edilir ve geri yüklemede açılmaz. Devam etmek istiyor musunuz?`,
         onConfirm: async () => {
-            setStudents(prev => prev.filter(s => s.id !== id));
-            setExams(prev => prev.filter(e => e.studentId !== id));
-            handleNavigation('STUDENTS');
-            await apiDeleteStudent(id);
-            const studentExams = exams.filter(e => e.studentId === id);
-            for(const ex of studentExams) await apiDeleteExamResult(ex.id);
+            if (await moveStudentsToTrash([student]) > 0) handleNavigation('STUDENTS');
         }
     });
   };
 
+  // One trash item per student, so each can be restored on its own and a cancelled run stops between students.
+  // State follows what was written, also after a failure; returns the number of students moved.
+  const moveStudentsToTrash = async (toTrash: Student[]): Promise<number> => {
+    const items = toTrash.map(s => trashStudent(s, allExams, profile));
+    const oversized = items.filter(isTrashItemTooLarge);
+    if (oversized.length > 0) {
+        alert(`Şu öğrencilerin sonuçları çöp kutusuna sığmayacak kadar fazla: ${oversized.map(item => item.label).join(', ')}. Silme yapılmadı.`);
+        return 0;
+    }
+    let written = 0;
+    setIsLoading(true);
+    try {
+        const result = await runWithProgress('Öğrenciler çöp kutusuna taşınıyor', true, options => apiMoveToTrash(items, shareLinks, options));
+        written = result.written;
+        if (result.cancelled) alert(`Silme durduruldu. ${written}/${items.length} öğrenci çöp kutusuna taşındı.`);
+    } catch (err) {
+        if (isChunkedWriteError(err)) written = err.written;
+        alert((items.length === 1 ? "Öğrenci silinemedi." : "Toplu silme sırasında hata oluştu.") + describeWriteFailure(err));
+    } finally {
+        const removedIds = new Set(items.slice(0, written).flatMap(item => getTrashedDocs<Student>(item, 'students').map(s => s.id)));
+        setStudents(prev => prev.filter(s => !removedIds.has(s.id)));
+        setExams(prev => prev.filter(e => !removedIds.has(e.studentId)));
+        setTrashItems(prev => [...items.slice(0, written), ...prev]);
+        markShareLinksRevoked(removedIds);
+        setSelectedBatchStudentIds(prev => {
+            const next = new Set(prev);
+            removedIds.forEach(id => next.delete(id));
+            return next;
+        });
+        setIsLoading(false);
+    }
+    return written;
+  };
+
   const handleDeleteMultipleStudents = () => {
     const count = selectedBatchStudentIds.size;
     if (count === 0) return;
+    if (!ensureAllowed(Array.from(selectedBatchStudentIds).every(id => canEditStudent(profile, students.find(s => s.id === id))))) return;
 
     setConfirmModalConfig({
         isOpen: true,
         title: 'Toplu Silme',
-        message: `${count} öğrenciyi ve tüm sonuçlarını silmek istediğinize emin misiniz?`,
+        message: `${count} öğrenci tüm sonuçlarıyla birlikte çöp kutusuna taşınacak ve ${TRASH_RETENTION_DAYS} gün içinde geri yüklenebilecek. Veli bağlantıları iptal edilir ve geri yüklemede açılmaz. Devam etmek istiyor musunuz?`,
         onConfirm: async () => {
             const idsToDelete: string[] = Array.from(selectedBatchStudentIds);
-            
-            setIsLoading(true);
-            try {
-                const studentExamsToDelete = exams.filter(e => idsToDelete.includes(e.studentId));
-                for(const ex of studentExamsToDelete) await apiDeleteExamResult(ex.id);
-                await apiDeleteMultipleStudents(idsToDelete);
-                setStudents(prev => prev.filter(s => !idsToDelete.includes(s.id)));
-                setExams(prev => prev.filter(e => !idsToDelete.includes(e.studentId)));
-                setSelectedBatchStudentIds(new Set());
-            } catch (err) {
-                alert("Toplu silme sırasında hata oluştu.");
-            } finally {
-                setIsLoading(false);
-            }
+            await moveStudentsToTrash(allStudents.filter(s => idsToDelete.includes(s.id)));
         }
     });
   };
@@ -633,336 +924,484 @@ function App() {
   };
 
   const handleSaveExam = async (examData: ExamResult | Omit<ExamResult, 'id'>) => {
-    if ('id' in examData) {
-      await apiUpdateExamResult(examData);
-      setExams(prev => prev.map(e => e.id === examData.id ? examData : e));
-    } else {
-      const newResult = { ...examData, id: Date.now().toString() };
-      await apiAddExamResult(newResult);
-      setExams(prev => [...prev, newResult]);
+    if (!ensureAllowed(canEditStudent(profile, students.find(s => s.id === examData.studentId)))) return;
+    try {
+      if ('id' in examData) {
+        await apiUpdateExamResult(examData);
+        setExams(prev => prev.map(e => e.id === examData.id ? examData : e));
+      } else {
+        const newResult = { ...examData, id: Date.now().toString() };
+        await apiAddExamResult(newResult);
+        setExams(prev => [...prev, newResult]);
+      }
+    } catch (e) {
+      alert("Sonuç kaydedilemedi.");
     }
   };
 
+  const handleSetAbsenceReason = (result: ExamResult, reason: AbsenceReason | '') => {
+    const { absenceReason, ...rest } = result;
+    return handleSaveExam(reason ? { ...rest, absenceReason: reason } : rest);
+  };
+
   const handleDeleteExamResult = (id: string) => {
+    const result = exams.find(e => e.id === id);
+    if (!ensureAllowed(canEditStudent(profile, students.find(s => s.id === result?.studentId)))) return;
     setConfirmModalConfig({
         isOpen: true,
         title: 'Sonucu Sil',
         message: 'Silmek istediğinize emin misiniz?',
         onConfirm: async () => {
-            await apiDeleteExamResult(id);
-            setExams(prev => prev.filter(e => e.id !== id));
+            try {
+                await apiDeleteExamResult(id);
+                setExams(prev => prev.filter(e => e.id !== id));
+            } catch (e) {
+                alert("Sonuç silinemedi.");
+            }
         }
     });
   };
 
   const handleAddExamDefinition = () => {
-    setInputModalConfig({
-        isOpen: true,
-        title: 'Yeni Deneme Ekle',
-        placeholder: 'Deneme Adı',
-        showDatePicker: true,
-        onSubmit: async (name, date) => {
-            if (name && date) {
-                const newDef = { id: Date.now().toString(), name, date };
-                await apiAddExamDefinition(newDef);
-                setExamDefinitions(prev => [...prev, newDef]);
+    if (!ensureAllowed(canManageExamDefinitions(profile))) return;
+    setEditingExamDef(null);
+    setIsExamDefModalOpen(true);
+  };
+
+  const handleEditExamDefinition = (def: ExamDefinition) => {
+    if (!ensureAllowed(canManageExamDefinitions(profile))) return;
+    setEditingExamDef(def);
+    setIsExamDefModalOpen(true);
+  };
+
+  const handleSaveExamDefinition = async (defData: ExamDefinition | Omit<ExamDefinition, 'id'>) => {
+    if (!ensureAllowed(canManageExamDefinitions(profile))) return;
+    try {
+        if ('id' in defData) {
+            const previous = examDefinitions.find(e => e.id === defData.id);
+            await apiUpdateExamDefinition(defData);
+            setExamDefinitions(prev => prev.map(e => e.id === defData.id ? defData : e));
+
+            const oldPolicy = getScoringPolicy(previous);
+            const newPolicy = getScoringPolicy(defData);
+            const policyChanged = oldPolicy.questionCount !== newPolicy.questionCount || oldPolicy.penaltyRatio !== newPolicy.penaltyRatio || oldPolicy.rounding !== newPolicy.rounding || (previous?.answerKey || '') !== (defData.answerKey || '');
+            if (policyChanged && exams.some(e => e.examId === defData.id && e.status !== 'MISSING')) {
+                handleRescoreExamDefinition(defData);
             }
+        } else {
+            // New definitions go to the term on screen, so an archived term can still be completed
+            const newDef: ExamDefinition = { ...defData, id: Date.now().toString(), ...(viewedTerm ? { termId: viewedTerm.id } : {}) };
+            await apiAddExamDefinition(newDef);
+            setExamDefinitions(prev => [...prev, newDef]);
         }
-    });
+    } catch (err) {
+        alert("Deneme kaydedilemedi." + describeWriteFailure(err));
+    }
   };
 
-  const handleEditExamDefinition = (id: string, currentName: string, currentDate: string) => {
-    setInputModalConfig({
+  const handleRescoreExamDefinition = (def: ExamDefinition) => {
+    if (!ensureAllowed(canManageExamDefinitions(profile))) return;
+    setConfirmModalConfig({
         isOpen: true,
-        title: 'Deneme Düzenle',
-        placeholder: 'Deneme Adı',
-        initialValue: currentName,
-        initialDate: currentDate,
-        showDatePicker: true,
-        onSubmit: async (name, date) => {
-            if (name && date) {
-                const updated = { id, name, date };
-                await apiUpdateExamDefinition(updated);
-                setExamDefinitions(prev => prev.map(e => e.id === id ? updated : e));
+        title: 'Netleri Yeniden Hesapla',
+        message: `"${def.name}" denemesine ait tüm sonuçların boş ve net değerleri güncel puanlama kuralına göre yeniden hesaplanacak. Devam etmek istiyor musunuz?`,
+        confirmLabel: 'Hesapla',
+        onConfirm: async () => {
+            const relatedExams = exams.filter(e => belongsTo(e, def));
+            const { updated, invalid } = rescoreResults(def, relatedExams);
+            let written = 0;
+            setIsLoading(true);
+            try {
+                written = (await runWithProgress('Netler yeniden hesaplanıyor', false, options => apiUpdateMultipleExamResults(updated, options))).written;
+                let msg = `${updated.length} sonuç yeniden hesaplandı.`;
+                if (invalid.length > 0) msg += `\n\n${invalid.length} sonuç soru sayısını aştığı için değiştirilmedi.`;
+                alert(msg);
+            } catch (err) {
+                if (isChunkedWriteError(err)) written = err.written;
+                alert("Yeniden hesaplama sırasında hata oluştu." + describeWriteFailure(err));
+            } finally {
+                const updatedById = new Map(updated.slice(0, written).map(r => [r.id, r]));
+                setExams(prev => prev.map(e => updatedById.get(e.id) || e));
+                setIsLoading(false);
             }
         }
     });
-  }
+  };
 
   const handleDeleteExamDefinition = (id: string) => {
-    const examName = examDefinitions.find(ed => ed.id === id)?.name;
+    if (!ensureAllowed(canManageExamDefinitions(profile))) return;
+    const def = allExamDefinitions.find(ed => ed.id === id);
+    if (!def) return;
     setConfirmModalConfig({
         isOpen: true,
         title: 'Denemeyi Sil',
-        message: 'DİKKAT: Bu denemeyi sildiğinizde bu denemeye ait TÜM öğrenci sonuçları da kalıcı olarak silinecektir. Devam etmek istiyor musunuz?',
+        message: `Bu deneme, ona ait TÜM öğrenci sonuçlarıyla birlikte çöp kutusuna taşınacak ve ${TRASH_RETENTION_DAYS} gün içinde geri yüklenebilecek. Devam etmek istiyor musunuz?`,
         onConfirm: async () => {
-            const relatedExams = exams.filter(e => e.examId === id || e.examName === examName);
-            for (const r of relatedExams) {
-                await apiDeleteExamResult(r.id);
+            const relatedExams = exams.filter(e => belongsTo(e, def));
+            const relatedIds = new Set(relatedExams.map(r => r.id));
+            const item = trashExamDefinition(def, relatedExams, profile);
+            if (isTrashItemTooLarge(item)) {
+                if (!window.confirm(`Bu denemenin ${relatedExams.length} sonucu çöp kutusuna sığmayacak kadar fazla. Deneme ve sonuçları geri yüklenemeyecek şekilde KALICI olarak silinsin mi? (Önce yedek almanız önerilir.)`)) return;
+                return deleteExamDefinitionPermanently(def, relatedExams);
+            }
+            try {
+                await apiMoveToTrash([item], []);
+                setExamDefinitions(prev => prev.filter(e => e.id !== id));
+                setExams(prev => prev.filter(e => !relatedIds.has(e.id)));
+                setTrashItems(prev => [item, ...prev]);
+                if (view === 'EXAM_DETAIL') handleNavigation('EXAMS');
+            } catch (e) {
+                alert("Deneme silinemedi." + describeWriteFailure(e));
             }
-            await apiDeleteExamDefinition(id);
-            setExamDefinitions(prev => prev.filter(e => e.id !== id));
-            setExams(prev => prev.filter(e => e.examId !== id && e.examName !== examName));
-            if (view === 'EXAM_DETAIL') handleNavigation('EXAMS');
         }
     });
   };
 
-  const handleBatchStudentImport = async (text: string) => {
+  // State follows what was written; the definition itself goes with the last chunk
+  const deleteExamDefinitionPermanently = async (def: ExamDefinition, results: ExamResult[]) => {
+    let written = 0;
     setIsLoading(true);
-    const lines = text.split('\n').filter(l => l.trim().length > 0);
-    const newStudentsPayload: any[] = [];
-    const classNamesFound = new Set<string>();
-
-    const norm = (str: string) => str.trim().toLocaleLowerCase('tr').replace(/\s+/g, ' ');
-
-    lines.forEach(line => {
-        let parts = line.split('\t').map(p => p.trim()).filter(p => p);
-        if (parts.length < 2) parts = line.trim().split(/\s+/);
-        if (parts.length >= 2) {
-             const className = parts.pop()!;
-             const surname = parts.length > 1 ? parts.pop()! : '';
-             const name = parts.join(' ');
-             if (name && className) {
-                 classNamesFound.add(className);
-                 newStudentsPayload.push({ name, surname, className });
-             }
-        }
-    });
-
-    if (newStudentsPayload.length === 0) {
-        alert("Geçerli veri bulunamadı.");
+    try {
+        written = (await runWithProgress('Deneme siliniyor', false, options => apiDeleteExamDefinitionPermanently(def, results.map(r => r.id), options))).written;
+        if (view === 'EXAM_DETAIL') handleNavigation('EXAMS');
+    } catch (err) {
+        if (isChunkedWriteError(err)) written = err.written;
+        alert("Deneme silinirken hata oluştu." + describeWriteFailure(err));
+    } finally {
+        const deletedIds = new Set(results.slice(0, written).map(r => r.id));
+        setExams(prev => prev.filter(e => !deletedIds.has(e.id)));
+        if (written > results.length) setExamDefinitions(prev => prev.filter(e => e.id !== def.id));
         setIsLoading(false);
-        return;
     }
+  };
 
+  const importContext: ImportContext = { students, classes, exams, examDefinitions, profile };
+
+  // Writes a confirmed import plan in chunks. State is updated with whatever was written, even after a failure
+  // or a cancel, and the written documents are recorded as an import session so they can be rolled back later.
+  const commitImportPlan = async (plan: ImportPlan, kind: ImportSessionKind, options: ChunkedWriteOptions) => {
+    const tempClasses = [...allClasses];
+    const tempStudents = [...allStudents];
+    const tempResults = [...allExams];
+    const session = createImportSession(kind, profile);
+    const writes = listPlanWrites(plan);
+    let written = 0;
     try {
-        const tempClasses = [...classes];
-        for (const cName of Array.from(classNamesFound)) {
-            let cls = tempClasses.find(c => norm(c.name) === norm(cName));
-            if (!cls) {
-                cls = { id: Date.now().toString() + Math.floor(Math.random() * 1000).toString(), name: cName };
-                await apiAddClass(cls);
-                tempClasses.push(cls);
+        const result = await apiCommitImportWrites(writes, options);
+        written = result.written;
+        return result;
+    } catch (e) {
+        if (isChunkedWriteError(e)) written = e.written;
+        throw e;
+    } finally {
+        writes.slice(0, written).forEach(({ collection, doc, isNew }) => {
+            if (collection === 'classrooms') {
+                tempClasses.push(doc as Classroom);
+                recordImportChange(session, 'classrooms', null, doc);
+                return;
             }
-        }
+            const docs: { id: string }[] = collection === 'students' ? tempStudents : tempResults;
+            const index = isNew ? -1 : docs.findIndex(d => d.id === doc.id);
+            recordImportChange(session, collection, index >= 0 ? docs[index] : null, doc);
+            if (index >= 0) docs[index] = doc;
+            else docs.push(doc);
+        });
         setClasses(tempClasses);
+        setStudents(tempStudents);
+        setExams(tempResults);
+        if (session.changes.length > 0) {
+            const counts = countPlanLines(plan);
+            session.summary = `${counts.NEW} yeni, ${counts.UPDATE} güncellendi` + (counts.MISSING > 0 ? `, ${counts.MISSING} girmedi` : '');
+            try {
+                await apiAddImportSession(session);
+            } catch (e) {
+                console.error("Import session could not be saved:", e);
+                alert("Kayıtlar yazıldı ancak içe aktarma geçmişine eklenemedi; bu içe aktarma geçmişten geri alınamayacak.");
+            }
+        }
+    }
+  };
 
-        const tempStudents = [...students];
-        let addedCount = 0; let updatedCount = 0;
+  const handleBatchImportPreview = (text: string, resolutions: NameResolutions): ImportPlan => {
+    if (batchModalMode === 'student') return planStudentImport(text, importContext, resolutions);
+    if (batchModalMode === 'result') return planResultImport(text, importContext, resolutions);
+    return planClassChange(text, importContext, resolutions);
+  };
 
-        for (const s of newStudentsPayload) {
-            const cls = tempClasses.find(c => norm(c.name) === norm(s.className));
-            if (cls) {
-                const existingStudentIndex = tempStudents.findIndex(st => norm(st.name) === norm(s.name) && norm(st.surname) === norm(s.surname));
-                
-                if (existingStudentIndex !== -1) {
-                    const existingStudent = tempStudents[existingStudentIndex];
-                    if (existingStudent.classroomId !== cls.id) {
-                        const updatedStudent = { ...existingStudent, classroomId: cls.id };
-                        await apiUpdateStudent(updatedStudent);
-                        tempStudents[existingStudentIndex] = updatedStudent;
-                        updatedCount++;
-                    }
-                } else {
-                    const newStudent = { id: Date.now().toString() + Math.floor(Math.random() * 10000).toString(), name: s.name, surname: s.surname, classroomId: cls.id };
-                    await apiAddStudent(newStudent);
-                    tempStudents.push(newStudent);
-                    addedCount++;
-                }
-            }
+  const handleImportCommit = async (plan: ImportPlan, kind: ImportSessionKind, onDone: () => void) => {
+    if (!ensureAllowed(canWrite(profile))) return;
+    setIsLoading(true);
+    try {
+        const { written, cancelled } = await runWithProgress('İçe aktarılıyor', true, options => commitImportPlan(plan, kind, options));
+        onDone();
+        if (cancelled) {
+            alert(`İçe aktarma durduruldu. ${written}/${listPlanWrites(plan).length} kayıt kaydedildi; kaydedilenler içe aktarma geçmişinden geri alınabilir.` + pendingWritesNote());
+            return;
         }
-        setStudents(tempStudents);
-        setIsBatchModalOpen(false);
-        alert(`Bitti! ${addedCount} yeni eklendi, ${updatedCount} öğrencinin sınıfı güncellendi.`);
+        const counts = countPlanLines(plan);
+        const parts = [`${counts.NEW} yeni`, `${counts.UPDATE} güncellendi`];
+        if (counts.MISSING > 0) parts.push(`${counts.MISSING} girmedi`);
+        if (counts.SKIPPED > 0) parts.push(`${counts.SKIPPED} atlandı`);
+        alert(`Bitti! ${parts.join(', ')}.` + pendingWritesNote());
     } catch (e) {
-        alert("Hata oluştu.");
+        alert("Veriler kaydedilirken hata oluştu. Kaydedilen kısım ekranda görünüyor." + describeWriteFailure(e));
     } finally {
         setIsLoading(false);
     }
   };
 
-  const handleBatchResultImport = async (text: string) => {
+  const handleBatchImportCommit = (plan: ImportPlan) => handleImportCommit(plan, BATCH_IMPORT_KINDS[batchModalMode], () => setIsBatchModalOpen(false));
+
+  const handleFileResultImport = (plan: ImportPlan) =>
+    handleImportCommit(plan, 'RESULT_FILE', () => setIsResultFileModalOpen(false));
+
+  // Undoes a whole import session; documents edited after the import are listed before confirming
+  const handleRollbackImport = async (session: ImportSession): Promise<ImportSession | null> => {
+    if (!ensureAllowed(canRollbackImport(profile, session))) return null;
+    const plan = planRollback(session, { students: allStudents, classes: allClasses, exams: allExams });
+    if (!hasRollbackChanges(plan)) {
+        alert("Bu içe aktarmadan geri alınacak kayıt kalmadı.");
+        return null;
+    }
+    let message = `${plan.remove.length} eklenen kayıt silinecek, ${plan.restore.length} güncellenen kayıt eski haline dönecek.`;
+    if (plan.conflicts.length > 0) message += `\n\nDİKKAT: ${plan.conflicts.length} kayıt bu içe aktarmadan sonra değiştirilmiş veya silinmiş. Geri alınırsa bu sonraki değişiklikler de kaybolur.`;
+    if (plan.laterResults.length > 0) message += `\n\nDİKKAT: Bu içe aktarmayla eklenen öğrencilere sonradan ${plan.laterResults.length} sonuç girilmiş. Öğrencilerle birlikte bu sonuçlar da silinecek.`;
+    if (plan.keptClasses.length > 0) message += `\n\nİçinde başka öğrenciler olduğu için şu sınıflar silinmeyecek: ${plan.keptClasses.map(c => c.name).join(', ')}.`;
+    if (!window.confirm(message + "\n\nİçe aktarma geri alınsın mı?")) return null;
+
+    const updated: ImportSession = { ...session, rolledBackAt: new Date().toISOString() };
+    const applyToState = (written: RollbackPlan) => {
+        setClasses(prev => applyRollback(prev, 'classrooms', written));
+        setStudents(prev => applyRollback(prev, 'students', written));
+        setExams(prev => applyRollback(prev, 'examResults', written));
+    };
     setIsLoading(true);
-    const lines = text.split('\n').filter(l => l.trim().length > 0);
-    const norm = (str: string) => str.trim().toLocaleLowerCase('tr').replace(/\s+/g, ' ');
+    try {
+        await runWithProgress('İçe aktarma geri alınıyor', false, options => apiRollbackImportSession(updated, plan, options));
+        applyToState(plan);
+        alert("İçe aktarma geri alındı." + pendingWritesNote());
+        return updated;
+    } catch (e) {
+        // The session is only marked at the end, so the rest can be undone by rolling back again
+        if (isChunkedWriteError(e)) applyToState(takeRollbackPrefix(plan, e.written));
+        alert("İçe aktarma geri alınamadı." + describeWriteFailure(e));
+        return null;
+    } finally {
+        setIsLoading(false);
+    }
+  };
 
-    let addedCount = 0; let updatedCount = 0; let skippedCount = 0; let missingCount = 0;
-    const skippedExams = new Set<string>();
+  // --- PARENT SHARE LINKS ---
 
+  const handleCreateShareLink = async (student: Student, days: number | null) => {
+    if (!ensureAllowed(canEditStudent(profile, student))) return;
+    const link = createShareLink(student, days, { classes: allClasses, exams: allExams, examDefinitions: allExamDefinitions }, profile);
     try {
-        const tempStudents = [...students];
-        const tempResults = [...exams];
-        const processedExamStudentIds = new Map<string, Set<string>>();
-        const involvedClassIdsByExam = new Map<string, Set<string>>();
-
-        for (const line of lines) {
-            let parts = line.split('\t').map(p => p.trim()).filter(p => p !== "");
-            if (parts.length < 3) {
-                 const spaceParts = line.trim().split(/\s+/);
-                 if (spaceParts.length >= 4) {
-                     const incStr = spaceParts.pop(); const corrStr = spaceParts.pop(); const rest = spaceParts.join(' ');
-                     parts = [rest, corrStr!, incStr!];
-                 }
-            }
+        await apiSaveShareLink(link);
+        setShareLinks(prev => [link, ...prev]);
+    } catch (e) {
+        alert("Veli bağlantısı oluşturulamadı.");
+    }
+  };
 
-            if (parts.length >= 3) {
-                const incorrectStr = parts.pop()!;
-                const correctStr = parts.pop()!;
-                const correct = parseInt(correctStr);
-                const incorrect = parseInt(incorrectStr);
+  const handleRevokeShareLink = async (link: ShareLink) => {
+    if (!ensureAllowed(canManageShareLink(profile, link))) return;
+    if (!window.confirm("Bu bağlantı iptal edilsin mi? Bağlantıyı açan kişi artık sonuçları göremez.")) return;
+    try {
+        await apiRevokeShareLink(link.id);
+        setShareLinks(prev => prev.map(l => l.id === link.id ? { ...l, revoked: true } : l));
+    } catch (e) {
+        alert("Bağlantı iptal edilemedi.");
+    }
+  };
 
-                if (isNaN(correct) || isNaN(incorrect) || (correct + incorrect > 10)) {
-                    skippedCount++; continue;
-                }
-                
-                let examNameStr = ""; let studentNameStr = "";
-
-                if (parts.length >= 2) {
-                    studentNameStr = parts.pop()!; examNameStr = parts.join(' ');
-                } else {
-                    const mixedStr = parts[0];
-                    const matchedExam = examDefinitions.sort((a,b) => b.name.length - a.name.length).find(e => norm(mixedStr).startsWith(norm(e.name)));
-                    if (matchedExam) {
-                        examNameStr = matchedExam.name;
-                        studentNameStr = mixedStr.substring(examNameStr.length).trim();
-                    } else {
-                        skippedCount++; continue;
-                    }
-                }
+  const handleRegenerateShareLink = async (link: ShareLink) => {
+    if (!ensureAllowed(canManageShareLink(profile, link))) return;
+    const student = allStudents.find(s => s.id === link.studentId);
+    if (!student) {
+        alert("Bu bağlantının öğrencisi bulunamadı.");
+        return;
+    }
+    if (!window.confirm("Yeni bir bağlantı üretilecek ve eski bağlantı çalışmayacak. Devam edilsin mi?")) return;
+    const next = regenerateShareLink(link, student, { classes: allClasses, exams: allExams, examDefinitions: allExamDefinitions }, profile);
+    try {
+        await apiReplaceShareLink(link.id, next);
+        setShareLinks(prev => [next, ...prev.filter(l => l.id !== link.id)]);
+    } catch (e) {
+        alert("Bağlantı yenilenemedi.");
+    }
+  };
 
-                const examDef = examDefinitions.find(e => norm(e.name) === norm(examNameStr));
-                if (!examDef) {
-                    skippedExams.add(examNameStr);
-                    skippedCount++; continue;
-                }
+  const handleDeleteShareLink = async (link: ShareLink) => {
+    if (!ensureAllowed(canManageShareLink(profile, link))) return;
+    try {
+        await apiDeleteShareLink(link.id);
+        setShareLinks(prev => prev.filter(l => l.id !== link.id));
+    } catch (e) {
+        alert("Bağlantı silinemedi.");
+    }
+  };
 
-                const student = tempStudents.find(s => norm(`${s.name} ${s.surname}`) === norm(studentNameStr) || norm(`${s.surname} ${s.name}`) === norm(studentNameStr));
-                if (!student) {
-                    skippedCount++; continue;
-                }
+  // Mirrors the revocation written along with a trash or merge (see apiMoveToTrash)
+  const markShareLinksRevoked = (studentIds: Set<string>) => {
+    setShareLinks(prev => prev.map(l => studentIds.has(l.studentId) ? { ...l, revoked: true } : l));
+  };
 
-                if (!processedExamStudentIds.has(examDef.id)) {
-                    processedExamStudentIds.set(examDef.id, new Set());
-                    involvedClassIdsByExam.set(examDef.id, new Set());
-                }
-                processedExamStudentIds.get(examDef.id)!.add(student.id);
-                involvedClassIdsByExam.get(examDef.id)!.add(student.classroomId);
-
-                const empty = 10 - (correct + incorrect);
-                const net = parseFloat((correct - (incorrect * 0.33)).toFixed(2));
-                const existingResult = tempResults.find(r => r.studentId === student.id && r.examId === examDef!.id);
-                 
-                const resultData = {
-                    studentId: student.id, examId: examDef!.id, examName: examDef!.name, date: examDef!.date,
-                    correct, incorrect, empty, net, status: 'ATTENDED' as const
-                };
-
-                if (existingResult) {
-                    const updated = { ...resultData, id: existingResult.id };
-                    await apiUpdateExamResult(updated);
-                    const idx = tempResults.findIndex(r => r.id === existingResult.id);
-                    tempResults[idx] = updated;
-                    updatedCount++;
-                } else {
-                    const newResult = { ...resultData, id: Date.now().toString() + Math.random().toString() };
-                    await apiAddExamResult(newResult);
-                    tempResults.push(newResult);
-                    addedCount++;
-                }
-            } else skippedCount++;
-        }
+  // --- TRASH ---
+  const handleRestoreTrashItem = async (item: TrashItem) => {
+    if (!ensureAllowed(canManageTrashItem(profile, item))) return;
+    try {
+        await apiRestoreFromTrash(item);
+        setStudents(prev => mergeRestored(prev, getTrashedDocs<Student>(item, 'students')));
+        setClasses(prev => mergeRestored(prev, getTrashedDocs<Classroom>(item, 'classrooms')));
+        setExams(prev => mergeRestored(prev, getTrashedDocs<ExamResult>(item, 'examResults')));
+        setExamDefinitions(prev => mergeRestored(prev, getTrashedDocs<ExamDefinition>(item, 'examDefinitions')));
+        setTrashItems(prev => prev.filter(i => i.id !== item.id));
+    } catch (e) {
+        alert("Kayıt geri yüklenemedi.");
+    }
+  };
 
-        for (const [examId, classIds] of involvedClassIdsByExam.entries()) {
-             const processedStudentIds = processedExamStudentIds.get(examId)!;
-             const examDef = examDefinitions.find(e => e.id === examId);
-             if (!examDef) continue;
-             const studentsInvolved = tempStudents.filter(s => classIds.has(s.classroomId));
-             for (const student of studentsInvolved) {
-                 if (!processedStudentIds.has(student.id)) {
-                     const existingResult = tempResults.find(r => r.studentId === student.id && r.examId === examId);
-                     if (!existingResult) {
-                         const missingResult = {
-                            id: Date.now() + Math.random().toString(), studentId: student.id, examId: examId, examName: examDef.name, date: examDef.date,
-                            correct: 0, incorrect: 0, empty: 0, net: 0, status: 'MISSING' as const
-                         };
-                         await apiAddExamResult(missingResult);
-                         tempResults.push(missingResult);
-                         missingCount++;
-                     }
-                 }
-             }
-        }
+  const handlePurgeTrashItem = async (item: TrashItem) => {
+    if (!ensureAllowed(canManageTrashItem(profile, item))) return;
+    try {
+        await apiPurgeTrash([item.id]);
+        setTrashItems(prev => prev.filter(i => i.id !== item.id));
+    } catch (e) {
+        alert("Kayıt silinemedi.");
+    }
+  };
 
-        setExams(tempResults);
-        setIsBatchModalOpen(false);
-        let msg = `${addedCount} yeni, ${updatedCount} güncellendi, ${missingCount} girmedi.`;
-        if (skippedExams.size > 0) msg += `\n\nTanımsız sınavlar (atlandı): ${Array.from(skippedExams).join(', ')}`;
-        alert(msg);
+  // --- INTEGRITY ---
+  // State follows exactly what was written, so a failed repair can be continued by scanning again
+  const handleIntegrityRepair = async (label: string, repair: IntegrityRepair) => {
+    if (!ensureAllowed(canRunIntegrityCheck(profile))) return;
+    let written = 0;
+    setIsLoading(true);
+    try {
+        written = (await runWithProgress(label, false, options => apiApplyIntegrityRepair(label, repair, options))).written;
+        alert(`Onarım tamamlandı: ${countRepairWrites(repair)} kayıt.` + pendingWritesNote());
     } catch (e) {
-        alert("Hata.");
+        if (isChunkedWriteError(e)) written = e.written;
+        alert("Onarım sırasında hata oluştu." + describeWriteFailure(e));
     } finally {
+        const done = takeRepairPrefix(repair, written);
+        const deletedIds = new Set(done.trashItems.flatMap(item => getTrashedDocs<ExamResult>(item, 'examResults').map(r => r.id)));
+        const updatedResults = new Map(done.updateResults.map(r => [r.id, r]));
+        const updatedStudents = new Map(done.updateStudents.map(s => [s.id, s]));
+        setExams(prev => prev.filter(e => !deletedIds.has(e.id)).map(e => updatedResults.get(e.id) || e));
+        setStudents(prev => prev.map(s => updatedStudents.get(s.id) || s));
+        setTrashItems(prev => [...done.trashItems, ...prev]);
         setIsLoading(false);
     }
   };
 
-  const handleBatchClassChange = async (text: string) => {
-    setIsLoading(true);
-    const lines = text.split('\n').filter(l => l.trim().length > 0);
-    const norm = (str: string) => str.trim().toLocaleLowerCase('tr').replace(/\s+/g, ' ');
-
-    let updatedCount = 0;
-    let notFoundCount = 0;
+  const handleTrashOrphanStudents = async (orphans: Student[]) => {
+    if (!ensureAllowed(canRunIntegrityCheck(profile))) return;
+    await moveStudentsToTrash(orphans);
+  };
 
+  // --- DUPLICATE STUDENTS ---
+  // State follows what was written: a merge too large for one batch can fail after its first chunks
+  const handleMergeStudents = async (survivor: Student, removed: Student, choices: Record<string, ConflictChoice>): Promise<boolean> => {
+    const keep = allStudents.find(s => s.id === survivor.id);
+    const drop = allStudents.find(s => s.id === removed.id);
+    if (!keep || !drop || !ensureAllowed(canEditStudent(profile, keep) && canEditStudent(profile, drop))) return false;
+    const plan = planStudentMerge(keep, drop, allExams, allExamDefinitions, terms, choices, profile);
+    if (isTrashItemTooLarge(plan.trashItem)) {
+        alert("Silinecek kayıt ve sonuçları çöp kutusuna sığmayacak kadar fazla. Birleştirme yapılmadı.");
+        return false;
+    }
+    // Term documents are admin-only; without them archived rosters keep the removed id and show the survivor as absent
+    if (!canManageTerms(profile)) plan.terms = [];
+    const groupCount = plan.movedResults.length + plan.terms.length + 1;
+    let written = 0;
+    setIsLoading(true);
     try {
-        const tempStudents = [...students];
-        const tempClasses = [...classes];
+        written = (await runWithProgress(`${drop.name} ${drop.surname} birleştiriliyor`, false, options => apiMergeStudents(plan, shareLinks, options))).written;
+        alert(`Kayıtlar birleştirildi: ${plan.movedResults.length} sonuç aktarıldı. Silinen kayıt çöp kutusunda.` + pendingWritesNote());
+        return true;
+    } catch (e) {
+        if (isChunkedWriteError(e)) written = e.written;
+        alert("Birleştirme sırasında hata oluştu." + describeWriteFailure(e) + (written > 0 ? " Birleştirmeyi yeniden başlatarak tamamlayabilirsiniz." : ""));
+        return false;
+    } finally {
+        // Groups are written in plan order: moved results, terms, then the removed record with the dropped results
+        const movedResults = new Map(plan.movedResults.slice(0, written).map(r => [r.id, r]));
+        const savedTerms = plan.terms.slice(0, Math.max(0, written - plan.movedResults.length));
+        const deletedIds = new Set(written === groupCount ? plan.deletedResults.map(r => r.id) : []);
+        setExams(prev => prev.filter(e => !deletedIds.has(e.id)).map(e => movedResults.get(e.id) || e));
+        setTerms(prev => prev.map(t => savedTerms.find(x => x.id === t.id) || t));
+        if (written === groupCount) {
+            setStudents(prev => prev.filter(s => s.id !== drop.id));
+            setTrashItems(prev => [plan.trashItem, ...prev]);
+            markShareLinksRevoked(new Set([drop.id]));
+            setSelectedBatchStudentIds(prev => {
+                const next = new Set(prev);
+                next.delete(drop.id);
+                return next;
+            });
+            if (selectedStudentId === drop.id) setSelectedStudentId(keep.id);
+        }
+        setIsLoading(false);
+    }
+  };
 
-        for (const line of lines) {
-            let parts = line.split('\t').map(p => p.trim()).filter(p => p);
-            if (parts.length < 2) parts = line.trim().split(/\s+/);
-            
-            if (parts.length >= 2) {
-                const className = parts.pop()!;
-                const studentNameStr = parts.join(' ');
-
-                let cls = tempClasses.find(c => norm(c.name) === norm(className));
-                if (!cls) {
-                    cls = { id: Date.now().toString() + Math.floor(Math.random() * 1000).toString(), name: className };
-                    await apiAddClass(cls);
-                    tempClasses.push(cls);
-                }
+  // --- TERMS ---
 
-                const studentIndex = tempStudents.findIndex(s => 
-                    norm(`${s.name} ${s.surname}`) === norm(studentNameStr) || 
-                    norm(`${s.surname} ${s.name}`) === norm(studentNameStr)
-                );
-
-                if (studentIndex !== -1) {
-                    const student = tempStudents[studentIndex];
-                    if (student.classroomId !== cls.id) {
-                        const updatedStudent = { ...student, classroomId: cls.id };
-                        await apiUpdateStudent(updatedStudent);
-                        tempStudents[studentIndex] = updatedStudent;
-                        updatedCount++;
-                    }
-                } else {
-                    notFoundCount++;
-                }
-            }
-        }
+  // Switching terms leaves detail pages, whose class or student may not exist in the other term
+  const handleSelectTerm = (termId: string) => {
+    setSelectedTermId(termId === getActiveTerm(terms)?.id ? null : termId);
+    setFilterClassId('all');
+    setFilterExamId('all');
+    setFilterExamDetailClassId('all');
+    if (view === 'CLASS_DETAIL' || view === 'STUDENT_DETAIL' || view === 'EXAM_DETAIL') handleNavigation('DASHBOARD');
+  };
 
-        setStudents(tempStudents);
-        setClasses(tempClasses);
-        setIsBatchModalOpen(false);
-        alert(`Bitti! ${updatedCount} öğrencinin sınıfı güncellendi.${notFoundCount > 0 ? `\n${notFoundCount} öğrenci bulunamadı.` : ''}`);
+  const handleStartTerm = async (term: Term) => {
+    if (!ensureAllowed(canManageTerms(profile))) return;
+    try {
+        await apiAddTerm(term);
+        setTerms(prev => [...prev, term]);
+        setSelectedTermId(null);
+    } catch (e) {
+        alert("Dönem başlatılamadı.");
+    }
+  };
+
+  const handleApplyTermTransition = async (plan: TermTransitionPlan): Promise<boolean> => {
+    if (!ensureAllowed(canManageTerms(profile))) return false;
+    setIsLoading(true);
+    try {
+        await apiApplyTermTransition(plan);
+        setTerms(prev => [...prev.filter(t => t.id !== plan.archivedTerm.id), plan.archivedTerm, plan.newTerm]);
+        setExamDefinitions(prev => prev.map(d => plan.definitions.find(x => x.id === d.id) || d));
+        setClasses(prev => prev.map(c => plan.graduatedClasses.find(x => x.id === c.id) || plan.renamedClasses.find(x => x.id === c.id) || c));
+        setStudents(prev => prev.map(s => plan.alumni.find(x => x.id === s.id) || s));
+        setSelectedTermId(null);
+        alert(`"${plan.newTerm.name}" dönemi başladı.` + pendingWritesNote());
+        return true;
     } catch (e) {
-        alert("Sınıf değişimi sırasında hata oluştu.");
+        // Only a workspace too large for one batch can get here with part of the transition saved
+        alert("Dönem sonu işlemi tamamlanamadı." + (isChunkedWriteError(e) && e.chunk > 1 ? `\n\n${e.chunkCount} paketten ilk ${e.chunk - 1} paket kaydedildi. Güncel durumu görmek için sayfayı yenileyin.` : ""));
+        return false;
     } finally {
         setIsLoading(false);
     }
   };
 
+  // Ranking sheet of the exam for the class selected in the exam detail (or the whole school)
+  const handleExportRanking = (def: ExamDefinition, format: 'PRINT' | 'PDF' | 'XLSX') => {
+    const ranking = buildExamRanking(def, { students, classes, exams, examDefinitions }, filterExamDetailClassId);
+    try {
+        if (format === 'PRINT') printExamRanking(ranking);
+        else if (format === 'PDF') exportRankingPdf(ranking);
+        else exportRankingXlsx(ranking);
+    } catch (e: any) {
+        alert(e?.message || "Sıralama dışa aktarılamadı.");
+    }
+  };
+
   // --- RENDER VIEWS ---
 
   const renderDashboard = () => (
@@ -1010,7 +1449,7 @@ function App() {
                             interval={0}
                             angle={stats.examStats.length > 5 ? -15 : 0}
                         />
-                        <YAxis stroke="#9CA3AF" domain={[0, 10]} tick={{fill: '#9CA3AF', fontSize: 10}} tickLine={false} axisLine={false} />
+                        <YAxis stroke="#9CA3AF" domain={[0, stats.maxQuestionCount]} tick={{fill: '#9CA3AF', fontSize: 10}} tickLine={false} axisLine={false} />
                         <Tooltip 
                             contentStyle={{ backgroundColor: '#111827', borderColor: '#374151', borderRadius: '16px', border: '1px solid #374151', color: '#F3F4F6' }} 
                             itemStyle={{ color: '#818CF8', fontWeight: 'black' }} 
@@ -1021,6 +1460,9 @@ function App() {
             </div>
       </div>
 
+      <EarlyWarningPanel students={students} classes={classes} exams={exams} onSelectStudent={(studentId) => handleNavigation('STUDENT_DETAIL', { studentId })} />
+
+       {canWrite(profile) && (
        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 pb-2">
             <button onClick={() => { setIsBatchModalOpen(true); setBatchModalMode('class_change'); }} className="bg-orange-700/20 text-orange-400 border border-orange-700/50 p-3.5 rounded-2xl text-xs font-black flex items-center justify-center gap-2 transition-all active:scale-95">
                 <Repeat size={18} /> SINIF DEĞİŞİMİ
@@ -1031,7 +1473,19 @@ function App() {
             <button onClick={() => { setIsBatchModalOpen(true); setBatchModalMode('student'); }} className="bg-indigo-600 text-white p-3.5 rounded-2xl text-xs font-black flex items-center justify-center gap-2 shadow-lg shadow-indigo-900/20 transition-all active:scale-95">
                 <Plus size={18} /> YENİ ÖĞRENCİ
             </button>
+            <button onClick={() => setIsImportHistoryOpen(true)} className="sm:col-span-3 text-gray-500 hover:text-gray-300 text-[10px] font-black uppercase flex items-center justify-center gap-1 py-1">
+                <History size={12} /> İÇE AKTARMA GEÇMİŞİ / GERİ AL
+            </button>
        </div>
+       )}
+       <button onClick={() => handleNavigation('HISTORY')} className="md:hidden w-full text-gray-500 hover:text-gray-300 text-[10px] font-black uppercase flex items-center justify-center gap-1 py-1">
+            <History size={12} /> DEĞİŞİKLİK GEÇMİŞİ
+       </button>
+       {canWrite(profile) && (
+       <button onClick={() => handleNavigation('TRASH')} className="md:hidden w-full text-gray-500 hover:text-gray-300 text-[10px] font-black uppercase flex items-center justify-center gap-1 py-1">
+            <Trash2 size={12} /> ÇÖP KUTUSU
+       </button>
+       )}
     </div>
   );
 
@@ -1079,7 +1533,7 @@ function App() {
                             interval={0}
                             angle={stats.examStats.length > 5 ? -15 : 0}
                         />
-                        <YAxis stroke="#9CA3AF" domain={[0, 10]} tick={{fill: '#9CA3AF', fontSize: 11}} tickLine={false} axisLine={false} />
+                        <YAxis stroke="#9CA3AF" domain={[0, stats.maxQuestionCount]} tick={{fill: '#9CA3AF', fontSize: 11}} tickLine={false} axisLine={false} />
                         <Tooltip 
                             contentStyle={{ backgroundColor: '#111827', borderColor: '#374151', borderRadius: '12px', border: '1px solid #374151', color: '#F3F4F6' }} 
                             itemStyle={{ color: '#818CF8', fontWeight: 'bold' }} 
@@ -1089,6 +1543,8 @@ function App() {
                 </ResponsiveContainer>
             </div>
         </div>
+
+        <AttendanceReportPanel source={attendanceSource} onOpen={(kind, id, title) => setAbsenteesTarget({ kind, id, title })} />
     </div>
   );
 
@@ -1121,9 +1577,19 @@ function App() {
         <div className="space-y-4 pb-safe animate-in fade-in duration-300">
             <div className="flex justify-between items-center px-1">
                 <h2 className="text-xl font-black text-white uppercase tracking-tight">SONUÇLAR</h2>
-                <button onClick={() => { setIsBatchModalOpen(true); setBatchModalMode('result'); }} className="bg-green-600/10 text-green-400 border border-green-600/30 px-3 py-1.5 rounded-xl text-xs font-bold flex items-center gap-2">
-                    <FileSpreadsheet size={16} /> TOPLU GİRİŞ
-                </button>
+                {canWrite(profile) && (
+                    <div className="flex gap-2">
+                        <button onClick={() => setIsImportHistoryOpen(true)} title="İçe Aktarma Geçmişi" className="bg-gray-800 text-gray-400 border border-gray-700 px-3 py-1.5 rounded-xl text-xs font-bold flex items-center gap-2">
+                            <History size={16} /> GEÇMİŞ
+                        </button>
+                        <button onClick={() => setIsResultFileModalOpen(true)} className="bg-green-600/10 text-green-400 border border-green-600/30 px-3 py-1.5 rounded-xl text-xs font-bold flex items-center gap-2">
+                            <Upload size={16} /> DOSYADAN
+                        </button>
+                        <button onClick={() => { setIsBatchModalOpen(true); setBatchModalMode('result'); }} className="bg-green-600/10 text-green-400 border border-green-600/30 px-3 py-1.5 rounded-xl text-xs font-bold flex items-center gap-2">
+                            <FileSpreadsheet size={16} /> TOPLU GİRİŞ
+                        </button>
+                    </div>
+                )}
             </div>
 
             <div className="grid grid-cols-2 gap-2">
@@ -1159,7 +1625,7 @@ function App() {
                                     <td className="px-4 py-4 text-center font-black text-indigo-400 text-base">{row.status === 'MISSING' ? 'G' : row.net}</td>
                                     <td className="px-4 py-4 text-right">
                                         <div className="flex gap-2 justify-end">
-                                            <button onClick={() => handleOpenExamModal(row)} className="text-gray-500 p-2 hover:text-indigo-400"><Edit size={18}/></button>
+                                            {canEditStudent(profile, students.find(s => s.id === row.studentId)) && <button onClick={() => handleOpenExamModal(row)} className="text-gray-500 p-2 hover:text-indigo-400"><Edit size={18}/></button>}
                                         </div>
                                     </td>
                                 </tr>
@@ -1199,21 +1665,46 @@ function App() {
     const avgNet = validStudents.length > 0 ? (validStudents.reduce((sum, s) => sum + s.displayNet, 0) / validStudents.length).toFixed(2) : '0.00';
     const avgCorrect = validStudents.length > 0 ? (validStudents.reduce((sum, s) => sum + s.displayCorrect, 0) / validStudents.length).toFixed(1) : '0.0';
     const avgIncorrect = validStudents.length > 0 ? (validStudents.reduce((sum, s) => sum + s.displayIncorrect, 0) / validStudents.length).toFixed(1) : '0.0';
+    const classStudentIds = new Set(baseStudents.map(s => s.id));
+    const attendance = summarizeAttendance(exams.filter(e => classStudentIds.has(e.studentId)));
+    const weakestSkills = calculateSkillProfile(exams.filter(e => classStudentIds.has(e.studentId)), examDefinitions)
+        .sort((a, b) => a.mastery - b.mastery)
+        .slice(0, 3);
 
     return (
       <div className="space-y-4 pb-safe animate-in fade-in duration-300">
         <div className="flex items-center justify-between px-1">
             <button onClick={handleBack} className="text-gray-400 hover:text-white flex items-center gap-1 text-sm font-bold"><ArrowLeft size={18} /> GERİ</button>
             <h2 className="text-xl font-black text-white">{cls.name} ANALİZİ</h2>
-            <div className="w-10"></div>
+            <button onClick={() => setReportCardTarget({ title: cls.name, students: sortData<Student>(baseStudents, { key: 'name', direction: 'asc' }) })} disabled={baseStudents.length === 0} title="Sınıf Karneleri (PDF)" className="p-3 bg-gray-800 text-indigo-400 rounded-2xl border border-gray-700 shadow-sm active:scale-90 transition-all disabled:opacity-40"><FileText size={20} /></button>
         </div>
         
-        <div className="grid grid-cols-3 gap-2">
+        <div className="grid grid-cols-4 gap-2">
              <div className="bg-gray-800 p-4 rounded-2xl border border-gray-700 text-center"><p className="text-indigo-400 text-[10px] font-black uppercase mb-1">NET</p><p className="text-xl font-black text-white">{avgNet}</p></div>
              <div className="bg-gray-800 p-4 rounded-2xl border border-gray-700 text-center"><p className="text-green-400 text-[10px] font-black uppercase mb-1">D</p><p className="text-xl font-black text-white">{avgCorrect}</p></div>
              <div className="bg-gray-800 p-4 rounded-2xl border border-gray-700 text-center"><p className="text-red-400 text-[10px] font-black uppercase mb-1">Y</p><p className="text-xl font-black text-white">{avgIncorrect}</p></div>
+             <button onClick={() => setAbsenteesTarget({ kind: 'CLASS', id: cls.id, title: cls.name })} className="bg-gray-800 p-4 rounded-2xl border border-gray-700 text-center hover:border-indigo-500 transition-all"><p className="text-gray-400 text-[10px] font-black uppercase mb-1">KATILIM</p><p className="text-xl font-black text-white">{attendance.rate === null ? '-' : `%${attendance.rate}`}</p></button>
         </div>
 
+        {weakestSkills.length > 0 && (
+            <div className="bg-gray-800 p-5 rounded-3xl border border-gray-700 shadow-lg">
+                <h3 className="text-gray-200 font-black text-sm uppercase mb-4">EN ZAYIF BECERİLER</h3>
+                <div className="space-y-3">
+                    {weakestSkills.map(skill => (
+                        <div key={skill.skill}>
+                            <div className="flex justify-between text-xs font-bold mb-1">
+                                <span className="text-white uppercase">{skill.label}</span>
+                                <span className={skill.mastery < 50 ? 'text-red-400' : 'text-indigo-400'}>%{skill.mastery} <span className="text-gray-500">({skill.correct}/{skill.total})</span></span>
+                            </div>
+                            <div className="h-2 bg-gray-900 rounded-full overflow-hidden">
+                                <div className={`h-full rounded-full ${skill.mastery < 50 ? 'bg-red-500' : 'bg-indigo-500'}`} style={{ width: `${skill.mastery}%` }}></div>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        )}
+
         <div className="bg-gray-800 rounded-3xl border border-gray-700 overflow-hidden shadow-lg">
             <div className="p-4 border-b border-gray-700 flex flex-col md:flex-row justify-between gap-4 bg-gray-900/30">
                 <h3 className="text-gray-200 font-black text-sm uppercase">Öğrenci Listesi</h3>
@@ -1260,14 +1751,23 @@ function App() {
     const history = exams.filter(e => e.studentId === student.id).sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime());
     const fullHistory = examDefinitions.slice().sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime()).map(def => ({ def, result: history.find(h => h.examId === def.id) }));
     const sortedFullHistory = sortData<any>(fullHistory, sortExamHistory);
+    const skillProfile = calculateSkillProfile(history, examDefinitions);
+    const goalProgress = goalProgressByStudent.get(student.id);
+    const attendance = summarizeAttendance(history);
 
     return (
       <div className="space-y-4 pb-safe animate-in slide-in-from-right duration-300">
         <div className="flex items-center justify-between px-1">
             <button onClick={handleBack} className="text-gray-400 hover:text-white flex items-center gap-1 text-sm font-bold"><ArrowLeft size={18} /> GERİ</button>
             <div className="flex gap-2">
+                <button onClick={() => setReportCardTarget({ title: `${student.name} ${student.surname}`, students: [student] })} title="Karne (PDF)" className="p-3 bg-gray-800 text-indigo-400 rounded-2xl border border-gray-700 shadow-sm active:scale-90 transition-all"><FileText size={20} /></button>
+                {canEditStudent(profile, student) && (
+                <>
+                {!isLocalMode && <button onClick={() => setShareLinksTarget({ student })} title="Veli Bağlantısı" className="p-3 bg-gray-800 text-indigo-400 rounded-2xl border border-gray-700 shadow-sm active:scale-90 transition-all"><Link2 size={20} /></button>}
                 <button onClick={() => { setEditingStudent(student); setIsStudentModalOpen(true); }} className="p-3 bg-gray-800 text-indigo-400 rounded-2xl border border-gray-700 shadow-sm active:scale-90 transition-all"><Edit size={20} /></button>
                 <button onClick={() => handleDeleteStudent(student.id)} className="p-3 bg-gray-800 text-red-400 rounded-2xl border border-gray-700 shadow-sm active:scale-90 transition-all"><Trash2 size={20} /></button>
+                </>
+                )}
             </div>
         </div>
         <div className="bg-gray-800 p-6 rounded-3xl border border-gray-700 shadow-lg relative overflow-hidden">
@@ -1278,10 +1778,24 @@ function App() {
                 <div className="flex items-center gap-8">
                     <div><span className="text-gray-500 block text-[10px] uppercase font-black tracking-widest mb-1">ORTALAMA NET</span><span className="font-black text-white text-3xl">{student.averageNet}</span></div>
                     <div><span className="text-gray-500 block text-[10px] uppercase font-black tracking-widest mb-1">SINAV</span><span className="font-black text-white text-3xl">{student.examCount}</span></div>
+                    <button onClick={() => setAbsenteesTarget({ kind: 'STUDENT', id: student.id, title: `${student.name} ${student.surname}` })} className="text-left hover:opacity-80"><span className="text-gray-500 block text-[10px] uppercase font-black tracking-widest mb-1">KATILIM</span><span className="font-black text-white text-3xl">{attendance.rate === null ? '-' : `%${attendance.rate}`}</span></button>
                 </div>
+                {student.goal && goalProgress && (
+                    <div className="mt-6 space-y-2">
+                        <div className="flex items-center justify-between gap-2">
+                            <span className="text-gray-500 text-[10px] uppercase font-black tracking-widest">HEDEF: {student.goal.targetNet} NET · {formatDate(student.goal.targetDate)}</span>
+                            <GoalBadge status={goalProgress.status} />
+                        </div>
+                        <div className="h-2 bg-gray-900 rounded-full overflow-hidden border border-gray-700"><div className="h-full bg-indigo-600 transition-all" style={{ width: `${goalProgress.percent}%` }}></div></div>
+                        <p className="text-[10px] text-gray-500 font-bold">
+                            {goalProgress.status === 'NO_DATA' ? 'Henüz sonuç yok' : `${goalProgress.startNet} → ${goalProgress.currentNet} net · ilerleme %${goalProgress.percent}${goalProgress.status !== 'REACHED' ? ` · beklenen ${goalProgress.expectedNet} net` : ''}`}
+                        </p>
+                    </div>
+                )}
              </div>
         </div>
         
+        <div className={`grid grid-cols-1 gap-4 ${skillProfile.length > 0 ? 'lg:grid-cols-2' : ''}`}>
         <div className="bg-gray-800 p-5 rounded-3xl border border-gray-700 shadow-lg">
             <div className="flex justify-between items-center mb-6">
                 <h3 className="text-gray-200 font-black text-sm uppercase">GELİŞİM GRAFİĞİ</h3>
@@ -1304,8 +1818,9 @@ function App() {
                                 interval={0}
                                 angle={studentResults.length > 5 ? -15 : 0}
                             />
-                            <YAxis stroke="#9CA3AF" domain={[0, 10]} tick={{fill: '#9CA3AF', fontSize: 10}} tickLine={false} axisLine={false} />
+                            <YAxis stroke="#9CA3AF" domain={[0, stats.maxQuestionCount]} tick={{fill: '#9CA3AF', fontSize: 10}} tickLine={false} axisLine={false} />
                             <Tooltip contentStyle={{ backgroundColor: '#111827', border: '1px solid #374151', borderRadius: '12px' }} itemStyle={{ color: '#818CF8', fontWeight: 'black' }} />
+                            {studentChartMetric === 'net' && student.goal && <ReferenceLine y={student.goal.targetNet} stroke="#34D399" strokeDasharray="6 4" strokeWidth={2} label={{ value: `HEDEF ${student.goal.targetNet}`, position: 'insideTopRight', fill: '#34D399', fontSize: 10, fontWeight: 900 }} />}
                             <Line type="monotone" dataKey={studentChartMetric} stroke="#818CF8" strokeWidth={5} dot={{r: 6, fill: '#818CF8', stroke: '#111827', strokeWidth: 2}} activeDot={{ r: 8 }} />
                         </LineChart>
                     </ResponsiveContainer>
@@ -1313,6 +1828,24 @@ function App() {
             ) : <div className="h-[200px] flex items-center justify-center text-gray-500 text-sm font-bold">YETERLİ VERİ YOK</div>}
         </div>
 
+        {skillProfile.length > 0 && (
+            <div className="bg-gray-800 p-5 rounded-3xl border border-gray-700 shadow-lg">
+                <h3 className="text-gray-200 font-black text-sm uppercase mb-6">BECERİ PROFİLİ</h3>
+                <div className="h-[220px] md:h-[280px] w-full">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <RadarChart data={skillProfile} outerRadius="75%">
+                            <PolarGrid stroke="#374151" />
+                            <PolarAngleAxis dataKey="label" tick={{fill: '#9CA3AF', fontSize: 10}} />
+                            <PolarRadiusAxis domain={[0, 100]} tick={false} axisLine={false} />
+                            <Tooltip contentStyle={{ backgroundColor: '#111827', border: '1px solid #374151', borderRadius: '12px' }} itemStyle={{ color: '#818CF8', fontWeight: 'black' }} formatter={(value) => [`%${value}`, 'Başarı']} />
+                            <Radar dataKey="mastery" stroke="#818CF8" fill="#6366f1" fillOpacity={0.4} strokeWidth={3} />
+                        </RadarChart>
+                    </ResponsiveContainer>
+                </div>
+            </div>
+        )}
+        </div>
+
         <div className="bg-gray-800 rounded-3xl border border-gray-700 overflow-hidden shadow-lg mb-4">
              <div className="p-4 border-b border-gray-700 bg-gray-900/30"><h3 className="text-gray-200 font-black text-sm uppercase tracking-wider">GEÇMİŞ ANALİZİ</h3></div>
              <div className="overflow-x-auto scrollbar-hide">
@@ -1339,7 +1872,7 @@ function App() {
                                     <td className="px-2 py-5 text-center text-red-400 font-bold">{!item.result || item.result.status === 'MISSING' ? 'G' : item.result.incorrect}</td>
                                     <td className="px-5 py-5 text-center font-black text-indigo-400 text-base">{!item.result || item.result.status === 'MISSING' ? (item.result ? 'G' : '-') : item.result.net}</td>
                                     <td className="px-5 py-5 text-right">
-                                        <button onClick={() => item.result ? handleOpenExamModal(item.result) : handleOpenExamModal(undefined, item.def.id)} className={`p-2 rounded-xl border border-gray-700 ${item.result ? 'text-indigo-400' : 'text-green-500'}`}>{item.result ? <Edit size={16} /> : <Plus size={16} />}</button>
+                                        {canEditStudent(profile, student) && <button onClick={() => item.result ? handleOpenExamModal(item.result) : handleOpenExamModal(undefined, item.def.id)} className={`p-2 rounded-xl border border-gray-700 ${item.result ? 'text-indigo-400' : 'text-green-500'}`}>{item.result ? <Edit size={16} /> : <Plus size={16} />}</button>}
                                     </td>
                                 </tr>
                         ))}
@@ -1347,6 +1880,8 @@ function App() {
                 </table>
              </div>
         </div>
+
+        <AuditTimeline studentId={student.id} resolveName={resolveAuditName} />
       </div>
     );
   };
@@ -1357,7 +1892,7 @@ function App() {
       <div className="space-y-4 pb-safe animate-in fade-in duration-300">
         <div className="flex justify-between items-center px-1">
             <h2 className="text-xl font-black text-white uppercase tracking-tight">DENEMELER</h2>
-            <button onClick={handleAddExamDefinition} className="bg-indigo-600 text-white px-4 py-2 rounded-xl text-xs font-black flex items-center gap-2 shadow-lg active:scale-95 transition-all"><Plus size={18} /> YENİ DENEME</button>
+            {canManageExamDefinitions(profile) && <button onClick={handleAddExamDefinition} className="bg-indigo-600 text-white px-4 py-2 rounded-xl text-xs font-black flex items-center gap-2 shadow-lg active:scale-95 transition-all"><Plus size={18} /> YENİ DENEME</button>}
         </div>
         <div className="bg-gray-800 rounded-3xl border border-gray-700 overflow-hidden shadow-xl">
             <div className="overflow-x-auto scrollbar-hide">
@@ -1371,7 +1906,7 @@ function App() {
                     </thead>
                     <tbody className="divide-y divide-gray-700/50 text-sm">
                         {sortedDefs.map(def => {
-                            const results = exams.filter(e => (e.examId === def.id || e.examName === def.name) && e.status !== 'MISSING');
+                            const results = exams.filter(e => belongsTo(e, def) && e.status !== 'MISSING');
                             const attendedCount = results.length;
                             const avg = attendedCount > 0 ? (results.reduce((sum, e) => sum + e.net, 0) / attendedCount).toFixed(2) : '-';
                             return (
@@ -1398,10 +1933,13 @@ function App() {
   const renderExamDetail = () => {
       const def = examDefinitions.find(d => d.id === selectedExamDefId);
       if (!def) return <div>Deneme bulunamadı</div>;
+      const policy = getScoringPolicy(def);
       
-      let allResults = exams.filter(e => e.examId === def.id || e.examName === def.name);
+      let allResults = exams.filter(e => belongsTo(e, def));
       // SADECE KATILANLAR ÜZERİNDEN ORTALAMA HESAPLA
       const attended = allResults.filter(e => e.status !== 'MISSING');
+      // Same figure as the absentee list it opens: transfers are left out of the rate
+      const attendance = summarizeAttendance(selectAttendanceResults('EXAM', def.id, attendanceSource));
       const avgNetValue = attended.length > 0 ? parseFloat((attended.reduce((s, e) => s + e.net, 0) / attended.length).toFixed(2)) : 0;
       const avgNet = avgNetValue.toFixed(2);
       const avgCorrect = attended.length > 0 ? (attended.reduce((s, e) => s + e.correct, 0) / attended.length).toFixed(1) : '0.0';
@@ -1411,6 +1949,7 @@ function App() {
       if (filterExamDetailClassId !== 'all') {
           results = results.filter(r => { const s = students.find(student => student.id === r.studentId); return s && s.classroomId === filterExamDetailClassId; });
       }
+      const classResults = results;
       
       if (showBelowAverageOnly) {
           results = results.filter(r => r.status === 'ATTENDED' && r.net < avgNetValue);
@@ -1423,17 +1962,21 @@ function App() {
         <div className="space-y-4 pb-safe animate-in zoom-in-95 duration-300">
              <div className="flex items-center justify-between px-1">
                 <button onClick={handleBack} className="text-gray-400 hover:text-white flex items-center gap-1 text-sm font-bold"><ArrowLeft size={18} /> GERİ</button>
+                {canManageExamDefinitions(profile) && (
                 <div className="flex gap-2">
-                    <button onClick={() => handleEditExamDefinition(def.id, def.name, def.date)} className="p-3 bg-gray-800 text-indigo-400 rounded-2xl border border-gray-700 shadow-sm"><Edit size={18} /></button>
+                    <button onClick={() => handleRescoreExamDefinition(def)} title="Netleri Yeniden Hesapla" className="p-3 bg-gray-800 text-green-400 rounded-2xl border border-gray-700 shadow-sm"><RefreshCw size={18} /></button>
+                    <button onClick={() => handleEditExamDefinition(def)} className="p-3 bg-gray-800 text-indigo-400 rounded-2xl border border-gray-700 shadow-sm"><Edit size={18} /></button>
                     <button onClick={() => handleDeleteExamDefinition(def.id)} className="p-3 bg-gray-800 text-red-400 rounded-2xl border border-gray-700 shadow-sm"><Trash2 size={18} /></button>
                 </div>
+                )}
             </div>
 
             <div className="bg-indigo-600 p-6 rounded-3xl shadow-lg shadow-indigo-900/20">
-                <h2 className="text-white text-2xl font-black uppercase tracking-tighter mb-4">{def.name}</h2>
+                <h2 className="text-white text-2xl font-black uppercase tracking-tighter mb-1">{def.name}</h2>
+                <p className="text-indigo-200 text-[10px] font-bold uppercase tracking-widest mb-4">{policy.questionCount} SORU • YANLIŞ CEZASI {policy.penaltyRatio}</p>
                 <div className="grid grid-cols-2 gap-4">
                     <div className="bg-white/10 p-3 rounded-2xl"><p className="text-indigo-200 text-[9px] font-black uppercase tracking-widest mb-1">ORTALAMA NET</p><p className="text-2xl font-black text-white">{avgNet}</p></div>
-                    <div className="bg-white/10 p-3 rounded-2xl"><p className="text-indigo-200 text-[9px] font-black uppercase tracking-widest mb-1">KATILIM</p><p className="text-2xl font-black text-white">{attended.length} / {allResults.length}</p></div>
+                    <button onClick={() => setAbsenteesTarget({ kind: 'EXAM', id: def.id, title: def.name })} className="bg-white/10 hover:bg-white/20 p-3 rounded-2xl text-left transition-all"><p className="text-indigo-200 text-[9px] font-black uppercase tracking-widest mb-1">KATILIM</p><p className="text-2xl font-black text-white">{attendance.rate === null ? '-' : `%${attendance.rate}`} <span className="text-indigo-200 text-xs font-bold">{attendance.attended} / {attendance.expected}</span></p></button>
                 </div>
             </div>
             
@@ -1442,6 +1985,22 @@ function App() {
                  <div className="bg-gray-800 p-4 rounded-2xl border border-gray-700 text-center shadow-sm"><p className="text-red-400 text-[10px] font-black uppercase mb-1">ORT. YANLIŞ</p><p className="text-xl font-black text-white">{avgIncorrect}</p></div>
             </div>
 
+            <div className="flex bg-gray-800 rounded-2xl p-1 border border-gray-700 shadow-inner">
+                <button onClick={() => setExamDetailTab('ranking')} className={`flex-1 text-[10px] font-black px-4 py-2 rounded-xl transition-all ${examDetailTab === 'ranking' ? 'bg-indigo-600 text-white shadow-lg' : 'text-gray-500'}`}>SIRALAMA</button>
+                <button onClick={() => setExamDetailTab('items')} className={`flex-1 text-[10px] font-black px-4 py-2 rounded-xl transition-all ${examDetailTab === 'items' ? 'bg-indigo-600 text-white shadow-lg' : 'text-gray-500'}`}>MADDE ANALİZİ</button>
+            </div>
+
+            {examDetailTab === 'items' && (
+                <div className="bg-gray-800 rounded-3xl border border-gray-700 overflow-hidden shadow-2xl">
+                    <div className="p-4 border-b border-gray-700 flex flex-col gap-3 bg-gray-900/50">
+                        <h3 className="text-gray-100 font-black text-xs uppercase tracking-widest">Madde Analizi</h3>
+                        <select className="w-full bg-gray-900 text-white text-xs p-3 rounded-2xl border border-gray-700 outline-none appearance-none" value={filterExamDetailClassId} onChange={(e) => setFilterExamDetailClassId(e.target.value)}><option value="all">TÜM SINIFLAR</option>{classes.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}</select>
+                    </div>
+                    <ItemAnalysisPanel examDefinition={def} results={classResults} />
+                </div>
+            )}
+
+            {examDetailTab === 'ranking' && (
             <div className="bg-gray-800 rounded-3xl border border-gray-700 overflow-hidden shadow-2xl">
                 <div className="p-4 border-b border-gray-700 flex flex-col gap-3 bg-gray-900/50">
                     <div className="flex justify-between items-center">
@@ -1456,6 +2015,11 @@ function App() {
                         </div>
                     </div>
                     <select className="w-full bg-gray-900 text-white text-xs p-3 rounded-2xl border border-gray-700 outline-none appearance-none" value={filterExamDetailClassId} onChange={(e) => setFilterExamDetailClassId(e.target.value)}><option value="all">TÜM SINIFLAR</option>{classes.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}</select>
+                    <div className="grid grid-cols-3 gap-2">
+                        <button onClick={() => handleExportRanking(def, 'PRINT')} className="bg-gray-800 text-gray-300 border border-gray-700 py-2 rounded-xl text-[10px] font-black flex items-center justify-center gap-1"><Printer size={14} /> YAZDIR</button>
+                        <button onClick={() => handleExportRanking(def, 'PDF')} className="bg-gray-800 text-indigo-400 border border-gray-700 py-2 rounded-xl text-[10px] font-black flex items-center justify-center gap-1"><FileText size={14} /> PDF</button>
+                        <button onClick={() => handleExportRanking(def, 'XLSX')} className="bg-gray-800 text-green-400 border border-gray-700 py-2 rounded-xl text-[10px] font-black flex items-center justify-center gap-1"><FileSpreadsheet size={14} /> XLSX</button>
+                    </div>
                 </div>
                 <div className="overflow-x-auto scrollbar-hide">
                     <table className="w-full text-left text-gray-300 font-medium">
@@ -1489,11 +2053,12 @@ function App() {
                     </table>
                 </div>
             </div>
+            )}
         </div>
       );
   }
 
-  if (isLoading) return (<div className="flex h-[100dvh] items-center justify-center bg-gray-900 text-white"><div className="text-center"><div className="w-14 h-14 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin mx-auto mb-6 shadow-indigo-600/20"></div><p className="font-black tracking-widest uppercase text-[10px] text-indigo-400">ENGLISHNET</p></div></div>);
+  if (isLoading) return (<div className="flex h-[100dvh] items-center justify-center bg-gray-900 text-white"><div className="text-center"><div className="w-14 h-14 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin mx-auto mb-6 shadow-indigo-600/20"></div><p className="font-black tracking-widest uppercase text-[10px] text-indigo-400">ENGLISHNET</p>{writeJob?.progress && writeJob.progress.chunkCount > 1 && <WriteProgressPanel label={writeJob.label} progress={writeJob.progress} onCancel={writeJob.controller ? () => writeJob.controller!.abort() : undefined} />}</div></div>);
   if (errorMsg) return (<div className="flex h-[100dvh] items-center justify-center bg-gray-900 text-white p-4"><div className="max-w-md bg-gray-800 p-8 rounded-3xl border border-red-900/30 shadow-2xl text-center"><AlertTriangle size={48} className="mx-auto text-red-500 mb-6" /><h2 className="text-2xl font-black mb-2">HATA</h2><p className="text-gray-400 mb-6">{errorMsg}</p><button onClick={() => window.location.reload()} className="w-full bg-indigo-600 py-4 rounded-2xl font-black hover:bg-indigo-700 transition-all active:scale-95 shadow-xl shadow-indigo-900/20">TEKRAR DENE</button></div></div>);
 
   return (
@@ -1510,6 +2075,16 @@ function App() {
       {/* DESKTOP SIDEBAR */}
       <div className="hidden md:flex flex-col w-72 bg-gray-800 border-r border-gray-700 shadow-2xl z-20">
         <div className="p-8 border-b border-gray-700"><h1 className="text-3xl font-black text-white flex items-center gap-3 tracking-tighter"><div className="w-12 h-12 bg-indigo-600 rounded-2xl flex items-center justify-center text-white shadow-lg shadow-indigo-600/30">E</div>EnglishNet</h1></div>
+        {(terms.length > 0 || canManageTerms(profile)) && (
+            <div className="px-6 pt-6 flex items-center gap-2">
+                {terms.length > 0 && (
+                    <select value={viewedTerm?.id || ''} onChange={(e) => handleSelectTerm(e.target.value)} className="flex-1 min-w-0 bg-gray-900 text-white text-xs font-black p-3 rounded-2xl border border-gray-700 outline-none">
+                        {sortTerms(terms).map(t => <option key={t.id} value={t.id}>{t.name}{t.archivedAt ? ' (Arşiv)' : ''}</option>)}
+                    </select>
+                )}
+                {canManageTerms(profile) && <button onClick={() => setIsTermsModalOpen(true)} title="Dönemler" className={`p-3 bg-gray-900 text-indigo-400 rounded-2xl border border-gray-700 hover:bg-gray-700 ${terms.length === 0 ? 'flex-1 flex items-center justify-center gap-2 text-xs font-black' : ''}`}><CalendarRange size={16} />{terms.length === 0 && 'DÖNEM BAŞLAT'}</button>}
+            </div>
+        )}
         <nav className="flex-1 p-6 space-y-3 overflow-y-auto">
             <button onClick={() => handleNavigation('DASHBOARD')} className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl font-black transition-all ${view === 'DASHBOARD' ? 'bg-indigo-600 text-white shadow-xl' : 'text-gray-400 hover:bg-gray-700'}`}><LayoutDashboard size={20} /><span>ANA SAYFA</span></button>
             <button onClick={() => handleNavigation('ANALYTICS')} className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl font-black transition-all ${view === 'ANALYTICS' ? 'bg-indigo-600 text-white shadow-xl' : 'text-gray-400 hover:bg-gray-700'}`}><BarChart3 size={20} /><span>ANALİZ MERKEZİ</span></button>
@@ -1518,15 +2093,41 @@ function App() {
             <button onClick={() => handleNavigation('STUDENTS')} className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl font-black transition-all ${view === 'STUDENTS' || view === 'STUDENT_DETAIL' ? 'bg-indigo-600 text-white shadow-xl' : 'text-gray-400 hover:bg-gray-700'}`}><Users size={20} /><span>ÖĞRENCİLER</span></button>
             <button onClick={() => handleNavigation('CLASSES')} className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl font-black transition-all ${view === 'CLASSES' || view === 'CLASS_DETAIL' ? 'bg-indigo-600 text-white shadow-xl' : 'text-gray-400 hover:bg-gray-700'}`}><Users size={20} className="scale-x-[-1]" /><span>SINIFLAR</span></button>
             <button onClick={() => handleNavigation('EXAMS')} className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl font-black transition-all ${view === 'EXAMS' || view === 'EXAM_DETAIL' ? 'bg-indigo-600 text-white shadow-xl' : 'text-gray-400 hover:bg-gray-700'}`}><FileText size={20} /><span>DENEMELER</span></button>
+            <button onClick={() => handleNavigation('HISTORY')} className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl font-black transition-all ${view === 'HISTORY' ? 'bg-indigo-600 text-white shadow-xl' : 'text-gray-400 hover:bg-gray-700'}`}><History size={20} /><span>DEĞİŞİKLİKLER</span></button>
+            {canWrite(profile) && <button onClick={() => handleNavigation('TRASH')} className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl font-black transition-all ${view === 'TRASH' ? 'bg-indigo-600 text-white shadow-xl' : 'text-gray-400 hover:bg-gray-700'}`}><Trash2 size={20} /><span>ÇÖP KUTUSU</span></button>}
+            {canManageBackups(profile) && (
+                <>
+                    <div className="h-px bg-gray-700 my-6 mx-2 opacity-50"></div>
+                    {canManageMembers(profile) && !isLocalMode && <button onClick={() => handleNavigation('MEMBERS')} className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl font-black transition-all ${view === 'MEMBERS' ? 'bg-indigo-600 text-white shadow-xl' : 'text-gray-400 hover:bg-gray-700'}`}><ShieldCheck size={20} /><span>KULLANICILAR</span></button>}
+                    <button onClick={() => handleNavigation('BACKUP')} className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl font-black transition-all ${view === 'BACKUP' ? 'bg-indigo-600 text-white shadow-xl' : 'text-gray-400 hover:bg-gray-700'}`}><DatabaseBackup size={20} /><span>YEDEKLEME</span></button>
+                    {canRunIntegrityCheck(profile) && <button onClick={() => handleNavigation('INTEGRITY')} className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl font-black transition-all ${view === 'INTEGRITY' ? 'bg-indigo-600 text-white shadow-xl' : 'text-gray-400 hover:bg-gray-700'}`}><Wrench size={20} /><span>VERİ BAKIMI</span></button>}
+                </>
+            )}
         </nav>
-        <div className="p-6 border-t border-gray-700 text-center"><p className="text-[10px] text-gray-500 uppercase font-black tracking-widest">VERSION 2.1 ELITE</p></div>
+        <div className="p-6 border-t border-gray-700 space-y-3">
+            {!isLocalMode && <SyncIndicator />}
+            <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                    <p className="text-xs text-gray-400 font-bold truncate">{isLocalMode ? STORAGE_BACKEND_LABELS[getStorageBackend()] : profile.email}</p>
+                    <p className="text-[10px] text-indigo-400 font-black uppercase">{ROLE_LABELS[profile.role]}</p>
+                </div>
+                <button onClick={handleSignOut} title={isLocalMode ? 'Buluta Geç' : 'Çıkış Yap'} className="p-2 text-gray-500 hover:text-red-400 rounded-xl hover:bg-gray-700"><LogOut size={18} /></button>
+            </div>
+            <p className="text-[10px] text-gray-500 uppercase font-black tracking-widest text-center">VERSION 2.1 ELITE</p>
+        </div>
       </div>
 
       {/* MAIN CONTENT AREA */}
       <div className="flex-1 flex flex-col h-full overflow-hidden bg-gray-900">
-         <div className="md:hidden bg-gray-800 px-5 py-4 border-b border-gray-700 flex justify-between items-center z-30 sticky top-0 pt-safe shadow-xl"><h1 className="text-xl font-black text-white tracking-tighter">EnglishNet</h1><div className="w-9 h-9 bg-indigo-600 rounded-xl flex items-center justify-center font-black shadow-lg shadow-indigo-900/30">E</div></div>
+         <div className="md:hidden bg-gray-800 px-5 py-4 border-b border-gray-700 flex justify-between items-center z-30 sticky top-0 pt-safe shadow-xl"><h1 className="text-xl font-black text-white tracking-tighter">EnglishNet</h1><div className="flex items-center gap-2">{terms.length > 0 && <select value={viewedTerm?.id || ''} onChange={(e) => handleSelectTerm(e.target.value)} className="max-w-[7rem] bg-gray-900 text-white text-[10px] font-black p-2 rounded-xl border border-gray-700 outline-none">{sortTerms(terms).map(t => <option key={t.id} value={t.id}>{t.name}</option>)}</select>}{canManageTerms(profile) && <button onClick={() => setIsTermsModalOpen(true)} title="Dönemler" className="p-2 text-gray-500 hover:text-indigo-400"><CalendarRange size={20} /></button>}{!isLocalMode && <SyncIndicator compact />}<button onClick={handleSignOut} title={isLocalMode ? 'Buluta Geç' : 'Çıkış Yap'} className="p-2 text-gray-500 hover:text-red-400"><LogOut size={20} /></button><div className="w-9 h-9 bg-indigo-600 rounded-xl flex items-center justify-center font-black shadow-lg shadow-indigo-900/30">E</div></div></div>
          <div className="flex-1 overflow-y-auto p-4 md:p-10 pb-28 md:pb-10">
             <div className="max-w-4xl mx-auto w-full">
+                {viewedTerm?.archivedAt && (
+                    <div className="mb-4 bg-yellow-900/20 border border-yellow-700/40 text-yellow-300 rounded-2xl px-4 py-3 flex items-center justify-between gap-2 text-xs font-bold">
+                        <span>Arşivlenmiş dönem görüntüleniyor: {viewedTerm.name}</span>
+                        {getActiveTerm(terms) && <button onClick={() => handleSelectTerm(getActiveTerm(terms)!.id)} className="shrink-0 text-[10px] font-black uppercase text-yellow-200 hover:text-white">AÇIK DÖNEME DÖN</button>}
+                    </div>
+                )}
                 {view === 'DASHBOARD' && renderDashboard()}
                 {view === 'ANALYTICS' && renderAnalytics()}
                 {view === 'RESULTS' && renderResults()}
@@ -1536,8 +2137,12 @@ function App() {
                          <div className="relative flex-1 group shadow-xl rounded-2xl overflow-hidden border border-gray-700"><Search className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-500 group-focus-within:text-indigo-400" size={18} /><input type="text" placeholder="ÖĞRENCİ ARA..." className="w-full bg-gray-800 text-white pl-12 pr-4 py-4 outline-none text-xs font-black tracking-widest placeholder:text-gray-600" value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)}/></div>
                          {selectedBatchStudentIds.size > 0 ? (
                             <button onClick={handleDeleteMultipleStudents} className="bg-red-600 text-white p-4 rounded-2xl shadow-xl active:scale-90 transition-all"><Trash2 size={24} /></button>
-                         ) : (
+                         ) : canWrite(profile) && (
+                            <>
+                            {!isLocalMode && <button onClick={() => setShareLinksTarget({ student: null })} title="Veli Bağlantıları" className="bg-gray-800 text-indigo-400 p-4 rounded-2xl border border-gray-700 shadow-xl active:scale-90 transition-all"><Link2 size={24} /></button>}
+                            <button onClick={() => setIsDuplicatesModalOpen(true)} title="Çift Kayıtlar" className="bg-gray-800 text-indigo-400 p-4 rounded-2xl border border-gray-700 shadow-xl active:scale-90 transition-all"><GitMerge size={24} /></button>
                             <button onClick={() => { setEditingStudent(null); setIsStudentModalOpen(true); }} className="bg-indigo-600 text-white p-4 rounded-2xl shadow-xl active:scale-90 transition-all"><Plus size={24} /></button>
+                            </>
                          )}
                      </div>
                      <div className="bg-gray-800 rounded-3xl border border-gray-700 overflow-hidden shadow-2xl">
@@ -1547,19 +2152,21 @@ function App() {
                                     <tr>
                                         <th className="px-5 py-4 w-12"></th>
                                         <th className="px-5 py-4 cursor-pointer hover:text-white" onClick={() => handleSort(sortStudents, setSortStudents, 'name')}>ÖĞRENCİ <ArrowUpDown size={10} className="inline opacity-30"/></th>
+                                        <th className="px-5 py-4 text-center">HEDEF</th>
                                         <th className="px-5 py-4 text-center cursor-pointer hover:text-white" onClick={() => handleSort(sortStudents, setSortStudents, 'lastNet')}>SON NET <ArrowUpDown size={10} className="inline opacity-30"/></th>
                                     </tr>
                                 </thead>
                                 <tbody className="divide-y divide-gray-700/50 text-sm font-medium">
                                     {filteredStudents.map(student => (
                                         <tr key={student.id} className={`hover:bg-gray-700/30 active:bg-gray-700/50 cursor-pointer transition-colors ${selectedBatchStudentIds.has(student.id) ? 'bg-indigo-600/10' : ''}`} onClick={() => handleNavigation('STUDENT_DETAIL', { studentId: student.id })}>
-                                            <td className="px-5 py-5" onClick={(e) => { e.stopPropagation(); toggleStudentSelection(student.id); }}>
-                                                {selectedBatchStudentIds.has(student.id) ? <CheckSquare size={22} className="text-indigo-400" /> : <Square size={22} className="text-gray-700" />}
+                                            <td className="px-5 py-5" onClick={(e) => { e.stopPropagation(); if (canEditStudent(profile, student)) toggleStudentSelection(student.id); }}>
+                                                {canEditStudent(profile, student) && (selectedBatchStudentIds.has(student.id) ? <CheckSquare size={22} className="text-indigo-400" /> : <Square size={22} className="text-gray-700" />)}
                                             </td>
                                             <td className="px-5 py-5 uppercase tracking-tighter">
                                                 <div className="font-black text-white">{student.name} {student.surname}</div>
                                                 <div className="text-[9px] text-indigo-400/80 font-bold">{classes.find(c => c.id === student.classroomId)?.name || '-'}</div>
                                             </td>
+                                            <td className="px-5 py-5 text-center">{goalProgressByStudent.has(student.id) ? <GoalBadge status={goalProgressByStudent.get(student.id)!.status} /> : <span className="text-gray-600">-</span>}</td>
                                             <td className="px-5 py-5 text-center font-black text-indigo-400 text-lg">{student.lastResult ? (student.lastResult.status === 'MISSING' ? 'G' : student.lastNet) : '-'}</td>
                                         </tr>
                                     ))}
@@ -1571,23 +2178,73 @@ function App() {
                 )}
                 {view === 'CLASSES' && (
                   <div className="space-y-6 pb-safe animate-in fade-in duration-300">
-                     <div className="flex justify-between items-center px-1"><h2 className="text-xl font-black text-white uppercase tracking-tight">SINIFLAR</h2><button onClick={handleAddClass} className="bg-indigo-600 text-white px-4 py-2 rounded-xl text-xs font-black shadow-lg active:scale-95 transition-all flex items-center gap-2"><Plus size={18} /> YENİ SINIF</button></div>
-                     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">{classes.map(c => (<div key={c.id} className="bg-gray-800 p-6 rounded-3xl border border-gray-700 hover:border-indigo-500 transition-all cursor-pointer relative group shadow-xl active:scale-[0.98]" onClick={() => handleNavigation('CLASS_DETAIL', { classId: c.id })}><div className="flex justify-between items-start mb-6"><h3 className="text-2xl font-black text-white uppercase tracking-tighter">{c.name}</h3><button onClick={(e) => { e.stopPropagation(); handleEditClass(c.id, c.name); }} className="text-gray-600 hover:text-white p-2"><Edit size={18} /></button></div><div className="flex justify-between items-end"><div className="flex items-center gap-2 text-gray-400"><Users size={16} /> <span className="text-xs font-black uppercase tracking-widest">{students.filter(s => s.classroomId === c.id).length} ÖĞRENCİ</span></div><button onClick={(e) => { e.stopPropagation(); handleDeleteClass(c.id); }} className="text-gray-700 hover:text-red-400 p-2"><Trash2 size={20} /></button></div></div>))}</div>
+                     <div className="flex justify-between items-center px-1"><h2 className="text-xl font-black text-white uppercase tracking-tight">SINIFLAR</h2>{canManageClasses(profile) && <button onClick={handleAddClass} className="bg-indigo-600 text-white px-4 py-2 rounded-xl text-xs font-black shadow-lg active:scale-95 transition-all flex items-center gap-2"><Plus size={18} /> YENİ SINIF</button>}</div>
+                     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">{classes.map(c => (<div key={c.id} className="bg-gray-800 p-6 rounded-3xl border border-gray-700 hover:border-indigo-500 transition-all cursor-pointer relative group shadow-xl active:scale-[0.98]" onClick={() => handleNavigation('CLASS_DETAIL', { classId: c.id })}><div className="flex justify-between items-start mb-6"><h3 className="text-2xl font-black text-white uppercase tracking-tighter">{c.name}</h3>{canManageClasses(profile) && <button onClick={(e) => { e.stopPropagation(); handleEditClass(c.id, c.name); }} className="text-gray-600 hover:text-white p-2"><Edit size={18} /></button>}</div><div className="flex justify-between items-end"><div className="flex items-center gap-2 text-gray-400"><Users size={16} /> <span className="text-xs font-black uppercase tracking-widest">{students.filter(s => s.classroomId === c.id).length} ÖĞRENCİ</span></div>{canManageClasses(profile) && <button onClick={(e) => { e.stopPropagation(); handleDeleteClass(c.id); }} className="text-gray-700 hover:text-red-400 p-2"><Trash2 size={20} /></button>}</div></div>))}</div>
                   </div>
                 )}
                 {view === 'CLASS_DETAIL' && renderClassDetail()}
                 {view === 'STUDENT_DETAIL' && renderStudentDetail()}
                 {view === 'EXAMS' && renderExams()}
                 {view === 'EXAM_DETAIL' && renderExamDetail()}
+                {view === 'MEMBERS' && canManageMembers(profile) && !isLocalMode && <MembersView profile={profile} classes={classes} />}
+                {view === 'TRASH' && canWrite(profile) && (
+                    <TrashView
+                        profile={profile}
+                        items={trashItems}
+                        state={{ students: allStudents, classes: allClasses, exams: allExams, examDefinitions: allExamDefinitions }}
+                        onRestore={handleRestoreTrashItem}
+                        onPurge={handlePurgeTrashItem}
+                    />
+                )}
+                {view === 'INTEGRITY' && canRunIntegrityCheck(profile) && (
+                    <IntegrityView
+                        data={allData}
+                        profile={profile}
+                        onRepair={handleIntegrityRepair}
+                        onTrashStudents={handleTrashOrphanStudents}
+                    />
+                )}
+                {view === 'HISTORY' && <AuditLogView students={allStudents} examDefinitions={allExamDefinitions} resolveName={resolveAuditName} />}
+                {view === 'BACKUP' && canManageBackups(profile) && (
+                    <BackupView
+                        data={{ students: allStudents, classrooms: allClasses, examResults: allExams, examDefinitions: allExamDefinitions, terms }}
+                        onRestored={(restored) => {
+                            setStudents(restored.students);
+                            setClasses(restored.classrooms);
+                            setExams(restored.examResults);
+                            setExamDefinitions(restored.examDefinitions);
+                            setTerms(restored.terms);
+                            setSelectedTermId(null);
+                        }}
+                    />
+                )}
             </div>
          </div>
       </div>
 
       <ExamModal isOpen={isExamModalOpen} onClose={() => { setIsExamModalOpen(false); setEditingExamResult(null); setPreselectedExamDefId(null); }} onSave={handleSaveExam} studentId={selectedStudentId || ''} examDefinitions={examDefinitions} initialData={editingExamResult} preselectedExamDefId={preselectedExamDefId} existingExamIds={editingExamResult ? [] : exams.filter(e => e.studentId === selectedStudentId).map(e => e.examId || '')} />
-      <StudentFormModal isOpen={isStudentModalOpen} onClose={() => setIsStudentModalOpen(false)} onSave={handleSaveStudent} classes={classes} editingStudent={editingStudent} />
+      <ExamDefinitionModal isOpen={isExamDefModalOpen} onClose={() => { setIsExamDefModalOpen(false); setEditingExamDef(null); }} onSave={handleSaveExamDefinition} editingDefinition={editingExamDef} />
+      <StudentFormModal isOpen={isStudentModalOpen} onClose={() => setIsStudentModalOpen(false)} onSave={handleSaveStudent} classes={classes.filter(c => canEditClass(profile, c.id))} editingStudent={editingStudent} />
       <InputModal {...inputModalConfig} onClose={() => setInputModalConfig(prev => ({ ...prev, isOpen: false }))} />
+      <ReportCardModal isOpen={!!reportCardTarget} onClose={() => setReportCardTarget(null)} title={reportCardTarget?.title || ''} students={reportCardTarget?.students || []} source={{ students, classes, exams, examDefinitions }} />
+      <TermsModal isOpen={isTermsModalOpen} onClose={() => setIsTermsModalOpen(false)} terms={terms} students={openTermData.students} classes={openTermData.classes} examDefinitions={allExamDefinitions} onStartTerm={handleStartTerm} onApplyTransition={handleApplyTermTransition} />
+      <AbsenteesModal isOpen={!!absenteesTarget} onClose={() => setAbsenteesTarget(null)} title={absenteesTarget?.title || ''} results={absenteesTarget ? selectAttendanceResults(absenteesTarget.kind, absenteesTarget.id, attendanceSource) : []} students={students} classes={classes} canEdit={(result) => canEditStudent(profile, students.find(s => s.id === result.studentId))} onSetReason={handleSetAbsenceReason} onSelectStudent={(studentId) => handleNavigation('STUDENT_DETAIL', { studentId })} />
+      <DuplicateStudentsModal isOpen={isDuplicatesModalOpen} onClose={() => setIsDuplicatesModalOpen(false)} students={students} classes={classes} exams={allExams} examDefinitions={allExamDefinitions} canMerge={(a, b) => canEditStudent(profile, a) && canEditStudent(profile, b)} onMerge={handleMergeStudents} />
+      <ShareLinksModal isOpen={!!shareLinksTarget} onClose={() => setShareLinksTarget(null)} profile={profile} links={shareLinks} students={students} student={shareLinksTarget?.student || null} onCreate={handleCreateShareLink} onRevoke={handleRevokeShareLink} onRegenerate={handleRegenerateShareLink} onDelete={handleDeleteShareLink} />
+      <ImportHistoryModal isOpen={isImportHistoryOpen} onClose={() => setIsImportHistoryOpen(false)} profile={profile} state={{ students: allStudents, classes: allClasses, exams: allExams }} onRollback={handleRollbackImport} />
       <ConfirmModal {...confirmModalConfig} onClose={() => setConfirmModalConfig(prev => ({ ...prev, isOpen: false }))} />
-      <BatchImportModal isOpen={isBatchModalOpen} mode={batchModalMode} onClose={() => setIsBatchModalOpen(false)} onProcess={batchModalMode === 'student' ? handleBatchStudentImport : (batchModalMode === 'result' ? handleBatchResultImport : handleBatchClassChange)} />
+      <BatchImportModal isOpen={isBatchModalOpen} mode={batchModalMode} onClose={() => setIsBatchModalOpen(false)} onPreview={handleBatchImportPreview} onCommit={handleBatchImportCommit} onOpenFileImport={() => { setIsBatchModalOpen(false); setIsResultFileModalOpen(true); }} />
+      <ResultFileImportModal
+        isOpen={isResultFileModalOpen}
+        onClose={() => setIsResultFileModalOpen(false)}
+        onImport={handleFileResultImport}
+        examDefinitions={examDefinitions}
+        students={students}
+        classes={classes}
+        exams={exams}
+        canEdit={canEditImportStudent}
+        profile={profile}
+      />
     </div>
   );
 }
@@ -0,0 +1,74 @@
+import React from 'react';
+import { X, UserX } from 'lucide-react';
+import { ABSENCE_REASONS, ABSENCE_REASON_LABELS, UNKNOWN_REASON_LABEL, getAbsenceReasonLabel, isAbsent, summarizeAttendance } from '../services/attendance';
+import { formatDay } from '../services/reportCard';
+import { AbsenceReason, Classroom, ExamResult, Student } from '../types';
+
+interface AbsenteesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  results: ExamResult[]; // Every result behind the attendance figure; the absent ones are listed
+  students: Student[];
+  classes: Classroom[];
+  canEdit: (result: ExamResult) => boolean;
+  onSetReason: (result: ExamResult, reason: AbsenceReason | '') => void;
+  onSelectStudent: (studentId: string) => void;
+}
+
+// Drill-down behind a "KATILIM" figure
+export const AbsenteesModal: React.FC<AbsenteesModalProps> = ({ isOpen, onClose, title, results, students, classes, canEdit, onSetReason, onSelectStudent }) => {
+  if (!isOpen) return null;
+
+  const stats = summarizeAttendance(results);
+  const absences = results.filter(isAbsent).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  const describeStudent = (id: string) => {
+    const s = students.find(x => x.id === id);
+    if (!s) return 'Bilinmeyen';
+    return `${s.name} ${s.surname} · ${classes.find(c => c.id === s.classroomId)?.name || '-'}`;
+  };
+  const reasonCounts = [...ABSENCE_REASONS, 'UNKNOWN' as const]
+    .filter(reason => stats.byReason[reason] > 0)
+    .map(reason => `${reason === 'UNKNOWN' ? UNKNOWN_REASON_LABEL : ABSENCE_REASON_LABELS[reason]} ${stats.byReason[reason]}`);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4 backdrop-blur-sm">
+      <div className="bg-gray-800 rounded-3xl shadow-2xl w-full max-w-lg overflow-hidden border border-gray-700 flex flex-col max-h-[90vh]">
+        <div className="flex justify-between items-center p-4 border-b border-gray-700 bg-gray-900 text-white">
+          <h3 className="font-black text-sm uppercase flex items-center gap-2 min-w-0"><UserX size={16} className="text-red-400 shrink-0" /> <span className="truncate">{title}</span></h3>
+          <button onClick={onClose} className="hover:bg-gray-700 p-1 rounded text-gray-400 hover:text-white"><X size={18} /></button>
+        </div>
+        <div className="p-4 border-b border-gray-700 space-y-1">
+          <p className="text-sm text-white font-black">
+            Katılım {stats.rate === null ? '-' : `%${stats.rate}`} <span className="text-gray-500 text-xs font-bold">({stats.attended} / {stats.expected})</span>
+          </p>
+          {reasonCounts.length > 0 && <p className="text-[10px] text-gray-500 font-bold">{reasonCounts.join(' · ')}</p>}
+        </div>
+        <div className="overflow-y-auto flex-1 divide-y divide-gray-700/50">
+          {absences.length === 0 ? (
+            <div className="p-10 text-center text-gray-500 font-black uppercase tracking-widest text-xs">Devamsızlık yok</div>
+          ) : absences.map(result => (
+            <div key={result.id} className="p-4 flex items-center justify-between gap-3">
+              <button onClick={() => { onClose(); onSelectStudent(result.studentId); }} className="min-w-0 text-left">
+                <p className="text-sm text-white font-bold truncate hover:text-indigo-400">{describeStudent(result.studentId)}</p>
+                <p className="text-[10px] text-gray-500 truncate">{result.examName} · {formatDay(result.date)}</p>
+              </button>
+              {canEdit(result) ? (
+                <select
+                  value={result.absenceReason || ''}
+                  onChange={(e) => onSetReason(result, e.target.value as AbsenceReason | '')}
+                  className="shrink-0 bg-gray-900 text-white text-[10px] font-bold p-2 rounded-xl border border-gray-700 outline-none"
+                >
+                  <option value="">{UNKNOWN_REASON_LABEL}</option>
+                  {ABSENCE_REASONS.map(reason => <option key={reason} value={reason}>{ABSENCE_REASON_LABELS[reason]}</option>)}
+                </select>
+              ) : (
+                <span className="shrink-0 text-[10px] text-gray-400 font-bold">{getAbsenceReasonLabel(result)}</span>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
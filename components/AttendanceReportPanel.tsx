@@ -0,0 +1,68 @@
+import React, { useState, useMemo } from 'react';
+import { UserCheck } from 'lucide-react';
+import { AttendanceReportKind, AttendanceSource, ATTENDANCE_REPORT_LABELS, buildAttendanceReport } from '../services/attendance';
+import { formatDay } from '../services/reportCard';
+
+interface AttendanceReportPanelProps {
+  source: AttendanceSource; // Viewed term
+  onOpen: (kind: AttendanceReportKind, id: string, title: string) => void;
+}
+
+const PREVIEW_ROWS = 10;
+const LOW_RATE = 80; // Rates below this are shown in red
+
+export const AttendanceReportPanel: React.FC<AttendanceReportPanelProps> = ({ source, onOpen }) => {
+  const [kind, setKind] = useState<AttendanceReportKind>('STUDENT');
+  const [showAll, setShowAll] = useState(false);
+
+  const rows = useMemo(() => buildAttendanceReport(kind, source), [kind, source]);
+  const visible = showAll ? rows : rows.slice(0, PREVIEW_ROWS);
+
+  const selectKind = (next: AttendanceReportKind) => {
+    setKind(next);
+    setShowAll(false);
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-3xl border border-gray-700 shadow-lg overflow-hidden">
+      <div className="p-5 border-b border-gray-700 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <h3 className="text-gray-100 font-bold flex items-center gap-2"><UserCheck size={18} className="text-indigo-400" /> Katılım Raporu</h3>
+        <div className="flex bg-gray-900 rounded-2xl p-1 border border-gray-700 shadow-inner">
+          {(Object.keys(ATTENDANCE_REPORT_LABELS) as AttendanceReportKind[]).map(k => (
+            <button key={k} onClick={() => selectKind(k)} className={`flex-1 text-[10px] font-black px-4 py-2 rounded-xl transition-all uppercase ${kind === k ? 'bg-indigo-600 text-white shadow-lg' : 'text-gray-500'}`}>{ATTENDANCE_REPORT_LABELS[k]}</button>
+          ))}
+        </div>
+      </div>
+      {rows.length === 0 ? (
+        <div className="p-8 text-center text-gray-500 text-[10px] font-black uppercase tracking-widest">Henüz sonuç yok</div>
+      ) : (
+        <ul className="divide-y divide-gray-700/50">
+          {visible.map(row => (
+            <li key={row.id} onClick={() => onOpen(kind, row.id, row.label)} className="px-5 py-3 hover:bg-gray-700/30 cursor-pointer space-y-1.5">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-black text-white truncate">{row.label}</p>
+                  <p className="text-[9px] text-gray-500 font-bold">{kind === 'EXAM' ? formatDay(row.detail) : row.detail}</p>
+                </div>
+                <div className="text-right shrink-0">
+                  <p className={`text-sm font-black ${row.stats.rate !== null && row.stats.rate < LOW_RATE ? 'text-red-400' : 'text-indigo-400'}`}>{row.stats.rate === null ? '-' : `%${row.stats.rate}`}</p>
+                  <p className="text-[9px] text-gray-500 font-bold">{row.stats.attended} / {row.stats.expected}</p>
+                </div>
+              </div>
+              <div className="h-1.5 bg-gray-900 rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-500 rounded-full" style={{ width: `${row.stats.rate ?? 0}%` }}></div>
+              </div>
+            </li>
+          ))}
+          {rows.length > PREVIEW_ROWS && (
+            <li>
+              <button onClick={() => setShowAll(!showAll)} className="w-full py-2 text-[10px] text-gray-500 hover:text-gray-300 font-black uppercase">
+                {showAll ? 'Daha az göster' : `+${rows.length - PREVIEW_ROWS} satır daha`}
+              </button>
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import React from 'react';
+import { AUDIT_ACTION_LABELS, AUDIT_COLLECTION_LABELS, AuditNameResolver, formatAuditValue, getAuditFieldLabel } from '../services/auditLog';
+import { AuditEntry } from '../types';
+
+interface AuditEntryRowProps {
+  entry: AuditEntry;
+  resolveName: AuditNameResolver;
+  showDocument?: boolean; // Off in the student timeline, where every entry is about the same student
+}
+
+// Shown for added and deleted results, whose entries carry every field
+const RESULT_SUMMARY_FIELDS = ['status', 'correct', 'incorrect', 'net'];
+
+const ACTION_STYLES = {
+  CREATE: 'text-green-400',
+  UPDATE: 'text-indigo-400',
+  DELETE: 'text-red-400'
+};
+
+export const AuditEntryRow: React.FC<AuditEntryRowProps> = ({ entry, resolveName, showDocument = true }) => (
+  <div className="p-4 space-y-1">
+    <div className="flex items-start justify-between gap-2">
+      <p className="text-sm text-white font-bold min-w-0 truncate">
+        <span className={`text-[10px] font-black uppercase mr-2 ${ACTION_STYLES[entry.action]}`}>{AUDIT_COLLECTION_LABELS[entry.collection]} {AUDIT_ACTION_LABELS[entry.action]}</span>
+        {showDocument || entry.collection !== 'students' ? entry.docLabel || entry.docId : ''}
+      </p>
+      <span className="text-[10px] text-gray-500 shrink-0">{new Date(entry.at).toLocaleString('tr-TR')}</span>
+    </div>
+    <p className="text-[10px] text-gray-500">{entry.actorEmail || 'Bu cihaz'} · {entry.operation}</p>
+    {entry.action === 'UPDATE' && entry.changes.length > 0 && (
+      <ul className="text-[11px] text-gray-300 space-y-0.5 pt-1">
+        {entry.changes.map(c => (
+          <li key={c.field}>
+            <span className="text-gray-500">{getAuditFieldLabel(c.field)}:</span> <span className="line-through text-gray-500">{formatAuditValue(c.field, c.before, resolveName)}</span> → <span className="font-bold">{formatAuditValue(c.field, c.after, resolveName)}</span>
+          </li>
+        ))}
+      </ul>
+    )}
+    {entry.action !== 'UPDATE' && entry.collection === 'examResults' && (
+      <p className="text-[11px] text-gray-400">
+        {RESULT_SUMMARY_FIELDS.map(field => {
+          const change = entry.changes.find(c => c.field === field);
+          const value = change ? (entry.action === 'CREATE' ? change.after : change.before) : null;
+          return `${getAuditFieldLabel(field)}: ${formatAuditValue(field, value, resolveName)}`;
+        }).join(' · ')}
+      </p>
+    )}
+  </div>
+);
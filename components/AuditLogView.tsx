@@ -0,0 +1,97 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { fetchAuditLog } from '../services/dataService';
+import { AuditFilter, AuditNameResolver } from '../services/auditLog';
+import { AuditEntryRow } from './AuditEntryRow';
+import { AuditEntry, ExamDefinition, Student } from '../types';
+
+interface AuditLogViewProps {
+  students: Student[];
+  examDefinitions: ExamDefinition[];
+  resolveName: AuditNameResolver;
+}
+
+const PAGE_SIZE = 100;
+
+export const AuditLogView: React.FC<AuditLogViewProps> = ({ students, examDefinitions, resolveName }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [filter, setFilter] = useState<AuditFilter>({});
+  // Users seen in any page so far, so picking one does not empty the list of the others
+  const [actorEmails, setActorEmails] = useState<Map<string, string>>(new Map());
+  const requestRef = useRef(0);
+
+  // Replaces the list with the first page, or appends the page below the last loaded entry
+  const load = async (append: boolean) => {
+    const request = ++requestRef.current;
+    setIsLoading(true);
+    try {
+      const page = await fetchAuditLog(filter, PAGE_SIZE, append ? entries[entries.length - 1] : undefined);
+      if (request !== requestRef.current) return;
+      setEntries(prev => append ? [...prev, ...page] : page);
+      setHasMore(page.length === PAGE_SIZE);
+      setActorEmails(prev => {
+        const next = new Map(prev);
+        page.forEach(e => { if (!next.has(e.actorId)) next.set(e.actorId, e.actorEmail || 'Bu cihaz'); });
+        return next;
+      });
+    } catch (e) {
+      if (request === requestRef.current) alert("Değişiklik geçmişi yüklenemedi.");
+    } finally {
+      if (request === requestRef.current) setIsLoading(false);
+    }
+  };
+
+  useEffect(() => { load(false); }, [filter]);
+
+  // Users come from the log itself, so former members still show up
+  const actors = useMemo(() => Array.from(actorEmails.entries()).sort((a, b) => a[1].localeCompare(b[1])), [actorEmails]);
+
+  const sortedStudents = useMemo(() => students.slice().sort((a, b) => `${a.name} ${a.surname}`.localeCompare(`${b.name} ${b.surname}`, 'tr')), [students]);
+  const sortedDefinitions = useMemo(() => examDefinitions.slice().sort((a, b) => b.date.localeCompare(a.date)), [examDefinitions]);
+
+  const updateFilter = (change: AuditFilter) => {
+    setEntries([]);
+    setFilter(prev => ({ ...prev, ...change }));
+  };
+
+  const selectClass = "w-full bg-gray-800 text-white text-xs font-bold p-3 rounded-2xl border border-gray-700 outline-none";
+
+  return (
+    <div className="space-y-4 pb-safe animate-in fade-in duration-300">
+      <div className="flex items-center justify-between px-1">
+        <h2 className="text-xl font-black text-white uppercase tracking-tight">DEĞİŞİKLİK GEÇMİŞİ</h2>
+        <button onClick={() => load(false)} disabled={isLoading} title="Yenile" className="p-3 bg-gray-800 text-indigo-400 rounded-2xl border border-gray-700 active:scale-90 transition-all disabled:opacity-50"><RefreshCw size={18} className={isLoading ? 'animate-spin' : ''} /></button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        <select value={filter.studentId || ''} onChange={(e) => updateFilter({ studentId: e.target.value || undefined })} className={selectClass}>
+          <option value="">Tüm öğrenciler</option>
+          {sortedStudents.map(s => <option key={s.id} value={s.id}>{s.name} {s.surname}</option>)}
+        </select>
+        <select value={filter.examId || ''} onChange={(e) => updateFilter({ examId: e.target.value || undefined })} className={selectClass}>
+          <option value="">Tüm denemeler</option>
+          {sortedDefinitions.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+        </select>
+        <select value={filter.actorId || ''} onChange={(e) => updateFilter({ actorId: e.target.value || undefined })} className={selectClass}>
+          <option value="">Tüm kullanıcılar</option>
+          {actors.map(([id, email]) => <option key={id} value={id}>{email}</option>)}
+        </select>
+      </div>
+
+      <div className="bg-gray-800 rounded-3xl border border-gray-700 overflow-hidden shadow-lg divide-y divide-gray-700/50">
+        {isLoading && entries.length === 0 ? (
+          <div className="p-10 text-center text-gray-500 text-xs font-black uppercase">YÜKLENİYOR...</div>
+        ) : entries.length === 0 ? (
+          <div className="p-10 text-center text-gray-500 font-black uppercase tracking-widest text-xs">Kayıt bulunamadı</div>
+        ) : entries.map(entry => <AuditEntryRow key={entry.id} entry={entry} resolveName={resolveName} />)}
+        {hasMore && (
+          <button onClick={() => load(true)} disabled={isLoading} className="w-full p-4 text-[10px] font-black uppercase text-indigo-400 hover:bg-gray-700/30 disabled:opacity-50">
+            {isLoading ? 'YÜKLENİYOR...' : 'DAHA FAZLA GÖSTER'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
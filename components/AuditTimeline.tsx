@@ -0,0 +1,50 @@
+import React, { useState, useEffect } from 'react';
+import { fetchStudentAuditLog } from '../services/dataService';
+import { AuditNameResolver } from '../services/auditLog';
+import { AuditEntryRow } from './AuditEntryRow';
+import { AuditEntry } from '../types';
+
+interface AuditTimelineProps {
+  studentId: string;
+  resolveName: AuditNameResolver;
+}
+
+const INITIAL_COUNT = 5;
+const LOAD_LIMIT = 50; // Older edits are in the history view
+
+// Edits to one student and their results, newest first
+export const AuditTimeline: React.FC<AuditTimelineProps> = ({ studentId, resolveName }) => {
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [showAll, setShowAll] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setEntries(null);
+    setShowAll(false);
+    fetchStudentAuditLog(studentId, LOAD_LIMIT)
+      .then(found => { if (!cancelled) setEntries(found); })
+      .catch(e => { console.error(e); if (!cancelled) setEntries([]); });
+    return () => { cancelled = true; };
+  }, [studentId]);
+
+  return (
+    <div className="bg-gray-800 rounded-3xl border border-gray-700 overflow-hidden shadow-lg mb-4">
+      <div className="p-4 border-b border-gray-700 bg-gray-900/30"><h3 className="text-gray-200 font-black text-sm uppercase tracking-wider">DEĞİŞİKLİK GEÇMİŞİ</h3></div>
+      <div className="divide-y divide-gray-700/50">
+        {entries === null ? (
+          <div className="p-6 text-center text-gray-500 text-xs font-black uppercase">YÜKLENİYOR...</div>
+        ) : entries.length === 0 ? (
+          <div className="p-6 text-center text-gray-500 text-xs font-bold">Kayıtlı değişiklik yok.</div>
+        ) : (showAll ? entries : entries.slice(0, INITIAL_COUNT)).map(entry => (
+          <AuditEntryRow key={entry.id} entry={entry} resolveName={resolveName} showDocument={false} />
+        ))}
+        {entries && entries.length > INITIAL_COUNT && !showAll && (
+          <button onClick={() => setShowAll(true)} className="w-full p-3 text-[10px] font-black uppercase text-indigo-400 hover:bg-gray-700/30">TÜMÜNÜ GÖSTER ({entries.length})</button>
+        )}
+        {entries && showAll && entries.length === LOAD_LIMIT && (
+          <p className="p-3 text-center text-[10px] text-gray-500 font-bold">Son {LOAD_LIMIT} değişiklik gösteriliyor; öncekiler Değişiklikler ekranında.</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React, { useState, useEffect } from 'react';
+import { User } from 'firebase/auth';
+import { AlertTriangle, MailCheck } from 'lucide-react';
+import { subscribeToAuth, setCurrentProfile, signOut, resendEmailVerification, refreshEmailVerification, LOCAL_PROFILE } from '../services/authService';
+import { isLocalStorageBackend } from '../services/dataService';
+import { ensureUserProfile } from '../services/memberService';
+import { LoginScreen } from './LoginScreen';
+
+interface AuthGateProps {
+  children: React.ReactNode;
+}
+
+// Renders the login screen until a teacher is signed in and their profile (role, workspace)
+// is loaded. The app subtree is keyed by uid so that signing in as another teacher starts
+// from a fresh state and reloads their data. Local storage backends skip sign-in entirely.
+// A new account waits on a verification screen until its e-mail is verified (see ensureUserProfile).
+export const AuthGate: React.FC<AuthGateProps> = ({ children }) => {
+  const isLocal = isLocalStorageBackend();
+  const [user, setUser] = useState<User | null>(null);
+  const [isResolving, setIsResolving] = useState(true);
+  const [profileError, setProfileError] = useState<string | null>(null);
+  const [needsVerification, setNeedsVerification] = useState(false);
+  const [verificationNote, setVerificationNote] = useState<string | null>(null);
+
+  const resolveUser = async (u: User | null) => {
+    setIsResolving(true);
+    setProfileError(null);
+    setNeedsVerification(false);
+    setCurrentProfile(null);
+    if (u) {
+      try {
+        const profile = await ensureUserProfile(u);
+        setCurrentProfile(profile);
+        setNeedsVerification(!profile);
+      } catch (e) {
+        setProfileError("Kullanıcı profili yüklenemedi.");
+      }
+    }
+    setUser(u);
+    setIsResolving(false);
+  };
+
+  useEffect(() => {
+    if (isLocal) {
+      setCurrentProfile(LOCAL_PROFILE);
+      setIsResolving(false);
+      return;
+    }
+    return subscribeToAuth(resolveUser);
+  }, []);
+
+  const handleCheckVerification = async () => {
+    setVerificationNote(null);
+    try {
+      if (await refreshEmailVerification()) await resolveUser(user);
+      else setVerificationNote("E-posta adresi henüz doğrulanmadı.");
+    } catch (e) {
+      setVerificationNote("Doğrulama durumu alınamadı.");
+    }
+  };
+
+  const handleResendVerification = async () => {
+    setVerificationNote(null);
+    try {
+      await resendEmailVerification();
+      setVerificationNote("Doğrulama bağlantısı yeniden gönderildi.");
+    } catch (e) {
+      setVerificationNote("Bağlantı gönderilemedi. Lütfen biraz sonra tekrar deneyin.");
+    }
+  };
+
+  if (isResolving) return (<div className="flex h-[100dvh] items-center justify-center bg-gray-900 text-white"><div className="text-center"><div className="w-14 h-14 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin mx-auto mb-6 shadow-indigo-600/20"></div><p className="font-black tracking-widest uppercase text-[10px] text-indigo-400">ENGLISHNET</p></div></div>);
+  if (isLocal) return <>{children}</>;
+  if (!user) return <LoginScreen />;
+  if (needsVerification) return (<div className="flex h-[100dvh] items-center justify-center bg-gray-900 text-white p-4"><div className="max-w-md bg-gray-800 p-8 rounded-3xl border border-gray-700 shadow-2xl text-center space-y-4"><MailCheck size={48} className="mx-auto text-indigo-400" /><h2 className="text-2xl font-black">E-POSTA DOĞRULAMA</h2><p className="text-gray-400 text-sm">{user.email} adresine bir doğrulama bağlantısı gönderildi. Bağlantıyı açtıktan sonra devam edin; davet edildiyseniz okulunuza ancak doğrulanmış adresle katılabilirsiniz.</p>{verificationNote && <p className="text-xs text-yellow-400 font-bold">{verificationNote}</p>}<button onClick={handleCheckVerification} className="w-full bg-indigo-600 py-4 rounded-2xl font-black hover:bg-indigo-700 transition-all active:scale-95 shadow-xl shadow-indigo-900/20">DOĞRULADIM, DEVAM ET</button><div className="flex gap-2"><button onClick={handleResendVerification} className="flex-1 py-3 rounded-2xl text-xs font-black text-gray-300 border border-gray-700 hover:bg-gray-700">TEKRAR GÖNDER</button><button onClick={signOut} className="flex-1 py-3 rounded-2xl text-xs font-black text-gray-300 border border-gray-700 hover:bg-gray-700">ÇIKIŞ YAP</button></div></div></div>);
+  if (profileError) return (<div className="flex h-[100dvh] items-center justify-center bg-gray-900 text-white p-4"><div className="max-w-md bg-gray-800 p-8 rounded-3xl border border-red-900/30 shadow-2xl text-center"><AlertTriangle size={48} className="mx-auto text-red-500 mb-6" /><h2 className="text-2xl font-black mb-2">HATA</h2><p className="text-gray-400 mb-6">{profileError}</p><button onClick={signOut} className="w-full bg-indigo-600 py-4 rounded-2xl font-black hover:bg-indigo-700 transition-all active:scale-95 shadow-xl shadow-indigo-900/20">ÇIKIŞ YAP</button></div></div>);
+
+  return <React.Fragment key={user.uid}>{children}</React.Fragment>;
+};
@@ -0,0 +1,141 @@
+import React, { useState, useMemo } from 'react';
+import { Download, Upload, AlertTriangle } from 'lucide-react';
+import {
+  BackupCollections, BackupCollectionName, ParsedBackup, RestoreMode, BACKUP_COLLECTION_LABELS, BACKUP_SCHEMA_VERSION,
+  createBackup, downloadBackup, parseBackup, diffBackup, planRestore
+} from '../services/backupService';
+import { WriteProgress, apiRestoreBackup, describeWriteFailure } from '../services/dataService';
+
+interface BackupViewProps {
+  data: BackupCollections;
+  onRestored: (data: BackupCollections) => void;
+}
+
+const COLLECTIONS = Object.keys(BACKUP_COLLECTION_LABELS) as BackupCollectionName[];
+
+export const BackupView: React.FC<BackupViewProps> = ({ data, onRestored }) => {
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ParsedBackup | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('MERGE');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [progress, setProgress] = useState<WriteProgress | null>(null);
+
+  const diff = useMemo(() => parsed?.backup ? diffBackup(data, parsed.backup.collections) : null, [data, parsed]);
+
+  const handleExport = () => downloadBackup(createBackup(data));
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setFileName(file.name);
+    setParsed(parseBackup(await file.text()));
+  };
+
+  const handleRestore = async () => {
+    if (!parsed?.backup) return;
+    const warning = mode === 'REPLACE'
+      ? "Mevcut veriler yedekteki verilerle DEĞİŞTİRİLECEK. Yedekte olmayan kayıtlar silinecek. Devam edilsin mi?"
+      : "Yedekteki kayıtlar mevcut verilerle birleştirilecek. Aynı kayıtlar yedekteki haliyle güncellenecek. Devam edilsin mi?";
+    if (!window.confirm(warning)) return;
+
+    setIsRestoring(true);
+    try {
+      const plan = planRestore(data, parsed.backup.collections, mode);
+      await apiRestoreBackup(plan, { onProgress: setProgress });
+      onRestored(plan.result);
+      setParsed(null);
+      setFileName('');
+      alert("Geri yükleme tamamlandı.");
+    } catch (err) {
+      alert("Geri yükleme sırasında hata oluştu. Sayfayı yenileyip verileri kontrol edin." + describeWriteFailure(err));
+    } finally {
+      setIsRestoring(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4 pb-safe animate-in fade-in duration-300">
+      <h2 className="text-xl font-black text-white uppercase tracking-tight px-1">YEDEKLEME</h2>
+
+      <div className="bg-gray-800 p-5 rounded-3xl border border-gray-700 shadow-lg space-y-3">
+        <h3 className="text-gray-200 font-black text-sm uppercase flex items-center gap-2"><Download size={16} className="text-indigo-400" /> Yedek Al</h3>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          {COLLECTIONS.map(name => (
+            <div key={name} className="bg-gray-900 p-3 rounded-2xl border border-gray-700 text-center">
+              <p className="text-indigo-400 text-[10px] font-black uppercase mb-1">{BACKUP_COLLECTION_LABELS[name]}</p>
+              <p className="text-xl font-black text-white">{data[name].length}</p>
+            </div>
+          ))}
+        </div>
+        <button onClick={handleExport} className="bg-indigo-600 text-white px-4 py-2 rounded-xl text-xs font-black shadow-lg active:scale-95 transition-all">YEDEK İNDİR (JSON)</button>
+        <p className="text-[10px] text-gray-500">Dönem sonundan veya toplu işlemlerden önce yedek almanız önerilir. Şema sürümü: v{BACKUP_SCHEMA_VERSION}</p>
+      </div>
+
+      <div className="bg-gray-800 p-5 rounded-3xl border border-gray-700 shadow-lg space-y-3">
+        <h3 className="text-gray-200 font-black text-sm uppercase flex items-center gap-2"><Upload size={16} className="text-indigo-400" /> Geri Yükle</h3>
+        <label className="inline-block bg-gray-900 text-gray-300 px-4 py-2 rounded-xl text-xs font-black border border-gray-700 cursor-pointer hover:bg-gray-700">
+          DOSYA SEÇ
+          <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+        </label>
+        {fileName && <span className="ml-2 text-xs text-gray-400">{fileName}</span>}
+
+        {parsed && parsed.errors.length > 0 && (
+          <div className="text-red-400 bg-red-900/20 p-3 rounded-xl text-xs border border-red-900/50 space-y-1">
+            <p className="font-black flex items-center gap-2"><AlertTriangle size={14} /> Yedek geri yüklenemez:</p>
+            {parsed.errors.map((e, i) => <p key={i}>{e}</p>)}
+          </div>
+        )}
+
+        {parsed?.backup && diff && (
+          <>
+            <p className="text-[10px] text-gray-500">
+              Yedek tarihi: {new Date(parsed.backup.exportedAt).toLocaleString('tr-TR')}
+              {parsed.sourceVersion !== BACKUP_SCHEMA_VERSION && ` · v${parsed.sourceVersion} → v${BACKUP_SCHEMA_VERSION} dönüştürüldü`}
+            </p>
+            {parsed.warnings.map((w, i) => <p key={i} className="text-[10px] text-yellow-400">{w}</p>)}
+
+            <div className="overflow-x-auto scrollbar-hide">
+              <table className="w-full text-left text-gray-300">
+                <thead className="text-[10px] uppercase bg-gray-900 text-gray-500 font-black">
+                  <tr>
+                    <th className="px-4 py-3"></th>
+                    <th className="px-2 py-3 text-center">YENİ</th>
+                    <th className="px-2 py-3 text-center">DEĞİŞEN</th>
+                    <th className="px-2 py-3 text-center">AYNI</th>
+                    <th className="px-2 py-3 text-center" title="Şu an var, yedekte yok">YEDEKTE YOK</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-700/50 text-sm">
+                  {COLLECTIONS.map(name => (
+                    <tr key={name}>
+                      <td className="px-4 py-3 font-black text-white">{BACKUP_COLLECTION_LABELS[name]}</td>
+                      <td className="px-2 py-3 text-center text-green-400 font-bold">{diff[name].added.length}</td>
+                      <td className="px-2 py-3 text-center text-yellow-400 font-bold">{diff[name].changed.length}</td>
+                      <td className="px-2 py-3 text-center text-gray-500">{diff[name].unchanged}</td>
+                      <td className={`px-2 py-3 text-center font-bold ${mode === 'REPLACE' ? 'text-red-400' : 'text-gray-500'}`}>{diff[name].removed.length}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <button onClick={() => setMode('MERGE')} className={`p-3 rounded-2xl text-xs font-black border transition-all ${mode === 'MERGE' ? 'bg-indigo-600 text-white border-indigo-500' : 'bg-gray-900 text-gray-500 border-gray-700'}`}>BİRLEŞTİR</button>
+              <button onClick={() => setMode('REPLACE')} className={`p-3 rounded-2xl text-xs font-black border transition-all ${mode === 'REPLACE' ? 'bg-red-600 text-white border-red-500' : 'bg-gray-900 text-gray-500 border-gray-700'}`}>TÜMÜNÜ DEĞİŞTİR</button>
+            </div>
+            <p className="text-[10px] text-gray-500">
+              {mode === 'MERGE'
+                ? 'Yeni ve değişen kayıtlar yazılır, yedekte olmayan kayıtlar korunur.'
+                : 'Veriler yedekteki haline getirilir, yedekte olmayan kayıtlar silinir.'}
+            </p>
+            <button onClick={handleRestore} disabled={isRestoring} className="w-full bg-indigo-600 text-white py-3 rounded-2xl text-xs font-black hover:bg-indigo-700 transition-all active:scale-95 disabled:opacity-50">
+              {isRestoring ? `YÜKLENİYOR...${progress && progress.chunkCount > 1 ? ` ${progress.written}/${progress.total}` : ''}` : 'GERİ YÜKLE'}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
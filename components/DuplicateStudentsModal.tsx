@@ -0,0 +1,136 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, GitMerge, ArrowLeft } from 'lucide-react';
+import { ConflictChoice, DuplicatePair, describeStudent, findDuplicateStudents, findMergeConflicts, suggestConflictChoice } from '../services/studentMerge';
+import { formatDay } from '../services/reportCard';
+import { Classroom, ExamDefinition, ExamResult, Student } from '../types';
+
+interface DuplicateStudentsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  students: Student[];
+  classes: Classroom[];
+  exams: ExamResult[]; // All terms, so the whole history moves
+  examDefinitions: ExamDefinition[];
+  canMerge: (a: Student, b: Student) => boolean;
+  onMerge: (survivor: Student, removed: Student, choices: Record<string, ConflictChoice>) => Promise<boolean>;
+}
+
+const describeResult = (r: ExamResult) => r.status === 'MISSING' ? 'Girmedi' : `${r.net} net (${r.correct}D ${r.incorrect}Y)${r.answers ? ' · cevaplı' : ''}`;
+
+export const DuplicateStudentsModal: React.FC<DuplicateStudentsModalProps> = ({ isOpen, onClose, students, classes, exams, examDefinitions, canMerge, onMerge }) => {
+  const [pair, setPair] = useState<DuplicatePair | null>(null);
+  const [survivorId, setSurvivorId] = useState('');
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) setPair(null);
+  }, [isOpen]);
+
+  const pairs = useMemo(() => isOpen ? findDuplicateStudents(students).filter(p => canMerge(p.a, p.b)) : [], [isOpen, students]);
+
+  const survivor = pair ? (pair.a.id === survivorId ? pair.a : pair.b) : null;
+  const removed = pair ? (pair.a.id === survivorId ? pair.b : pair.a) : null;
+  const conflicts = useMemo(
+    () => survivor && removed ? findMergeConflicts(survivor, removed, exams, examDefinitions) : [],
+    [survivor, removed, exams, examDefinitions]
+  );
+
+  if (!isOpen) return null;
+
+  const resultCount = (s: Student) => exams.filter(e => e.studentId === s.id).length;
+
+  // The record with more results survives by default, so fewer documents move
+  const openPair = (next: DuplicatePair) => {
+    setPair(next);
+    setSurvivorId(resultCount(next.a) >= resultCount(next.b) ? next.a.id : next.b.id);
+    setChoices({});
+  };
+
+  const choiceFor = (examKey: string) => choices[examKey] || suggestConflictChoice(conflicts.find(c => c.examKey === examKey)!);
+
+  const handleMerge = async () => {
+    if (!survivor || !removed) return;
+    const message = `"${describeStudent(removed, classes)}" kaydının sonuçları "${describeStudent(survivor, classes)}" kaydına aktarılacak ve bu kayıt çöp kutusuna taşınacak.` +
+      (conflicts.length > 0 ? `\n\n${conflicts.length} denemede iki kaydın da sonucu var; seçilmeyen sonuçlar da çöp kutusuna taşınacak.` : '') +
+      "\n\nDevam edilsin mi?";
+    if (!window.confirm(message)) return;
+    setIsSaving(true);
+    try {
+      if (await onMerge(survivor, removed, Object.fromEntries(conflicts.map(c => [c.examKey, choiceFor(c.examKey)])))) setPair(null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4 backdrop-blur-sm">
+      <div className="bg-gray-800 rounded-3xl shadow-2xl w-full max-w-lg overflow-hidden border border-gray-700 flex flex-col max-h-[90vh]">
+        <div className="flex justify-between items-center p-4 border-b border-gray-700 bg-gray-900 text-white">
+          <h3 className="font-black text-sm uppercase flex items-center gap-2">
+            {pair && <button onClick={() => setPair(null)} className="hover:bg-gray-700 p-1 rounded text-gray-400 hover:text-white"><ArrowLeft size={16} /></button>}
+            <GitMerge size={16} className="text-indigo-400" /> {pair ? 'Kayıtları Birleştir' : 'Çift Öğrenci Kayıtları'}
+          </h3>
+          <button onClick={onClose} className="hover:bg-gray-700 p-1 rounded text-gray-400 hover:text-white"><X size={18} /></button>
+        </div>
+
+        {!pair ? (
+          <div className="overflow-y-auto flex-1 divide-y divide-gray-700/50">
+            {pairs.length === 0 ? (
+              <div className="p-10 text-center text-gray-500 font-black uppercase tracking-widest text-xs">Benzer isimli öğrenci bulunamadı</div>
+            ) : pairs.map(p => (
+              <div key={`${p.a.id}-${p.b.id}`} className="p-4 flex items-center justify-between gap-2">
+                <div className="min-w-0 space-y-0.5">
+                  <p className="text-sm text-white font-bold truncate">{describeStudent(p.a, classes)} <span className="text-gray-500 text-[10px]">· {resultCount(p.a)} sonuç</span></p>
+                  <p className="text-sm text-white font-bold truncate">{describeStudent(p.b, classes)} <span className="text-gray-500 text-[10px]">· {resultCount(p.b)} sonuç</span></p>
+                  <p className="text-[10px] text-gray-500">Benzerlik %{Math.round(p.score * 100)}{p.sameClass ? '' : ' · farklı sınıflar'}</p>
+                </div>
+                <button onClick={() => openPair(p)} className="shrink-0 p-2 rounded-xl border border-gray-700 text-indigo-400 hover:bg-gray-700 text-[10px] font-black">İNCELE</button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <>
+            <div className="p-4 space-y-4 overflow-y-auto flex-1">
+              <div className="space-y-2">
+                <p className="text-[10px] text-gray-500 font-black uppercase">Kalacak kayıt</p>
+                {[pair.a, pair.b].map(s => (
+                  <label key={s.id} className={`flex items-center gap-3 p-3 rounded-2xl border cursor-pointer ${survivorId === s.id ? 'border-indigo-500 bg-indigo-600/10' : 'border-gray-700 bg-gray-900'}`}>
+                    <input type="radio" checked={survivorId === s.id} onChange={() => { setSurvivorId(s.id); setChoices({}); }} className="accent-indigo-500" />
+                    <span className="text-sm text-white font-bold flex-1 truncate">{describeStudent(s, classes)}</span>
+                    <span className="text-[10px] text-gray-500 shrink-0">{resultCount(s)} sonuç</span>
+                  </label>
+                ))}
+              </div>
+
+              {conflicts.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-[10px] text-gray-500 font-black uppercase">İki kaydın da sonucu olan denemeler: hangisininki kalsın?</p>
+                  {conflicts.map(c => (
+                    <div key={c.examKey} className="bg-gray-900 rounded-2xl border border-gray-700 p-3 space-y-2">
+                      <p className="text-xs text-white font-bold">{c.examName} <span className="text-gray-500 font-normal">· {formatDay(c.date)}</span></p>
+                      {(['SURVIVOR', 'REMOVED'] as ConflictChoice[]).map(side => {
+                        const results = side === 'SURVIVOR' ? c.survivorResults : c.removedResults;
+                        return (
+                          <label key={side} className="flex items-center gap-2 text-[11px] text-gray-300 cursor-pointer">
+                            <input type="radio" checked={choiceFor(c.examKey) === side} onChange={() => setChoices(prev => ({ ...prev, [c.examKey]: side }))} className="accent-indigo-500" />
+                            {results.map(describeResult).join(' / ')} <span className="text-gray-500">({side === 'SURVIVOR' ? 'kalan kayıttan' : 'silinen kayıttan'})</span>
+                          </label>
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="p-4 border-t border-gray-700">
+              <button onClick={handleMerge} disabled={isSaving} className="w-full bg-indigo-600 text-white py-3 rounded-2xl text-xs font-black hover:bg-indigo-700 transition-all active:scale-95 disabled:opacity-50">
+                {isSaving ? 'BİRLEŞTİRİLİYOR...' : 'BİRLEŞTİR'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React, { useState, useMemo } from 'react';
+import { AlertTriangle, Settings2 } from 'lucide-react';
+import {
+  EarlyWarningSettings, DEFAULT_EARLY_WARNING_SETTINGS, EARLY_WARNING_SETTING_LABELS, WARNING_RULE_LABELS,
+  parseEarlyWarningSetting, findEarlyWarnings, loadEarlyWarningSettings, saveEarlyWarningSettings
+} from '../services/earlyWarning';
+import { Classroom, ExamResult, Student } from '../types';
+
+interface EarlyWarningPanelProps {
+  students: Student[];
+  classes: Classroom[];
+  exams: ExamResult[]; // Viewed term
+  onSelectStudent: (studentId: string) => void;
+}
+
+const PREVIEW_ROWS = 8;
+
+export const EarlyWarningPanel: React.FC<EarlyWarningPanelProps> = ({ students, classes, exams, onSelectStudent }) => {
+  const [settings, setSettings] = useState<EarlyWarningSettings>(loadEarlyWarningSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [drafts, setDrafts] = useState<Partial<Record<keyof EarlyWarningSettings, string>>>({}); // Typed values, applied on blur
+  const [showAll, setShowAll] = useState(false);
+
+  const warnings = useMemo(() => findEarlyWarnings(students, exams, settings), [students, exams, settings]);
+  const visible = showAll ? warnings : warnings.slice(0, PREVIEW_ROWS);
+
+  // Applied once the field is left, so raising a count to its minimum does not get in the way of typing
+  const commitSetting = (key: keyof EarlyWarningSettings) => {
+    const draft = drafts[key];
+    if (draft === undefined) return;
+    const next = { ...settings, [key]: parseEarlyWarningSetting(key, draft) };
+    setSettings(next);
+    saveEarlyWarningSettings(next);
+    setDrafts(({ [key]: _, ...rest }) => rest);
+  };
+
+  const resetSettings = () => {
+    setDrafts({});
+    setSettings(DEFAULT_EARLY_WARNING_SETTINGS);
+    saveEarlyWarningSettings(DEFAULT_EARLY_WARNING_SETTINGS);
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-3xl border border-gray-700 shadow-lg overflow-hidden">
+      <div className="p-4 md:p-5 flex items-center justify-between gap-2 border-b border-gray-700">
+        <h3 className="text-gray-100 font-black text-sm flex items-center gap-2">
+          <AlertTriangle size={16} className="text-yellow-400" /> Erken Uyarı
+          {warnings.length > 0 && <span className="bg-yellow-600/20 text-yellow-400 text-[10px] px-2 py-0.5 rounded-full">{warnings.length}</span>}
+        </h3>
+        <button onClick={() => setShowSettings(!showSettings)} title="Eşikler" className={`p-2 rounded-xl border border-gray-700 ${showSettings ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}><Settings2 size={14} /></button>
+      </div>
+
+      {showSettings && (
+        <div className="p-4 bg-gray-900/50 border-b border-gray-700 space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            {(Object.keys(EARLY_WARNING_SETTING_LABELS) as (keyof EarlyWarningSettings)[]).map(key => (
+              <label key={key} className="block">
+                <span className="block text-[10px] text-gray-500 font-black uppercase mb-1">{EARLY_WARNING_SETTING_LABELS[key]}</span>
+                <input type="number" min={0} step={key === 'dropNet' ? 0.5 : 1} value={drafts[key] ?? settings[key]} onChange={(e) => setDrafts(prev => ({ ...prev, [key]: e.target.value }))} onBlur={() => commitSetting(key)} className="w-full bg-gray-900 text-white text-xs font-bold p-2 rounded-xl border border-gray-700 outline-none" />
+              </label>
+            ))}
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-[10px] text-gray-500">0 kuralı kapatır. Deneme sayıları tam sayıdır; düşüş eğilimi en az 2 denemeye bakar. Eşikler bu cihazda saklanır.</p>
+            <button onClick={resetSettings} className="text-[10px] text-gray-400 hover:text-white font-black uppercase">Varsayılan</button>
+          </div>
+        </div>
+      )}
+
+      {warnings.length === 0 ? (
+        <div className="p-6 text-center text-gray-500 text-[10px] font-black uppercase tracking-widest">Uyarı gerektiren öğrenci yok</div>
+      ) : (
+        <ul className="divide-y divide-gray-700/50">
+          {visible.map(({ student, flags }) => (
+            <li key={student.id} onClick={() => onSelectStudent(student.id)} className="px-4 md:px-5 py-3 hover:bg-gray-700/30 cursor-pointer space-y-1.5">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-black text-white uppercase tracking-tighter truncate">{student.name} {student.surname}</span>
+                <span className="text-[9px] text-indigo-400/80 font-bold shrink-0">{classes.find(c => c.id === student.classroomId)?.name || '-'}</span>
+              </div>
+              <div className="flex flex-wrap gap-1.5">
+                {flags.map(flag => (
+                  <span key={flag.rule} className="text-[10px] bg-red-600/10 text-red-300 border border-red-600/30 px-2 py-0.5 rounded-full">
+                    <span className="font-black">{WARNING_RULE_LABELS[flag.rule]}:</span> {flag.detail}
+                  </span>
+                ))}
+              </div>
+            </li>
+          ))}
+          {warnings.length > PREVIEW_ROWS && (
+            <li>
+              <button onClick={() => setShowAll(!showAll)} className="w-full py-2 text-[10px] text-gray-500 hover:text-gray-300 font-black uppercase">
+                {showAll ? 'Daha az göster' : `+${warnings.length - PREVIEW_ROWS} öğrenci daha`}
+              </button>
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,217 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { DEFAULT_SCORING_POLICY, getScoringPolicy, validateAnswerKey } from '../services/dataService';
+import { SKILLS } from '../services/skillAnalysis';
+import { ExamDefinition, NetRounding, SkillId } from '../types';
+
+interface ExamDefinitionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (def: ExamDefinition | Omit<ExamDefinition, 'id'>) => void;
+  editingDefinition?: ExamDefinition | null;
+}
+
+const PENALTY_OPTIONS = [
+  { value: 0.33, label: '3 yanlış 1 doğruyu götürür' },
+  { value: 0.25, label: '4 yanlış 1 doğruyu götürür' },
+  { value: 0, label: 'Yanlış doğruyu götürmez' },
+];
+
+const ROUNDING_OPTIONS: { value: NetRounding, label: string }[] = [
+  { value: 'ROUND_2', label: '2 hane (yuvarla)' },
+  { value: 'ROUND_1', label: '1 hane (yuvarla)' },
+  { value: 'FLOOR_2', label: '2 hane (aşağı)' },
+];
+
+export const ExamDefinitionModal: React.FC<ExamDefinitionModalProps> = ({
+  isOpen, onClose, onSave, editingDefinition
+}) => {
+  const [name, setName] = useState('');
+  const [date, setDate] = useState('');
+  const [questionCount, setQuestionCount] = useState(DEFAULT_SCORING_POLICY.questionCount);
+  const [penaltyRatio, setPenaltyRatio] = useState(DEFAULT_SCORING_POLICY.penaltyRatio);
+  const [rounding, setRounding] = useState<NetRounding>(DEFAULT_SCORING_POLICY.rounding);
+  const [answerKey, setAnswerKey] = useState('');
+  const [skillTags, setSkillTags] = useState<SkillId[]>([]);
+  const [showSkillTags, setShowSkillTags] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      const policy = getScoringPolicy(editingDefinition);
+      setName(editingDefinition?.name || '');
+      setDate(editingDefinition?.date || new Date().toISOString().split('T')[0]);
+      setQuestionCount(policy.questionCount);
+      setPenaltyRatio(policy.penaltyRatio);
+      setRounding(policy.rounding);
+      setAnswerKey(editingDefinition?.answerKey || '');
+      setSkillTags(editingDefinition?.skillTags || []);
+      setShowSkillTags(false);
+    }
+  }, [isOpen, editingDefinition]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!Number.isInteger(questionCount) || questionCount < 1) {
+      alert("Soru sayısı en az 1 olmalıdır.");
+      return;
+    }
+    const keyError = validateAnswerKey(answerKey, { questionCount });
+    if (keyError) {
+      alert(keyError);
+      return;
+    }
+
+    const tags = Array.from({ length: questionCount }, (_, i) => skillTags[i] || '');
+    const defData = { name, date, questionCount, penaltyRatio, rounding, answerKey, skillTags: tags };
+
+    if (editingDefinition) {
+      onSave({ ...editingDefinition, ...defData });
+    } else {
+      onSave(defData);
+    }
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  const setSkillTag = (index: number, skill: SkillId) => {
+    setSkillTags(prev => {
+      const next = Array.from({ length: Math.max(prev.length, index + 1) }, (_, i) => prev[i] || '');
+      next[index] = skill;
+      return next;
+    });
+  };
+
+  const penaltyOptions = PENALTY_OPTIONS.some(o => o.value === penaltyRatio)
+    ? PENALTY_OPTIONS
+    : [...PENALTY_OPTIONS, { value: penaltyRatio, label: `Yanlış başına ${penaltyRatio}` }];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4 backdrop-blur-sm">
+      <div className="bg-gray-800 rounded-lg shadow-xl w-full max-w-sm overflow-hidden border border-gray-700">
+        <div className="flex justify-between items-center p-3 border-b border-gray-700 bg-gray-900 text-white">
+          <h3 className="text-base font-semibold">
+            {editingDefinition ? 'Deneme Düzenle' : 'Yeni Deneme Ekle'}
+          </h3>
+          <button onClick={onClose} className="hover:bg-gray-700 p-1 rounded text-gray-400 hover:text-white">
+            <X size={18} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 space-y-4 max-h-[80vh] overflow-y-auto">
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">Deneme Adı</label>
+            <input
+              required
+              autoFocus
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 text-sm focus:ring-indigo-500 focus:border-indigo-500 text-white"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">Tarih</label>
+              <input
+                required
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 text-sm focus:ring-indigo-500 focus:border-indigo-500 text-white"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">Soru Sayısı</label>
+              <input
+                required
+                type="number"
+                min="1"
+                max="200"
+                value={questionCount}
+                onChange={(e) => setQuestionCount(Number(e.target.value))}
+                className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 text-sm focus:ring-indigo-500 focus:border-indigo-500 text-white"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">Yanlış Cezası</label>
+            <select
+              value={penaltyRatio}
+              onChange={(e) => setPenaltyRatio(Number(e.target.value))}
+              className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 text-sm focus:ring-indigo-500 focus:border-indigo-500 text-white"
+            >
+              {penaltyOptions.map(o => (
+                <option key={o.value} value={o.value}>{o.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">Net Yuvarlama</label>
+            <select
+              value={rounding}
+              onChange={(e) => setRounding(e.target.value as NetRounding)}
+              className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 text-sm focus:ring-indigo-500 focus:border-indigo-500 text-white"
+            >
+              {ROUNDING_OPTIONS.map(o => (
+                <option key={o.value} value={o.value}>{o.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">
+              Cevap Anahtarı (İsteğe Bağlı) <span className="text-gray-500">{answerKey.length} / {questionCount}</span>
+            </label>
+            <input
+              type="text"
+              value={answerKey}
+              placeholder="ABCDA..."
+              onChange={(e) => setAnswerKey(e.target.value.toUpperCase().replace(/\s+/g, ''))}
+              className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 text-sm font-mono tracking-widest focus:ring-indigo-500 focus:border-indigo-500 text-white"
+            />
+          </div>
+
+          <div>
+            <button
+              type="button"
+              onClick={() => setShowSkillTags(!showSkillTags)}
+              className="text-xs font-medium text-indigo-400 hover:text-indigo-300"
+            >
+              {showSkillTags ? '▾' : '▸'} Soru Kazanım Etiketleri ({skillTags.slice(0, questionCount).filter(t => t).length} / {questionCount})
+            </button>
+            {showSkillTags && (
+              <div className="grid grid-cols-2 gap-2 mt-2">
+                {Array.from({ length: questionCount }, (_, i) => (
+                  <div key={i} className="flex items-center gap-1">
+                    <span className="text-[10px] text-gray-500 w-5 text-right">{i + 1}</span>
+                    <select
+                      value={skillTags[i] || ''}
+                      onChange={(e) => setSkillTag(i, e.target.value as SkillId)}
+                      className="flex-1 bg-gray-700 border border-gray-600 rounded-md p-1 text-xs text-white"
+                    >
+                      <option value="">-</option>
+                      {SKILLS.map(sk => <option key={sk.id} value={sk.id}>{sk.label}</option>)}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="pt-2">
+            <button
+              type="submit"
+              className="w-full bg-indigo-600 text-white py-2 px-4 rounded-md hover:bg-indigo-700 transition-colors font-medium text-sm"
+            >
+              {editingDefinition ? 'Güncelle' : 'Kaydet'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
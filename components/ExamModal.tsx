@@ -1,8 +1,9 @@
 
 import React, { useState, useEffect } from 'react';
 import { X } from 'lucide-react';
-import { calculateNet } from '../services/dataService';
-import { ExamResult, ExamDefinition } from '../types';
+import { calculateNet, getScoringPolicy, validateResultCounts, hasAnswerKey, scoreAnswers, validateAnswerString, normalizeAnswerString } from '../services/dataService';
+import { ABSENCE_REASONS, ABSENCE_REASON_LABELS, UNKNOWN_REASON_LABEL } from '../services/attendance';
+import { AbsenceReason, ExamResult, ExamDefinition } from '../types';
 
 interface ExamModalProps {
   isOpen: boolean;
@@ -23,6 +24,13 @@ export const ExamModal: React.FC<ExamModalProps> = ({
   const [incorrect, setIncorrect] = useState(0);
   const [previewNet, setPreviewNet] = useState(0);
   const [isMissing, setIsMissing] = useState(false);
+  const [absenceReason, setAbsenceReason] = useState<AbsenceReason | ''>('');
+  const [entryMode, setEntryMode] = useState<'counts' | 'answers'>('answers');
+  const [answers, setAnswers] = useState('');
+
+  const selectedExam = examDefinitions.find(ed => ed.id === selectedExamId);
+  const policy = getScoringPolicy(selectedExam);
+  const useAnswers = entryMode === 'answers' && hasAnswerKey(selectedExam);
 
   useEffect(() => {
     if (isOpen) {
@@ -31,6 +39,9 @@ export const ExamModal: React.FC<ExamModalProps> = ({
          setCorrect(initialData.correct);
          setIncorrect(initialData.incorrect);
          setIsMissing(initialData.status === 'MISSING');
+         setAbsenceReason(initialData.absenceReason || '');
+         setEntryMode(initialData.answers ? 'answers' : 'counts');
+         setAnswers(initialData.answers || '');
        } else {
          if (preselectedExamDefId) {
             setSelectedExamId(preselectedExamDefId);
@@ -43,30 +54,47 @@ export const ExamModal: React.FC<ExamModalProps> = ({
          setCorrect(0);
          setIncorrect(0);
          setIsMissing(false);
+         setAbsenceReason('');
+         setEntryMode('answers');
+         setAnswers('');
        }
     }
   }, [isOpen, initialData, examDefinitions, preselectedExamDefId, existingExamIds]);
 
+  // In answer mode the counts are derived from the answer key
+  useEffect(() => {
+    if (useAnswers && selectedExam) {
+        const scored = scoreAnswers(answers, selectedExam);
+        setCorrect(scored.correct);
+        setIncorrect(scored.incorrect);
+    }
+  }, [useAnswers, answers, selectedExam]);
+
   useEffect(() => {
     if (isMissing) {
         setPreviewNet(0);
     } else {
-        setPreviewNet(calculateNet(correct, incorrect));
+        setPreviewNet(calculateNet(correct, incorrect, policy));
     }
-  }, [correct, incorrect, isMissing]);
+  }, [correct, incorrect, isMissing, policy.penaltyRatio, policy.rounding]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
+    const answerError = !isMissing && useAnswers ? validateAnswerString(answers, selectedExam) : null;
+    if (answerError) {
+      alert(answerError);
+      return;
+    }
+
     // Auto calculate empty
-    const empty = 10 - (correct + incorrect);
-    if (empty < 0) {
-      alert("Toplam soru sayısı 10'dur. Doğru ve Yanlış toplamı 10'u geçemez.");
+    const empty = policy.questionCount - (correct + incorrect);
+    const countError = isMissing ? null : validateResultCounts(correct, incorrect, policy);
+    if (countError) {
+      alert(countError);
       return;
     }
 
-    const selectedExam = examDefinitions.find(ed => ed.id === selectedExamId);
-    
     // Prevent saving if exam is already taken (and we are not editing)
     if (!initialData && existingExamIds.includes(selectedExamId)) {
         alert("Bu öğrenci için bu deneme zaten girilmiş.");
@@ -86,6 +114,8 @@ export const ExamModal: React.FC<ExamModalProps> = ({
       empty: isMissing ? 0 : empty,
       net: isMissing ? 0 : previewNet,
       status: isMissing ? 'MISSING' as const : 'ATTENDED' as const,
+      ...(!isMissing && useAnswers ? { answers: normalizeAnswerString(answers, policy.questionCount) } : {}),
+      ...(isMissing && absenceReason ? { absenceReason } : {}),
     };
 
     if (initialData) {
@@ -155,6 +185,43 @@ export const ExamModal: React.FC<ExamModalProps> = ({
             </label>
           </div>
 
+          {isMissing && (
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">Neden</label>
+              <select
+                value={absenceReason}
+                onChange={(e) => setAbsenceReason(e.target.value as AbsenceReason | '')}
+                className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 text-sm focus:ring-indigo-500 focus:border-indigo-500 text-white"
+              >
+                <option value="">{UNKNOWN_REASON_LABEL}</option>
+                {ABSENCE_REASONS.map(reason => <option key={reason} value={reason}>{ABSENCE_REASON_LABELS[reason]}</option>)}
+              </select>
+            </div>
+          )}
+
+          {!isMissing && hasAnswerKey(selectedExam) && (
+            <div className="flex bg-gray-900 rounded-md p-1 border border-gray-700">
+                <button type="button" onClick={() => setEntryMode('answers')} className={`flex-1 text-xs font-medium py-1.5 rounded ${entryMode === 'answers' ? 'bg-indigo-600 text-white' : 'text-gray-400'}`}>Cevap Dizisi</button>
+                <button type="button" onClick={() => setEntryMode('counts')} className={`flex-1 text-xs font-medium py-1.5 rounded ${entryMode === 'counts' ? 'bg-indigo-600 text-white' : 'text-gray-400'}`}>Doğru / Yanlış</button>
+            </div>
+          )}
+
+          {!isMissing && useAnswers && (
+            <div>
+                <label className="block text-xs font-medium text-gray-400 mb-1">
+                    Cevaplar <span className="text-gray-500">({answers.length} / {policy.questionCount}, boş için "-")</span>
+                </label>
+                <input
+                    type="text"
+                    autoFocus
+                    value={answers}
+                    placeholder="ABCD-A..."
+                    onChange={(e) => setAnswers(e.target.value.toUpperCase())}
+                    className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 focus:ring-indigo-500 focus:border-indigo-500 text-white font-mono tracking-widest"
+                />
+            </div>
+          )}
+
           {!isMissing && (
             <div className="space-y-4">
                 <div className="grid grid-cols-2 gap-4">
@@ -163,8 +230,9 @@ export const ExamModal: React.FC<ExamModalProps> = ({
                         <input
                             type="number"
                             min="0"
-                            max="10"
+                            max={policy.questionCount}
                             required={!isMissing}
+                            readOnly={useAnswers}
                             value={correct}
                             onChange={(e) => setCorrect(Number(e.target.value))}
                             className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 focus:ring-green-500 focus:border-green-500 text-white text-lg font-bold text-center"
@@ -175,8 +243,9 @@ export const ExamModal: React.FC<ExamModalProps> = ({
                         <input
                             type="number"
                             min="0"
-                            max="10"
+                            max={policy.questionCount}
                             required={!isMissing}
+                            readOnly={useAnswers}
                             value={incorrect}
                             onChange={(e) => setIncorrect(Number(e.target.value))}
                             className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 focus:ring-red-500 focus:border-red-500 text-white text-lg font-bold text-center"
@@ -186,7 +255,7 @@ export const ExamModal: React.FC<ExamModalProps> = ({
                 
                 <div className="bg-gray-900/50 p-3 rounded flex justify-between items-center text-sm">
                    <span className="text-gray-400">Boş (Oto):</span>
-                   <span className="font-bold text-gray-200">{10 - (correct + incorrect)}</span>
+                   <span className="font-bold text-gray-200">{policy.questionCount - (correct + incorrect)}</span>
                 </div>
             </div>
           )}
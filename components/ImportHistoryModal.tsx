@@ -0,0 +1,100 @@
+import React, { useState, useEffect } from 'react';
+import { X, History, RotateCcw, ChevronDown, ChevronRight } from 'lucide-react';
+import { fetchImportSessions } from '../services/dataService';
+import { IMPORT_KIND_LABELS, ImportState, describeImportChange } from '../services/importHistory';
+import { canRollbackImport } from '../services/permissions';
+import { ImportSession, UserProfile } from '../types';
+
+interface ImportHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  profile: UserProfile;
+  state: ImportState;
+  // Resolves with the updated session once the rollback is written, or null when it was cancelled
+  onRollback: (session: ImportSession) => Promise<ImportSession | null>;
+}
+
+export const ImportHistoryModal: React.FC<ImportHistoryModalProps> = ({ isOpen, onClose, profile, state, onRollback }) => {
+  const [sessions, setSessions] = useState<ImportSession[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const load = async () => {
+      setIsLoading(true);
+      setExpandedId(null);
+      try {
+        const all = await fetchImportSessions();
+        setSessions(all.filter(s => canRollbackImport(profile, s)));
+      } catch (e) {
+        alert("İçe aktarma geçmişi yüklenemedi.");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  }, [isOpen, profile]);
+
+  if (!isOpen) return null;
+
+  const handleRollback = async (session: ImportSession) => {
+    setBusyId(session.id);
+    try {
+      const updated = await onRollback(session);
+      if (updated) setSessions(prev => prev.map(s => s.id === updated.id ? updated : s));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4 backdrop-blur-sm">
+      <div className="bg-gray-800 rounded-3xl shadow-2xl w-full max-w-lg overflow-hidden border border-gray-700">
+        <div className="flex justify-between items-center p-4 border-b border-gray-700 bg-gray-900 text-white">
+          <h3 className="font-black text-sm uppercase flex items-center gap-2"><History size={16} className="text-indigo-400" /> İçe Aktarma Geçmişi</h3>
+          <button onClick={onClose} className="hover:bg-gray-700 p-1 rounded text-gray-400 hover:text-white"><X size={18} /></button>
+        </div>
+        <div className="max-h-[70vh] overflow-y-auto divide-y divide-gray-700/50">
+          {isLoading ? (
+            <div className="p-10 text-center text-gray-500 text-xs font-black uppercase">YÜKLENİYOR...</div>
+          ) : sessions.length === 0 ? (
+            <div className="p-10 text-center text-gray-500 font-black uppercase tracking-widest text-xs">Henüz toplu içe aktarma yapılmadı</div>
+          ) : sessions.map(s => {
+            const isExpanded = expandedId === s.id;
+            return (
+              <div key={s.id} className="p-4 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <button onClick={() => setExpandedId(isExpanded ? null : s.id)} className="min-w-0 text-left flex items-start gap-2">
+                    {isExpanded ? <ChevronDown size={16} className="text-gray-500 mt-0.5 shrink-0" /> : <ChevronRight size={16} className="text-gray-500 mt-0.5 shrink-0" />}
+                    <div className="min-w-0">
+                      <p className="text-sm text-white font-bold truncate">{IMPORT_KIND_LABELS[s.kind]} <span className="text-gray-400 font-normal">· {s.summary}</span></p>
+                      <p className="text-[10px] text-gray-500">{new Date(s.createdAt).toLocaleString('tr-TR')} · {s.createdByEmail || '-'} · {s.changes.length} kayıt</p>
+                    </div>
+                  </button>
+                  {s.rolledBackAt ? (
+                    <span className="text-[10px] font-black text-gray-500 uppercase shrink-0 pt-1" title={new Date(s.rolledBackAt).toLocaleString('tr-TR')}>GERİ ALINDI</span>
+                  ) : (
+                    <button
+                      onClick={() => handleRollback(s)}
+                      disabled={busyId !== null}
+                      className="shrink-0 bg-red-600/10 text-red-400 border border-red-600/30 px-3 py-1.5 rounded-xl text-[10px] font-black flex items-center gap-1 disabled:opacity-50"
+                    >
+                      <RotateCcw size={12} className={busyId === s.id ? 'animate-spin' : ''} /> GERİ AL
+                    </button>
+                  )}
+                </div>
+                {isExpanded && (
+                  <ul className="bg-gray-900 rounded-2xl border border-gray-700 p-3 space-y-1 max-h-60 overflow-y-auto">
+                    {s.changes.map(c => <li key={`${c.collection}/${c.id}`} className="text-[11px] text-gray-300">{describeImportChange(c, state)}</li>)}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React from 'react';
+import { ImportLine, ImportLineStatus, ImportPlan, NameResolutions, IMPORT_STATUS_LABELS, countPlanLines } from '../services/batchImport';
+import { NameResolution, RESOLVE_NEW, RESOLVE_SKIP } from '../services/nameMatching';
+
+interface ImportPlanPreviewProps {
+  plan: ImportPlan;
+  resolutions?: NameResolutions;
+  onResolve?: (lineNumber: number, resolution: NameResolution) => void;
+}
+
+export const STATUS_COLORS: Record<ImportLineStatus, string> = {
+  NEW: 'text-green-400',
+  UPDATE: 'text-yellow-400',
+  UNCHANGED: 'text-gray-500',
+  SKIPPED: 'text-red-400',
+  MISSING: 'text-orange-400',
+  REVIEW: 'text-sky-400'
+};
+
+const STATUSES = Object.keys(IMPORT_STATUS_LABELS) as ImportLineStatus[];
+
+// Picker for lines whose student name needs the teacher's decision
+export const NameResolutionSelect: React.FC<{ line: Pick<ImportLine, 'candidates' | 'allowCreate'>, value?: NameResolution, onChange: (resolution: NameResolution) => void }> = ({ line, value, onChange }) => (
+  <select
+    value={value || ''}
+    onChange={(e) => onChange(e.target.value)}
+    className={`mt-1 w-full max-w-[260px] bg-gray-900 text-white text-xs p-1.5 rounded-lg border outline-none ${value ? 'border-gray-700' : 'border-sky-600'}`}
+  >
+    <option value="" disabled>Öğrenci seçin...</option>
+    {line.candidates?.map(c => <option key={c.studentId} value={c.studentId}>{c.label} · %{Math.round(c.score * 100)}</option>)}
+    {line.allowCreate && <option value={RESOLVE_NEW}>Yeni öğrenci olarak ekle</option>}
+    <option value={RESOLVE_SKIP}>Bu satırı atla</option>
+  </select>
+);
+
+// Line-by-line dry-run result of a batch import
+export const ImportPlanPreview: React.FC<ImportPlanPreviewProps> = ({ plan, resolutions = {}, onResolve }) => {
+  const counts = countPlanLines(plan);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap gap-2">
+        {STATUSES.filter(s => counts[s] > 0).map(s => (
+          <span key={s} className={`bg-gray-900 border border-gray-700 px-3 py-1 rounded-xl text-[10px] font-black uppercase ${STATUS_COLORS[s]}`}>
+            {counts[s]} {IMPORT_STATUS_LABELS[s]}
+          </span>
+        ))}
+        {plan.newClasses.length > 0 && (
+          <span className="bg-gray-900 border border-gray-700 px-3 py-1 rounded-xl text-[10px] font-black uppercase text-indigo-400">
+            {plan.newClasses.length} yeni sınıf: {plan.newClasses.map(c => c.name).join(', ')}
+          </span>
+        )}
+      </div>
+      <div className="overflow-x-auto scrollbar-hide bg-gray-900/50 rounded border border-gray-700">
+        <table className="w-full text-left text-gray-300 text-xs">
+          <thead className="text-[10px] uppercase bg-gray-900 text-gray-500 font-black">
+            <tr>
+              <th className="px-3 py-2">#</th>
+              <th className="px-3 py-2">GİRİLEN SATIR</th>
+              <th className="px-3 py-2">YORUM</th>
+              <th className="px-3 py-2">DURUM</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-700/50">
+            {plan.lines.map((line, i) => (
+              <tr key={i} className={line.status === 'SKIPPED' ? 'bg-red-900/10' : ''}>
+                <td className="px-3 py-2 text-gray-500">{line.lineNumber ?? '+'}</td>
+                <td className="px-3 py-2 font-mono text-gray-400 max-w-[200px] truncate" title={line.text}>{line.text}</td>
+                <td className="px-3 py-2 text-white">
+                  {line.interpretation}
+                  {line.candidates && line.lineNumber !== null && onResolve && (
+                    <NameResolutionSelect line={line} value={resolutions[line.lineNumber]} onChange={(r) => onResolve(line.lineNumber!, r)} />
+                  )}
+                </td>
+                <td className={`px-3 py-2 font-semibold ${STATUS_COLORS[line.status]}`}>
+                  {IMPORT_STATUS_LABELS[line.status]}
+                  {line.reason && <span className="block text-[10px] font-normal text-gray-400">{line.reason}</span>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
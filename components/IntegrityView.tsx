@@ -0,0 +1,143 @@
+import React, { useState, useMemo } from 'react';
+import { CheckCircle2, Wrench, Link2, Merge, Trash2, ArrowRightLeft } from 'lucide-react';
+import {
+  IntegrityData, IntegrityIssueKind, IntegrityRepair, INTEGRITY_ISSUE_LABELS,
+  scanIntegrity, countIntegrityIssues, getRelinkableResults, planRelink, planMergeDuplicates, planTrashResults, planReassignStudents
+} from '../services/integrity';
+import { formatDay } from '../services/reportCard';
+import { ExamResult, Student, UserProfile } from '../types';
+
+interface IntegrityViewProps {
+  data: IntegrityData; // All terms
+  profile: UserProfile; // Recorded on the trash items of removed results
+  onRepair: (label: string, repair: IntegrityRepair) => Promise<void>;
+  onTrashStudents: (students: Student[]) => Promise<void>;
+}
+
+const PREVIEW_ROWS = 20;
+
+export const IntegrityView: React.FC<IntegrityViewProps> = ({ data, profile, onRepair, onTrashStudents }) => {
+  const [targetClassId, setTargetClassId] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const report = useMemo(() => scanIntegrity(data), [data]);
+  const issueCount = countIntegrityIssues(report);
+  const relinkable = getRelinkableResults(report.unlinkedResults);
+  const openClasses = useMemo(() => data.classes.filter(c => !c.graduatedTermId).sort((a, b) => a.name.localeCompare(b.name, 'tr', { numeric: true })), [data.classes]);
+
+  const studentName = (id: string) => {
+    const s = data.students.find(x => x.id === id);
+    return s ? `${s.name} ${s.surname}` : 'Silinmiş öğrenci';
+  };
+  const describeResult = (r: ExamResult) => `${studentName(r.studentId)} · ${r.examName} · ${formatDay(r.date)} · ${r.status === 'MISSING' ? 'Girmedi' : `${r.net} net`}`;
+
+  const run = async (message: string, action: () => Promise<void>) => {
+    if (!window.confirm(message)) return;
+    setIsBusy(true);
+    try {
+      await action();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const buttonClass = "px-3 py-2 rounded-xl text-[10px] font-black flex items-center gap-1 border disabled:opacity-50 transition-all active:scale-95";
+
+  const renderSection = (kind: IntegrityIssueKind, count: number, rows: string[], actions: React.ReactNode) => {
+    if (count === 0) return null;
+    const { title, description } = INTEGRITY_ISSUE_LABELS[kind];
+    return (
+      <div key={kind} className="bg-gray-800 rounded-3xl border border-gray-700 shadow-lg overflow-hidden">
+        <div className="p-5 space-y-1 border-b border-gray-700">
+          <h3 className="text-gray-200 font-black text-sm uppercase flex items-center justify-between gap-2">{title} <span className="bg-yellow-600/20 text-yellow-400 text-[10px] px-2 py-0.5 rounded-full">{count}</span></h3>
+          <p className="text-[10px] text-gray-500">{description}</p>
+        </div>
+        <ul className="divide-y divide-gray-700/50 max-h-64 overflow-y-auto">
+          {rows.slice(0, PREVIEW_ROWS).map((row, i) => <li key={i} className="px-5 py-2 text-xs text-gray-300 truncate">{row}</li>)}
+          {rows.length > PREVIEW_ROWS && <li className="px-5 py-2 text-[10px] text-gray-500 font-bold">+{rows.length - PREVIEW_ROWS} kayıt daha</li>}
+        </ul>
+        <div className="p-4 border-t border-gray-700 flex flex-wrap gap-2">{actions}</div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4 pb-safe animate-in fade-in duration-300">
+      <div className="px-1">
+        <h2 className="text-xl font-black text-white uppercase tracking-tight flex items-center gap-2"><Wrench size={20} className="text-indigo-400" /> VERİ BAKIMI</h2>
+        <p className="text-[10px] text-gray-500 font-bold">Tüm dönemlerin öğrenci, sınıf, sonuç ve deneme kayıtları taranır. Onarımlar değişiklik geçmişine yazılır; büyük onarımlardan önce yedek almanız önerilir.</p>
+      </div>
+
+      {issueCount === 0 && (
+        <div className="bg-gray-800 p-10 rounded-3xl border border-gray-700 text-center space-y-2">
+          <CheckCircle2 size={32} className="text-green-400 mx-auto" />
+          <p className="text-gray-400 font-black uppercase tracking-widest text-xs">Tutarsızlık bulunamadı</p>
+        </div>
+      )}
+
+      {renderSection('ORPHAN_RESULT', report.orphanResults.length, report.orphanResults.map(describeResult), (
+        <button
+          disabled={isBusy}
+          onClick={() => run(`${report.orphanResults.length} sonuç çöp kutusuna taşınacak. Devam edilsin mi?`, () => onRepair('Öğrencisi olmayan sonuçları çöp kutusuna taşı', planTrashResults(report.orphanResults, profile)))}
+          className={`${buttonClass} border-red-600/30 text-red-400 hover:bg-red-600/10`}
+        >
+          <Trash2 size={12} /> ÇÖP KUTUSUNA TAŞI
+        </button>
+      ))}
+
+      {renderSection('UNLINKED_RESULT', report.unlinkedResults.length, report.unlinkedResults.map(u =>
+        `${describeResult(u.result)} → ${u.candidates.length === 1 ? u.candidates[0].name : u.candidates.length === 0 ? 'aynı adlı deneme yok' : `${u.candidates.length} aynı adlı deneme var`}`
+      ), (
+        <>
+          <button
+            disabled={isBusy || relinkable.length === 0}
+            onClick={() => run(`${relinkable.length} sonuç aynı adlı denemeye bağlanacak. Devam edilsin mi?`, () => onRepair('Sonuçları denemelerine bağla', planRelink(report.unlinkedResults)))}
+            className={`${buttonClass} border-gray-700 text-indigo-400 hover:bg-gray-700`}
+          >
+            <Link2 size={12} /> ADA GÖRE BAĞLA ({relinkable.length})
+          </button>
+          {relinkable.length < report.unlinkedResults.length && (
+            <p className="text-[10px] text-gray-500 self-center">Eşleşmeyenler için bu ad ve tarihle bir deneme tanımlayıp tekrar deneyin.</p>
+          )}
+        </>
+      ))}
+
+      {renderSection('DUPLICATE_RESULT', report.duplicateGroups.length, report.duplicateGroups.map(g =>
+        `${describeResult(g.keep)} (tutulacak) · ${g.drop.length} kopya`
+      ), (
+        <button
+          disabled={isBusy}
+          onClick={() => run(`${report.duplicateGroups.reduce((sum, g) => sum + g.drop.length, 0)} kopya sonuç çöp kutusuna taşınacak, her öğrenci için en iyi kayıt tutulacak. Devam edilsin mi?`, () => onRepair('Çift sonuçları birleştir', planMergeDuplicates(report.duplicateGroups, profile)))}
+          className={`${buttonClass} border-gray-700 text-indigo-400 hover:bg-gray-700`}
+        >
+          <Merge size={12} /> BİRLEŞTİR
+        </button>
+      ))}
+
+      {renderSection('ORPHAN_STUDENT', report.orphanStudents.length, report.orphanStudents.map(s =>
+        `${s.name} ${s.surname} · ${data.exams.filter(e => e.studentId === s.id).length} sonuç`
+      ), (
+        <>
+          <select value={targetClassId} onChange={(e) => setTargetClassId(e.target.value)} className="bg-gray-900 text-white text-[10px] font-bold p-2 rounded-xl border border-gray-700 outline-none">
+            <option value="">Sınıf seçin</option>
+            {openClasses.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+          <button
+            disabled={isBusy || !targetClassId}
+            onClick={() => run(`${report.orphanStudents.length} öğrenci ${openClasses.find(c => c.id === targetClassId)?.name} sınıfına taşınacak. Devam edilsin mi?`, () => onRepair('Sınıfı olmayan öğrencileri taşı', planReassignStudents(report.orphanStudents, targetClassId)))}
+            className={`${buttonClass} border-gray-700 text-indigo-400 hover:bg-gray-700`}
+          >
+            <ArrowRightLeft size={12} /> SINIFA TAŞI
+          </button>
+          <button
+            disabled={isBusy}
+            onClick={() => run(`${report.orphanStudents.length} öğrenci sonuçlarıyla birlikte çöp kutusuna taşınacak. Devam edilsin mi?`, () => onTrashStudents(report.orphanStudents))}
+            className={`${buttonClass} border-red-600/30 text-red-400 hover:bg-red-600/10`}
+          >
+            <Trash2 size={12} /> ÇÖP KUTUSUNA TAŞI
+          </button>
+        </>
+      ))}
+    </div>
+  );
+};
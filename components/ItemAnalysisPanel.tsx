@@ -0,0 +1,60 @@
+import React, { useMemo } from 'react';
+import { ANSWER_CHOICES, BLANK_ANSWER, hasAnswerKey } from '../services/dataService';
+import { analyzeItems } from '../services/itemAnalysis';
+import { ExamDefinition, ExamResult } from '../types';
+
+interface ItemAnalysisPanelProps {
+  examDefinition: ExamDefinition;
+  results: ExamResult[];
+}
+
+const difficultyColor = (p: number) => p < 0.3 ? 'text-red-400' : (p > 0.8 ? 'text-green-400' : 'text-white');
+const discriminationColor = (d: number) => d < 0.2 ? 'text-red-400' : (d >= 0.4 ? 'text-green-400' : 'text-yellow-400');
+
+export const ItemAnalysisPanel: React.FC<ItemAnalysisPanelProps> = ({ examDefinition, results }) => {
+  const analysis = useMemo(() => analyzeItems(examDefinition, results), [examDefinition, results]);
+
+  if (!hasAnswerKey(examDefinition)) {
+    return <div className="p-10 text-center text-gray-500 font-black uppercase tracking-widest text-xs">Madde analizi için denemeye cevap anahtarı tanımlayın</div>;
+  }
+  if (analysis.studentCount === 0) {
+    return <div className="p-10 text-center text-gray-500 font-black uppercase tracking-widest text-xs">Cevap dizisi girilmiş sonuç yok</div>;
+  }
+
+  return (
+    <div>
+      <div className="grid grid-cols-2 gap-2 p-4">
+        <div className="bg-gray-900 p-3 rounded-2xl border border-gray-700 text-center"><p className="text-indigo-400 text-[10px] font-black uppercase mb-1">ÖĞRENCİ</p><p className="text-xl font-black text-white">{analysis.studentCount}</p></div>
+        <div className="bg-gray-900 p-3 rounded-2xl border border-gray-700 text-center"><p className="text-indigo-400 text-[10px] font-black uppercase mb-1">KR-20 GÜVENİRLİK</p><p className="text-xl font-black text-white">{analysis.kr20 ?? '-'}</p></div>
+      </div>
+      <div className="overflow-x-auto scrollbar-hide">
+        <table className="w-full text-left text-gray-300">
+          <thead className="text-[10px] uppercase bg-gray-900 text-gray-500 font-black">
+            <tr>
+              <th className="px-4 py-3">SORU</th>
+              <th className="px-2 py-3 text-center">CEVAP</th>
+              <th className="px-2 py-3 text-center" title="Güçlük (p)">P</th>
+              <th className="px-2 py-3 text-center" title="Ayırt edicilik (üst %27 - alt %27)">D</th>
+              {ANSWER_CHOICES.map(c => <th key={c} className="px-2 py-3 text-center">{c}</th>)}
+              <th className="px-2 py-3 text-center">BOŞ</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-700/50 text-sm">
+            {analysis.items.map(item => (
+              <tr key={item.index} className="hover:bg-gray-700/30">
+                <td className="px-4 py-3 font-black text-white">{item.index + 1}</td>
+                <td className="px-2 py-3 text-center font-black text-indigo-400">{item.key}</td>
+                <td className={`px-2 py-3 text-center font-bold ${difficultyColor(item.difficulty)}`}>{item.difficulty}</td>
+                <td className={`px-2 py-3 text-center font-bold ${discriminationColor(item.discrimination)}`}>{item.discrimination}</td>
+                {ANSWER_CHOICES.map(c => (
+                  <td key={c} className={`px-2 py-3 text-center ${c === item.key ? 'text-green-400 font-black' : 'text-gray-400'}`}>{item.choiceCounts[c]}</td>
+                ))}
+                <td className="px-2 py-3 text-center text-gray-500">{item.choiceCounts[BLANK_ANSWER]}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
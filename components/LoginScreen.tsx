@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { signIn, signUp, getAuthErrorMessage } from '../services/authService';
+import { switchStorageBackend } from '../services/storageAdapter';
+
+export const LoginScreen: React.FC = () => {
+  const [mode, setMode] = useState<'signin' | 'signup'>('signin');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      if (mode === 'signin') await signIn(email, password);
+      else await signUp(email, password);
+    } catch (err) {
+      setError(getAuthErrorMessage(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex h-[100dvh] items-center justify-center bg-gray-900 text-white p-4">
+      <div className="w-full max-w-sm bg-gray-800 p-8 rounded-3xl border border-gray-700 shadow-2xl">
+        <div className="flex items-center gap-3 mb-8">
+          <div className="w-12 h-12 bg-indigo-600 rounded-2xl flex items-center justify-center text-white text-xl font-black shadow-lg shadow-indigo-600/30">E</div>
+          <div>
+            <h1 className="text-2xl font-black tracking-tighter">EnglishNet</h1>
+            <p className="text-[10px] text-gray-500 uppercase font-black tracking-widest">{mode === 'signin' ? 'Öğretmen Girişi' : 'Yeni Öğretmen Hesabı'}</p>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">E-posta</label>
+            <input
+              required
+              autoFocus
+              type="email"
+              autoComplete="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="w-full bg-gray-700 border border-gray-600 rounded-xl p-3 text-sm focus:ring-indigo-500 focus:border-indigo-500 text-white"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">Şifre</label>
+            <input
+              required
+              type="password"
+              minLength={6}
+              autoComplete={mode === 'signin' ? 'current-password' : 'new-password'}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full bg-gray-700 border border-gray-600 rounded-xl p-3 text-sm focus:ring-indigo-500 focus:border-indigo-500 text-white"
+            />
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-2 text-red-400 bg-red-900/20 p-3 rounded-xl text-xs border border-red-900/50">
+              <AlertTriangle size={16} /> {error}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full bg-indigo-600 py-3 rounded-2xl font-black hover:bg-indigo-700 transition-all active:scale-95 shadow-xl shadow-indigo-900/20 disabled:opacity-50"
+          >
+            {mode === 'signin' ? 'GİRİŞ YAP' : 'HESAP OLUŞTUR'}
+          </button>
+        </form>
+
+        <button
+          onClick={() => { setMode(mode === 'signin' ? 'signup' : 'signin'); setError(null); }}
+          className="w-full mt-4 text-xs text-gray-400 hover:text-white"
+        >
+          {mode === 'signin' ? 'Hesabınız yok mu? Kayıt olun' : 'Zaten hesabınız var mı? Giriş yapın'}
+        </button>
+
+        <button
+          onClick={() => switchStorageBackend('indexeddb')}
+          className="w-full mt-2 text-xs text-gray-500 hover:text-white"
+        >
+          Hesapsız kullan (veriler yalnızca bu cihazda saklanır)
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import { Trash2, UserPlus, Mail } from 'lucide-react';
+import { fetchMembers, fetchInvites, apiUpdateMember, apiRemoveMember, apiAddInvite, apiDeleteInvite } from '../services/memberService';
+import { ROLE_LABELS } from '../services/permissions';
+import { Classroom, MemberInvite, UserProfile, UserRole } from '../types';
+
+interface MembersViewProps {
+  profile: UserProfile;
+  classes: Classroom[];
+}
+
+const ROLES = Object.keys(ROLE_LABELS) as UserRole[];
+
+const ClassPicker: React.FC<{ classes: Classroom[], selected: string[], onChange: (ids: string[]) => void, disabled?: boolean }> = ({ classes, selected, onChange, disabled }) => (
+  <div className="flex flex-wrap gap-1.5">
+    {classes.map(c => {
+      const isSelected = selected.includes(c.id);
+      return (
+        <button
+          key={c.id}
+          type="button"
+          disabled={disabled}
+          onClick={() => onChange(isSelected ? selected.filter(id => id !== c.id) : [...selected, c.id])}
+          className={`px-2.5 py-1 rounded-lg text-[10px] font-black uppercase border transition-all disabled:opacity-40 ${isSelected ? 'bg-indigo-600 text-white border-indigo-500' : 'bg-gray-900 text-gray-500 border-gray-700'}`}
+        >
+          {c.name}
+        </button>
+      );
+    })}
+  </div>
+);
+
+export const MembersView: React.FC<MembersViewProps> = ({ profile, classes }) => {
+  const [members, setMembers] = useState<UserProfile[]>([]);
+  const [invites, setInvites] = useState<MemberInvite[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<UserRole>('TEACHER');
+  const [inviteClassIds, setInviteClassIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    const load = async () => {
+      setIsLoading(true);
+      try {
+        const [m, i] = await Promise.all([fetchMembers(profile.workspaceId), fetchInvites(profile.workspaceId)]);
+        setMembers(m);
+        setInvites(i);
+      } catch (e) {
+        alert("Kullanıcılar yüklenemedi.");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  }, [profile.workspaceId]);
+
+  const handleUpdateMember = async (member: UserProfile) => {
+    try {
+      await apiUpdateMember(member);
+      setMembers(prev => prev.map(m => m.id === member.id ? member : m));
+    } catch (e) {
+      alert("Kullanıcı güncellenemedi.");
+    }
+  };
+
+  const handleRemoveMember = async (member: UserProfile) => {
+    if (!window.confirm(`${member.email} zümreden çıkarılsın mı?`)) return;
+    try {
+      await apiRemoveMember(member.id);
+      setMembers(prev => prev.filter(m => m.id !== member.id));
+    } catch (e) {
+      alert("Kullanıcı çıkarılamadı.");
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const email = inviteEmail.trim().toLowerCase();
+    if (!email) return;
+    if (members.some(m => m.email === email)) {
+      alert("Bu kullanıcı zaten zümrede.");
+      return;
+    }
+    const invite: MemberInvite = { id: email, email, role: inviteRole, workspaceId: profile.workspaceId, classroomIds: inviteRole === 'ADMIN' ? [] : inviteClassIds };
+    try {
+      await apiAddInvite(invite);
+      setInvites(prev => [...prev.filter(i => i.id !== invite.id), invite]);
+      setInviteEmail('');
+      setInviteClassIds([]);
+    } catch (err) {
+      alert("Davet oluşturulamadı.");
+    }
+  };
+
+  const handleDeleteInvite = async (id: string) => {
+    try {
+      await apiDeleteInvite(id);
+      setInvites(prev => prev.filter(i => i.id !== id));
+    } catch (e) {
+      alert("Davet silinemedi.");
+    }
+  };
+
+  return (
+    <div className="space-y-4 pb-safe animate-in fade-in duration-300">
+      <h2 className="text-xl font-black text-white uppercase tracking-tight px-1">KULLANICILAR VE YETKİLER</h2>
+
+      <form onSubmit={handleInvite} className="bg-gray-800 p-5 rounded-3xl border border-gray-700 shadow-lg space-y-3">
+        <h3 className="text-gray-200 font-black text-sm uppercase flex items-center gap-2"><UserPlus size={16} className="text-indigo-400" /> Davet Et</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          <input required type="email" placeholder="E-POSTA" value={inviteEmail} onChange={(e) => setInviteEmail(e.target.value)} className="bg-gray-900 text-white text-xs p-3 rounded-2xl border border-gray-700 outline-none" />
+          <select value={inviteRole} onChange={(e) => setInviteRole(e.target.value as UserRole)} className="bg-gray-900 text-white text-xs p-3 rounded-2xl border border-gray-700 outline-none">
+            {ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+          </select>
+        </div>
+        {inviteRole !== 'ADMIN' && <ClassPicker classes={classes} selected={inviteClassIds} onChange={setInviteClassIds} />}
+        <button type="submit" className="bg-indigo-600 text-white px-4 py-2 rounded-xl text-xs font-black shadow-lg active:scale-95 transition-all">DAVET OLUŞTUR</button>
+        <p className="text-[10px] text-gray-500">Davet edilen kişi bu e-posta ile kayıt olduğunda zümreye otomatik olarak katılır.</p>
+      </form>
+
+      {invites.length > 0 && (
+        <div className="bg-gray-800 rounded-3xl border border-gray-700 overflow-hidden shadow-lg">
+          <div className="p-4 border-b border-gray-700 bg-gray-900/30"><h3 className="text-gray-200 font-black text-sm uppercase">Bekleyen Davetler</h3></div>
+          <div className="divide-y divide-gray-700/50">
+            {invites.map(i => (
+              <div key={i.id} className="p-4 flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 text-sm text-white font-bold"><Mail size={14} className="text-gray-500" /> {i.email} <span className="text-[10px] text-indigo-400 uppercase">{ROLE_LABELS[i.role]}</span></div>
+                <button onClick={() => handleDeleteInvite(i.id)} className="text-gray-600 hover:text-red-400 p-2"><Trash2 size={16} /></button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-gray-800 rounded-3xl border border-gray-700 overflow-hidden shadow-lg">
+        <div className="p-4 border-b border-gray-700 bg-gray-900/30"><h3 className="text-gray-200 font-black text-sm uppercase">Zümre Üyeleri</h3></div>
+        {isLoading ? (
+          <div className="p-10 text-center text-gray-500 text-xs font-black uppercase">YÜKLENİYOR...</div>
+        ) : (
+          <div className="divide-y divide-gray-700/50">
+            {members.map(m => {
+              const isSelf = m.id === profile.id;
+              return (
+                <div key={m.id} className="p-4 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm text-white font-bold truncate">{m.email} {isSelf && <span className="text-[10px] text-gray-500">(SİZ)</span>}</span>
+                    <div className="flex items-center gap-2">
+                      <select disabled={isSelf} value={m.role} onChange={(e) => handleUpdateMember({ ...m, role: e.target.value as UserRole })} className="bg-gray-900 text-white text-xs p-2 rounded-xl border border-gray-700 outline-none disabled:opacity-50">
+                        {ROLES.map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                      </select>
+                      {!isSelf && <button onClick={() => handleRemoveMember(m)} className="text-gray-600 hover:text-red-400 p-2"><Trash2 size={16} /></button>}
+                    </div>
+                  </div>
+                  {m.role !== 'ADMIN' && <ClassPicker classes={classes} selected={m.classroomIds} onChange={(ids) => handleUpdateMember({ ...m, classroomIds: ids })} />}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2, Link2Off } from 'lucide-react';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip } from 'recharts';
+import { fetchSharedLink } from '../services/dataService';
+import { formatDay } from '../services/reportCard';
+import { ShareLink } from '../types';
+
+interface ParentShareViewProps {
+  token: string;
+}
+
+// Read-only page opened from a parent share link; renders only the link's snapshot, no sign-in involved
+export const ParentShareView: React.FC<ParentShareViewProps> = ({ token }) => {
+  const [link, setLink] = useState<ShareLink | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetchSharedLink(token)
+      .then(setLink)
+      .catch(e => { console.error(e); setLink(null); })
+      .finally(() => setIsLoading(false));
+  }, [token]);
+
+  if (isLoading) {
+    return <div className="min-h-screen bg-gray-900 flex items-center justify-center text-indigo-400"><Loader2 className="animate-spin" size={32} /></div>;
+  }
+
+  if (!link) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex flex-col items-center justify-center gap-3 p-6 text-center">
+        <Link2Off size={40} className="text-gray-600" />
+        <p className="text-sm font-bold text-gray-400">Bu bağlantı geçersiz veya süresi dolmuş.</p>
+        <p className="text-[10px] text-gray-600">Yeni bir bağlantı için öğretmeninizle iletişime geçin.</p>
+      </div>
+    );
+  }
+
+  const { snapshot } = link;
+  const attended = snapshot.results.filter(r => r.status !== 'MISSING');
+  const averageNet = attended.length > 0 ? Number((attended.reduce((sum, r) => sum + r.net, 0) / attended.length).toFixed(2)) : 0;
+  const chartData = attended.map(r => ({ name: r.examName, net: r.net, date: formatDay(r.date) }));
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-gray-300 p-4">
+      <div className="max-w-3xl mx-auto space-y-4">
+        <div className="bg-gray-800 p-6 rounded-3xl border border-gray-700 shadow-lg">
+          <div className="text-[10px] text-gray-500 font-black uppercase tracking-widest mb-2">EnglishNet · Veli Görünümü</div>
+          <h2 className="text-2xl font-black text-white mb-1 uppercase tracking-tighter">{snapshot.studentName}</h2>
+          <div className="text-sm text-indigo-400 font-bold mb-6">{snapshot.className}</div>
+          <div className="flex items-center gap-8">
+            <div><span className="text-gray-500 block text-[10px] uppercase font-black tracking-widest mb-1">ORTALAMA NET</span><span className="font-black text-white text-3xl">{averageNet}</span></div>
+            <div><span className="text-gray-500 block text-[10px] uppercase font-black tracking-widest mb-1">SINAV</span><span className="font-black text-white text-3xl">{attended.length}</span></div>
+          </div>
+        </div>
+
+        <div className="bg-gray-800 p-5 rounded-3xl border border-gray-700 shadow-lg">
+          <h3 className="text-gray-200 font-black text-sm uppercase mb-6">GELİŞİM GRAFİĞİ</h3>
+          {chartData.length > 0 ? (
+            <div className="h-[220px] md:h-[280px] w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData} margin={{ top: 5, right: 10, bottom: 5, left: -25 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" vertical={false} />
+                  <XAxis dataKey="name" stroke="#9CA3AF" tick={{fill: '#9CA3AF', fontSize: 10}} tickLine={false} axisLine={false} interval={0} angle={chartData.length > 5 ? -15 : 0} />
+                  <YAxis stroke="#9CA3AF" domain={[0, snapshot.maxQuestionCount]} tick={{fill: '#9CA3AF', fontSize: 10}} tickLine={false} axisLine={false} />
+                  <Tooltip contentStyle={{ backgroundColor: '#111827', border: '1px solid #374151', borderRadius: '12px' }} itemStyle={{ color: '#818CF8', fontWeight: 'black' }} />
+                  <Line type="monotone" dataKey="net" stroke="#818CF8" strokeWidth={5} dot={{r: 6, fill: '#818CF8', stroke: '#111827', strokeWidth: 2}} activeDot={{ r: 8 }} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          ) : <div className="h-[200px] flex items-center justify-center text-gray-500 text-sm font-bold">YETERLİ VERİ YOK</div>}
+        </div>
+
+        <div className="bg-gray-800 rounded-3xl border border-gray-700 overflow-hidden shadow-lg">
+          <div className="p-4 border-b border-gray-700 bg-gray-900/30"><h3 className="text-gray-200 font-black text-sm uppercase tracking-wider">DENEME GEÇMİŞİ</h3></div>
+          <div className="overflow-x-auto scrollbar-hide">
+            <table className="w-full text-left text-gray-300">
+              <thead className="text-[10px] uppercase bg-gray-900 text-gray-500 font-black">
+                <tr>
+                  <th className="px-5 py-3">DENEME</th>
+                  <th className="px-2 py-3 text-center">D</th>
+                  <th className="px-2 py-3 text-center">Y</th>
+                  <th className="px-2 py-3 text-center">B</th>
+                  <th className="px-5 py-3 text-center">NET</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700/50 text-sm">
+                {snapshot.results.slice().reverse().map((r, i) => (
+                  <tr key={`${r.examName}-${i}`}>
+                    <td className="px-5 py-4">
+                      <div className="flex flex-col">
+                        <span className="text-white font-bold uppercase tracking-tight">{r.examName}</span>
+                        <span className="text-[9px] text-gray-500">{formatDay(r.date)}</span>
+                      </div>
+                    </td>
+                    <td className="px-2 py-4 text-center text-green-400 font-bold">{r.status === 'MISSING' ? 'G' : r.correct}</td>
+                    <td className="px-2 py-4 text-center text-red-400 font-bold">{r.status === 'MISSING' ? 'G' : r.incorrect}</td>
+                    <td className="px-2 py-4 text-center text-gray-400 font-bold">{r.status === 'MISSING' ? 'G' : r.empty}</td>
+                    <td className="px-5 py-4 text-center font-black text-indigo-400 text-base">{r.status === 'MISSING' ? 'G' : r.net}</td>
+                  </tr>
+                ))}
+                {snapshot.results.length === 0 && (
+                  <tr><td colSpan={5} className="px-5 py-8 text-center text-gray-500 text-xs font-bold">Henüz deneme sonucu yok.</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <p className="text-[9px] text-gray-600 text-center">Son güncelleme: {new Date(snapshot.updatedAt).toLocaleString('tr-TR')} · G: Girmedi</p>
+      </div>
+    </div>
+  );
+};
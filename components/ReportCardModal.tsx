@@ -0,0 +1,97 @@
+import React, { useState, useEffect } from 'react';
+import { X, FileText } from 'lucide-react';
+import { ReportCardOutput, ReportCardSource, buildReportCard, exportReportCards, loadReportComments, saveReportComments } from '../services/reportCard';
+import { toFileName } from '../services/download';
+import { Student } from '../types';
+
+interface ReportCardModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  students: Student[]; // One student, or every student of a class for a batch run
+  title: string; // Class or student name, also used for the combined file name
+  source: ReportCardSource;
+}
+
+export const ReportCardModal: React.FC<ReportCardModalProps> = ({ isOpen, onClose, students, title, source }) => {
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [output, setOutput] = useState<ReportCardOutput>('COMBINED');
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) setComments(loadReportComments());
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const isBatch = students.length > 1;
+
+  const setComment = (studentId: string, comment: string) => {
+    const next = { ...comments, [studentId]: comment };
+    setComments(next);
+    saveReportComments(next);
+  };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      const reports = students.map(s => ({ data: buildReportCard(s, source), comment: comments[s.id] || '' }));
+      await exportReportCards(reports, output, `karneler_${toFileName(title)}`);
+      onClose();
+    } catch (e) {
+      console.error(e);
+      alert("Karne oluşturulamadı.");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4 backdrop-blur-sm">
+      <div className="bg-gray-800 rounded-3xl shadow-2xl w-full max-w-lg overflow-hidden border border-gray-700 flex flex-col max-h-[90vh]">
+        <div className="flex justify-between items-center p-4 border-b border-gray-700 bg-gray-900 text-white">
+          <h3 className="font-black text-sm uppercase flex items-center gap-2"><FileText size={16} className="text-indigo-400" /> Karne · {title}</h3>
+          <button onClick={onClose} className="hover:bg-gray-700 p-1 rounded text-gray-400 hover:text-white"><X size={18} /></button>
+        </div>
+
+        <div className="p-4 space-y-3 overflow-y-auto flex-1">
+          <p className="text-[10px] text-gray-500">Karnede öğrenci bilgileri, net gelişim grafiği, katılım bilgisiyle tüm deneme geçmişi, sınıf ve okul ortalamaları ile öğretmen görüşü yer alır. Görüşler bu cihazda saklanır.</p>
+          {isBatch && (
+            <div className="grid grid-cols-2 gap-2">
+              {([['COMBINED', 'Tek PDF dosyası'], ['SEPARATE', 'Öğrenci başına ayrı PDF (ZIP)']] as [ReportCardOutput, string][]).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setOutput(value)}
+                  className={`p-3 rounded-2xl text-[10px] font-black uppercase border transition-all ${output === value ? 'bg-indigo-600 text-white border-indigo-500' : 'bg-gray-900 text-gray-500 border-gray-700'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+          {students.map(s => (
+            <div key={s.id}>
+              <label className="block text-[10px] font-black text-gray-400 uppercase mb-1">{isBatch ? `${s.name} ${s.surname}` : 'Öğretmen Görüşü'}</label>
+              <textarea
+                value={comments[s.id] || ''}
+                onChange={(e) => setComment(s.id, e.target.value)}
+                rows={isBatch ? 2 : 5}
+                placeholder="Öğretmen görüşü (isteğe bağlı)"
+                className="w-full bg-gray-900 text-white text-xs p-3 rounded-2xl border border-gray-700 outline-none resize-y"
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="p-4 border-t border-gray-700">
+          <button
+            onClick={handleGenerate}
+            disabled={isGenerating || students.length === 0}
+            className="w-full bg-indigo-600 text-white py-3 rounded-2xl text-xs font-black hover:bg-indigo-700 transition-all active:scale-95 disabled:opacity-50"
+          >
+            {isGenerating ? 'OLUŞTURULUYOR...' : isBatch ? `${students.length} KARNE OLUŞTUR (PDF)` : 'KARNE OLUŞTUR (PDF)'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,245 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, FileSpreadsheet, AlertTriangle } from 'lucide-react';
+import { readSpreadsheetFile, SheetRows, SPREADSHEET_ACCEPT } from '../services/spreadsheet';
+import {
+  ResultColumn, ImportedResult, RESULT_COLUMN_LABELS, guessColumnMapping, validateColumnMapping, buildResultImportRows
+} from '../services/resultImport';
+import { ImportLineStatus, ImportPlan, IMPORT_STATUS_LABELS, hasPlanChanges, planResultEntries } from '../services/batchImport';
+import { NameResolution } from '../services/nameMatching';
+import { NameResolutionSelect, STATUS_COLORS } from './ImportPlanPreview';
+import { Classroom, ExamDefinition, ExamResult, Student, UserProfile } from '../types';
+
+interface ResultFileImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImport: (plan: ImportPlan) => void; // The previewed plan, written as shown
+  examDefinitions: ExamDefinition[];
+  students: Student[];
+  classes: Classroom[];
+  exams: ExamResult[];
+  canEdit: (student: Student) => boolean;
+  profile: UserProfile;
+}
+
+const COLUMN_OPTIONS = Object.keys(RESULT_COLUMN_LABELS) as ResultColumn[];
+const PREVIEW_LIMIT = 500;
+
+export const ResultFileImportModal: React.FC<ResultFileImportModalProps> = ({
+  isOpen, onClose, onImport, examDefinitions, students, classes, exams, canEdit, profile
+}) => {
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<SheetRows>([]);
+  const [mapping, setMapping] = useState<ResultColumn[]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [fixedExamId, setFixedExamId] = useState('');
+  const [readError, setReadError] = useState<string | null>(null);
+  const [resolutions, setResolutions] = useState<Record<number, NameResolution>>({});
+
+  useEffect(() => {
+    if (isOpen) {
+      setFileName('');
+      setRows([]);
+      setMapping([]);
+      setFixedExamId('');
+      setReadError(null);
+      setResolutions({});
+    }
+  }, [isOpen]);
+
+  const mappingError = rows.length > 0 ? validateColumnMapping(mapping, !!fixedExamId) : null;
+
+  const previewRows = useMemo(() => {
+    if (rows.length === 0 || mappingError) return [];
+    return buildResultImportRows(rows, mapping, hasHeader, { examDefinitions, students, classes, exams, fixedExamId, canEdit }, resolutions);
+  }, [rows, mapping, hasHeader, fixedExamId, mappingError, examDefinitions, students, classes, exams, canEdit, resolutions]);
+
+  // Besides the file's rows, the plan marks classmates without a result for the exam as "Girmedi"
+  const plan = useMemo(() => {
+    const entries: ImportedResult[] = previewRows
+      .filter(r => !r.error && !r.needsReview)
+      .map(r => ({ examDef: r.examDef!, student: r.student!, scores: r.scores! }));
+    return planResultEntries(entries, { students, classes, exams, examDefinitions, profile });
+  }, [previewRows, students, classes, exams, examDefinitions, profile]);
+  const missingLines = plan.lines.filter(l => l.status === 'MISSING');
+
+  const validRows = previewRows.filter(r => !r.error && !r.needsReview);
+  const reviewCount = previewRows.filter(r => r.needsReview).length;
+  // The plan has one line per valid row, in row order, ahead of the MISSING lines
+  const rowStatus = new Map<number, ImportLineStatus>(validRows.map((r, i) => [r.rowNumber, plan.lines[i].status]));
+  const updateCount = validRows.filter(r => rowStatus.get(r.rowNumber) === 'UPDATE').length;
+  const unchangedCount = validRows.filter(r => rowStatus.get(r.rowNumber) === 'UNCHANGED').length;
+
+  if (!isOpen) return null;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setFileName(file.name);
+    setReadError(null);
+    try {
+      const sheet = await readSpreadsheetFile(file);
+      if (sheet.length === 0) throw new Error("Dosyada veri bulunamadı.");
+      const guess = guessColumnMapping(sheet);
+      setRows(sheet);
+      setResolutions({});
+      setMapping(guess.mapping);
+      setHasHeader(guess.hasHeader);
+    } catch (err: any) {
+      setRows([]);
+      setReadError(err?.message || "Dosya okunamadı.");
+    }
+  };
+
+  const setColumn = (index: number, column: ResultColumn) => {
+    setMapping(prev => prev.map((c, i) => i === index ? column : (c === column && column !== 'IGNORE' ? 'IGNORE' : c)));
+  };
+
+  const handleImport = () => {
+    onImport(plan);
+  };
+
+  const sampleRows = rows.slice(hasHeader ? 1 : 0, (hasHeader ? 1 : 0) + 3);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-[70] p-4 backdrop-blur-sm">
+      <div className="bg-gray-800 rounded-lg shadow-xl w-full max-w-4xl border border-gray-700 flex flex-col h-[85vh]">
+        <div className="p-4 border-b border-gray-700 flex justify-between items-center bg-gray-900">
+          <div className="flex items-center gap-2">
+            <FileSpreadsheet className="text-green-400" />
+            <h3 className="text-lg font-bold text-white">Dosyadan Sonuç Aktar</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white"><X size={20} /></button>
+        </div>
+
+        <div className="p-4 flex-1 flex flex-col gap-4 overflow-y-auto">
+          <div className="bg-gray-900/50 p-3 rounded border border-gray-700 text-sm text-gray-300 space-y-2">
+            <p>CSV veya XLSX dosyası seçin, ardından her sütunun neyi içerdiğini belirtin. Kaydetmeden önce satırları kontrol edebilirsiniz.</p>
+            <label className="inline-block bg-gray-900 text-gray-300 px-4 py-2 rounded-xl text-xs font-black border border-gray-700 cursor-pointer hover:bg-gray-700">
+              DOSYA SEÇ
+              <input type="file" accept={SPREADSHEET_ACCEPT} onChange={handleFile} className="hidden" />
+            </label>
+            {fileName && <span className="ml-2 text-xs text-gray-400">{fileName} {rows.length > 0 && `(${rows.length} satır)`}</span>}
+            {readError && <p className="text-xs text-red-400 font-semibold flex items-center gap-2"><AlertTriangle size={14} /> {readError}</p>}
+          </div>
+
+          {rows.length > 0 && (
+            <>
+              <div className="space-y-2">
+                <div className="flex flex-wrap items-center gap-4">
+                  <label className="flex items-center gap-2 text-xs text-gray-300">
+                    <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />
+                    İlk satır başlık
+                  </label>
+                  {!mapping.includes('EXAM') && (
+                    <select value={fixedExamId} onChange={(e) => setFixedExamId(e.target.value)} className="bg-gray-900 text-white text-xs p-2 rounded-xl border border-gray-700 outline-none">
+                      <option value="">Tüm satırlar için deneme seçin...</option>
+                      {examDefinitions.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                    </select>
+                  )}
+                </div>
+                <div className="overflow-x-auto scrollbar-hide">
+                  <table className="text-left text-gray-300 text-xs">
+                    <thead>
+                      <tr>
+                        {mapping.map((column, i) => (
+                          <th key={i} className="p-1 min-w-[120px]">
+                            <select value={column} onChange={(e) => setColumn(i, e.target.value as ResultColumn)} className={`w-full text-xs p-2 rounded-xl border outline-none ${column === 'IGNORE' ? 'bg-gray-900 text-gray-500 border-gray-700' : 'bg-indigo-900/40 text-white border-indigo-600'}`}>
+                              {COLUMN_OPTIONS.map(c => <option key={c} value={c}>{RESULT_COLUMN_LABELS[c]}</option>)}
+                            </select>
+                          </th>
+                        ))}
+                      </tr>
+                      {hasHeader && (
+                        <tr className="text-[10px] uppercase text-gray-500 font-black">
+                          {mapping.map((_, i) => <th key={i} className="px-2 py-1 truncate max-w-[160px]">{rows[0][i]}</th>)}
+                        </tr>
+                      )}
+                    </thead>
+                    <tbody className="text-gray-400">
+                      {sampleRows.map((row, r) => (
+                        <tr key={r}>{mapping.map((_, i) => <td key={i} className="px-2 py-1 truncate max-w-[160px] font-mono">{row[i]}</td>)}</tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {mappingError && <p className="text-xs text-red-400 font-semibold">{mappingError}</p>}
+              </div>
+
+              {previewRows.length > 0 && (
+                <div className="bg-gray-900/50 rounded border border-gray-700 overflow-hidden">
+                  <div className="p-3 border-b border-gray-700 text-xs font-black uppercase flex gap-4">
+                    <span className="text-green-400">{validRows.length - updateCount - unchangedCount} YENİ</span>
+                    <span className="text-yellow-400">{updateCount} GÜNCELLENECEK</span>
+                    {unchangedCount > 0 && <span className="text-gray-500">{unchangedCount} DEĞİŞİKLİK YOK</span>}
+                    {missingLines.length > 0 && <span className="text-gray-400">{missingLines.length} GİRMEDİ</span>}
+                    {reviewCount > 0 && <span className="text-sky-400">{reviewCount} SEÇİM GEREKLİ</span>}
+                    <span className="text-red-400">{previewRows.length - validRows.length - reviewCount} HATALI</span>
+                  </div>
+                  <div className="overflow-x-auto scrollbar-hide">
+                    <table className="w-full text-left text-gray-300 text-xs">
+                      <thead className="text-[10px] uppercase bg-gray-900 text-gray-500 font-black">
+                        <tr>
+                          <th className="px-3 py-2">SATIR</th>
+                          <th className="px-3 py-2">DENEME</th>
+                          <th className="px-3 py-2">ÖĞRENCİ</th>
+                          <th className="px-2 py-2 text-center">D</th>
+                          <th className="px-2 py-2 text-center">Y</th>
+                          <th className="px-2 py-2 text-center">B</th>
+                          <th className="px-2 py-2 text-center">NET</th>
+                          <th className="px-3 py-2">DURUM</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-700/50">
+                        {previewRows.slice(0, PREVIEW_LIMIT).map(r => (
+                          <tr key={r.rowNumber} className={r.error ? 'bg-red-900/10' : (r.needsReview ? 'bg-sky-900/10' : '')}>
+                            <td className="px-3 py-2 text-gray-500">{r.rowNumber}</td>
+                            <td className="px-3 py-2">{r.examDef?.name || r.examName}</td>
+                            <td className="px-3 py-2 font-bold text-white">
+                              {r.student ? `${r.student.name} ${r.student.surname}` : r.studentName}
+                              {r.candidates && (
+                                <NameResolutionSelect line={r} value={resolutions[r.rowNumber]} onChange={(res) => setResolutions(prev => ({ ...prev, [r.rowNumber]: res }))} />
+                              )}
+                            </td>
+                            <td className="px-2 py-2 text-center">{r.scores?.correct ?? '-'}</td>
+                            <td className="px-2 py-2 text-center">{r.scores?.incorrect ?? '-'}</td>
+                            <td className="px-2 py-2 text-center">{r.scores?.empty ?? '-'}</td>
+                            <td className="px-2 py-2 text-center font-black text-indigo-400">{r.scores?.net ?? '-'}</td>
+                            <td className={`px-3 py-2 font-semibold ${r.error ? 'text-red-400' : (r.needsReview ? 'text-sky-400' : STATUS_COLORS[rowStatus.get(r.rowNumber) || 'NEW'])}`}>
+                              {r.error || (r.needsReview ? 'Benzer isimler var, öğrenciyi seçin' : IMPORT_STATUS_LABELS[rowStatus.get(r.rowNumber) || 'NEW'])}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  {previewRows.length > PREVIEW_LIMIT && <p className="p-3 text-[10px] text-gray-500">İlk {PREVIEW_LIMIT} satır gösteriliyor.</p>}
+                  {missingLines.length > 0 && (
+                    <div className="border-t border-gray-700">
+                      <p className="p-3 text-[10px] text-gray-400 font-black uppercase">Dosyada olmayan sınıf arkadaşları · {IMPORT_STATUS_LABELS.MISSING}</p>
+                      <ul className="px-3 pb-3 space-y-1 max-h-40 overflow-y-auto">
+                        {missingLines.slice(0, PREVIEW_LIMIT).map((line, i) => <li key={i} className="text-xs text-gray-300">{line.interpretation}</li>)}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex justify-between items-center bg-gray-900">
+          <p className="text-[10px] text-gray-500">Hatalı satırlar kaydedilmez. Benzer isimli satırlar için öğrenci seçin veya satırı atlayın.</p>
+          <button
+            onClick={handleImport}
+            disabled={!hasPlanChanges(plan) || reviewCount > 0}
+            title={reviewCount > 0 ? 'Önce seçim gereken satırları çözün' : undefined}
+            className="bg-indigo-600 text-white px-6 py-2 rounded-lg hover:bg-indigo-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {validRows.length - unchangedCount} Sonucu Kaydet{missingLines.length > 0 ? ` (+${missingLines.length} girmedi)` : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { X, Link2, Copy, RefreshCw, Ban, Trash2, Plus } from 'lucide-react';
+import { SHARE_DURATIONS, SHARE_STATUS_LABELS, getShareLinkStatus, shareLinkUrl } from '../services/shareLinks';
+import { canManageShareLink } from '../services/permissions';
+import { ShareLink, Student, UserProfile } from '../types';
+
+interface ShareLinksModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  profile: UserProfile;
+  links: ShareLink[];
+  students: Student[];
+  student: Student | null; // Opened from a student page: list only that student's links and allow creating one
+  onCreate: (student: Student, days: number | null) => Promise<void>;
+  onRevoke: (link: ShareLink) => Promise<void>;
+  onRegenerate: (link: ShareLink) => Promise<void>;
+  onDelete: (link: ShareLink) => Promise<void>;
+}
+
+const STATUS_STYLES = {
+  ACTIVE: 'text-green-400',
+  EXPIRED: 'text-yellow-500',
+  REVOKED: 'text-gray-500'
+};
+
+export const ShareLinksModal: React.FC<ShareLinksModalProps> = ({ isOpen, onClose, profile, links, students, student, onCreate, onRevoke, onRegenerate, onDelete }) => {
+  const [durationIndex, setDurationIndex] = useState(1);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const visible = links.filter(l => (!student || l.studentId === student.id) && canManageShareLink(profile, l));
+  const studentName = (link: ShareLink) => {
+    const s = students.find(x => x.id === link.studentId);
+    return s ? `${s.name} ${s.surname}` : link.snapshot.studentName;
+  };
+
+  const run = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    try {
+      await action();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCopy = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(shareLinkUrl(link));
+      setCopiedId(link.id);
+      setTimeout(() => setCopiedId(prev => prev === link.id ? null : prev), 2000);
+    } catch (e) {
+      window.prompt("Bağlantıyı kopyalayın:", shareLinkUrl(link));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4 backdrop-blur-sm">
+      <div className="bg-gray-800 rounded-3xl shadow-2xl w-full max-w-lg overflow-hidden border border-gray-700">
+        <div className="flex justify-between items-center p-4 border-b border-gray-700 bg-gray-900 text-white">
+          <h3 className="font-black text-sm uppercase flex items-center gap-2"><Link2 size={16} className="text-indigo-400" /> Veli Bağlantıları{student ? ` · ${student.name} ${student.surname}` : ''}</h3>
+          <button onClick={onClose} className="hover:bg-gray-700 p-1 rounded text-gray-400 hover:text-white"><X size={18} /></button>
+        </div>
+
+        {student && (
+          <div className="p-4 border-b border-gray-700 space-y-2">
+            <p className="text-[10px] text-gray-500">Bağlantıyı açan kişi giriş yapmadan yalnızca bu öğrencinin deneme sonuçlarını ve gelişim grafiğini görür. Bağlantıyı istediğiniz zaman iptal edebilirsiniz.</p>
+            <div className="flex gap-2">
+              <select
+                value={durationIndex}
+                onChange={(e) => setDurationIndex(Number(e.target.value))}
+                className="flex-1 bg-gray-900 text-white text-xs p-3 rounded-2xl border border-gray-700 outline-none"
+              >
+                {SHARE_DURATIONS.map((d, i) => <option key={d.label} value={i}>Geçerlilik: {d.label}</option>)}
+              </select>
+              <button
+                onClick={() => run('new', () => onCreate(student, SHARE_DURATIONS[durationIndex].days))}
+                disabled={busyId !== null}
+                className="bg-indigo-600 text-white px-4 rounded-2xl text-[10px] font-black flex items-center gap-1 hover:bg-indigo-700 disabled:opacity-50"
+              >
+                <Plus size={14} /> OLUŞTUR
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="max-h-[60vh] overflow-y-auto divide-y divide-gray-700/50">
+          {visible.length === 0 ? (
+            <div className="p-10 text-center text-gray-500 font-black uppercase tracking-widest text-xs">Henüz veli bağlantısı yok</div>
+          ) : visible.map(link => {
+            const status = getShareLinkStatus(link);
+            const isBusy = busyId === link.id;
+            return (
+              <div key={link.id} className="p-4 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    {!student && <p className="text-sm text-white font-bold truncate">{studentName(link)}</p>}
+                    <p className="text-[10px] text-gray-500">
+                      <span className={`font-black uppercase ${STATUS_STYLES[status]}`}>{SHARE_STATUS_LABELS[status]}</span>
+                      {' · '}{new Date(link.createdAt).toLocaleDateString('tr-TR')}
+                      {' · '}{link.expiresAt === null ? 'Süresiz' : `Bitiş: ${new Date(link.expiresAt).toLocaleDateString('tr-TR')}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    {status === 'ACTIVE' && (
+                      <button onClick={() => handleCopy(link)} title="Bağlantıyı kopyala" className="p-2 rounded-xl border border-gray-700 text-indigo-400 hover:bg-gray-700 text-[10px] font-black flex items-center gap-1">
+                        <Copy size={12} /> {copiedId === link.id ? 'KOPYALANDI' : 'KOPYALA'}
+                      </button>
+                    )}
+                    <button onClick={() => run(link.id, () => onRegenerate(link))} disabled={busyId !== null} title="Yeni bağlantı üret (eskisi çalışmaz)" className="p-2 rounded-xl border border-gray-700 text-gray-300 hover:bg-gray-700 disabled:opacity-50">
+                      <RefreshCw size={12} className={isBusy ? 'animate-spin' : ''} />
+                    </button>
+                    {status === 'ACTIVE' ? (
+                      <button onClick={() => run(link.id, () => onRevoke(link))} disabled={busyId !== null} title="Bağlantıyı iptal et" className="p-2 rounded-xl border border-red-600/30 text-red-400 hover:bg-red-600/10 disabled:opacity-50">
+                        <Ban size={12} />
+                      </button>
+                    ) : (
+                      <button onClick={() => run(link.id, () => onDelete(link))} disabled={busyId !== null} title="Kaydı sil" className="p-2 rounded-xl border border-gray-700 text-gray-500 hover:bg-gray-700 disabled:opacity-50">
+                        <Trash2 size={12} />
+                      </button>
+                    )}
+                  </div>
+                </div>
+                {status === 'ACTIVE' && <input readOnly value={shareLinkUrl(link)} onFocus={(e) => e.target.select()} className="w-full bg-gray-900 text-gray-400 text-[10px] p-2 rounded-xl border border-gray-700 outline-none font-mono" />}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,8 @@
 
 import React, { useState, useEffect } from 'react';
 import { X } from 'lucide-react';
-import { Student, Classroom } from '../types';
+import { Student, Classroom, StudentGoal } from '../types';
+import { getLocalDay } from '../services/goals';
 
 interface StudentFormModalProps {
   isOpen: boolean;
@@ -17,25 +18,38 @@ export const StudentFormModal: React.FC<StudentFormModalProps> = ({
   const [name, setName] = useState('');
   const [surname, setSurname] = useState('');
   const [classroomId, setClassroomId] = useState('');
+  const [targetNet, setTargetNet] = useState('');
+  const [targetDate, setTargetDate] = useState('');
 
   useEffect(() => {
     if (editingStudent) {
       setName(editingStudent.name);
       setSurname(editingStudent.surname);
       setClassroomId(editingStudent.classroomId);
+      setTargetNet(editingStudent.goal ? String(editingStudent.goal.targetNet) : '');
+      setTargetDate(editingStudent.goal?.targetDate || '');
     } else {
       setName('');
       setSurname('');
       setClassroomId(classes.length > 0 ? classes[0].id : '');
+      setTargetNet('');
+      setTargetDate('');
     }
   }, [editingStudent, classes, isOpen]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    const previousGoal = editingStudent?.goal;
+    const net = parseFloat(targetNet.replace(',', '.'));
+    // A changed goal starts over from the student's current net
+    const goal: StudentGoal | null = targetNet.trim() === '' || isNaN(net) ? null
+      : previousGoal && previousGoal.targetNet === net && previousGoal.targetDate === targetDate ? previousGoal
+      : { targetNet: net, targetDate, setDate: getLocalDay() };
     const studentData = {
       name, 
       surname, 
-      classroomId
+      classroomId,
+      goal
     };
 
     if (editingStudent) {
@@ -98,6 +112,31 @@ export const StudentFormModal: React.FC<StudentFormModalProps> = ({
               </select>
             </div>
 
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">Hedef Net</label>
+              <input
+                type="number"
+                min={0}
+                step="0.25"
+                value={targetNet}
+                onChange={(e) => setTargetNet(e.target.value)}
+                placeholder="Yok"
+                className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 text-sm focus:ring-indigo-500 focus:border-indigo-500 text-white"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">Hedef Tarihi</label>
+              <input
+                required={targetNet.trim() !== ''}
+                type="date"
+                value={targetDate}
+                onChange={(e) => setTargetDate(e.target.value)}
+                className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 text-sm focus:ring-indigo-500 focus:border-indigo-500 text-white"
+              />
+            </div>
+          </div>
+
           <div className="pt-2">
             <button
               type="submit"
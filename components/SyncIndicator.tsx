@@ -0,0 +1,85 @@
+import React, { useState, useEffect } from 'react';
+import { Cloud, CloudOff, RefreshCw, AlertTriangle, X, RotateCcw, Trash2 } from 'lucide-react';
+import { SyncState, SyncStatus, subscribeToSync, getSyncState, flushPendingWrites, retryPendingWrite, discardPendingWrite } from '../services/syncQueue';
+
+interface SyncIndicatorProps {
+  compact?: boolean; // Icon only, for the mobile header
+}
+
+const STATUS_STYLES: Record<SyncStatus, { label: string, className: string, Icon: React.ElementType }> = {
+  SYNCED: { label: 'EŞİTLENDİ', className: 'text-green-400', Icon: Cloud },
+  PENDING: { label: 'BEKLİYOR', className: 'text-yellow-400', Icon: Cloud },
+  SYNCING: { label: 'EŞİTLENİYOR', className: 'text-indigo-400', Icon: RefreshCw },
+  OFFLINE: { label: 'ÇEVRİMDIŞI', className: 'text-gray-400', Icon: CloudOff },
+  ERROR: { label: 'HATA', className: 'text-red-400', Icon: AlertTriangle },
+};
+
+export const SyncIndicator: React.FC<SyncIndicatorProps> = ({ compact }) => {
+  const [state, setState] = useState<SyncState>(getSyncState());
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => subscribeToSync(setState), []);
+
+  const { label, className, Icon } = STATUS_STYLES[state.status];
+  const count = state.pending.length;
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        title={`Senkronizasyon: ${label}${count > 0 ? ` (${count} bekleyen değişiklik)` : ''}`}
+        className={`flex items-center gap-2 rounded-xl hover:bg-gray-700 transition-all ${compact ? 'p-2' : 'px-3 py-2 w-full'} ${className}`}
+      >
+        <Icon size={compact ? 20 : 16} className={state.status === 'SYNCING' ? 'animate-spin' : ''} />
+        {!compact && <span className="text-[10px] font-black uppercase tracking-widest">{label}</span>}
+        {count > 0 && <span className="ml-auto bg-gray-900 text-[10px] font-black px-2 py-0.5 rounded-full">{count}</span>}
+      </button>
+
+      {isOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4 backdrop-blur-sm">
+          <div className="bg-gray-800 rounded-3xl shadow-2xl w-full max-w-md overflow-hidden border border-gray-700">
+            <div className="flex justify-between items-center p-4 border-b border-gray-700 bg-gray-900 text-white">
+              <h3 className="font-black text-sm uppercase flex items-center gap-2"><Icon size={16} className={className} /> Bekleyen Değişiklikler</h3>
+              <button onClick={() => setIsOpen(false)} className="hover:bg-gray-700 p-1 rounded text-gray-400 hover:text-white"><X size={18} /></button>
+            </div>
+            <div className="max-h-[60vh] overflow-y-auto divide-y divide-gray-700/50">
+              {count === 0 ? (
+                <div className="p-10 text-center text-gray-500 font-black uppercase tracking-widest text-xs">Tüm değişiklikler kaydedildi</div>
+              ) : state.pending.map(w => (
+                <div key={w.id} className="p-4 flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm text-white font-bold truncate">{w.label}</p>
+                    <p className="text-[10px] text-gray-500">{new Date(w.createdAt).toLocaleString('tr-TR')}{w.attempts > 0 ? ` · ${w.attempts} deneme` : ''}</p>
+                    {w.error && <p className="text-[10px] text-red-400 mt-1">{w.error}</p>}
+                  </div>
+                  <div className="flex items-center shrink-0">
+                    {w.error && <button onClick={() => retryPendingWrite(w.id)} title="Tekrar Dene" className="text-gray-500 hover:text-indigo-400 p-2"><RotateCcw size={16} /></button>}
+                    <button
+                      onClick={() => { if (window.confirm("Bu değişiklik kaydedilmeden silinsin mi?")) discardPendingWrite(w.id); }}
+                      title="Vazgeç"
+                      className="text-gray-600 hover:text-red-400 p-2"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+            {count > 0 && (
+              <div className="p-4 border-t border-gray-700 space-y-2">
+                {state.status === 'OFFLINE' && <p className="text-[10px] text-gray-500 text-center">Bağlantı geldiğinde değişiklikler otomatik olarak gönderilecek.</p>}
+                <button
+                  onClick={flushPendingWrites}
+                  disabled={state.status === 'OFFLINE' || state.status === 'SYNCING'}
+                  className="w-full bg-indigo-600 text-white py-3 rounded-2xl text-xs font-black hover:bg-indigo-700 transition-all active:scale-95 disabled:opacity-50"
+                >
+                  ŞİMDİ EŞİTLE
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
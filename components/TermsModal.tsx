@@ -0,0 +1,173 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, CalendarRange, ArrowRight, AlertTriangle, GraduationCap } from 'lucide-react';
+import {
+  PromotionAction, PromotionRow, PROMOTION_ACTION_LABELS, TermTransitionPlan,
+  getActiveTerm, sortTerms, suggestTermName, suggestNextTermName, suggestPromotion, planTermTransition, validatePromotion
+} from '../services/terms';
+import { formatDay } from '../services/reportCard';
+import { Classroom, ExamDefinition, Student, Term } from '../types';
+
+interface TermsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  terms: Term[];
+  students: Student[]; // Students and classes of the open term
+  classes: Classroom[];
+  examDefinitions: ExamDefinition[]; // All definitions, legacy ones get stamped with the ending term
+  onStartTerm: (term: Term) => Promise<void>;
+  onApplyTransition: (plan: TermTransitionPlan) => Promise<boolean>;
+}
+
+export const TermsModal: React.FC<TermsModalProps> = ({ isOpen, onClose, terms, students, classes, examDefinitions, onStartTerm, onApplyTransition }) => {
+  const [step, setStep] = useState<'LIST' | 'WIZARD'>('LIST');
+  const [termName, setTermName] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [newTermName, setNewTermName] = useState('');
+  const [rows, setRows] = useState<PromotionRow[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const activeTerm = getActiveTerm(terms);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setStep('LIST');
+    setTermName(suggestTermName());
+    // Existing definitions should fall into the first term, so it starts with the oldest of them
+    const oldest = examDefinitions.map(d => d.date).filter(Boolean).sort()[0];
+    const today = new Date().toISOString().slice(0, 10);
+    setStartDate(oldest && oldest < today ? oldest : today);
+  }, [isOpen]);
+
+  const sortedClasses = useMemo(() => classes.slice().sort((a, b) => a.name.localeCompare(b.name, 'tr', { numeric: true })), [classes]);
+  const errors = useMemo(() => validatePromotion(rows, classes), [rows, classes]);
+
+  if (!isOpen) return null;
+
+  const openWizard = () => {
+    setNewTermName(suggestNextTermName(activeTerm?.name || ''));
+    setRows(suggestPromotion(sortedClasses));
+    setStep('WIZARD');
+  };
+
+  const updateRow = (classroomId: string, change: Partial<PromotionRow>) =>
+    setRows(prev => prev.map(r => r.classroomId === classroomId ? { ...r, ...change } : r));
+
+  const handleStart = async () => {
+    if (!termName.trim() || !startDate) return;
+    setIsSaving(true);
+    try {
+      await onStartTerm({ id: `${Date.now()}${Math.random().toString(36).slice(2, 7)}`, name: termName.trim(), startDate });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const graduating = rows.filter(r => r.action === 'GRADUATE').map(r => r.classroomId);
+  const alumniCount = students.filter(s => graduating.includes(s.classroomId)).length;
+  const promotedCount = rows.filter(r => r.action === 'PROMOTE').length;
+
+  const handleApply = async () => {
+    if (!activeTerm || errors.length > 0 || !newTermName.trim()) return;
+    const message = `"${activeTerm.name}" arşivlenecek ve "${newTermName.trim()}" başlayacak.\n\n${promotedCount} sınıf üst sınıfa geçecek, ${graduating.length} sınıf (${alumniCount} öğrenci) mezun olacak. Geçmiş sonuçlar silinmez, arşivlenen dönem seçilerek görüntülenebilir.\n\nDevam edilsin mi?`;
+    if (!window.confirm(message)) return;
+    setIsSaving(true);
+    try {
+      const plan = planTermTransition({ endingTerm: activeTerm, newTermName, rows, students, classes, examDefinitions, terms });
+      if (await onApplyTransition(plan)) setStep('LIST');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4 backdrop-blur-sm">
+      <div className="bg-gray-800 rounded-3xl shadow-2xl w-full max-w-lg overflow-hidden border border-gray-700 flex flex-col max-h-[90vh]">
+        <div className="flex justify-between items-center p-4 border-b border-gray-700 bg-gray-900 text-white">
+          <h3 className="font-black text-sm uppercase flex items-center gap-2"><CalendarRange size={16} className="text-indigo-400" /> {step === 'LIST' ? 'Dönemler' : 'Dönem Sonu'}</h3>
+          <button onClick={onClose} className="hover:bg-gray-700 p-1 rounded text-gray-400 hover:text-white"><X size={18} /></button>
+        </div>
+
+        {step === 'LIST' ? (
+          <div className="overflow-y-auto flex-1">
+            {!activeTerm && (
+              <div className="p-4 border-b border-gray-700 space-y-2">
+                <p className="text-[10px] text-gray-500">{terms.length === 0 ? 'Henüz dönem yok. Mevcut denemeler başlatılan döneme dahil edilir.' : 'Açık dönem yok. Yeni bir dönem başlatın.'}</p>
+                <div className="flex gap-2">
+                  <input value={termName} onChange={(e) => setTermName(e.target.value)} placeholder="2025-2026" className="flex-1 min-w-0 bg-gray-900 text-white text-xs p-3 rounded-2xl border border-gray-700 outline-none" />
+                  <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="bg-gray-900 text-white text-xs p-3 rounded-2xl border border-gray-700 outline-none" />
+                </div>
+                <button onClick={handleStart} disabled={isSaving || !termName.trim() || !startDate} className="w-full bg-indigo-600 text-white py-3 rounded-2xl text-xs font-black hover:bg-indigo-700 transition-all active:scale-95 disabled:opacity-50">DÖNEMİ BAŞLAT</button>
+              </div>
+            )}
+            <div className="divide-y divide-gray-700/50">
+              {sortTerms(terms).map(t => (
+                <div key={t.id} className="p-4 flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm text-white font-bold truncate">{t.name}</p>
+                    <p className="text-[10px] text-gray-500">{formatDay(t.startDate)} – {t.archivedAt && t.endDate ? formatDay(t.endDate) : 'devam ediyor'}</p>
+                  </div>
+                  <span className={`text-[10px] font-black uppercase shrink-0 ${t.archivedAt ? 'text-gray-500' : 'text-green-400'}`}>{t.archivedAt ? 'ARŞİV' : 'AÇIK'}</span>
+                </div>
+              ))}
+            </div>
+            {activeTerm && (
+              <div className="p-4 border-t border-gray-700 space-y-2">
+                <p className="text-[10px] text-gray-500">Yıl sonunda dönemi arşivleyin: sınıflar üst sınıfa geçer, son sınıflar mezun olur. Öğrencilerin geçmiş sonuçları silinmez.</p>
+                <button onClick={openWizard} className="w-full bg-indigo-600 text-white py-3 rounded-2xl text-xs font-black hover:bg-indigo-700 transition-all active:scale-95 flex items-center justify-center gap-2">
+                  <GraduationCap size={16} /> DÖNEM SONU SİHİRBAZI
+                </button>
+              </div>
+            )}
+          </div>
+        ) : (
+          <>
+            <div className="p-4 space-y-3 overflow-y-auto flex-1">
+              <div className="flex items-center gap-2">
+                <div className="flex-1 bg-gray-900 text-gray-400 text-xs p-3 rounded-2xl border border-gray-700 truncate">{activeTerm?.name}</div>
+                <ArrowRight size={16} className="text-gray-500 shrink-0" />
+                <input value={newTermName} onChange={(e) => setNewTermName(e.target.value)} placeholder="Yeni dönem adı" className="flex-1 min-w-0 bg-gray-900 text-white text-xs p-3 rounded-2xl border border-gray-700 outline-none" />
+              </div>
+              <div className="space-y-2">
+                {sortedClasses.map(c => {
+                  const row = rows.find(r => r.classroomId === c.id);
+                  if (!row) return null;
+                  return (
+                    <div key={c.id} className="bg-gray-900 rounded-2xl border border-gray-700 p-3 flex items-center gap-2">
+                      <div className="w-16 shrink-0">
+                        <p className="text-xs text-white font-black truncate">{c.name}</p>
+                        <p className="text-[9px] text-gray-500">{students.filter(s => s.classroomId === c.id).length} öğrenci</p>
+                      </div>
+                      <select
+                        value={row.action}
+                        onChange={(e) => updateRow(c.id, { action: e.target.value as PromotionAction })}
+                        className="bg-gray-800 text-white text-[10px] p-2 rounded-xl border border-gray-700 outline-none"
+                      >
+                        {(Object.keys(PROMOTION_ACTION_LABELS) as PromotionAction[]).map(a => <option key={a} value={a}>{PROMOTION_ACTION_LABELS[a]}</option>)}
+                      </select>
+                      {row.action === 'PROMOTE' && (
+                        <input value={row.newName} onChange={(e) => updateRow(c.id, { newName: e.target.value })} className="flex-1 min-w-0 bg-gray-800 text-white text-xs p-2 rounded-xl border border-gray-700 outline-none" />
+                      )}
+                    </div>
+                  );
+                })}
+                {sortedClasses.length === 0 && <p className="text-center text-gray-500 text-xs font-bold py-6">Açık dönemde sınıf yok.</p>}
+              </div>
+              {errors.length > 0 && (
+                <ul className="bg-red-900/20 border border-red-700/40 rounded-2xl p-3 space-y-1">
+                  {errors.map(e => <li key={e} className="text-[11px] text-red-300 flex gap-1"><AlertTriangle size={12} className="shrink-0 mt-0.5" /> {e}</li>)}
+                </ul>
+              )}
+              <p className="text-[10px] text-gray-500">{promotedCount} sınıf üst sınıfa geçecek, {graduating.length} sınıf ({alumniCount} öğrenci) mezun olacak.</p>
+            </div>
+            <div className="p-4 border-t border-gray-700 flex gap-2">
+              <button onClick={() => setStep('LIST')} disabled={isSaving} className="flex-1 bg-gray-700 text-white py-3 rounded-2xl text-xs font-black hover:bg-gray-600 transition-all disabled:opacity-50">GERİ</button>
+              <button onClick={handleApply} disabled={isSaving || errors.length > 0 || !newTermName.trim()} className="flex-[2] bg-indigo-600 text-white py-3 rounded-2xl text-xs font-black hover:bg-indigo-700 transition-all active:scale-95 disabled:opacity-50">
+                {isSaving ? 'KAYDEDİLİYOR...' : 'DÖNEMİ ARŞİVLE VE GEÇ'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { TRASH_KIND_LABELS, TRASH_RETENTION_DAYS, TrashState, getRestoreBlocker, getTrashDaysLeft, getTrashResultCount } from '../services/trash';
+import { canManageTrashItem } from '../services/permissions';
+import { TrashItem, UserProfile } from '../types';
+
+interface TrashViewProps {
+  profile: UserProfile;
+  items: TrashItem[];
+  state: TrashState; // All terms, so restore checks see classes of archived terms too
+  onRestore: (item: TrashItem) => Promise<void>;
+  onPurge: (item: TrashItem) => Promise<void>;
+}
+
+export const TrashView: React.FC<TrashViewProps> = ({ profile, items, state, onRestore, onPurge }) => {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const visible = items.filter(item => canManageTrashItem(profile, item));
+
+  const run = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    try {
+      await action();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRestore = (item: TrashItem) => {
+    const blocker = getRestoreBlocker(item, state);
+    if (blocker) {
+      alert(blocker);
+      return;
+    }
+    run(item.id, () => onRestore(item));
+  };
+
+  const handlePurge = (item: TrashItem) => {
+    if (!window.confirm(`"${item.label}" ve bağlı sonuçları kalıcı olarak silinecek. Bu işlem geri alınamaz.\n\nDevam edilsin mi?`)) return;
+    run(item.id, () => onPurge(item));
+  };
+
+  return (
+    <div className="space-y-4 pb-safe animate-in fade-in duration-300">
+      <div className="px-1">
+        <h2 className="text-xl font-black text-white uppercase tracking-tight">ÇÖP KUTUSU</h2>
+        <p className="text-[10px] text-gray-500 font-bold">Silinen kayıtlar {TRASH_RETENTION_DAYS} gün boyunca sonuçlarıyla birlikte geri yüklenebilir, sonra kalıcı olarak silinir.</p>
+      </div>
+
+      <div className="bg-gray-800 rounded-3xl border border-gray-700 overflow-hidden shadow-lg divide-y divide-gray-700/50">
+        {visible.length === 0 ? (
+          <div className="p-10 text-center text-gray-500 font-black uppercase tracking-widest text-xs">Çöp kutusu boş</div>
+        ) : visible.map(item => {
+          const resultCount = getTrashResultCount(item);
+          const daysLeft = getTrashDaysLeft(item);
+          return (
+            <div key={item.id} className="p-4 flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-sm text-white font-bold truncate">
+                  <span className="text-[10px] text-indigo-400 font-black uppercase mr-2">{TRASH_KIND_LABELS[item.kind]}</span>{item.label}
+                </p>
+                <p className="text-[10px] text-gray-500">
+                  {new Date(item.deletedAt).toLocaleString('tr-TR')} · {item.deletedByEmail || 'Bu cihaz'}
+                  {resultCount > 0 && ` · ${resultCount} sonuç`}
+                  {' · '}<span className={daysLeft <= 3 ? 'text-yellow-500 font-black' : ''}>{daysLeft} gün kaldı</span>
+                </p>
+              </div>
+              <div className="flex gap-1 shrink-0">
+                <button onClick={() => handleRestore(item)} disabled={busyId !== null} className="p-2 rounded-xl border border-gray-700 text-indigo-400 hover:bg-gray-700 text-[10px] font-black flex items-center gap-1 disabled:opacity-50">
+                  <RotateCcw size={12} className={busyId === item.id ? 'animate-spin' : ''} /> GERİ YÜKLE
+                </button>
+                <button onClick={() => handlePurge(item)} disabled={busyId !== null} title="Kalıcı olarak sil" className="p-2 rounded-xl border border-red-600/30 text-red-400 hover:bg-red-600/10 disabled:opacity-50">
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
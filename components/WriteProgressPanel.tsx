@@ -0,0 +1,36 @@
+import React, { useState } from 'react';
+import { WriteProgress } from '../services/dataService';
+
+interface WriteProgressPanelProps {
+  label: string;
+  progress: WriteProgress;
+  onCancel?: () => void; // Omitted for writes that must not stop halfway
+}
+
+// Shown on the loading screen while a large write goes out chunk by chunk
+export const WriteProgressPanel: React.FC<WriteProgressPanelProps> = ({ label, progress, onCancel }) => {
+  const [isCancelling, setIsCancelling] = useState(false);
+  const percent = progress.total > 0 ? Math.round(progress.written / progress.total * 100) : 0;
+
+  const handleCancel = () => {
+    setIsCancelling(true);
+    onCancel?.();
+  };
+
+  return (
+    <div className="w-72 mx-auto mt-6 space-y-2">
+      <p className="text-xs text-gray-300 font-bold">{label}</p>
+      <div className="h-2 bg-gray-800 rounded-full overflow-hidden border border-gray-700">
+        <div className="h-full bg-indigo-600 transition-all" style={{ width: `${percent}%` }}></div>
+      </div>
+      <p className="text-[10px] text-gray-500 font-bold">
+        {progress.written}/{progress.total} kayıt · {progress.chunk}/{progress.chunkCount} paket
+      </p>
+      {onCancel && (
+        <button onClick={handleCancel} disabled={isCancelling} className="bg-gray-800 text-red-400 px-4 py-2 rounded-xl text-[10px] font-black border border-gray-700 hover:bg-gray-700 disabled:opacity-50">
+          {isCancelling ? 'BU PAKETTEN SONRA DURACAK...' : 'İPTAL'}
+        </button>
+      )}
+    </div>
+  );
+};
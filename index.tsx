@@ -1,15 +1,30 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { AuthGate } from './components/AuthGate';
+import { ParentShareView } from './components/ParentShareView';
+import { getShareTokenFromUrl } from './services/shareLinks';
+import { registerServiceWorker } from './services/serviceWorker';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Parent share links open a read-only page without the sign-in gate
+const shareToken = getShareTokenFromUrl();
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {shareToken ? (
+      <ParentShareView token={shareToken} />
+    ) : (
+      <AuthGate>
+        <App />
+      </AuthGate>
+    )}
   </React.StrictMode>
-);
\ No newline at end of file
+);
+
+registerServiceWorker();
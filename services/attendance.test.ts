@@ -0,0 +1,64 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { AttendanceSource, buildAttendanceReport, selectAttendanceResults, summarizeAttendance } from './attendance';
+import { ExamResult } from '../types';
+
+const result = (id: string, studentId: string, fields: Partial<ExamResult> = {}): ExamResult => ({
+  id, studentId, examId: 'd1', examName: 'Deneme 1', date: '2024-03-01', correct: 5, incorrect: 0, empty: 5, net: 5, status: 'ATTENDED', ...fields
+});
+const absent = (id: string, studentId: string, fields: Partial<ExamResult> = {}) => result(id, studentId, { status: 'MISSING', net: 0, ...fields });
+
+const source: AttendanceSource = {
+  students: [
+    { id: 's1', name: 'Ece', surname: 'Yılmaz', classroomId: 'c1' },
+    { id: 's2', name: 'Ada', surname: 'Kaya', classroomId: 'c1' },
+    { id: 's3', name: 'Can', surname: 'Demir', classroomId: 'c2' }
+  ],
+  classes: [{ id: 'c1', name: '8A' }, { id: 'c2', name: '8B' }, { id: 'c3', name: '8C' }],
+  examDefinitions: [
+    { id: 'd1', name: 'Deneme 1', date: '2024-03-01' },
+    { id: 'd2', name: 'Deneme 1', date: '2025-03-01' } // Same name, next school year
+  ],
+  exams: [
+    result('r1', 's1'),
+    absent('r2', 's2', { absenceReason: 'SICK' }),
+    absent('r3', 's3', { examId: undefined }), // Legacy result, matched by name
+    result('r4', 's1', { examId: 'd2', date: '2025-03-01' }),
+    result('r5', 'gone') // Student not in the viewed term
+  ]
+};
+
+describe('summarizeAttendance', () => {
+  it('leaves transfers out of the rate but counts them by reason', () => {
+    const stats = summarizeAttendance([result('r1', 's1'), absent('r2', 's1'), absent('r3', 's1', { absenceReason: 'TRANSFERRED' })]);
+    expect(stats).toEqual({
+      expected: 2, attended: 1, missing: 1, rate: 50,
+      byReason: { SICK: 0, EXCUSED: 0, UNEXCUSED: 0, TRANSFERRED: 1, UNKNOWN: 1 }
+    });
+  });
+
+  it('has no rate when nothing was expected', () => {
+    expect(summarizeAttendance([]).rate).toBeNull();
+  });
+});
+
+describe('selectAttendanceResults', () => {
+  const ids = (results: ExamResult[]) => results.map(r => r.id);
+
+  it('counts an exam\'s linked and legacy results but not those of a same-named exam', () => {
+    expect(ids(selectAttendanceResults('EXAM', 'd1', source))).toEqual(['r1', 'r2', 'r3']);
+    expect(ids(selectAttendanceResults('EXAM', 'd2', source))).toEqual(['r4']);
+  });
+
+  it('counts only the class\'s own students for a class and ignores students outside the term', () => {
+    expect(ids(selectAttendanceResults('CLASS', 'c1', source))).toEqual(['r1', 'r2', 'r4']);
+    expect(ids(selectAttendanceResults('STUDENT', 'gone', source))).toEqual([]);
+  });
+});
+
+describe('buildAttendanceReport', () => {
+  it('lists the lowest rate first and leaves out rows without results', () => {
+    const rows = buildAttendanceReport('CLASS', source);
+    expect(rows.map(r => [r.label, r.stats.rate])).toEqual([['8B', 0], ['8A', 67]]);
+  });
+});
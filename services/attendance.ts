@@ -0,0 +1,93 @@
+import { AbsenceReason, Classroom, ExamDefinition, ExamResult, Student } from '../types';
+import { belongsTo } from './dataService';
+
+// Attendance is counted over entered results: an exam without any result for a student is not an absence.
+// Absences marked as transfers are left out of the rate, since the student was no longer expected to sit
+// the exam; they are still listed among the absentees.
+
+export const ABSENCE_REASONS: AbsenceReason[] = ['SICK', 'EXCUSED', 'UNEXCUSED', 'TRANSFERRED'];
+
+export const ABSENCE_REASON_LABELS: Record<AbsenceReason, string> = {
+  SICK: 'Hasta',
+  EXCUSED: 'İzinli',
+  UNEXCUSED: 'Özürsüz',
+  TRANSFERRED: 'Nakil'
+};
+
+export const UNKNOWN_REASON_LABEL = 'Belirtilmedi';
+
+export const getAbsenceReasonLabel = (result: ExamResult) =>
+  result.absenceReason ? ABSENCE_REASON_LABELS[result.absenceReason] : UNKNOWN_REASON_LABEL;
+
+export interface AttendanceStats {
+  expected: number; // Results minus transfers
+  attended: number;
+  missing: number; // Absences that count against the rate
+  rate: number | null; // Percentage, null when nothing was expected
+  byReason: Record<AbsenceReason | 'UNKNOWN', number>;
+}
+
+export const isAbsent = (result: ExamResult) => result.status === 'MISSING';
+
+export const summarizeAttendance = (results: ExamResult[]): AttendanceStats => {
+  const byReason: AttendanceStats['byReason'] = { SICK: 0, EXCUSED: 0, UNEXCUSED: 0, TRANSFERRED: 0, UNKNOWN: 0 };
+  results.filter(isAbsent).forEach(r => byReason[r.absenceReason || 'UNKNOWN']++);
+  const expected = results.length - byReason.TRANSFERRED;
+  const attended = results.filter(r => !isAbsent(r)).length;
+  return {
+    expected,
+    attended,
+    missing: expected - attended,
+    rate: expected > 0 ? Math.round(attended / expected * 100) : null,
+    byReason
+  };
+};
+
+// --- REPORTS ---
+
+export type AttendanceReportKind = 'STUDENT' | 'CLASS' | 'EXAM';
+
+export const ATTENDANCE_REPORT_LABELS: Record<AttendanceReportKind, string> = {
+  STUDENT: 'Öğrenci',
+  CLASS: 'Sınıf',
+  EXAM: 'Deneme'
+};
+
+export interface AttendanceRow {
+  id: string;
+  label: string;
+  detail: string; // Class of a student, size of a class, date ('YYYY-MM-DD') of an exam
+  stats: AttendanceStats;
+}
+
+export interface AttendanceSource {
+  students: Student[];
+  classes: Classroom[];
+  exams: ExamResult[];
+  examDefinitions: ExamDefinition[];
+}
+
+// Results behind one row of a report; exams of other classes' students are not part of a class row. An exam row
+// follows belongsTo, like the exam pages, so its figure and the pages count the same results.
+export const selectAttendanceResults = (kind: AttendanceReportKind, id: string, source: AttendanceSource): ExamResult[] => {
+  const studentIds = new Set(source.students.filter(s => kind !== 'CLASS' || s.classroomId === id).map(s => s.id));
+  const results = source.exams.filter(r => studentIds.has(r.studentId));
+  if (kind === 'STUDENT') return results.filter(r => r.studentId === id);
+  if (kind === 'CLASS') return results;
+  const def = source.examDefinitions.find(d => d.id === id);
+  return def ? results.filter(r => belongsTo(r, def)) : results.filter(r => r.examId === id);
+};
+
+// Lowest rate first, so the rows that need attention lead; rows without results are left out
+export const buildAttendanceReport = (kind: AttendanceReportKind, source: AttendanceSource): AttendanceRow[] => {
+  const className = (id: string) => source.classes.find(c => c.id === id)?.name || '-';
+  const row = (id: string, label: string, detail: string) => ({ id, label, detail, stats: summarizeAttendance(selectAttendanceResults(kind, id, source)) });
+
+  const rows = kind === 'STUDENT' ? source.students.map(s => row(s.id, `${s.name} ${s.surname}`, className(s.classroomId)))
+    : kind === 'CLASS' ? source.classes.map(c => row(c.id, c.name, `${source.students.filter(s => s.classroomId === c.id).length} öğrenci`))
+    : source.examDefinitions.map(d => row(d.id, d.name, d.date));
+
+  return rows
+    .filter(r => r.stats.expected > 0 || r.stats.byReason.TRANSFERRED > 0)
+    .sort((a, b) => (a.stats.rate ?? 101) - (b.stats.rate ?? 101) || a.label.localeCompare(b.label, 'tr', { numeric: true }));
+};
@@ -0,0 +1,191 @@
+import { AbsenceReason, AuditAction, AuditEntry, AuditFieldChange, AuditedCollection, UserProfile } from '../types';
+import { CollectionName, WriteOperation } from './storageAdapter';
+import { ABSENCE_REASON_LABELS } from './attendance';
+
+// Audit trail: every write to the data collections gets one entry per document with the acting user
+// and a field level before/after diff. The "before" side comes from a cache of the last known state of
+// each document, seeded by fetchAllData and advanced after every write, so no extra reads are needed.
+
+export const AUDITED_COLLECTIONS: AuditedCollection[] = ['students', 'classrooms', 'examResults', 'examDefinitions', 'terms'];
+
+export const AUDIT_COLLECTION_LABELS: Record<AuditedCollection, string> = {
+  students: 'Öğrenci',
+  classrooms: 'Sınıf',
+  examResults: 'Sonuç',
+  examDefinitions: 'Deneme',
+  terms: 'Dönem'
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  CREATE: 'Eklendi',
+  UPDATE: 'Güncellendi',
+  DELETE: 'Silindi'
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Ad',
+  surname: 'Soyad',
+  classroomId: 'Sınıf',
+  alumniTermId: 'Mezuniyet dönemi',
+  goal: 'Hedef',
+  graduatedTermId: 'Mezuniyet dönemi',
+  examId: 'Deneme',
+  examName: 'Deneme adı',
+  studentId: 'Öğrenci',
+  date: 'Tarih',
+  correct: 'Doğru',
+  incorrect: 'Yanlış',
+  empty: 'Boş',
+  net: 'Net',
+  status: 'Durum',
+  absenceReason: 'Devamsızlık nedeni',
+  answers: 'Cevaplar',
+  questionCount: 'Soru sayısı',
+  penaltyRatio: 'Yanlış katsayısı',
+  rounding: 'Yuvarlama',
+  answerKey: 'Cevap anahtarı',
+  skillTags: 'Beceri etiketleri',
+  termId: 'Dönem'
+};
+
+export const getAuditFieldLabel = (field: string) => FIELD_LABELS[field] || field;
+
+export const isAudited = (collection: CollectionName): collection is AuditedCollection => AUDITED_COLLECTIONS.includes(collection as AuditedCollection);
+
+// --- DOCUMENT CACHE ---
+
+const cache = new Map<string, Record<string, any>>();
+const cacheKey = (collection: CollectionName, id: string) => `${collection}/${id}`;
+
+export const seedAuditCache = (collection: AuditedCollection, docs: { id: string }[]) => {
+  Array.from(cache.keys()).filter(k => k.startsWith(`${collection}/`)).forEach(k => cache.delete(k));
+  docs.forEach(doc => cache.set(cacheKey(collection, doc.id), JSON.parse(JSON.stringify(doc))));
+};
+
+// Called once a write went through (or was queued), so the next diff starts from it
+export const applyToAuditCache = (operations: WriteOperation[]) => {
+  operations.forEach(op => {
+    if (!isAudited(op.collection)) return;
+    const key = cacheKey(op.collection, op.id);
+    if (op.type === 'delete') cache.delete(key);
+    else if (op.type === 'set') cache.set(key, JSON.parse(JSON.stringify(op.data)));
+    else cache.set(key, { ...(cache.get(key) || {}), ...JSON.parse(JSON.stringify(op.data)) });
+  });
+};
+
+// --- ENTRIES ---
+
+const IGNORED_FIELDS = new Set(['id', 'ownerId']);
+
+const normalize = (value: any) => value === undefined ? null : value;
+
+// Field level diff; arrays and objects are compared by value
+export const diffFields = (before: Record<string, any>, after: Record<string, any>, fields?: string[]): AuditFieldChange[] => {
+  const keys = fields || Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  return keys
+    .filter(field => !IGNORED_FIELDS.has(field))
+    .filter(field => JSON.stringify(normalize(before[field])) !== JSON.stringify(normalize(after[field])))
+    .sort()
+    .map(field => ({ field, before: normalize(before[field]), after: normalize(after[field]) }));
+};
+
+const describeDoc = (collection: AuditedCollection, doc: Record<string, any>): string => {
+  if (collection === 'students') return `${doc.name || ''} ${doc.surname || ''}`.trim();
+  if (collection === 'examResults') {
+    const student = doc.studentId ? cache.get(cacheKey('students', doc.studentId)) : undefined;
+    return [student ? `${student.name} ${student.surname}` : '', doc.examName].filter(Boolean).join(' · ');
+  }
+  return doc.name || '';
+};
+
+const newId = () => Date.now().toString() + Math.floor(Math.random() * 100000).toString();
+
+// One entry per audited document in the batch; updates that change nothing are skipped
+export const buildAuditEntries = (operation: string, operations: WriteOperation[], actor: UserProfile): AuditEntry[] => {
+  const at = new Date().toISOString();
+  const entries: AuditEntry[] = [];
+  operations.forEach(op => {
+    if (!isAudited(op.collection)) return;
+    const before = cache.get(cacheKey(op.collection, op.id)) || null;
+    const data = op.type === 'delete' ? null : JSON.parse(JSON.stringify(op.data));
+    const after = op.type === 'update' ? { ...(before || {}), ...data } : data;
+
+    let action: AuditAction;
+    let changes: AuditFieldChange[];
+    if (op.type === 'delete') {
+      action = 'DELETE';
+      changes = before ? diffFields(before, {}) : [];
+    } else if (!before) {
+      action = 'CREATE';
+      changes = diffFields({}, after);
+    } else {
+      action = 'UPDATE';
+      changes = diffFields(before, after, op.type === 'update' ? Object.keys(data) : undefined);
+      if (changes.length === 0) return;
+    }
+
+    const doc = after || before || {};
+    entries.push({
+      id: newId() + entries.length,
+      at,
+      actorId: actor.id,
+      actorEmail: actor.email,
+      action,
+      collection: op.collection,
+      docId: op.id,
+      docLabel: describeDoc(op.collection, doc),
+      operation,
+      ...(op.collection === 'students' ? { studentId: op.id } : {}),
+      ...(op.collection === 'examResults' && doc.studentId ? { studentId: doc.studentId } : {}),
+      ...((op.collection === 'students' || op.collection === 'examResults') && doc.classroomId ? { classroomId: doc.classroomId } : {}),
+      ...(op.collection === 'examDefinitions' ? { examId: op.id } : {}),
+      ...(op.collection === 'examResults' && doc.examId ? { examId: doc.examId } : {}),
+      changes
+    });
+  });
+  return entries;
+};
+
+// --- VIEWING ---
+
+// Narrows the history view; applied in the query, see fetchAuditLog
+export interface AuditFilter {
+  studentId?: string;
+  examId?: string;
+  actorId?: string;
+}
+
+export interface AuditNameSource {
+  students: { id: string, name: string, surname: string }[];
+  classes: { id: string, name: string }[];
+  examDefinitions: { id: string, name: string }[];
+  terms: { id: string, name: string }[];
+}
+
+const STATUS_LABELS: Record<string, string> = { ATTENDED: 'Katıldı', MISSING: 'Girmedi' };
+
+export type AuditNameResolver = (field: string, value: string) => string | undefined;
+
+// Turns stored ids (class, student, exam, term) into names for display
+export const createAuditNameResolver = (source: AuditNameSource): AuditNameResolver => (field, value) => {
+  if (field === 'classroomId') return source.classes.find(c => c.id === value)?.name;
+  if (field === 'studentId') {
+    const student = source.students.find(s => s.id === value);
+    return student ? `${student.name} ${student.surname}` : undefined;
+  }
+  if (field === 'examId') return source.examDefinitions.find(d => d.id === value)?.name;
+  if (field === 'termId' || field === 'alumniTermId' || field === 'graduatedTermId') return source.terms.find(t => t.id === value)?.name;
+  if (field === 'status') return STATUS_LABELS[value];
+  if (field === 'absenceReason') return ABSENCE_REASON_LABELS[value as AbsenceReason];
+  return undefined;
+};
+
+// Values are shown as stored; ids are resolved to names where the caller knows them
+export const formatAuditValue = (field: string, value: any, resolveName?: AuditNameResolver): string => {
+  if (value === null || value === '') return '—';
+  if (Array.isArray(value)) return value.filter(Boolean).length > 0 ? value.map(v => v || '-').join(',') : '—';
+  if (field === 'goal' && typeof value === 'object') return `${value.targetNet} net · ${value.targetDate}`;
+  if (typeof value === 'object') return `${Object.keys(value).length} kayıt`; // e.g. a term's archived class lists
+  if (typeof value === 'string') return resolveName?.(field, value) || value;
+  return String(value);
+};
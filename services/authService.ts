@@ -0,0 +1,81 @@
+import { auth } from './firebase';
+import {
+  signInWithEmailAndPassword,
+  createUserWithEmailAndPassword,
+  sendEmailVerification,
+  signOut as firebaseSignOut,
+  onAuthStateChanged,
+  User
+} from 'firebase/auth';
+import { setSyncScope } from './syncQueue';
+import { UserProfile } from '../types';
+
+// Single-user profile used when data lives on this device (IndexedDB / memory backends)
+export const LOCAL_PROFILE: UserProfile = {
+  id: 'local',
+  email: '',
+  role: 'ADMIN',
+  workspaceId: 'local',
+  classroomIds: []
+};
+
+// Set by AuthGate once the signed-in user's profile is loaded
+let currentProfile: UserProfile | null = null;
+
+export const subscribeToAuth = (callback: (user: User | null) => void) => onAuthStateChanged(auth, callback);
+
+export const signIn = async (email: string, password: string) => {
+  await signInWithEmailAndPassword(auth, email, password);
+};
+
+// Invites are only handed to verified addresses (see firestore.rules), so every new account is sent a link
+export const signUp = async (email: string, password: string) => {
+  const { user } = await createUserWithEmailAndPassword(auth, email, password);
+  await sendEmailVerification(user);
+};
+
+export const resendEmailVerification = async () => {
+  if (auth.currentUser) await sendEmailVerification(auth.currentUser);
+};
+
+// Picks up a link opened elsewhere; the refreshed token carries email_verified for the rules
+export const refreshEmailVerification = async () => {
+  const user = auth.currentUser;
+  if (!user) return false;
+  await user.reload();
+  await user.getIdToken(true);
+  return user.emailVerified;
+};
+
+export const signOut = async () => {
+  await firebaseSignOut(auth);
+};
+
+export const getCurrentUser = () => auth.currentUser;
+
+export const setCurrentProfile = (profile: UserProfile | null) => {
+  currentProfile = profile;
+  setSyncScope(profile?.id ?? null, profile?.workspaceId ?? null);
+};
+
+export const getCurrentProfile = () => currentProfile;
+
+// Every read and write in dataService is scoped to the signed-in user's workspace
+export const requireOwnerId = (): string => {
+  if (!currentProfile) throw new Error("Oturum açılmamış.");
+  return currentProfile.workspaceId;
+};
+
+// Maps Firebase Auth error codes to messages shown on the login screen
+export const getAuthErrorMessage = (error: any): string => {
+  switch (error?.code) {
+    case 'auth/invalid-email': return "Geçersiz e-posta adresi.";
+    case 'auth/invalid-credential':
+    case 'auth/wrong-password':
+    case 'auth/user-not-found': return "E-posta veya şifre hatalı.";
+    case 'auth/email-already-in-use': return "Bu e-posta ile kayıtlı bir hesap zaten var.";
+    case 'auth/weak-password': return "Şifre en az 6 karakter olmalıdır.";
+    case 'auth/too-many-requests': return "Çok fazla deneme yapıldı. Lütfen daha sonra tekrar deneyin.";
+    default: return "Giriş sırasında bir hata oluştu.";
+  }
+};
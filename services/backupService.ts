@@ -0,0 +1,239 @@
+import { Classroom, ExamDefinition, ExamResult, Student, Term } from '../types';
+import { downloadBlob } from './download';
+
+// Bump when the file layout or document shape changes, and add a migration from the previous version.
+export const BACKUP_SCHEMA_VERSION = 2;
+const BACKUP_FORMAT = 'englishnet-backup';
+
+export interface BackupCollections {
+  students: Student[];
+  classrooms: Classroom[];
+  examResults: ExamResult[];
+  examDefinitions: ExamDefinition[];
+  terms: Term[];
+}
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  collections: BackupCollections;
+}
+
+export type BackupCollectionName = keyof BackupCollections;
+
+type BackupDoc = { id: string };
+
+export const BACKUP_COLLECTION_LABELS: Record<BackupCollectionName, string> = {
+  students: 'Öğrenciler',
+  classrooms: 'Sınıflar',
+  examResults: 'Sonuçlar',
+  examDefinitions: 'Denemeler',
+  terms: 'Dönemler'
+};
+
+const COLLECTION_NAMES = Object.keys(BACKUP_COLLECTION_LABELS) as BackupCollectionName[];
+
+// ownerId ties documents to a workspace; it is re-stamped on restore so backups can move between workspaces
+const stripOwner = <T extends { ownerId?: string }>(doc: T): T => {
+  const { ownerId, ...rest } = doc;
+  return rest as T;
+};
+
+export const createBackup = (collections: BackupCollections): BackupFile => ({
+  format: BACKUP_FORMAT,
+  schemaVersion: BACKUP_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  collections: {
+    students: collections.students.map(stripOwner),
+    classrooms: collections.classrooms.map(stripOwner),
+    examResults: collections.examResults.map(stripOwner),
+    examDefinitions: collections.examDefinitions.map(stripOwner),
+    terms: collections.terms.map(stripOwner)
+  }
+});
+
+export const downloadBackup = (backup: BackupFile) => {
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, `englishnet-yedek-${backup.exportedAt.slice(0, 10)}.json`);
+};
+
+// --- MIGRATIONS ---
+
+// Version 0: unversioned dumps of the app state (`{ students, classes, exams, examDefinitions }`, the shape
+// returned by fetchAllData). Results from before attendance tracking have no status.
+const migrateFromV0 = (raw: any): any => ({
+  format: BACKUP_FORMAT,
+  schemaVersion: 1,
+  exportedAt: raw.exportedAt || new Date(0).toISOString(),
+  collections: {
+    students: raw.students || [],
+    classrooms: raw.classes || raw.classrooms || [],
+    examResults: (raw.exams || raw.examResults || []).map((r: any) => ({ ...r, status: r.status || 'ATTENDED' })),
+    examDefinitions: raw.examDefinitions || []
+  }
+});
+
+// Version 1: no terms yet; definitions without a term are placed by date once terms exist
+const migrateFromV1 = (raw: any): any => ({
+  ...raw,
+  schemaVersion: 2,
+  collections: { ...raw.collections, terms: [] }
+});
+
+// MIGRATIONS[n] upgrades a version n file to version n + 1
+const MIGRATIONS: Record<number, (raw: any) => any> = {
+  0: migrateFromV0,
+  1: migrateFromV1
+};
+
+const getVersion = (raw: any): number => raw?.format === BACKUP_FORMAT ? Number(raw.schemaVersion) : 0;
+
+// --- VALIDATION ---
+
+const isString = (v: unknown) => typeof v === 'string';
+const isNumber = (v: unknown) => typeof v === 'number' && Number.isFinite(v);
+
+const REQUIRED_FIELDS: Record<BackupCollectionName, [string, (v: unknown) => boolean][]> = {
+  students: [['name', isString], ['surname', isString], ['classroomId', isString]],
+  classrooms: [['name', isString]],
+  examResults: [['studentId', isString], ['examName', isString], ['date', isString], ['correct', isNumber], ['incorrect', isNumber], ['empty', isNumber], ['net', isNumber]],
+  examDefinitions: [['name', isString], ['date', isString]],
+  terms: [['name', isString], ['startDate', isString]]
+};
+
+const MAX_REPORTED_ERRORS = 20;
+
+export interface ParsedBackup {
+  backup: BackupFile | null;
+  sourceVersion: number | null;
+  errors: string[];
+  warnings: string[];
+}
+
+// Parses, migrates and validates a backup file. `backup` is null when the file cannot be restored.
+export const parseBackup = (text: string): ParsedBackup => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    return { backup: null, sourceVersion: null, errors: ["Dosya geçerli bir JSON değil."], warnings: [] };
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { backup: null, sourceVersion: null, errors: ["Dosya bir EnglishNet yedeği değil."], warnings: [] };
+  }
+
+  const sourceVersion = getVersion(raw);
+  if (!Number.isInteger(sourceVersion) || sourceVersion < 0) {
+    return { backup: null, sourceVersion: null, errors: ["Yedek sürümü okunamadı."], warnings: [] };
+  }
+  if (sourceVersion > BACKUP_SCHEMA_VERSION) {
+    return { backup: null, sourceVersion, errors: [`Bu yedek daha yeni bir sürümle alınmış (v${sourceVersion}). Uygulamayı güncelleyin.`], warnings: [] };
+  }
+
+  let migrated = raw;
+  for (let v = sourceVersion; v < BACKUP_SCHEMA_VERSION; v++) migrated = MIGRATIONS[v](migrated);
+
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const addError = (msg: string) => { if (errors.length < MAX_REPORTED_ERRORS) errors.push(msg); };
+
+  const collections = migrated.collections || {};
+  COLLECTION_NAMES.forEach(name => {
+    const docs = collections[name];
+    if (!Array.isArray(docs)) {
+      addError(`${BACKUP_COLLECTION_LABELS[name]}: liste bulunamadı.`);
+      return;
+    }
+    const seen = new Set<string>();
+    docs.forEach((doc: any, i: number) => {
+      const where = `${BACKUP_COLLECTION_LABELS[name]} #${i + 1}`;
+      if (!doc || typeof doc !== 'object' || !isString(doc.id) || !doc.id) {
+        addError(`${where}: kimlik (id) eksik.`);
+        return;
+      }
+      if (seen.has(doc.id)) addError(`${where}: "${doc.id}" kimliği birden fazla kez geçiyor.`);
+      seen.add(doc.id);
+      REQUIRED_FIELDS[name].forEach(([field, check]) => {
+        if (!check(doc[field])) addError(`${where}: "${field}" alanı eksik veya hatalı.`);
+      });
+    });
+  });
+  if (errors.length > 0) return { backup: null, sourceVersion, errors, warnings };
+
+  const backup = migrated as BackupFile;
+  const classIds = new Set(backup.collections.classrooms.map(c => c.id));
+  const studentIds = new Set(backup.collections.students.map(s => s.id));
+  const orphanStudents = backup.collections.students.filter(s => !classIds.has(s.classroomId)).length;
+  const orphanResults = backup.collections.examResults.filter(r => !studentIds.has(r.studentId)).length;
+  if (orphanStudents > 0) warnings.push(`${orphanStudents} öğrencinin sınıfı yedekte yok.`);
+  if (orphanResults > 0) warnings.push(`${orphanResults} sonucun öğrencisi yedekte yok.`);
+
+  return { backup, sourceVersion, errors, warnings };
+};
+
+// --- DIFF & RESTORE ---
+
+export type RestoreMode = 'MERGE' | 'REPLACE';
+
+export interface CollectionDiff {
+  added: string[];
+  changed: string[];
+  removed: string[]; // Present now but missing from the backup (deleted only when replacing)
+  unchanged: number;
+}
+
+export type BackupDiff = Record<BackupCollectionName, CollectionDiff>;
+
+const sameDoc = (a: object, b: object) => {
+  const normalize = (doc: any) => JSON.stringify(Object.keys(doc).filter(k => k !== 'ownerId' && doc[k] !== undefined).sort().map(k => [k, doc[k]]));
+  return normalize(a) === normalize(b);
+};
+
+export const diffBackup = (current: BackupCollections, backup: BackupCollections): BackupDiff => {
+  const result = {} as BackupDiff;
+  COLLECTION_NAMES.forEach(name => {
+    const currentDocs = current[name] as BackupDoc[];
+    const backupDocs = backup[name] as BackupDoc[];
+    const currentById = new Map(currentDocs.map(d => [d.id, d]));
+    const backupIds = new Set(backupDocs.map(d => d.id));
+    const diff: CollectionDiff = { added: [], changed: [], removed: [], unchanged: 0 };
+    backupDocs.forEach(doc => {
+      const existing = currentById.get(doc.id);
+      if (!existing) diff.added.push(doc.id);
+      else if (sameDoc(existing, doc)) diff.unchanged++;
+      else diff.changed.push(doc.id);
+    });
+    currentDocs.forEach(doc => { if (!backupIds.has(doc.id)) diff.removed.push(doc.id); });
+    result[name] = diff;
+  });
+  return result;
+};
+
+export interface RestorePlan {
+  upserts: BackupCollections; // Documents to write
+  deletions: Record<BackupCollectionName, string[]>;
+  result: BackupCollections; // Data after the restore, for updating the screen
+}
+
+// Merge: backup documents win over current ones with the same id, nothing is deleted.
+// Replace: the data ends up exactly as in the backup.
+export const planRestore = (current: BackupCollections, backup: BackupCollections, mode: RestoreMode): RestorePlan => {
+  const diff = diffBackup(current, backup);
+  const upserts = {} as BackupCollections;
+  const deletions = {} as Record<BackupCollectionName, string[]>;
+  const result = {} as BackupCollections;
+
+  COLLECTION_NAMES.forEach(name => {
+    const toWrite = new Set([...diff[name].added, ...diff[name].changed]);
+    const backupDocs = backup[name] as BackupDoc[];
+    const backupIds = new Set(backupDocs.map(d => d.id));
+    (upserts[name] as BackupDoc[]) = backupDocs.filter(d => toWrite.has(d.id));
+    deletions[name] = mode === 'REPLACE' ? diff[name].removed : [];
+    (result[name] as BackupDoc[]) = mode === 'REPLACE'
+      ? backupDocs
+      : [...(current[name] as BackupDoc[]).filter(d => !backupIds.has(d.id)), ...backupDocs];
+  });
+
+  return { upserts, deletions, result };
+};
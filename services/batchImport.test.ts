@@ -0,0 +1,53 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { ImportContext, listPlanWrites, planResultImport } from './batchImport';
+import { Classroom, ExamDefinition, ExamResult, Student } from '../types';
+
+const classes: Classroom[] = [{ id: 'c1', name: '8A' }, { id: 'c2', name: '8B' }];
+const students: Student[] = [
+  { id: 's1', name: 'Ece', surname: 'Yılmaz', classroomId: 'c1' },
+  { id: 's2', name: 'Ada', surname: 'Kaya', classroomId: 'c1' },
+  { id: 's3', name: 'Can', surname: 'Demir', classroomId: 'c1' },
+  { id: 's4', name: 'Ali', surname: 'Şahin', classroomId: 'c2' }
+];
+const definition: ExamDefinition = { id: 'd1', name: 'Deneme 1', date: '2024-03-01' };
+const stored: ExamResult = {
+  id: 'r1', studentId: 's1', examId: 'd1', examName: 'Deneme 1', date: '2024-03-01',
+  correct: 7, incorrect: 2, empty: 1, net: 6.34, status: 'ATTENDED', classroomId: 'c1', ownerId: 'w1'
+};
+
+const context = (exams: ExamResult[]): ImportContext => ({
+  students, classes, exams, examDefinitions: [definition],
+  profile: { id: 'u1', email: 'ogretmen@okul.k12.tr', role: 'ADMIN', workspaceId: 'w1', classroomIds: [] }
+});
+
+describe('planResultImport', () => {
+  it('lists a row identical to the stored result as unchanged and does not write it', () => {
+    const plan = planResultImport('Deneme 1\tEce Yılmaz\t7\t2\nDeneme 1\tAda Kaya\t5\t5', context([stored]));
+
+    expect(plan.lines.map(l => [l.lineNumber, l.status])).toEqual([[1, 'UNCHANGED'], [2, 'NEW'], [null, 'MISSING']]);
+    expect(plan.updateResults).toEqual([]);
+    expect(listPlanWrites(plan).map(w => w.doc.id)).not.toContain('r1');
+  });
+
+  it('overwrites the stored result when the row differs', () => {
+    const plan = planResultImport('Deneme 1\tEce Yılmaz\t8\t2', context([stored]));
+
+    expect(plan.lines[0].status).toBe('UPDATE');
+    expect(plan.updateResults).toEqual([expect.objectContaining({ id: 'r1', correct: 8, incorrect: 2, empty: 0, net: 7.34 })]);
+  });
+
+  it('updates a stored result whose answers the row would drop', () => {
+    const plan = planResultImport('Deneme 1\tEce Yılmaz\t7\t2', context([{ ...stored, answers: 'AAAAAAABB-' }]));
+
+    expect(plan.lines[0].status).toBe('UPDATE');
+  });
+
+  it('marks classmates without a result as missing, but not other classes or students who already have one', () => {
+    const plan = planResultImport('Deneme 1\tAda Kaya\t5\t5', context([stored]));
+
+    const missing = plan.addResults.filter(r => r.status === 'MISSING');
+    expect(missing.map(r => r.studentId)).toEqual(['s3']);
+    expect(missing[0]).toMatchObject({ examId: 'd1', examName: 'Deneme 1', date: '2024-03-01', correct: 0, incorrect: 0, net: 0 });
+  });
+});
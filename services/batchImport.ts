@@ -0,0 +1,376 @@
+import { Classroom, ExamDefinition, ExamResult, Student, UserProfile } from '../types';
+import { calculateScores, getScoringPolicy, hasAnswerKey, isAnswerString, scoreAnswers, validateAnswerString, validateResultCounts } from './dataService';
+import { canEditClass, canEditStudent, canManageClasses } from './permissions';
+import { ImportedResult } from './resultImport';
+import { NameCandidate, NameMatch, NameResolution, matchStudentName } from './nameMatching';
+
+// Batch imports run in two phases: a plan is built from the pasted text without touching storage,
+// shown line by line to the teacher, and only written (see App's commitImportPlan) once confirmed.
+
+export type ImportLineStatus = 'NEW' | 'UPDATE' | 'UNCHANGED' | 'SKIPPED' | 'MISSING' | 'REVIEW';
+
+export const IMPORT_STATUS_LABELS: Record<ImportLineStatus, string> = {
+  NEW: 'Yeni',
+  UPDATE: 'Güncellenecek',
+  UNCHANGED: 'Değişiklik yok',
+  SKIPPED: 'Atlanacak',
+  MISSING: 'Girmedi olarak işaretlenecek',
+  REVIEW: 'Seçim gerekli'
+};
+
+export interface ImportLine {
+  lineNumber: number | null; // null for rows the import adds on its own (MISSING results)
+  text: string;
+  interpretation: string;
+  status: ImportLineStatus;
+  reason?: string;
+  // Set when the student name did not match exactly; the teacher picks one of these (or a new student)
+  candidates?: NameCandidate[];
+  allowCreate?: boolean;
+}
+
+// Teacher's choice per line number for names that needed review
+export type NameResolutions = Record<number, NameResolution>;
+
+export interface ImportPlan {
+  lines: ImportLine[];
+  newClasses: Classroom[];
+  addStudents: Student[];
+  updateStudents: Student[];
+  addResults: ExamResult[];
+  updateResults: ExamResult[];
+}
+
+// One document write of a plan. Plans are written in this order, so a partly written plan is a prefix of it.
+export interface PlanWrite {
+  collection: 'classrooms' | 'students' | 'examResults';
+  doc: Classroom | Student | ExamResult;
+  isNew: boolean;
+}
+
+export const listPlanWrites = (plan: ImportPlan): PlanWrite[] => [
+  ...plan.newClasses.map(doc => ({ collection: 'classrooms' as const, doc, isNew: true })),
+  ...plan.addStudents.map(doc => ({ collection: 'students' as const, doc, isNew: true })),
+  ...plan.updateStudents.map(doc => ({ collection: 'students' as const, doc, isNew: false })),
+  ...plan.addResults.map(doc => ({ collection: 'examResults' as const, doc, isNew: true })),
+  ...plan.updateResults.map(doc => ({ collection: 'examResults' as const, doc, isNew: false }))
+];
+
+export interface ImportContext {
+  students: Student[];
+  classes: Classroom[];
+  exams: ExamResult[];
+  examDefinitions: ExamDefinition[];
+  profile: UserProfile;
+}
+
+const norm = (str: string) => str.trim().toLocaleLowerCase('tr').replace(/\s+/g, ' ');
+
+const newId = () => Date.now().toString() + Math.floor(Math.random() * 100000).toString();
+
+const fullName = (s: Pick<Student, 'name' | 'surname'>) => `${s.name} ${s.surname}`.trim();
+
+// Fields describing a name lookup on a preview line, so the choice can be made or changed there
+const reviewFields = (match: NameMatch, resolution: NameResolution | undefined, allowCreate: boolean) =>
+  match.kind === 'REVIEW' || resolution ? { candidates: match.candidates, allowCreate } : {};
+
+const REVIEW_REASON = 'Tam eşleşme yok, benzer öğrenciler bulundu. Listeden seçin.';
+const SKIPPED_BY_TEACHER = 'Öğretmen tarafından atlandı.';
+
+const splitLines = (text: string) => text.split('\n')
+  .map((line, i) => ({ lineNumber: i + 1, text: line.trim() }))
+  .filter(l => l.text.length > 0);
+
+const emptyPlan = (): ImportPlan => ({ lines: [], newClasses: [], addStudents: [], updateStudents: [], addResults: [], updateResults: [] });
+
+export const countPlanLines = (plan: ImportPlan) => {
+  const counts: Record<ImportLineStatus, number> = { NEW: 0, UPDATE: 0, UNCHANGED: 0, SKIPPED: 0, MISSING: 0, REVIEW: 0 };
+  plan.lines.forEach(l => { counts[l.status]++; });
+  return counts;
+};
+
+export const hasUnresolvedLines = (plan: ImportPlan) => plan.lines.some(l => l.status === 'REVIEW');
+
+export const hasPlanChanges = (plan: ImportPlan) =>
+  plan.newClasses.length + plan.addStudents.length + plan.updateStudents.length + plan.addResults.length + plan.updateResults.length > 0;
+
+// Looks a class up by name, planning its creation when the user may create classes
+const classResolver = (ctx: ImportContext, plan: ImportPlan) => {
+  const known = [...ctx.classes];
+  return (className: string): { cls?: Classroom, isNew?: boolean, reason?: string } => {
+    const existing = known.find(c => norm(c.name) === norm(className));
+    if (existing) return { cls: existing, isNew: plan.newClasses.includes(existing) };
+    if (!canManageClasses(ctx.profile)) return { reason: `Sınıf bulunamadı: ${className}` };
+    const cls: Classroom = { id: newId(), name: className };
+    known.push(cls);
+    plan.newClasses.push(cls);
+    return { cls, isNew: true };
+  };
+};
+
+// Moves or keeps a student in `cls`, recording the change on the plan and in `students`
+const planClassAssignment = (ctx: ImportContext, plan: ImportPlan, students: Student[], index: number, cls: Classroom): { status: ImportLineStatus, reason?: string } => {
+  const student = students[index];
+  if (student.classroomId === cls.id) return { status: 'UNCHANGED', reason: 'Öğrenci zaten bu sınıfta.' };
+  if (!canEditStudent(ctx.profile, student)) return { status: 'SKIPPED', reason: 'Öğrencinin mevcut sınıfı için yetkiniz yok.' };
+  const updated = { ...student, classroomId: cls.id };
+  students[index] = updated;
+  const added = plan.addStudents.findIndex(s => s.id === updated.id);
+  if (added !== -1) plan.addStudents[added] = updated;
+  else plan.updateStudents = [...plan.updateStudents.filter(s => s.id !== updated.id), updated];
+  return { status: 'UPDATE' };
+};
+
+// --- STUDENTS: "Ad Soyad Sınıf" ---
+
+export const planStudentImport = (text: string, ctx: ImportContext, resolutions: NameResolutions = {}): ImportPlan => {
+  const plan = emptyPlan();
+  const resolveClass = classResolver(ctx, plan);
+  const students = [...ctx.students];
+
+  splitLines(text).forEach(({ lineNumber, text: line }) => {
+    let parts = line.split('\t').map(p => p.trim()).filter(p => p);
+    if (parts.length < 2) parts = line.split(/\s+/);
+    const className = parts.length >= 2 ? parts.pop()! : '';
+    const surname = parts.length > 1 ? parts.pop()! : '';
+    const name = parts.join(' ');
+    const add = (l: Omit<ImportLine, 'lineNumber' | 'text'>) => plan.lines.push({ lineNumber, text: line, ...l });
+
+    if (!name || !className) {
+      add({ interpretation: '-', status: 'SKIPPED', reason: 'Satır çözümlenemedi (beklenen: Ad Soyad Sınıf).' });
+      return;
+    }
+
+    const interpretation = `${fullName({ name, surname })} → ${className}`;
+    const { cls, isNew, reason } = resolveClass(className);
+    if (!cls) { add({ interpretation, status: 'SKIPPED', reason }); return; }
+    if (!canEditClass(ctx.profile, cls.id)) { add({ interpretation, status: 'SKIPPED', reason: 'Bu sınıf için yetkiniz yok.' }); return; }
+    const classNote = isNew ? ' (yeni sınıf)' : '';
+
+    const resolution = resolutions[lineNumber];
+    const match = matchStudentName(fullName({ name, surname }), students, ctx.classes, resolution);
+    const review = reviewFields(match, resolution, true);
+    if (match.kind === 'REVIEW') { add({ interpretation: interpretation + classNote, status: 'REVIEW', reason: REVIEW_REASON, ...review }); return; }
+    if (match.kind === 'SKIP') { add({ interpretation, status: 'SKIPPED', reason: SKIPPED_BY_TEACHER, ...review }); return; }
+    if (match.kind === 'MATCH') {
+      const result = planClassAssignment(ctx, plan, students, students.findIndex(st => st.id === match.student.id), cls);
+      add({ interpretation: `${fullName(match.student)} → ${cls.name}${classNote}`, ...result, ...review });
+      return;
+    }
+
+    const student: Student = { id: newId(), name, surname, classroomId: cls.id };
+    students.push(student);
+    plan.addStudents.push(student);
+    add({ interpretation: interpretation + classNote, status: 'NEW', ...review });
+  });
+
+  // Classes nobody ends up in are not created
+  plan.newClasses = plan.newClasses.filter(c => plan.addStudents.some(s => s.classroomId === c.id) || plan.updateStudents.some(s => s.classroomId === c.id));
+  return plan;
+};
+
+// --- CLASS CHANGE: "Ad Soyad YeniSınıf" ---
+
+export const planClassChange = (text: string, ctx: ImportContext, resolutions: NameResolutions = {}): ImportPlan => {
+  const plan = emptyPlan();
+  const resolveClass = classResolver(ctx, plan);
+  const students = [...ctx.students];
+
+  splitLines(text).forEach(({ lineNumber, text: line }) => {
+    let parts = line.split('\t').map(p => p.trim()).filter(p => p);
+    if (parts.length < 2) parts = line.split(/\s+/);
+    const add = (l: Omit<ImportLine, 'lineNumber' | 'text'>) => plan.lines.push({ lineNumber, text: line, ...l });
+
+    if (parts.length < 2) {
+      add({ interpretation: '-', status: 'SKIPPED', reason: 'Satır çözümlenemedi (beklenen: Ad Soyad YeniSınıf).' });
+      return;
+    }
+    const className = parts.pop()!;
+    const studentName = parts.join(' ');
+    const interpretation = `${studentName} → ${className}`;
+
+    const resolution = resolutions[lineNumber];
+    const match = matchStudentName(studentName, students, ctx.classes, resolution);
+    const review = reviewFields(match, resolution, false);
+    if (match.kind === 'REVIEW') { add({ interpretation, status: 'REVIEW', reason: REVIEW_REASON, ...review }); return; }
+    if (match.kind === 'SKIP') { add({ interpretation, status: 'SKIPPED', reason: SKIPPED_BY_TEACHER, ...review }); return; }
+    if (match.kind !== 'MATCH') { add({ interpretation, status: 'SKIPPED', reason: 'Öğrenci bulunamadı.' }); return; }
+    const studentIndex = students.findIndex(s => s.id === match.student.id);
+
+    const { cls, isNew, reason } = resolveClass(className);
+    if (!cls) { add({ interpretation, status: 'SKIPPED', reason, ...review }); return; }
+    if (!canEditClass(ctx.profile, cls.id)) { add({ interpretation, status: 'SKIPPED', reason: 'Bu sınıf için yetkiniz yok.', ...review }); return; }
+
+    const result = planClassAssignment(ctx, plan, students, studentIndex, cls);
+    add({ interpretation: `${fullName(students[studentIndex])} → ${cls.name}${isNew ? ' (yeni sınıf)' : ''}`, ...result, ...review });
+  });
+
+  plan.newClasses = plan.newClasses.filter(c => plan.updateStudents.some(s => s.classroomId === c.id));
+  return plan;
+};
+
+// --- RESULTS ---
+
+const describeScores = (r: Pick<ExamResult, 'correct' | 'incorrect' | 'empty' | 'net'>) => `D ${r.correct} · Y ${r.incorrect} · B ${r.empty} → ${r.net} net`;
+
+// Fields stamped on every write; they do not make an imported row differ from the stored result
+const STAMPED_RESULT_FIELDS = new Set(['ownerId', 'classroomId']);
+
+// True when writing `next` would store exactly what `stored` already holds (the write replaces the document)
+const isSameResult = (stored: ExamResult, next: ExamResult) => {
+  const fields = new Set([...Object.keys(stored), ...Object.keys(next)].filter(f => !STAMPED_RESULT_FIELDS.has(f)));
+  return Array.from(fields).every(f => (stored as any)[f] === (next as any)[f]);
+};
+
+// Turns validated results into writes: each one adds or overwrites the student's result for that
+// exam (rows identical to the stored result are listed as unchanged and not written), and classmates
+// of the imported students who have no result for the exam are marked MISSING.
+export const planResultEntries = (entries: (ImportedResult & Partial<Pick<ImportLine, 'text' | 'candidates' | 'allowCreate'>> & { lineNumber?: number })[], ctx: ImportContext, plan: ImportPlan = emptyPlan()): ImportPlan => {
+  const results = [...ctx.exams];
+  const involved = new Map<string, { examDef: ExamDefinition, studentIds: Set<string>, classIds: Set<string> }>();
+
+  entries.forEach(({ examDef, student, scores, lineNumber, text, candidates, allowCreate }) => {
+    if (!involved.has(examDef.id)) involved.set(examDef.id, { examDef, studentIds: new Set(), classIds: new Set() });
+    involved.get(examDef.id)!.studentIds.add(student.id);
+    involved.get(examDef.id)!.classIds.add(student.classroomId);
+
+    const existingIndex = results.findIndex(r => r.studentId === student.id && r.examId === examDef.id);
+    const result: ExamResult = {
+      id: existingIndex !== -1 ? results[existingIndex].id : newId(),
+      studentId: student.id, examId: examDef.id, examName: examDef.name, date: examDef.date,
+      ...scores, status: 'ATTENDED'
+    };
+    let status: ImportLineStatus = 'NEW';
+    if (existingIndex === -1) {
+      results.push(result);
+      plan.addResults.push(result);
+    } else if (isSameResult(results[existingIndex], result)) {
+      status = 'UNCHANGED';
+    } else {
+      results[existingIndex] = result;
+      plan.updateResults.push(result);
+      status = 'UPDATE';
+    }
+    plan.lines.push({
+      lineNumber: lineNumber ?? null,
+      text: text ?? '',
+      interpretation: `${examDef.name} · ${fullName(student)} · ${describeScores(result)}`,
+      status,
+      ...(status === 'UNCHANGED' ? { reason: 'Kayıtlı sonuçla aynı.' } : {}),
+      candidates,
+      allowCreate
+    });
+  });
+
+  involved.forEach(({ examDef, studentIds, classIds }) => {
+    ctx.students
+      .filter(s => classIds.has(s.classroomId) && !studentIds.has(s.id))
+      .filter(s => !results.some(r => r.studentId === s.id && r.examId === examDef.id))
+      .forEach(s => {
+        const missing: ExamResult = {
+          id: newId(), studentId: s.id, examId: examDef.id, examName: examDef.name, date: examDef.date,
+          correct: 0, incorrect: 0, empty: 0, net: 0, status: 'MISSING'
+        };
+        results.push(missing);
+        plan.addResults.push(missing);
+        plan.lines.push({ lineNumber: null, text: '', interpretation: `${examDef.name} · ${fullName(s)}`, status: 'MISSING' });
+      });
+  });
+
+  return plan;
+};
+
+// "SınavAdı ÖğrenciAdıSoyadı Doğru Yanlış" or "SınavAdı ÖğrenciAdıSoyadı Cevaplar"
+export const planResultImport = (text: string, ctx: ImportContext, resolutions: NameResolutions = {}): ImportPlan => {
+  const plan = emptyPlan();
+  const entries: Parameters<typeof planResultEntries>[0] = [];
+  const seen = new Set<string>();
+  const examsByNameLength = [...ctx.examDefinitions].sort((a, b) => b.name.length - a.name.length);
+  // A trailing token only counts as answers when it is exactly as long as one of the answer keys
+  const answerLengths = ctx.examDefinitions.filter(hasAnswerKey).map(d => getScoringPolicy(d).questionCount);
+
+  splitLines(text).forEach(({ lineNumber, text: line }) => {
+    const skip = (interpretation: string, reason: string) => plan.lines.push({ lineNumber, text: line, interpretation, status: 'SKIPPED', reason });
+
+    let parts = line.split('\t').map(p => p.trim()).filter(p => p !== "");
+    // Last column is either an answer string ("ABCD-A...") or the incorrect count
+    const lastToken = parts.length >= 2 ? parts[parts.length - 1].replace(/\s/g, '-') : (line.split(/\s+/).pop() || '');
+    const answerMode = isAnswerString(lastToken, answerLengths);
+    if (answerMode && parts.length >= 2) {
+      parts[parts.length - 1] = lastToken;
+    } else if (parts.length < 3) {
+      const spaceParts = line.split(/\s+/);
+      if (answerMode && spaceParts.length >= 3) {
+        const ansStr = spaceParts.pop()!;
+        parts = [spaceParts.join(' '), ansStr];
+      } else if (spaceParts.length >= 4) {
+        const incStr = spaceParts.pop()!; const corrStr = spaceParts.pop()!;
+        parts = [spaceParts.join(' '), corrStr, incStr];
+      }
+    }
+
+    if (parts.length < (answerMode ? 2 : 3)) {
+      skip('-', 'Satır çözümlenemedi (beklenen: SınavAdı ÖğrenciAdıSoyadı Doğru Yanlış).');
+      return;
+    }
+
+    let correct = 0; let incorrect = 0; let answersStr: string | null = null;
+    if (answerMode) {
+      answersStr = parts.pop()!;
+    } else {
+      const incorrectStr = parts.pop()!;
+      const correctStr = parts.pop()!;
+      correct = parseInt(correctStr);
+      incorrect = parseInt(incorrectStr);
+    }
+    if (isNaN(correct) || isNaN(incorrect)) {
+      skip('-', 'Doğru / yanlış sayısı okunamadı.');
+      return;
+    }
+
+    let examNameStr = ""; let studentNameStr = "";
+    if (parts.length >= 2) {
+      studentNameStr = parts.pop()!; examNameStr = parts.join(' ');
+    } else {
+      const mixedStr = parts[0];
+      const matchedExam = examsByNameLength.find(e => norm(mixedStr).startsWith(norm(e.name)));
+      if (!matchedExam) {
+        skip(mixedStr, 'Satırda tanımlı bir deneme adı bulunamadı.');
+        return;
+      }
+      examNameStr = matchedExam.name;
+      studentNameStr = mixedStr.substring(examNameStr.length).trim();
+    }
+
+    const scoreText = answersStr !== null ? answersStr : `D ${correct} · Y ${incorrect}`;
+    const interpretation = `${examNameStr} · ${studentNameStr} · ${scoreText}`;
+
+    const examDef = ctx.examDefinitions.find(e => norm(e.name) === norm(examNameStr));
+    if (!examDef) { skip(interpretation, `Tanımsız deneme: ${examNameStr}`); return; }
+
+    const answerCount = getScoringPolicy(examDef).questionCount;
+    const scoreError = answersStr === null ? validateResultCounts(correct, incorrect, examDef)
+      : validateAnswerString(answersStr, examDef) || (answersStr.length !== answerCount ? `Cevap dizisi ${answerCount} karakter olmalıdır (şu an ${answersStr.length}).` : null);
+    if (scoreError) { skip(interpretation, scoreError); return; }
+
+    const resolution = resolutions[lineNumber];
+    const match = matchStudentName(studentNameStr, ctx.students, ctx.classes, resolution);
+    const review = reviewFields(match, resolution, false);
+    if (match.kind === 'REVIEW') { plan.lines.push({ lineNumber, text: line, interpretation, status: 'REVIEW', reason: REVIEW_REASON, ...review }); return; }
+    if (match.kind === 'SKIP') { plan.lines.push({ lineNumber, text: line, interpretation, status: 'SKIPPED', reason: SKIPPED_BY_TEACHER, ...review }); return; }
+    if (match.kind !== 'MATCH') { skip(interpretation, `Öğrenci bulunamadı: ${studentNameStr}`); return; }
+    const student = match.student;
+    if (!canEditStudent(ctx.profile, student)) { skip(interpretation, 'Bu öğrencinin sınıfı için yetkiniz yok.'); return; }
+
+    const key = `${examDef.id}:${student.id}`;
+    if (seen.has(key)) { skip(interpretation, 'Bu öğrenci için bu denemenin sonucu daha önceki bir satırda var.'); return; }
+    seen.add(key);
+
+    const scores = answersStr !== null ? scoreAnswers(answersStr, examDef) : { correct, incorrect, ...calculateScores(correct, incorrect, examDef) };
+    entries.push({ examDef, student, scores, lineNumber, text: line, ...review });
+  });
+
+  planResultEntries(entries, ctx, plan);
+  plan.lines.sort((a, b) => (a.lineNumber ?? Infinity) - (b.lineNumber ?? Infinity));
+  return plan;
+};
@@ -0,0 +1,56 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { belongsTo, calculateNet, calculateScores, scoreAnswers } from './dataService';
+import { ExamDefinition, ExamResult } from '../types';
+
+describe('calculateNet', () => {
+  it('falls back to the legacy 0.33 penalty with two decimals', () => {
+    expect(calculateNet(7, 2)).toBe(6.34);
+    expect(calculateNet(0, 3)).toBe(-0.99);
+  });
+
+  it('rounds, truncates or keeps one decimal per policy', () => {
+    expect(calculateNet(6, 1, { penaltyRatio: 0.333, rounding: 'ROUND_2' })).toBe(5.67);
+    expect(calculateNet(6, 1, { penaltyRatio: 0.333, rounding: 'FLOOR_2' })).toBe(5.66);
+    expect(calculateNet(6, 1, { penaltyRatio: 0.333, rounding: 'ROUND_1' })).toBe(5.7);
+  });
+
+  it('does not lose a hundredth to floating point when truncating', () => {
+    expect(calculateNet(5, 1, { penaltyRatio: 0.33, rounding: 'FLOOR_2' })).toBe(4.67);
+  });
+
+  it('counts the questions left over as empty', () => {
+    expect(calculateScores(12, 4, { questionCount: 20, penaltyRatio: 0.25 })).toEqual({ empty: 4, net: 11 });
+  });
+});
+
+describe('scoreAnswers', () => {
+  const definition: ExamDefinition = { id: 'd1', name: 'Deneme 1', date: '2024-03-01', questionCount: 5, answerKey: 'ABCDE' };
+
+  it('compares the answers with the key', () => {
+    expect(scoreAnswers('ABCEA', definition)).toEqual({ answers: 'ABCEA', correct: 3, incorrect: 2, empty: 0, net: 2.34 });
+  });
+
+  it('reads lowercase choices, treats other marks as empty and pads short answer strings', () => {
+    expect(scoreAnswers('a*cdd', definition)).toEqual({ answers: 'A-CDD', correct: 3, incorrect: 1, empty: 1, net: 2.67 });
+    expect(scoreAnswers('ab', definition)).toEqual({ answers: 'AB---', correct: 2, incorrect: 0, empty: 3, net: 2 });
+  });
+});
+
+describe('belongsTo', () => {
+  const definition: ExamDefinition = { id: 'd1', name: 'Deneme 1', date: '2024-03-01' };
+  const result = (fields: Partial<ExamResult>): ExamResult => ({
+    id: 'r1', studentId: 's1', examName: 'Deneme 1', date: '2024-03-01', correct: 5, incorrect: 0, empty: 5, net: 5, ...fields
+  });
+
+  it('follows the examId of a linked result, whatever its name', () => {
+    expect(belongsTo(result({ examId: 'd1', examName: 'Eski ad' }), definition)).toBe(true);
+    expect(belongsTo(result({ examId: 'd2' }), definition)).toBe(false);
+  });
+
+  it('matches a legacy result by name on the definition\'s day only', () => {
+    expect(belongsTo(result({ date: '2024-03-01T09:30:00.000Z' }), definition)).toBe(true);
+    expect(belongsTo(result({ date: '2025-03-01' }), definition)).toBe(false);
+    expect(belongsTo(result({ examName: 'Deneme 2' }), definition)).toBe(false);
+  });
+});
@@ -1,118 +1,631 @@
 
-import { db } from './firebase';
-import { collection, getDocs, doc, setDoc, deleteDoc, updateDoc, writeBatch } from 'firebase/firestore';
-import { Classroom, ExamResult, Student, ExamDefinition } from '../types';
+import { requireOwnerId, getCurrentProfile } from './authService';
+import { StorageAdapter, StorageBackend, CollectionName, WriteOperation, MAX_BATCH_OPERATIONS, resolveStorageBackend } from './storageAdapter';
+import { submitWrite, setSyncCommitter, flushPendingWrites } from './syncQueue';
+import { createFirestoreStorage } from './firestoreStorage';
+import { createIndexedDbStorage } from './indexedDbStorage';
+import { createMemoryStorage } from './memoryStorage';
+import { BackupCollectionName, RestorePlan } from './backupService';
+import { RollbackPlan } from './importHistory';
+import { TermTransitionPlan } from './terms';
+import { PlanWrite } from './batchImport';
+import { IntegrityRepair } from './integrity';
+import { StudentMergePlan } from './studentMerge';
+import { AuditFilter, buildAuditEntries, applyToAuditCache, seedAuditCache, isAudited } from './auditLog';
+import { Classroom, ExamResult, Student, ExamDefinition, ImportSession, ShareLink, Term, AuditEntry, TrashItem, ScoringPolicy, NetRounding } from '../types';
 
 // Collection References
-const STUDENTS_COL = 'students';
-const CLASSES_COL = 'classrooms';
-const EXAMS_COL = 'examResults';
-const DEFINITIONS_COL = 'examDefinitions';
+const STUDENTS_COL: CollectionName = 'students';
+const CLASSES_COL: CollectionName = 'classrooms';
+const EXAMS_COL: CollectionName = 'examResults';
+const DEFINITIONS_COL: CollectionName = 'examDefinitions';
+const IMPORT_SESSIONS_COL: CollectionName = 'importSessions';
+const SHARE_LINKS_COL: CollectionName = 'shareLinks';
+const TERMS_COL: CollectionName = 'terms';
+const AUDIT_LOG_COL: CollectionName = 'auditLog';
+const TRASH_COL: CollectionName = 'trash';
+
+// --- STORAGE BACKEND ---
+
+const createStorage = (backend: StorageBackend): StorageAdapter => {
+  if (backend === 'indexeddb') return createIndexedDbStorage();
+  if (backend === 'memory') return createMemoryStorage();
+  return createFirestoreStorage();
+};
+
+// Chosen once at startup (see resolveStorageBackend)
+let storage: StorageAdapter = createStorage(resolveStorageBackend());
+
+// Writes go through the sync queue so they survive connectivity drops
+setSyncCommitter(operations => storage.commit(operations));
+
+const setOp = (collection: CollectionName, id: string, data: Record<string, any>): WriteOperation => ({ type: 'set', collection, id, data });
+const updateOp = (collection: CollectionName, id: string, data: Record<string, any>): WriteOperation => ({ type: 'update', collection, id, data });
+const deleteOp = (collection: CollectionName, id: string): WriteOperation => ({ type: 'delete', collection, id });
+
+export const getStorageBackend = (): StorageBackend => storage.backend;
+
+export const isLocalStorageBackend = () => storage.backend !== 'firestore';
+
+// Swaps the backend, e.g. to run the app against a seeded in-memory store
+export const setStorageAdapter = (adapter: StorageAdapter) => {
+  storage = adapter;
+};
+
+// --- OWNERSHIP ---
+
+// Every document carries the workspace id of the teacher who owns it (see firestore.rules)
+const withOwner = (data: object): Record<string, any> => ({ ...data, ownerId: requireOwnerId() });
+
+// --- RESULT CLASSES ---
+
+// Results carry their student's class so the rules can keep teachers to their own classes (see firestore.rules).
+// The class comes from the last known students here, so callers never have to fill it in.
+const studentClasses = new Map<string, string>();
+const resultStudents = new Map<string, string>();
+
+const seedResultClasses = (students: Student[], exams: ExamResult[]) => {
+  studentClasses.clear();
+  resultStudents.clear();
+  students.forEach(s => studentClasses.set(s.id, s.classroomId));
+  exams.forEach(r => resultStudents.set(r.id, r.studentId));
+};
+
+// A student written in the same batch (e.g. a new student with their imported results) comes first
+const stampResultClasses = (operations: WriteOperation[]): WriteOperation[] => {
+  const batchClasses = new Map<string, string>();
+  operations.forEach(op => {
+    if (op.collection === STUDENTS_COL && op.type !== 'delete' && op.data.classroomId) batchClasses.set(op.id, op.data.classroomId);
+  });
+  return operations.map(op => {
+    if (op.collection !== EXAMS_COL || op.type !== 'set') return op;
+    const classroomId = batchClasses.get(op.data.studentId) || studentClasses.get(op.data.studentId);
+    return classroomId ? { ...op, data: { ...op.data, classroomId } } : op;
+  });
+};
+
+const trackResultClasses = (operations: WriteOperation[]) => {
+  operations.forEach(op => {
+    if (op.collection === STUDENTS_COL) {
+      if (op.type === 'delete') studentClasses.delete(op.id);
+      else if (op.data.classroomId) studentClasses.set(op.id, op.data.classroomId);
+    } else if (op.collection === EXAMS_COL) {
+      if (op.type === 'delete') resultStudents.delete(op.id);
+      else if (op.type === 'set') resultStudents.set(op.id, op.data.studentId);
+    }
+  });
+};
+
+// --- AUDIT ---
+
+// All writes below go through here: changes to the data collections get their audit entries in the same batch
+const write = async (label: string, operations: WriteOperation[]) => {
+  const profile = getCurrentProfile();
+  const stamped = stampResultClasses(operations);
+  const entries = profile ? buildAuditEntries(label, stamped, profile) : [];
+  await submitWrite(label, [...stamped, ...entries.map(e => setOp(AUDIT_LOG_COL, e.id, withOwner(e)))]);
+  applyToAuditCache(stamped);
+  trackResultClasses(stamped);
+};
+
+// --- CHUNKED WRITES ---
+
+export interface WriteProgress {
+  written: number; // Groups written so far
+  total: number;
+  chunk: number; // Chunks committed so far
+  chunkCount: number;
+}
+
+export interface ChunkedWriteOptions {
+  onProgress?: (progress: WriteProgress) => void;
+  signal?: AbortSignal; // Checked between chunks; a chunk already sent is always finished
+}
+
+export interface ChunkedWriteResult {
+  written: number;
+  cancelled: boolean;
+}
+
+// Thrown when a chunk is rejected: every chunk before it is written, nothing after it was attempted
+export type ChunkedWriteError = Error & { chunk: number, chunkCount: number, written: number };
+
+export const isChunkedWriteError = (error: unknown): error is ChunkedWriteError =>
+  error instanceof Error && typeof (error as Partial<ChunkedWriteError>).chunk === 'number';
+
+// Appended to error alerts, so the user knows how far a large write got
+export const describeWriteFailure = (error: unknown) => isChunkedWriteError(error)
+  ? `\n\n${error.chunkCount} paketten ${error.chunk}. paket yazılamadı; öncesindeki ${error.written} kayıt kaydedildi.`
+  : '';
+
+// Audited operations bring their audit entry into the same batch
+const operationCost = (op: WriteOperation) => isAudited(op.collection) ? 2 : 1;
+
+interface WriteChunk {
+  operations: WriteOperation[];
+  completes: number; // Groups whose last operation is in this chunk
+}
+
+// Packs groups into chunks that fit one batch. A group (e.g. a student with their results) is kept in one
+// chunk so it is written all or nothing. A group too large for a single batch is split across chunks and is
+// then NOT atomic: a failure can leave its first part written, and `written` does not count it.
+const planChunks = (groups: WriteOperation[][]): WriteChunk[] => {
+  const chunks: WriteChunk[] = [];
+  let current: WriteChunk = { operations: [], completes: 0 };
+  let cost = 0;
+  const startChunk = () => {
+    chunks.push(current);
+    current = { operations: [], completes: 0 };
+    cost = 0;
+  };
+  groups.forEach(group => {
+    const groupCost = group.reduce((sum, op) => sum + operationCost(op), 0);
+    if (cost + groupCost > MAX_BATCH_OPERATIONS && current.operations.length > 0) startChunk();
+    group.forEach(op => {
+      if (cost + operationCost(op) > MAX_BATCH_OPERATIONS) startChunk();
+      current.operations.push(op);
+      cost += operationCost(op);
+    });
+    current.completes++;
+  });
+  if (current.operations.length > 0 || current.completes > 0) chunks.push(current);
+  return chunks;
+};
+
+// Writes large changes chunk by chunk, each chunk in its own batch with its audit entries
+const writeChunked = async (label: string, groups: WriteOperation[][], options: ChunkedWriteOptions = {}): Promise<ChunkedWriteResult> => {
+  const chunks = planChunks(groups);
+  let written = 0;
+  const report = (chunk: number) => options.onProgress?.({ written, total: groups.length, chunk, chunkCount: chunks.length });
+  report(0);
+  for (let i = 0; i < chunks.length; i++) {
+    if (options.signal?.aborted) return { written, cancelled: true };
+    try {
+      await write(chunks.length > 1 ? `${label} (${i + 1}/${chunks.length})` : label, chunks[i].operations);
+    } catch (error: any) {
+      console.error(`Chunk ${i + 1}/${chunks.length} of "${label}" failed:`, error);
+      throw Object.assign(new Error(error?.message || String(error)), { chunk: i + 1, chunkCount: chunks.length, written });
+    }
+    written += chunks[i].completes;
+    report(i + 1);
+  }
+  return { written, cancelled: false };
+};
+
+// Scoped like the rules: the head teacher reads every entry, others only entries of their classes; null when
+// the user has no class at all
+const auditScope = (): Record<string, string[]> | null => {
+  const profile = getCurrentProfile();
+  if (!profile || profile.role === 'ADMIN') return {};
+  return profile.classroomIds.length > 0 ? { classroomId: profile.classroomIds } : null;
+};
+
+// One page of the history view, newest first; pass the last entry of the previous page to continue below it
+export const fetchAuditLog = async (filter: AuditFilter, limit: number, after?: AuditEntry): Promise<AuditEntry[]> => {
+  const scope = auditScope();
+  if (!scope) return [];
+  const where: Record<string, string[]> = { ...scope };
+  (['studentId', 'examId', 'actorId'] as const).forEach(field => { if (filter[field]) where[field] = [filter[field]!]; });
+  const startAfter = after ? { value: after.at, id: after.id } : undefined;
+  return await storage.query(AUDIT_LOG_COL, requireOwnerId(), { where, orderByDesc: 'at', limit, startAfter }) as AuditEntry[];
+};
+
+// The latest edits of one student and their results, for the timeline on the student page
+export const fetchStudentAuditLog = async (studentId: string, limit: number): Promise<AuditEntry[]> => {
+  const scope = auditScope();
+  if (!scope) return [];
+  return await storage.query(AUDIT_LOG_COL, requireOwnerId(), { where: { ...scope, studentId: [studentId] }, orderByDesc: 'at', limit }) as AuditEntry[];
+};
 
 // --- DATA FETCHING ---
 
 export const fetchAllData = async () => {
   try {
-    const [studentsSnap, classesSnap, examsSnap, defsSnap] = await Promise.all([
-      getDocs(collection(db, STUDENTS_COL)),
-      getDocs(collection(db, CLASSES_COL)),
-      getDocs(collection(db, EXAMS_COL)),
-      getDocs(collection(db, DEFINITIONS_COL))
+    const ownerId = requireOwnerId();
+    const [students, classes, exams, examDefinitions, terms] = await Promise.all([
+      storage.fetchAll(STUDENTS_COL, ownerId) as Promise<Student[]>,
+      storage.fetchAll(CLASSES_COL, ownerId) as Promise<Classroom[]>,
+      storage.fetchAll(EXAMS_COL, ownerId) as Promise<ExamResult[]>,
+      storage.fetchAll(DEFINITIONS_COL, ownerId) as Promise<ExamDefinition[]>,
+      storage.fetchAll(TERMS_COL, ownerId) as Promise<Term[]>
     ]);
 
-    const students = studentsSnap.docs.map(d => ({ ...d.data(), id: d.id })) as Student[];
-    const classes = classesSnap.docs.map(d => ({ ...d.data(), id: d.id })) as Classroom[];
-    const exams = examsSnap.docs.map(d => ({ ...d.data(), id: d.id })) as ExamResult[];
-    const examDefinitions = defsSnap.docs.map(d => ({ ...d.data(), id: d.id })) as ExamDefinition[];
+    seedAuditCache('students', students);
+    seedAuditCache('classrooms', classes);
+    seedAuditCache('examResults', exams);
+    seedAuditCache('examDefinitions', examDefinitions);
+    seedAuditCache('terms', terms);
+    seedResultClasses(students, exams);
 
-    return { students, classes, exams, examDefinitions };
+    // Replay anything left over from an earlier offline session
+    flushPendingWrites();
+    return { students, classes, exams, examDefinitions, terms };
   } catch (error) {
-    console.error("Error fetching data from Firebase:", error);
+    console.error(`Error fetching data from ${storage.backend}:`, error);
     // Return empty arrays on error so app doesn't crash
-    return { students: [], classes: [], exams: [], examDefinitions: [] };
+    return { students: [], classes: [], exams: [], examDefinitions: [], terms: [] };
   }
 };
 
 // --- STUDENTS ---
 
-export const apiAddStudent = async (student: Student) => {
-  const payload: Record<string, any> = {
-    id: student.id,
-    name: student.name,
-    surname: student.surname,
-    classroomId: student.classroomId
-  };
-  await setDoc(doc(db, STUDENTS_COL, student.id), payload);
-};
+const addStudentOp = (student: Student) => setOp(STUDENTS_COL, student.id, withOwner({
+  id: student.id,
+  name: student.name,
+  surname: student.surname,
+  classroomId: student.classroomId,
+  goal: student.goal || null
+}));
 
-export const apiUpdateStudent = async (student: Student) => {
-  const payload: Record<string, any> = {
-    name: student.name,
-    surname: student.surname,
-    classroomId: student.classroomId
-  };
-  await updateDoc(doc(db, STUDENTS_COL, student.id), payload);
+const updateStudentOp = (student: Student) => updateOp(STUDENTS_COL, student.id, withOwner({
+  name: student.name,
+  surname: student.surname,
+  classroomId: student.classroomId,
+  goal: student.goal || null
+}));
+
+// A student moving to another class takes the class of their results along, in the same group
+const updateStudentOps = (student: Student): WriteOperation[] => {
+  if (!studentClasses.has(student.id) || studentClasses.get(student.id) === student.classroomId) return [updateStudentOp(student)];
+  const resultIds: string[] = [];
+  resultStudents.forEach((studentId, resultId) => {
+    if (studentId === student.id) resultIds.push(resultId);
+  });
+  return [updateStudentOp(student), ...resultIds.map(id => updateOp(EXAMS_COL, id, withOwner({ classroomId: student.classroomId })))];
 };
 
-export const apiDeleteStudent = async (id: string) => {
-  await deleteDoc(doc(db, STUDENTS_COL, id));
+export const apiAddStudent = async (student: Student) => {
+  await write(`Öğrenci ekle: ${student.name} ${student.surname}`, [addStudentOp(student)]);
 };
 
-export const apiDeleteMultipleStudents = async (ids: string[]) => {
-  const batch = writeBatch(db);
-  ids.forEach(id => {
-    batch.delete(doc(db, STUDENTS_COL, id));
-  });
-  await batch.commit();
+export const apiUpdateStudent = async (student: Student) => {
+  await write(`Öğrenci güncelle: ${student.name} ${student.surname}`, updateStudentOps(student));
 };
 
 // --- CLASSES ---
 
 export const apiAddClass = async (classroom: Classroom) => {
-  await setDoc(doc(db, CLASSES_COL, classroom.id), { ...classroom });
+  await write(`Sınıf ekle: ${classroom.name}`, [setOp(CLASSES_COL, classroom.id, withOwner(classroom))]);
 };
 
 export const apiUpdateClass = async (classroom: Classroom) => {
-  await updateDoc(doc(db, CLASSES_COL, classroom.id), { ...classroom });
-};
-
-export const apiDeleteClass = async (id: string) => {
-  await deleteDoc(doc(db, CLASSES_COL, id));
+  await write(`Sınıf güncelle: ${classroom.name}`, [updateOp(CLASSES_COL, classroom.id, withOwner(classroom))]);
 };
 
 // --- EXAM RESULTS ---
 
+// Results are always overwritten so that optional fields cleared in the editor (e.g. answers) don't linger
+const resultOp = (result: ExamResult) => setOp(EXAMS_COL, result.id, withOwner(JSON.parse(JSON.stringify(result))));
+
 export const apiAddExamResult = async (result: ExamResult) => {
-  const payload = JSON.parse(JSON.stringify(result));
-  await setDoc(doc(db, EXAMS_COL, result.id), payload);
+  await write(`Sonuç ekle: ${result.examName}`, [resultOp(result)]);
 };
 
 export const apiUpdateExamResult = async (result: ExamResult) => {
-  const payload = JSON.parse(JSON.stringify(result));
-  await updateDoc(doc(db, EXAMS_COL, result.id), payload);
+  await write(`Sonuç güncelle: ${result.examName}`, [resultOp(result)]);
 };
 
 export const apiDeleteExamResult = async (id: string) => {
-  await deleteDoc(doc(db, EXAMS_COL, id));
+  requireOwnerId();
+  await write('Sonuç sil', [deleteOp(EXAMS_COL, id)]);
+};
+
+export const apiUpdateMultipleExamResults = (results: ExamResult[], options?: ChunkedWriteOptions) =>
+  writeChunked(`${results.length} sonuç güncelle`, results.map(result => [resultOp(result)]), options);
+
+// Results written before classes were stamped, or left behind by an older client; filled in by the head teacher on load
+export const apiStampResultClasses = async (students: Student[], exams: ExamResult[]) => {
+  const classOf = new Map(students.map(s => [s.id, s.classroomId]));
+  const stale = exams.filter(r => classOf.has(r.studentId) && r.classroomId !== classOf.get(r.studentId));
+  if (stale.length === 0) return;
+  await writeChunked(`Sonuçlara sınıf bilgisi ekle (${stale.length})`, stale.map(r => [updateOp(EXAMS_COL, r.id, withOwner({ classroomId: classOf.get(r.studentId) }))]));
 };
 
 // --- EXAM DEFINITIONS ---
 
 export const apiAddExamDefinition = async (def: ExamDefinition) => {
-  await setDoc(doc(db, DEFINITIONS_COL, def.id), { ...def });
+  await write(`Deneme ekle: ${def.name}`, [setOp(DEFINITIONS_COL, def.id, withOwner(def))]);
 };
 
 export const apiUpdateExamDefinition = async (def: ExamDefinition) => {
-  await updateDoc(doc(db, DEFINITIONS_COL, def.id), { ...def });
+  await write(`Deneme güncelle: ${def.name}`, [updateOp(DEFINITIONS_COL, def.id, withOwner(def))]);
+};
+
+// --- TRASH ---
+
+export const fetchTrash = async (): Promise<TrashItem[]> => {
+  const items = await storage.fetchAll(TRASH_COL, requireOwnerId()) as TrashItem[];
+  return items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
 };
 
-export const apiDeleteExamDefinition = async (id: string) => {
-  await deleteDoc(doc(db, DEFINITIONS_COL, id));
+// Parent links of a student who is trashed or merged away are revoked with the removal; a restore leaves them revoked
+const revokeLinkOps = (shareLinks: ShareLink[], studentIds: Set<string>) =>
+  shareLinks.filter(l => !l.revoked && studentIds.has(l.studentId)).map(l => updateOp(SHARE_LINKS_COL, l.id, withOwner({ revoked: true })));
+
+// Soft delete: each trash item is written in the same batch as the removal of its documents. An exam with a few
+// hundred results needs more than one batch; the trash item goes first, so a failure never loses a document.
+const trashItemOps = (item: TrashItem) => [setOp(TRASH_COL, item.id, withOwner(item)), ...item.docs.map(d => deleteOp(d.collection, d.data.id))];
+
+export const apiMoveToTrash = (items: TrashItem[], shareLinks: ShareLink[], options?: ChunkedWriteOptions) => writeChunked(
+  items.length === 1 ? `Çöp kutusuna taşı: ${items[0].label}` : `${items.length} kaydı çöp kutusuna taşı`,
+  items.map(item => [
+    ...trashItemOps(item),
+    ...revokeLinkOps(shareLinks, new Set(item.docs.filter(d => d.collection === 'students').map(d => d.data.id)))
+  ]),
+  options
+);
+
+// For items too large for the trash (see isTrashItemTooLarge): results first, the definition with the last chunk
+export const apiDeleteExamDefinitionPermanently = (def: ExamDefinition, resultIds: string[], options?: ChunkedWriteOptions) => writeChunked(
+  `Denemeyi kalıcı sil: ${def.name}`,
+  [...resultIds.map(id => [deleteOp(EXAMS_COL, id)]), [deleteOp(DEFINITIONS_COL, def.id)]],
+  options
+);
+
+// One batch for most items; a larger one removes the trash item last, so a failed restore can be run again
+export const apiRestoreFromTrash = async (item: TrashItem) => {
+  await writeChunked(`Çöp kutusundan geri yükle: ${item.label}`, [[
+    ...item.docs.map(d => setOp(d.collection, d.data.id, withOwner(d.data))),
+    deleteOp(TRASH_COL, item.id)
+  ]]);
+};
+
+export const apiPurgeTrash = (ids: string[]) =>
+  writeChunked(`Çöp kutusundan kalıcı sil (${ids.length})`, ids.map(id => [deleteOp(TRASH_COL, id)]));
+
+// --- DUPLICATE STUDENTS ---
+
+// One group per moved result and term, then the removed record with the dropped results goes to the trash. Most
+// merges fit one batch; a larger one that fails midway keeps the removed record, so it can be merged again.
+export const apiMergeStudents = (plan: StudentMergePlan, shareLinks: ShareLink[], options?: ChunkedWriteOptions) => writeChunked(
+  `Öğrenci birleştir: ${plan.removed.name} ${plan.removed.surname} → ${plan.survivor.name} ${plan.survivor.surname}`,
+  [
+    ...plan.movedResults.map(r => [resultOp(r)]),
+    ...plan.terms.map(t => [updateOp(TERMS_COL, t.id, withOwner({ studentClasses: t.studentClasses }))]),
+    [...trashItemOps(plan.trashItem), ...revokeLinkOps(shareLinks, new Set([plan.removed.id]))]
+  ],
+  options
+);
+
+// --- INTEGRITY ---
+
+export const apiApplyIntegrityRepair = (label: string, repair: IntegrityRepair, options?: ChunkedWriteOptions) => writeChunked(label, [
+  ...repair.updateResults.map(r => [resultOp(r)]),
+  ...repair.trashItems.map(trashItemOps),
+  ...repair.updateStudents.map(s => updateStudentOps(s))
+], options);
+
+// --- TERMS ---
+
+export const apiAddTerm = async (term: Term) => {
+  await write(`Dönem ekle: ${term.name}`, [setOp(TERMS_COL, term.id, withOwner(term))]);
+};
+
+// End of year: archive the term, open the next one, promote and graduate classes. This is one batch unless the
+// workspace is too large for it; then a failure can leave the transition partly applied (see planChunks).
+export const apiApplyTermTransition = async (plan: TermTransitionPlan) => {
+  const operations = [
+    setOp(TERMS_COL, plan.archivedTerm.id, withOwner(JSON.parse(JSON.stringify(plan.archivedTerm)))),
+    setOp(TERMS_COL, plan.newTerm.id, withOwner(plan.newTerm)),
+    ...plan.definitions.map(d => updateOp(DEFINITIONS_COL, d.id, withOwner({ termId: d.termId }))),
+    ...plan.renamedClasses.map(c => updateOp(CLASSES_COL, c.id, withOwner({ name: c.name }))),
+    ...plan.graduatedClasses.map(c => updateOp(CLASSES_COL, c.id, withOwner({ graduatedTermId: c.graduatedTermId }))),
+    ...plan.alumni.map(s => updateOp(STUDENTS_COL, s.id, withOwner({ alumniTermId: s.alumniTermId })))
+  ];
+  await writeChunked(`Dönem sonu: ${plan.archivedTerm.name} → ${plan.newTerm.name}`, [operations]);
+};
+
+// --- BACKUP ---
+
+// Writes a restore plan: upserts first, then deletions (documents missing from the backup)
+export const apiRestoreBackup = (plan: RestorePlan, options?: ChunkedWriteOptions) => {
+  const names = Object.keys(plan.upserts) as BackupCollectionName[];
+  const operations = [
+    ...names.flatMap(name => (plan.upserts[name] as { id: string }[]).map(d => setOp(name, d.id, withOwner(JSON.parse(JSON.stringify(d)))))),
+    ...names.flatMap(name => plan.deletions[name].map(id => deleteOp(name, id)))
+  ];
+  return writeChunked(`Yedekten geri yükle (${operations.length} işlem)`, operations.map(op => [op]), options);
+};
+
+// --- IMPORT HISTORY ---
+
+// Loaded on demand (not part of fetchAllData) since sessions carry full document snapshots
+export const fetchImportSessions = async (): Promise<ImportSession[]> => {
+  const sessions = await storage.fetchAll(IMPORT_SESSIONS_COL, requireOwnerId()) as ImportSession[];
+  return sessions.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const apiAddImportSession = async (session: ImportSession) => {
+  await write(`İçe aktarma kaydı: ${session.summary}`, [setOp(IMPORT_SESSIONS_COL, session.id, withOwner(JSON.parse(JSON.stringify(session))))]);
+};
+
+// Writes a confirmed import plan, one group per document in the order of listPlanWrites
+export const apiCommitImportWrites = (writes: PlanWrite[], options?: ChunkedWriteOptions) => writeChunked(
+  `İçe aktarma (${writes.length} kayıt)`,
+  writes.map(w => {
+    if (w.collection === 'classrooms') return [setOp(CLASSES_COL, w.doc.id, withOwner(w.doc))];
+    if (w.collection === 'students') return w.isNew ? [addStudentOp(w.doc as Student)] : updateStudentOps(w.doc as Student);
+    return [resultOp(w.doc as ExamResult)];
+  }),
+  options
+);
+
+// Writes the rollback; the session is marked in the last chunk, so a failed rollback can be run again
+export const apiRollbackImportSession = (session: ImportSession, plan: RollbackPlan, options?: ChunkedWriteOptions) => writeChunked(
+  `İçe aktarmayı geri al (${plan.restore.length + plan.remove.length} kayıt)`,
+  [
+    ...plan.restore.map(c => [setOp(c.collection, c.id, withOwner(c.before!))]),
+    ...plan.remove.map(c => [deleteOp(c.collection, c.id)]),
+    [updateOp(IMPORT_SESSIONS_COL, session.id, withOwner({ rolledBackAt: session.rolledBackAt }))]
+  ],
+  options
+);
+
+// --- PARENT SHARE LINKS ---
+
+export const fetchShareLinks = async (): Promise<ShareLink[]> => {
+  const links = await storage.fetchAll(SHARE_LINKS_COL, requireOwnerId()) as ShareLink[];
+  return links.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+// Public read for the parent page: no sign-in and no owner filter, the token is the only key.
+// Inactive links are treated like missing ones (the Firestore rules refuse them anyway).
+export const fetchSharedLink = async (token: string): Promise<ShareLink | null> => {
+  const link = await storage.fetchById(SHARE_LINKS_COL, token) as ShareLink | null;
+  if (!link || link.revoked || (link.expiresAt !== null && link.expiresAt <= Date.now())) return null;
+  return link;
+};
+
+export const apiSaveShareLink = async (link: ShareLink) => {
+  await write(`Veli bağlantısı: ${link.snapshot.studentName}`, [setOp(SHARE_LINKS_COL, link.id, withOwner(JSON.parse(JSON.stringify(link))))]);
+};
+
+// Regenerating swaps the token: the new document is written and the old one deleted in one batch
+export const apiReplaceShareLink = async (oldId: string, link: ShareLink) => {
+  await write(`Veli bağlantısını yenile: ${link.snapshot.studentName}`, [
+    setOp(SHARE_LINKS_COL, link.id, withOwner(JSON.parse(JSON.stringify(link)))),
+    deleteOp(SHARE_LINKS_COL, oldId)
+  ]);
+};
+
+export const apiRevokeShareLink = async (id: string) => {
+  await write('Veli bağlantısını iptal et', [updateOp(SHARE_LINKS_COL, id, withOwner({ revoked: true }))]);
+};
+
+export const apiDeleteShareLink = async (id: string) => {
+  requireOwnerId();
+  await write('Veli bağlantısını sil', [deleteOp(SHARE_LINKS_COL, id)]);
+};
+
+export const apiUpdateShareSnapshots = async (links: ShareLink[]) => {
+  if (links.length === 0) return;
+  await writeChunked(`Veli bağlantılarını güncelle (${links.length})`, links.map(l => [updateOp(SHARE_LINKS_COL, l.id, withOwner({ classroomId: l.classroomId, snapshot: JSON.parse(JSON.stringify(l.snapshot)) }))]));
 };
 
 // --- UTILS ---
 
-export const calculateNet = (correct: number, incorrect: number): number => {
-  const net = correct - (incorrect * 0.33);
-  return parseFloat(net.toFixed(2));
+// Whether a result is one of the definition's: by examId when it has one, by name and day for legacy results
+// without it, so a name reused in another term does not pick up the older results (as in services/integrity.ts)
+export const belongsTo = (result: ExamResult, def: ExamDefinition) => result.examId
+  ? result.examId === def.id
+  : result.examName === def.name && (result.date || '').slice(0, 10) === (def.date || '').slice(0, 10);
+
+export const DEFAULT_SCORING_POLICY: ScoringPolicy = {
+  questionCount: 10,
+  penaltyRatio: 0.33,
+  rounding: 'ROUND_2'
+};
+
+// Legacy definitions have no policy fields, so fall back to the original 10 question / 0.33 rule
+export const getScoringPolicy = (source?: Partial<ScoringPolicy> | null): ScoringPolicy => ({
+  questionCount: source?.questionCount ?? DEFAULT_SCORING_POLICY.questionCount,
+  penaltyRatio: source?.penaltyRatio ?? DEFAULT_SCORING_POLICY.penaltyRatio,
+  rounding: source?.rounding ?? DEFAULT_SCORING_POLICY.rounding
+});
+
+const applyRounding = (value: number, rounding: NetRounding): number => {
+  switch (rounding) {
+    case 'ROUND_1': return parseFloat(value.toFixed(1));
+    case 'FLOOR_2': return Math.floor(value * 100 + 1e-9) / 100;
+    default: return parseFloat(value.toFixed(2));
+  }
+};
+
+export const calculateNet = (correct: number, incorrect: number, policy?: Partial<ScoringPolicy> | null): number => {
+  const { penaltyRatio, rounding } = getScoringPolicy(policy);
+  return applyRounding(correct - (incorrect * penaltyRatio), rounding);
+};
+
+// Returns a user facing error message, or null when the counts fit the policy
+export const validateResultCounts = (correct: number, incorrect: number, policy?: Partial<ScoringPolicy> | null): string | null => {
+  const { questionCount } = getScoringPolicy(policy);
+  if (correct < 0 || incorrect < 0) return "Doğru ve Yanlış sayısı negatif olamaz.";
+  if (correct + incorrect > questionCount) return `Toplam soru sayısı ${questionCount}'dur. Doğru ve Yanlış toplamı ${questionCount}'u geçemez.`;
+  return null;
+};
+
+export const calculateScores = (correct: number, incorrect: number, policy?: Partial<ScoringPolicy> | null) => ({
+  empty: getScoringPolicy(policy).questionCount - (correct + incorrect),
+  net: calculateNet(correct, incorrect, policy)
+});
+
+// --- ANSWER KEYS ---
+
+export const ANSWER_CHOICES = ['A', 'B', 'C', 'D', 'E'];
+export const BLANK_ANSWER = '-';
+
+// True when the token looks like an answer string rather than a name or a count. Short names such as
+// "Ece" or "Ada" are made of choice letters too, so free text passes the lengths of the answer keys in play.
+export const isAnswerString = (token: string, lengths?: number[]): boolean =>
+  /^[A-Ea-e\-.*_]+$/.test(token) && /[A-Ea-e]/.test(token) && (!lengths || lengths.includes(token.length));
+
+export const hasAnswerKey = (def?: ExamDefinition | null): boolean => !!def?.answerKey;
+
+// Uppercases choices and turns every other character into BLANK_ANSWER.
+// Missing trailing answers (trimmed cells, short optical reader output) count as empty.
+export const normalizeAnswerString = (raw: string, length?: number): string => {
+  const normalized = raw.toUpperCase().split('').map(c => ANSWER_CHOICES.includes(c) ? c : BLANK_ANSWER).join('');
+  return length && normalized.length < length ? normalized.padEnd(length, BLANK_ANSWER) : normalized;
+};
+
+export const validateAnswerKey = (key: string, policy?: Partial<ScoringPolicy> | null): string | null => {
+  const { questionCount } = getScoringPolicy(policy);
+  if (!key) return null;
+  if (key.split('').some(c => !ANSWER_CHOICES.includes(c))) return "Cevap anahtarı sadece A-E harflerinden oluşmalıdır.";
+  if (key.length !== questionCount) return `Cevap anahtarı ${questionCount} karakter olmalıdır (şu an ${key.length}).`;
+  return null;
+};
+
+export const validateAnswerString = (answers: string, def?: ExamDefinition | null): string | null => {
+  if (!hasAnswerKey(def)) return "Bu denemenin cevap anahtarı tanımlı değil.";
+  const { questionCount } = getScoringPolicy(def);
+  if (normalizeAnswerString(answers).length > questionCount) return `Cevap dizisi en fazla ${questionCount} karakter olabilir.`;
+  return null;
+};
+
+// Derives correct/incorrect/empty/net by comparing the answers with the definition's key
+export const scoreAnswers = (rawAnswers: string, def: ExamDefinition) => {
+  const policy = getScoringPolicy(def);
+  const key = def.answerKey || '';
+  const answers = normalizeAnswerString(rawAnswers, policy.questionCount);
+  let correct = 0;
+  let incorrect = 0;
+  answers.split('').forEach((a, i) => {
+    if (a === BLANK_ANSWER) return;
+    if (a === key[i]) correct++;
+    else incorrect++;
+  });
+  return { answers, correct, incorrect, ...calculateScores(correct, incorrect, policy) };
+};
+
+// Recomputes stored results after a definition's policy or answer key changed.
+// Results that no longer fit the question count are left untouched and reported as invalid.
+export const rescoreResults = (def: ExamDefinition, results: ExamResult[]) => {
+  const updated: ExamResult[] = [];
+  const invalid: ExamResult[] = [];
+  results.forEach(r => {
+    if (r.status === 'MISSING') return;
+    if (r.answers && hasAnswerKey(def)) {
+      if (validateAnswerString(r.answers, def)) {
+        invalid.push(r);
+        return;
+      }
+      const scored = scoreAnswers(r.answers, def);
+      if (scored.correct !== r.correct || scored.incorrect !== r.incorrect || scored.empty !== r.empty || scored.net !== r.net) {
+        updated.push({ ...r, ...scored });
+      }
+      return;
+    }
+    if (validateResultCounts(r.correct, r.incorrect, def)) {
+      invalid.push(r);
+      return;
+    }
+    const { empty, net } = calculateScores(r.correct, r.incorrect, def);
+    if (empty !== r.empty || net !== r.net) updated.push({ ...r, empty, net });
+  });
+  return { updated, invalid };
+};
+
+export const getMaxQuestionCount = (defs: ExamDefinition[]): number => {
+  return defs.reduce((max, d) => Math.max(max, getScoringPolicy(d).questionCount), 0) || DEFAULT_SCORING_POLICY.questionCount;
 };
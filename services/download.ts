@@ -0,0 +1,13 @@
+// Saves a generated file through a temporary link; nothing leaves the browser
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Some browsers start the download asynchronously, so keep the URL alive for a moment
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Turns a display name into a safe file name part ("8/A Ali Veli" -> "8-A_Ali_Veli")
+export const toFileName = (name: string) => name.trim().replace(/[\\/:*?"<>|]+/g, '-').replace(/\s+/g, '_') || 'dosya';
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_EARLY_WARNING_SETTINGS, EarlyWarningSettings, findEarlyWarnings, parseEarlyWarningSetting } from './earlyWarning';
+import { ExamResult, Student } from '../types';
+
+const students: Student[] = [
+  { id: 's1', name: 'Ece', surname: 'Yılmaz', classroomId: 'c1' },
+  { id: 's2', name: 'Ada', surname: 'Kaya', classroomId: 'c1' },
+  { id: 's3', name: 'Can', surname: 'Demir', classroomId: 'c1' },
+  { id: 's4', name: 'Ali', surname: 'Şahin', classroomId: 'c1' }
+];
+const dates = ['2024-01-10', '2024-02-10', '2024-03-10'];
+
+// One result per exam in date order; null marks a MISSING result
+const resultsOf = (studentId: string, nets: (number | null)[]): ExamResult[] => nets.map((net, i) => ({
+  id: `${studentId}-${i}`, studentId, examId: `d${i}`, examName: `Deneme ${i + 1}`, date: dates[i],
+  correct: 0, incorrect: 0, empty: 0, net: net ?? 0, status: net === null ? 'MISSING' : 'ATTENDED'
+}));
+
+const only = (settings: Partial<EarlyWarningSettings>): EarlyWarningSettings =>
+  ({ trendExamCount: 0, missingStreak: 0, dropNet: 0, quartileExamCount: 0, ...settings });
+
+const flagged = (exams: ExamResult[], settings: EarlyWarningSettings) =>
+  findEarlyWarnings(students, exams, settings).map(w => [w.student.id, w.flags.map(f => f.rule)]);
+
+describe('findEarlyWarnings', () => {
+  it('flags a falling trend only when every net is lower than the one before', () => {
+    const exams = [...resultsOf('s1', [8, 7, 6]), ...resultsOf('s2', [8, 8, 6]), ...resultsOf('s3', [8, null, 7])];
+    expect(flagged(exams, only({ trendExamCount: 2 })).map(([id]) => id)).toEqual(['s2', 's3', 's1']);
+    expect(flagged(exams, only({ trendExamCount: 3 }))).toEqual([['s1', ['DECLINING_TREND']]]);
+  });
+
+  it('flags the latest results missing in a row', () => {
+    const exams = [...resultsOf('s1', [8, null, null]), ...resultsOf('s2', [null, null, 8])];
+    expect(flagged(exams, only({ missingStreak: 2 }))).toEqual([['s1', ['MISSING_STREAK']]]);
+  });
+
+  it('flags a drop of at least the threshold between the two latest attended results', () => {
+    const exams = [...resultsOf('s1', [10.33, null, 5.33]), ...resultsOf('s2', [10, 5.01])];
+    expect(flagged(exams, only({ dropNet: 5 }))).toEqual([['s1', ['SHARP_DROP']]]);
+  });
+
+  it('flags the bottom quarter of the class, and only with enough classmates', () => {
+    const exams = [...resultsOf('s1', [2, 3]), ...resultsOf('s2', [6, 7]), ...resultsOf('s3', [8, 9]), ...resultsOf('s4', [9, 4])];
+    expect(flagged(exams, only({ quartileExamCount: 2 }))).toEqual([['s1', ['BOTTOM_QUARTILE']]]);
+    expect(flagged(exams.filter(r => r.studentId !== 's4'), only({ quartileExamCount: 1 }))).toEqual([]);
+  });
+
+  it('lists students with more flags first, then by name', () => {
+    const exams = [...resultsOf('s1', [9, 8, 2]), ...resultsOf('s2', [null, null]), ...resultsOf('s3', [null, null])];
+    expect(flagged(exams, DEFAULT_EARLY_WARNING_SETTINGS).map(([id]) => id)).toEqual(['s1', 's2', 's3']);
+  });
+});
+
+describe('parseEarlyWarningSetting', () => {
+  it('turns a rule off for empty, zero or negative input', () => {
+    expect(parseEarlyWarningSetting('missingStreak', '')).toBe(0);
+    expect(parseEarlyWarningSetting('missingStreak', '0')).toBe(0);
+    expect(parseEarlyWarningSetting('dropNet', '-2')).toBe(0);
+  });
+
+  it('rounds counts down and raises them to their minimum, but keeps a fractional net drop', () => {
+    expect(parseEarlyWarningSetting('trendExamCount', '1')).toBe(2);
+    expect(parseEarlyWarningSetting('quartileExamCount', '2.7')).toBe(2);
+    expect(parseEarlyWarningSetting('dropNet', '2.5')).toBe(2.5);
+  });
+});
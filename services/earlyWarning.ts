@@ -0,0 +1,145 @@
+import { ExamResult, Student } from '../types';
+
+// Rule based early warnings over the viewed term's results. Every rule has one threshold the teacher can
+// change on the dashboard; a threshold of 0 turns the rule off. Settings are kept on this device.
+// Exam counts are whole numbers of at least EARLY_WARNING_SETTING_MINIMUMS; the net drop may be fractional.
+
+export type WarningRule = 'DECLINING_TREND' | 'MISSING_STREAK' | 'SHARP_DROP' | 'BOTTOM_QUARTILE';
+
+export interface EarlyWarningSettings {
+  trendExamCount: number; // Attended exams in a row, each with a lower net than the one before
+  missingStreak: number; // Latest results in a row marked MISSING
+  dropNet: number; // Net lost between the two latest attended results
+  quartileExamCount: number; // Latest attended exams in a row in the bottom quarter of the class
+}
+
+export const DEFAULT_EARLY_WARNING_SETTINGS: EarlyWarningSettings = {
+  trendExamCount: 3,
+  missingStreak: 2,
+  dropNet: 5,
+  quartileExamCount: 2
+};
+
+export const EARLY_WARNING_SETTING_LABELS: Record<keyof EarlyWarningSettings, string> = {
+  trendExamCount: 'Düşüş: art arda deneme',
+  missingStreak: 'Devamsızlık: art arda deneme',
+  dropNet: 'Sert düşüş: net farkı',
+  quartileExamCount: 'Alt çeyrek: art arda deneme'
+};
+
+// Lowest value that keeps a rule on: a falling trend needs two exams to compare
+export const EARLY_WARNING_SETTING_MINIMUMS: Record<keyof EarlyWarningSettings, number> = {
+  trendExamCount: 2,
+  missingStreak: 1,
+  dropNet: 0,
+  quartileExamCount: 1
+};
+
+// Parses a typed threshold: empty or 0 and below turns the rule off, counts are rounded down and raised to their minimum
+export const parseEarlyWarningSetting = (key: keyof EarlyWarningSettings, value: string | number): number => {
+  const parsed = key === 'dropNet' ? parseFloat(String(value)) : parseInt(String(value), 10);
+  if (!(parsed > 0)) return 0;
+  return Math.max(EARLY_WARNING_SETTING_MINIMUMS[key], parsed);
+};
+
+export const WARNING_RULE_LABELS: Record<WarningRule, string> = {
+  DECLINING_TREND: 'Düşüş eğilimi',
+  MISSING_STREAK: 'Devamsızlık',
+  SHARP_DROP: 'Sert düşüş',
+  BOTTOM_QUARTILE: 'Alt çeyrek'
+};
+
+export interface WarningFlag {
+  rule: WarningRule;
+  detail: string;
+}
+
+export interface StudentWarning {
+  student: Student;
+  flags: WarningFlag[];
+}
+
+const SETTINGS_KEY = 'englishnet.earlyWarning';
+
+// Quartiles need a few classmates to mean anything
+const MIN_CLASS_SIZE = 4;
+
+// Stored values pass the same parsing, so a threshold saved by an older version cannot switch a rule off unseen
+export const loadEarlyWarningSettings = (): EarlyWarningSettings => {
+  try {
+    const stored = { ...DEFAULT_EARLY_WARNING_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+    return Object.fromEntries((Object.keys(DEFAULT_EARLY_WARNING_SETTINGS) as (keyof EarlyWarningSettings)[])
+      .map(key => [key, parseEarlyWarningSetting(key, stored[key])])) as unknown as EarlyWarningSettings;
+  } catch {
+    return DEFAULT_EARLY_WARNING_SETTINGS;
+  }
+};
+
+export const saveEarlyWarningSettings = (settings: EarlyWarningSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const examKey = (r: ExamResult) => r.examId || r.examName;
+const isAttended = (r: ExamResult) => r.status !== 'MISSING';
+const byDate = (a: ExamResult, b: ExamResult) => new Date(a.date).getTime() - new Date(b.date).getTime();
+
+// Net at or below which a result falls in the bottom quarter of its class, per class and exam
+const buildQuartileCutoffs = (students: Student[], exams: ExamResult[]) => {
+  const classOf = new Map(students.map(s => [s.id, s.classroomId]));
+  const nets = new Map<string, number[]>();
+  exams.filter(isAttended).forEach(r => {
+    const classroomId = classOf.get(r.studentId);
+    if (classroomId === undefined) return;
+    const key = `${classroomId}|${examKey(r)}`;
+    nets.set(key, [...(nets.get(key) || []), r.net]);
+  });
+  const cutoffs = new Map<string, number>();
+  nets.forEach((values, key) => {
+    if (values.length < MIN_CLASS_SIZE) return;
+    const sorted = values.slice().sort((a, b) => a - b);
+    cutoffs.set(key, sorted[Math.floor((sorted.length - 1) / 4)]);
+  });
+  return cutoffs;
+};
+
+export const findEarlyWarnings = (students: Student[], exams: ExamResult[], settings: EarlyWarningSettings): StudentWarning[] => {
+  const cutoffs = settings.quartileExamCount > 0 ? buildQuartileCutoffs(students, exams) : new Map<string, number>();
+  const resultsByStudent = new Map<string, ExamResult[]>();
+  exams.forEach(r => resultsByStudent.set(r.studentId, [...(resultsByStudent.get(r.studentId) || []), r]));
+
+  return students
+    .map(student => {
+      const results = (resultsByStudent.get(student.id) || []).slice().sort(byDate);
+      const attended = results.filter(isAttended);
+      const flags: WarningFlag[] = [];
+
+      const trend = attended.slice(-settings.trendExamCount);
+      if (settings.trendExamCount > 0 && trend.length === settings.trendExamCount && trend.every((r, i) => i === 0 || r.net < trend[i - 1].net)) {
+        flags.push({ rule: 'DECLINING_TREND', detail: trend.map(r => r.net).join(' → ') });
+      }
+
+      const missing = results.slice(-settings.missingStreak);
+      if (settings.missingStreak > 0 && missing.length === settings.missingStreak && missing.every(r => !isAttended(r))) {
+        flags.push({ rule: 'MISSING_STREAK', detail: `Son ${settings.missingStreak} denemeye girmedi` });
+      }
+
+      if (settings.dropNet > 0 && attended.length >= 2) {
+        const [previous, last] = attended.slice(-2);
+        const drop = Math.round((previous.net - last.net) * 100) / 100;
+        if (drop >= settings.dropNet) flags.push({ rule: 'SHARP_DROP', detail: `${previous.net} → ${last.net} (-${drop})` });
+      }
+
+      const recent = attended.slice(-settings.quartileExamCount);
+      const inBottom = (r: ExamResult) => {
+        const cutoff = cutoffs.get(`${student.classroomId}|${examKey(r)}`);
+        return cutoff !== undefined && r.net <= cutoff;
+      };
+      if (settings.quartileExamCount > 0 && recent.length === settings.quartileExamCount && recent.every(inBottom)) {
+        flags.push({ rule: 'BOTTOM_QUARTILE', detail: `Son ${settings.quartileExamCount} denemede sınıfın alt %25'inde` });
+      }
+
+      return { student, flags };
+    })
+    .filter(w => w.flags.length > 0)
+    .sort((a, b) => b.flags.length - a.flags.length || `${a.student.name} ${a.student.surname}`.localeCompare(`${b.student.name} ${b.student.surname}`, 'tr'));
+};
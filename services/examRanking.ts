@@ -0,0 +1,283 @@
+import { Classroom, ExamDefinition, ExamResult, Student } from '../types';
+import { belongsTo, getScoringPolicy } from './dataService';
+import { PAGE_HEIGHT, PAGE_WIDTH, PdfDocument, Rgb, createPdfDocument } from './pdfWriter';
+import { createXlsx } from './xlsxWriter';
+import { downloadBlob, toFileName } from './download';
+import { formatDay } from './reportCard';
+
+// Ranking sheet of one exam for the notice board: school-wide or within a class, with absentees
+// listed separately and each student's rank change since the previous exam.
+
+export interface RankingSource {
+  students: Student[];
+  classes: Classroom[];
+  exams: ExamResult[];
+  examDefinitions: ExamDefinition[];
+}
+
+export interface RankingRow {
+  rank: number;
+  student: Student;
+  className: string;
+  result: ExamResult;
+  previousRank: number | null; // null when the student did not take the previous exam
+  rankChange: number | null; // positive = moved up
+}
+
+export interface AbsentRow {
+  student: Student;
+  className: string;
+  recorded: boolean; // false when no result exists at all (as opposed to a "girmedi" record)
+}
+
+export interface ExamRanking {
+  def: ExamDefinition;
+  scopeLabel: string; // Class name or "Tüm Okul"
+  isSchoolWide: boolean;
+  rows: RankingRow[];
+  absent: AbsentRow[];
+  previousExam: ExamDefinition | null;
+  averageNet: number | null;
+}
+
+const fullName = (s: Student) => `${s.name} ${s.surname}`;
+
+// Equal nets share a rank and the next rank is skipped (1, 2, 2, 4); ties are listed by correct answers, then name
+const rankResults = (results: ExamResult[], studentsById: Map<string, Student>) => {
+  const sorted = results
+    .filter(r => r.status !== 'MISSING' && studentsById.has(r.studentId))
+    .sort((a, b) => b.net - a.net || b.correct - a.correct || fullName(studentsById.get(a.studentId)!).localeCompare(fullName(studentsById.get(b.studentId)!), 'tr'));
+  const ranks = new Map<string, number>();
+  sorted.forEach((r, i) => {
+    const rank = i > 0 && r.net === sorted[i - 1].net ? ranks.get(sorted[i - 1].studentId)! : i + 1;
+    ranks.set(r.studentId, rank);
+  });
+  return { sorted, ranks };
+};
+
+// The exam held right before this one (by date, then by definition order for same-day exams)
+const findPreviousExam = (def: ExamDefinition, definitions: ExamDefinition[]) => {
+  const ordered = definitions
+    .map((d, i) => ({ d, i }))
+    .sort((a, b) => new Date(a.d.date).getTime() - new Date(b.d.date).getTime() || a.i - b.i)
+    .map(x => x.d);
+  const index = ordered.findIndex(d => d.id === def.id);
+  return index > 0 ? ordered[index - 1] : null;
+};
+
+export const buildExamRanking = (def: ExamDefinition, source: RankingSource, classId: string): ExamRanking => {
+  const scopeStudents = classId === 'all' ? source.students : source.students.filter(s => s.classroomId === classId);
+  const studentsById = new Map(scopeStudents.map(s => [s.id, s]));
+  const className = (s: Student) => source.classes.find(c => c.id === s.classroomId)?.name || '-';
+
+  const results = source.exams.filter(e => belongsTo(e, def) && studentsById.has(e.studentId));
+  const { sorted, ranks } = rankResults(results, studentsById);
+
+  const previousExam = findPreviousExam(def, source.examDefinitions);
+  const previousRanks = previousExam
+    ? rankResults(source.exams.filter(e => belongsTo(e, previousExam) && studentsById.has(e.studentId)), studentsById).ranks
+    : new Map<string, number>();
+
+  const rows = sorted.map(result => {
+    const student = studentsById.get(result.studentId)!;
+    const rank = ranks.get(student.id)!;
+    const previousRank = previousRanks.get(student.id) ?? null;
+    return { rank, student, className: className(student), result, previousRank, rankChange: previousRank === null ? null : previousRank - rank };
+  });
+
+  const rankedIds = new Set(rows.map(r => r.student.id));
+  const recordedIds = new Set(results.map(r => r.studentId));
+  const absent = scopeStudents
+    .filter(s => !rankedIds.has(s.id))
+    .map(s => ({ student: s, className: className(s), recorded: recordedIds.has(s.id) }))
+    .sort((a, b) => a.className.localeCompare(b.className, 'tr') || fullName(a.student).localeCompare(fullName(b.student), 'tr'));
+
+  return {
+    def,
+    scopeLabel: classId === 'all' ? 'Tüm Okul' : source.classes.find(c => c.id === classId)?.name || '-',
+    isSchoolWide: classId === 'all',
+    rows,
+    absent,
+    previousExam,
+    averageNet: rows.length > 0 ? parseFloat((rows.reduce((s, r) => s + r.result.net, 0) / rows.length).toFixed(2)) : null
+  };
+};
+
+// "YENİ" marks students who missed the previous exam; without a previous exam there is nothing to compare
+export const formatRankChange = (ranking: ExamRanking, row: RankingRow) => {
+  if (!ranking.previousExam) return '-';
+  if (row.rankChange === null) return 'YENİ';
+  if (row.rankChange === 0) return '=';
+  return row.rankChange > 0 ? `▲${row.rankChange}` : `▼${-row.rankChange}`;
+};
+
+const absentLabel = (row: AbsentRow) => row.recorded ? 'Girmedi' : 'Sonuç yok';
+
+const exportFileName = (ranking: ExamRanking, extension: string) => `siralama_${toFileName(ranking.def.name)}_${toFileName(ranking.scopeLabel)}.${extension}`;
+
+const subtitle = (ranking: ExamRanking) => {
+  const policy = getScoringPolicy(ranking.def);
+  return [
+    ranking.scopeLabel,
+    formatDay(ranking.def.date),
+    `${policy.questionCount} soru`,
+    `Katılım ${ranking.rows.length} / ${ranking.rows.length + ranking.absent.length}`,
+    `Ortalama ${ranking.averageNet ?? '-'} net`
+  ].join(' · ');
+};
+
+const changeNote = (ranking: ExamRanking) => ranking.previousExam
+  ? `Sıra değişimi "${ranking.previousExam.name}" denemesine göre.`
+  : 'Önceki deneme olmadığı için sıra değişimi gösterilmiyor.';
+
+// --- PRINT ---
+
+const escapeHtml = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const PRINT_STYLES = `
+  body { font-family: Helvetica, Arial, sans-serif; color: #111827; margin: 24px; }
+  h1 { font-size: 20px; margin: 0 0 4px; text-transform: uppercase; }
+  h2 { font-size: 14px; margin: 24px 0 8px; text-transform: uppercase; }
+  p { font-size: 11px; color: #4b5563; margin: 0 0 12px; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  th { background: #111827; color: #fff; text-align: left; padding: 5px 6px; font-size: 10px; }
+  td { padding: 4px 6px; border-bottom: 1px solid #e5e7eb; }
+  tr:nth-child(even) td { background: #f3f4f6; }
+  tr { page-break-inside: avoid; }
+  thead { display: table-header-group; }
+  .c { text-align: center; } .b { font-weight: bold; } .up { color: #16a34a; } .down { color: #dc2626; } .muted { color: #6b7280; }
+  @page { size: A4; margin: 12mm; }
+`;
+
+const changeClass = (row: RankingRow) => row.rankChange === null || row.rankChange === 0 ? 'muted' : row.rankChange > 0 ? 'up' : 'down';
+
+export const buildRankingHtml = (ranking: ExamRanking) => {
+  const showClass = ranking.isSchoolWide;
+  const rankRows = ranking.rows.map(r => `<tr>
+    <td class="c b">${r.rank}</td><td class="b">${escapeHtml(fullName(r.student))}</td>${showClass ? `<td>${escapeHtml(r.className)}</td>` : ''}
+    <td class="c">${r.result.correct}</td><td class="c">${r.result.incorrect}</td><td class="c">${r.result.empty}</td><td class="c b">${r.result.net}</td>
+    <td class="c ${changeClass(r)}">${formatRankChange(ranking, r)}</td></tr>`).join('');
+  const absentRows = ranking.absent.map(a => `<tr><td>${escapeHtml(fullName(a.student))}</td><td>${escapeHtml(a.className)}</td><td>${absentLabel(a)}</td></tr>`).join('');
+  return `<!DOCTYPE html><html lang="tr"><head><meta charset="UTF-8"><title>${escapeHtml(ranking.def.name)} - Sıralama</title><style>${PRINT_STYLES}</style></head><body>
+  <h1>${escapeHtml(ranking.def.name)} · Sıralama</h1>
+  <p>${escapeHtml(subtitle(ranking))}<br>${escapeHtml(changeNote(ranking))}</p>
+  <table><thead><tr><th class="c">SIRA</th><th>ÖĞRENCİ</th>${showClass ? '<th>SINIF</th>' : ''}<th class="c">D</th><th class="c">Y</th><th class="c">B</th><th class="c">NET</th><th class="c">DEĞİŞİM</th></tr></thead><tbody>${rankRows}</tbody></table>
+  ${ranking.absent.length > 0 ? `<h2>Sınava Girmeyenler (${ranking.absent.length})</h2><table><thead><tr><th>ÖĞRENCİ</th><th>SINIF</th><th>DURUM</th></tr></thead><tbody>${absentRows}</tbody></table>` : ''}
+  </body></html>`;
+};
+
+// Opens the sheet in a new window and starts the browser's print dialog (also usable as "Save as PDF")
+export const printExamRanking = (ranking: ExamRanking) => {
+  const win = window.open('', '_blank');
+  if (!win) throw new Error("Yazdırma penceresi açılamadı. Açılır pencere engelleyicisini kontrol edin.");
+  win.document.write(buildRankingHtml(ranking));
+  win.document.close();
+  win.focus();
+  win.onafterprint = () => win.close();
+  setTimeout(() => win.print(), 250);
+};
+
+// --- XLSX ---
+
+export const exportRankingXlsx = (ranking: ExamRanking) => {
+  const blob = createXlsx([
+    {
+      name: 'Sıralama',
+      columnWidths: [7, 28, 10, 6, 6, 6, 8, 12, 10],
+      rows: [
+        ['Sıra', 'Öğrenci', 'Sınıf', 'D', 'Y', 'B', 'Net', 'Önceki Sıra', 'Değişim'],
+        ...ranking.rows.map(r => [r.rank, fullName(r.student), r.className, r.result.correct, r.result.incorrect, r.result.empty, r.result.net, r.previousRank, r.rankChange])
+      ]
+    },
+    {
+      name: 'Girmeyenler',
+      columnWidths: [28, 10, 12],
+      rows: [['Öğrenci', 'Sınıf', 'Durum'], ...ranking.absent.map(a => [fullName(a.student), a.className, absentLabel(a)])]
+    }
+  ]);
+  downloadBlob(blob, exportFileName(ranking, 'xlsx'));
+};
+
+// --- PDF ---
+
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const BOTTOM = PAGE_HEIGHT - 40;
+const ROW_HEIGHT = 17;
+const DARK: Rgb = [17, 24, 39];
+const GRAY: Rgb = [107, 114, 128];
+const STRIPE: Rgb = [243, 244, 246];
+const GREEN: Rgb = [22, 163, 74];
+const RED: Rgb = [220, 38, 38];
+const WHITE: Rgb = [255, 255, 255];
+
+interface PdfColumn { label: string, width: number, center?: boolean }
+
+const drawTable = (doc: PdfDocument, top: number, columns: PdfColumn[], rows: { cells: string[], colors?: (Rgb | undefined)[] }[]) => {
+  const header = (y: number) => {
+    doc.rect(MARGIN, y, CONTENT_WIDTH, ROW_HEIGHT, { fill: DARK });
+    let x = MARGIN;
+    columns.forEach(col => {
+      doc.text(col.center ? x + col.width / 2 : x + 6, y + 12, col.label, { size: 7, bold: true, color: WHITE, align: col.center ? 'center' : 'left' });
+      x += col.width;
+    });
+    return y + ROW_HEIGHT;
+  };
+  let y = header(top);
+  rows.forEach((row, i) => {
+    if (y + ROW_HEIGHT > BOTTOM) {
+      doc.addPage();
+      y = header(MARGIN);
+    }
+    if (i % 2 === 1) doc.rect(MARGIN, y, CONTENT_WIDTH, ROW_HEIGHT, { fill: STRIPE });
+    let x = MARGIN;
+    row.cells.forEach((cell, c) => {
+      const col = columns[c];
+      doc.text(col.center ? x + col.width / 2 : x + 6, y + 12, cell, { size: 9, color: row.colors?.[c] ?? DARK, align: col.center ? 'center' : 'left' });
+      x += col.width;
+    });
+    y += ROW_HEIGHT;
+  });
+  return y;
+};
+
+// The PDF fonts have no arrow glyphs, so the change is written with +/-
+const pdfRankChange = (ranking: ExamRanking, row: RankingRow) => formatRankChange(ranking, row).replace('▲', '+').replace('▼', '-');
+
+export const exportRankingPdf = (ranking: ExamRanking) => {
+  const doc = createPdfDocument();
+  doc.addPage();
+  doc.text(MARGIN, 50, `${ranking.def.name} · SIRALAMA`.toLocaleUpperCase('tr'), { size: 16, bold: true });
+  doc.text(MARGIN, 68, subtitle(ranking), { size: 9, color: GRAY });
+  doc.text(MARGIN, 82, changeNote(ranking), { size: 8, color: GRAY });
+
+  const showClass = ranking.isSchoolWide;
+  const columns: PdfColumn[] = [
+    { label: 'SIRA', width: 40, center: true },
+    { label: 'ÖĞRENCİ', width: showClass ? 185 : 245 },
+    ...(showClass ? [{ label: 'SINIF', width: 60 }] : []),
+    { label: 'D', width: 40, center: true },
+    { label: 'Y', width: 40, center: true },
+    { label: 'B', width: 40, center: true },
+    { label: 'NET', width: 50, center: true },
+    { label: 'DEĞİŞİM', width: 60, center: true }
+  ];
+  let y = drawTable(doc, 96, columns, ranking.rows.map(r => {
+    const changeColor = r.rankChange === null || r.rankChange === 0 ? GRAY : r.rankChange > 0 ? GREEN : RED;
+    const cells = [String(r.rank), fullName(r.student), ...(showClass ? [r.className] : []), String(r.result.correct), String(r.result.incorrect), String(r.result.empty), String(r.result.net), pdfRankChange(ranking, r)];
+    const colors: (Rgb | undefined)[] = cells.map(() => undefined);
+    colors[cells.length - 1] = changeColor;
+    return { cells, colors };
+  }));
+
+  if (ranking.absent.length > 0) {
+    if (y + 60 > BOTTOM) {
+      doc.addPage();
+      y = MARGIN - 10;
+    }
+    doc.text(MARGIN, y + 30, `SINAVA GİRMEYENLER (${ranking.absent.length})`, { size: 11, bold: true });
+    drawTable(doc, y + 40, [{ label: 'ÖĞRENCİ', width: 295 }, { label: 'SINIF', width: 110 }, { label: 'DURUM', width: 110 }],
+      ranking.absent.map(a => ({ cells: [fullName(a.student), a.className, absentLabel(a)], colors: [undefined, undefined, a.recorded ? RED : GRAY] })));
+  }
+  downloadBlob(doc.toBlob(), exportFileName(ranking, 'pdf'));
+};
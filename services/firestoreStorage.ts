@@ -0,0 +1,53 @@
+import { db } from './firebase';
+import { collection, getDoc, getDocs, doc, setDoc, deleteDoc, updateDoc, writeBatch, query, where, orderBy, limit, startAfter, documentId, QueryConstraint } from 'firebase/firestore';
+import { StorageAdapter, MAX_BATCH_OPERATIONS } from './storageAdapter';
+
+export const createFirestoreStorage = (): StorageAdapter => ({
+  backend: 'firestore',
+
+  fetchAll: async (collectionName, ownerId) => {
+    const snap = await getDocs(query(collection(db, collectionName), where('ownerId', '==', ownerId)));
+    return snap.docs.map(d => ({ ...d.data(), id: d.id }));
+  },
+
+  query: async (collectionName, ownerId, { where: fields, orderByDesc, limit: max, startAfter: cursor }) => {
+    const constraints: QueryConstraint[] = [where('ownerId', '==', ownerId)];
+    Object.keys(fields).forEach(field => constraints.push(fields[field].length === 1 ? where(field, '==', fields[field][0]) : where(field, 'in', fields[field])));
+    // The id tie-break matches the implicit last field of a descending composite index
+    if (orderByDesc) constraints.push(orderBy(orderByDesc, 'desc'), orderBy(documentId(), 'desc'));
+    if (orderByDesc && cursor) constraints.push(startAfter(cursor.value, cursor.id));
+    if (max !== undefined) constraints.push(limit(max));
+    const snap = await getDocs(query(collection(db, collectionName), ...constraints));
+    return snap.docs.map(d => ({ ...d.data(), id: d.id }));
+  },
+
+  fetchById: async (collectionName, id) => {
+    const snap = await getDoc(doc(db, collectionName, id));
+    return snap.exists() ? { ...snap.data(), id: snap.id } : null;
+  },
+
+  set: async (collectionName, id, data) => {
+    await setDoc(doc(db, collectionName, id), data);
+  },
+
+  update: async (collectionName, id, data) => {
+    await updateDoc(doc(db, collectionName, id), data);
+  },
+
+  remove: async (collectionName, id) => {
+    await deleteDoc(doc(db, collectionName, id));
+  },
+
+  commit: async (operations) => {
+    // Splitting here would quietly give up atomicity; writeChunked plans batches that fit
+    if (operations.length > MAX_BATCH_OPERATIONS) throw new Error(`A batch holds at most ${MAX_BATCH_OPERATIONS} operations, got ${operations.length}`);
+    const batch = writeBatch(db);
+    operations.forEach(op => {
+      const ref = doc(db, op.collection, op.id);
+      if (op.type === 'set') batch.set(ref, op.data);
+      else if (op.type === 'update') batch.update(ref, op.data);
+      else batch.delete(ref);
+    });
+    await batch.commit();
+  }
+});
@@ -0,0 +1,50 @@
+import { ExamResult, StudentGoal } from '../types';
+
+// A goal is a target net by a date. Progress runs from the student's net when the goal was set up to the
+// target; the student is on track while the latest net is on or above the straight line between the two.
+
+export type GoalStatus = 'REACHED' | 'ON_TRACK' | 'OFF_TRACK' | 'NO_DATA';
+
+export const GOAL_STATUS_LABELS: Record<GoalStatus, string> = {
+  REACHED: 'Ulaştı',
+  ON_TRACK: 'Yolunda',
+  OFF_TRACK: 'Geride',
+  NO_DATA: 'Sonuç yok'
+};
+
+export interface GoalProgress {
+  status: GoalStatus;
+  startNet: number | null;
+  currentNet: number | null;
+  expectedNet: number | null; // Where the line to the target stood on the day of the latest result
+  percent: number; // Share of the way from startNet to the target, 0-100
+}
+
+const dayOf = (date: string) => new Date(date.slice(0, 10)).getTime();
+
+// 'YYYY-MM-DD' of the user's own calendar day; toISOString would give the UTC day, a day early before 03:00 in Turkey
+export const getLocalDay = (date = new Date()) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const getGoalProgress = (goal: StudentGoal, results: ExamResult[], today = getLocalDay()): GoalProgress => {
+  const attended = results.filter(r => r.status !== 'MISSING').sort((a, b) => dayOf(a.date) - dayOf(b.date));
+  if (attended.length === 0) return { status: 'NO_DATA', startNet: null, currentNet: null, expectedNet: null, percent: 0 };
+
+  // The last result before the goal was set, or the first one after it for goals set at the start of term
+  const before = attended.filter(r => dayOf(r.date) <= dayOf(goal.setDate));
+  const start = before.length > 0 ? before[before.length - 1] : attended[0];
+  const latest = attended[attended.length - 1];
+  const span = goal.targetNet - start.net;
+  const percent = span <= 0 ? 100 : Math.min(100, Math.max(0, Math.round((latest.net - start.net) / span * 100)));
+  const progress = { startNet: start.net, currentNet: latest.net, percent };
+
+  if (latest.net >= goal.targetNet) return { ...progress, status: 'REACHED', expectedNet: goal.targetNet };
+
+  const startDay = Math.max(dayOf(start.date), dayOf(goal.setDate));
+  const targetDay = dayOf(goal.targetDate);
+  const elapsed = targetDay > startDay ? Math.min(1, Math.max(0, (dayOf(latest.date) - startDay) / (targetDay - startDay))) : 1;
+  const expectedNet = round2(start.net + span * elapsed);
+  const missed = dayOf(today) > targetDay;
+  return { ...progress, status: !missed && latest.net >= expectedNet ? 'ON_TRACK' : 'OFF_TRACK', expectedNet };
+};
@@ -0,0 +1,149 @@
+import { Classroom, ExamResult, ImportChange, ImportSession, ImportSessionKind, Student, UserProfile } from '../types';
+
+// Every committed batch import is kept as a session holding the before/after state of each document
+// it wrote, so a wrong paste can be rolled back as a whole from the import history.
+
+export const IMPORT_KIND_LABELS: Record<ImportSessionKind, string> = {
+  STUDENTS: 'Öğrenci Ekleme',
+  RESULTS: 'Hızlı Sonuç Girişi',
+  CLASS_CHANGE: 'Sınıf Değişimi',
+  RESULT_FILE: 'Dosyadan Sonuç'
+};
+
+type ChangeCollection = ImportChange['collection'];
+
+export interface ImportState {
+  students: Student[];
+  classes: Classroom[];
+  exams: ExamResult[];
+}
+
+const newId = () => Date.now().toString() + Math.floor(Math.random() * 100000).toString();
+
+// Stored without ownerId; it is stamped again when a snapshot is written back
+const snapshot = (doc: object): Record<string, any> => {
+  const { ownerId, ...rest } = JSON.parse(JSON.stringify(doc));
+  return rest;
+};
+
+const canonical = (doc: Record<string, any>) => {
+  const data = snapshot(doc);
+  return JSON.stringify(Object.keys(data).sort().map(k => [k, data[k]]));
+};
+
+export const createImportSession = (kind: ImportSessionKind, profile: UserProfile): ImportSession => ({
+  id: newId(),
+  kind,
+  createdAt: new Date().toISOString(),
+  createdBy: profile.id,
+  createdByEmail: profile.email,
+  summary: '',
+  changes: []
+});
+
+// Records a written document; a second write to the same document keeps the original `before`
+export const recordImportChange = (session: ImportSession, collection: ChangeCollection, before: object | null | undefined, after: object & { id: string }) => {
+  const existing = session.changes.find(c => c.collection === collection && c.id === after.id);
+  if (existing) {
+    existing.after = snapshot(after);
+    return;
+  }
+  session.changes.push({ collection, id: after.id, before: before ? snapshot(before) : null, after: snapshot(after) });
+};
+
+const currentDocs = (state: ImportState, collection: ChangeCollection): { id: string }[] => {
+  if (collection === 'students') return state.students;
+  if (collection === 'classrooms') return state.classes;
+  return state.exams;
+};
+
+export interface RollbackPlan {
+  restore: ImportChange[]; // Written back to their `before` state
+  remove: ImportChange[]; // Created by the import, deleted again
+  conflicts: ImportChange[]; // Changed or deleted after the import; rolling back discards those edits
+  keptClasses: Classroom[]; // Classes created by the import that still hold other students
+  laterResults: ExamResult[]; // Entered after the import for students it created; removed with them (also in `remove`)
+}
+
+export const planRollback = (session: ImportSession, state: ImportState): RollbackPlan => {
+  const plan: RollbackPlan = { restore: [], remove: [], conflicts: [], keptClasses: [], laterResults: [] };
+  const findCurrent = (change: ImportChange) => currentDocs(state, change.collection).find(d => d.id === change.id) as Record<string, any> | undefined;
+
+  session.changes.forEach(change => {
+    const current = findCurrent(change);
+    if (!current) {
+      // Created by the import and already gone: nothing left to undo
+      if (!change.before) return;
+      plan.conflicts.push(change);
+    } else if (canonical(current) !== canonical(change.after)) {
+      plan.conflicts.push(change);
+    }
+    if (change.before) plan.restore.push(change);
+    else if (change.collection !== 'classrooms') plan.remove.push(change);
+  });
+
+  // A new class is only removed when no student would be left in it after the rollback
+  const removedStudentIds = new Set(plan.remove.filter(c => c.collection === 'students').map(c => c.id));
+
+  // Results entered later for the students the import created would be left without a student
+  const changedResultIds = new Set(session.changes.filter(c => c.collection === 'examResults').map(c => c.id));
+  plan.laterResults = state.exams.filter(r => removedStudentIds.has(r.studentId) && !changedResultIds.has(r.id));
+  plan.laterResults.forEach(r => plan.remove.push({ collection: 'examResults', id: r.id, before: null, after: snapshot(r) }));
+
+  const restoredStudents = new Map(plan.restore.filter(c => c.collection === 'students').map(c => [c.id, c.before!]));
+  const remainingClassIds = new Set(state.students
+    .filter(s => !removedStudentIds.has(s.id))
+    .map(s => restoredStudents.get(s.id)?.classroomId ?? s.classroomId));
+
+  session.changes.filter(c => c.collection === 'classrooms' && !c.before).forEach(change => {
+    const current = findCurrent(change);
+    if (!current) return;
+    if (remainingClassIds.has(change.id)) plan.keptClasses.push(current as Classroom);
+    else plan.remove.push(change);
+  });
+
+  return plan;
+};
+
+export const hasRollbackChanges = (plan: RollbackPlan) => plan.restore.length + plan.remove.length > 0;
+
+// The part of a rollback that got written before a failure; documents are restored first, then removed
+export const takeRollbackPrefix = (plan: RollbackPlan, written: number): RollbackPlan => ({
+  ...plan,
+  restore: plan.restore.slice(0, written),
+  remove: plan.remove.slice(0, Math.max(0, written - plan.restore.length))
+});
+
+// Applies a rollback to in-memory documents of one collection
+export const applyRollback = <T extends { id: string }>(docs: T[], collection: ChangeCollection, plan: RollbackPlan): T[] => {
+  const removed = new Set(plan.remove.filter(c => c.collection === collection).map(c => c.id));
+  const restored = new Map(plan.restore.filter(c => c.collection === collection).map(c => [c.id, c.before as T]));
+  const next = docs.filter(d => !removed.has(d.id)).map(d => restored.get(d.id) ?? d);
+  restored.forEach((doc, id) => {
+    if (!docs.some(d => d.id === id)) next.push(doc);
+  });
+  return next;
+};
+
+const ACTION_LABELS: Record<ChangeCollection, [string, string]> = {
+  students: ['Öğrenci eklendi', 'Öğrenci güncellendi'],
+  classrooms: ['Sınıf eklendi', 'Sınıf güncellendi'],
+  examResults: ['Sonuç eklendi', 'Sonuç güncellendi']
+};
+
+// One line per change for the history details
+export const describeImportChange = (change: ImportChange, state: ImportState): string => {
+  const action = ACTION_LABELS[change.collection][change.before ? 1 : 0];
+  const doc = change.after;
+  if (change.collection === 'classrooms') return `${action}: ${doc.name}`;
+  if (change.collection === 'students') {
+    const className = (id: string) => state.classes.find(c => c.id === id)?.name || '?';
+    const move = change.before && change.before.classroomId !== doc.classroomId ? ` (${className(change.before.classroomId)} → ${className(doc.classroomId)})` : '';
+    return `${action}: ${doc.name} ${doc.surname}${move}`;
+  }
+  const student = state.students.find(s => s.id === doc.studentId);
+  const who = student ? `${student.name} ${student.surname}` : 'Bilinmeyen öğrenci';
+  const score = doc.status === 'MISSING' ? 'girmedi' : `${doc.net} net`;
+  const previous = change.before ? (change.before.status === 'MISSING' ? 'girmedi' : `${change.before.net} net`) + ' → ' : '';
+  return `${action}: ${who} · ${doc.examName} (${previous}${score})`;
+};
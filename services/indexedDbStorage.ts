@@ -0,0 +1,101 @@
+import { CollectionName, StorageAdapter, WriteOperation, applyStorageQuery } from './storageAdapter';
+
+const DB_NAME = 'englishnet';
+const DB_VERSION = 6;
+const STORES: CollectionName[] = ['students', 'classrooms', 'examResults', 'examDefinitions', 'importSessions', 'shareLinks', 'terms', 'auditLog', 'trash'];
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const database = request.result;
+    STORES.forEach(name => {
+      if (!database.objectStoreNames.contains(name)) {
+        database.createObjectStore(name, { keyPath: 'id' }).createIndex('ownerId', 'ownerId');
+      }
+    });
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Stores everything in the browser so EnglishNet can run without a Firebase project.
+export const createIndexedDbStorage = (): StorageAdapter => {
+  let databasePromise: Promise<IDBDatabase> | null = null;
+  const getDatabase = () => {
+    if (!databasePromise) databasePromise = openDatabase();
+    return databasePromise;
+  };
+
+  // Runs all operations in one readwrite transaction: either every write lands or none does. The promise is
+  // settled only by the transaction's own events; a failed request aborts it, so onabort covers every error.
+  const runWrites = async (operations: WriteOperation[]) => {
+    if (operations.length === 0) return;
+    const database = await getDatabase();
+    const storeNames = Array.from(new Set(operations.map(op => op.collection)));
+    const tx = database.transaction(storeNames, 'readwrite');
+    await new Promise<void>((resolve, reject) => {
+      let failure: Error | null = null;
+      tx.oncomplete = () => resolve();
+      tx.onabort = () => reject(failure || tx.error || new Error('Transaction aborted'));
+
+      // Operations are issued in order; an update waits for its read so later operations see its result
+      const applyFrom = (index: number) => {
+        for (let i = index; i < operations.length; i++) {
+          const op = operations[i];
+          const store = tx.objectStore(op.collection);
+          if (op.type === 'set') {
+            store.put({ ...op.data, id: op.data.id ?? op.id });
+          } else if (op.type === 'delete') {
+            store.delete(op.id);
+          } else {
+            const request = store.get(op.id);
+            request.onsuccess = () => {
+              if (!request.result) {
+                failure = new Error(`Document ${op.collection}/${op.id} does not exist`);
+                tx.abort();
+                return;
+              }
+              store.put({ ...request.result, ...op.data });
+              applyFrom(i + 1);
+            };
+            return;
+          }
+        }
+      };
+      applyFrom(0);
+    });
+  };
+
+  const fetchAll = async (collectionName: CollectionName, ownerId: string): Promise<Record<string, any>[]> => {
+    const database = await getDatabase();
+    const store = database.transaction(collectionName, 'readonly').objectStore(collectionName);
+    return promisify(store.index('ownerId').getAll(ownerId));
+  };
+
+  return {
+    backend: 'indexeddb',
+
+    fetchAll,
+
+    query: async (collectionName, ownerId, query) => applyStorageQuery(await fetchAll(collectionName, ownerId), query),
+
+    fetchById: async (collectionName, id) => {
+      const database = await getDatabase();
+      const found = await promisify(database.transaction(collectionName, 'readonly').objectStore(collectionName).get(id));
+      return found ?? null;
+    },
+
+    set: (collectionName, id, data) => runWrites([{ type: 'set', collection: collectionName, id, data }]),
+
+    update: (collectionName, id, data) => runWrites([{ type: 'update', collection: collectionName, id, data }]),
+
+    remove: (collectionName, id) => runWrites([{ type: 'delete', collection: collectionName, id }]),
+
+    commit: (operations) => runWrites(operations)
+  };
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { countRepairWrites, createExamKeyResolver, planMergeDuplicates, scanIntegrity } from './integrity';
+import { Classroom, ExamDefinition, ExamResult, Student, UserProfile } from '../types';
+
+const classes: Classroom[] = [{ id: 'c1', name: '8A' }];
+const students: Student[] = [{ id: 's1', name: 'Ece', surname: 'Yılmaz', classroomId: 'c1' }];
+const definitions: ExamDefinition[] = [
+  { id: 'd1', name: 'Deneme 1', date: '2024-03-01' },
+  { id: 'd2', name: 'Deneme 1', date: '2025-03-01' } // The name reused in the next school year
+];
+const profile: UserProfile = { id: 'u1', email: 'ogretmen@okul.k12.tr', role: 'ADMIN', workspaceId: 'w1', classroomIds: [] };
+
+const result = (id: string, fields: Partial<ExamResult>): ExamResult => ({
+  id, studentId: 's1', examName: 'Deneme 1', date: '2024-03-01', correct: 5, incorrect: 0, empty: 5, net: 5, status: 'ATTENDED', ...fields
+});
+
+describe('createExamKeyResolver', () => {
+  const examKey = createExamKeyResolver(definitions);
+
+  it('keys a linked result by its definition and day', () => {
+    expect(examKey(result('r1', { examId: 'd1', date: '2024-03-01T09:00:00.000Z' }))).toBe('d1|2024-03-01');
+  });
+
+  it('keys a legacy name-only result as the one same-named definition of its day', () => {
+    expect(examKey(result('r1', { examName: ' deneme  1 ' }))).toBe('d1|2024-03-01');
+    expect(examKey(result('r2', { date: '2025-03-01' }))).toBe('d2|2025-03-01');
+  });
+
+  it('keeps the name when no definition or several share the name and day', () => {
+    expect(examKey(result('r1', { date: '2024-06-01' }))).toBe('name:deneme 1|2024-06-01');
+    const twice = createExamKeyResolver([...definitions, { id: 'd3', name: 'Deneme 1', date: '2024-03-01' }]);
+    expect(twice(result('r1', {}))).toBe('name:deneme 1|2024-03-01');
+  });
+});
+
+describe('scanIntegrity', () => {
+  const scan = (exams: ExamResult[]) => scanIntegrity({ students, classes, exams, examDefinitions: definitions });
+
+  it('catches a legacy and a linked copy of the same exam, keeping the attended one', () => {
+    const { duplicateGroups } = scan([result('10', { examId: 'd1', status: 'MISSING' }), result('9', {})]);
+    expect(duplicateGroups).toHaveLength(1);
+    expect(duplicateGroups[0].keep.id).toBe('9');
+    expect(duplicateGroups[0].drop.map(r => r.id)).toEqual(['10']);
+  });
+
+  it('prefers a result with answers, then the newest one on a tie', () => {
+    expect(scan([result('10', {}), result('9', { answers: 'ABCDE-----' })]).duplicateGroups[0].keep.id).toBe('9');
+    expect(scan([result('9', {}), result('10', {})]).duplicateGroups[0].keep.id).toBe('10');
+  });
+
+  it('does not take the same exam name on different days for a duplicate', () => {
+    const report = scan([result('r1', { examId: 'd1' }), result('r2', { date: '2025-03-01' })]);
+    expect(report.duplicateGroups).toEqual([]);
+    expect(report.unlinkedResults.map(u => [u.result.id, u.candidates.map(d => d.id)])).toEqual([['r2', ['d2']]]);
+  });
+
+  it('finds results of removed students and students of removed classes', () => {
+    const report = scanIntegrity({
+      students: [...students, { id: 's2', name: 'Ada', surname: 'Kaya', classroomId: 'gone' }],
+      classes, exams: [result('r1', { examId: 'd1', studentId: 'gone' })], examDefinitions: definitions
+    });
+    expect(report.orphanResults.map(r => r.id)).toEqual(['r1']);
+    expect(report.orphanStudents.map(s => s.id)).toEqual(['s2']);
+  });
+});
+
+describe('planMergeDuplicates', () => {
+  it('moves every dropped result to the trash', () => {
+    const groups = [{ keep: result('1', {}), drop: [result('2', {}), result('3', {})] }];
+    const repair = planMergeDuplicates(groups, profile);
+    expect(repair.trashItems.flatMap(item => item.docs.map(d => d.data.id))).toEqual(['2', '3']);
+    expect(countRepairWrites(repair)).toBe(2);
+  });
+});
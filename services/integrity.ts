@@ -0,0 +1,167 @@
+import { Classroom, ExamDefinition, ExamResult, Student, TrashItem, UserProfile } from '../types';
+import { trashExamResults } from './trash';
+
+// Maintenance scan over the raw data of every term. Each kind of inconsistency is listed together with
+// the repair it needs; repairs are plain lists of writes so they go through the chunked write pipeline.
+
+export type IntegrityIssueKind = 'ORPHAN_RESULT' | 'UNLINKED_RESULT' | 'DUPLICATE_RESULT' | 'ORPHAN_STUDENT';
+
+export const INTEGRITY_ISSUE_LABELS: Record<IntegrityIssueKind, { title: string, description: string }> = {
+  ORPHAN_RESULT: {
+    title: 'Öğrencisi silinmiş sonuçlar',
+    description: 'Artık olmayan bir öğrenciye ait sonuçlar. Hiçbir ekranda görünmezler; çöp kutusuna taşınabilirler.'
+  },
+  UNLINKED_RESULT: {
+    title: 'Denemeye bağlı olmayan sonuçlar',
+    description: 'Deneme kimliği olmayan ya da silinmiş bir denemeyi gösteren sonuçlar; yalnızca deneme adıyla eşleşiyorlar. Aynı ad ve tarihte tek bir deneme varsa ona bağlanabilirler.'
+  },
+  DUPLICATE_RESULT: {
+    title: 'Aynı denemede birden fazla sonuç',
+    description: 'Bir öğrencinin aynı gün aynı denemeden birden çok sonucu var. Birleştirme en iyi kaydı tutar (katıldı, cevaplı, en yeni) ve diğerlerini çöp kutusuna taşır.'
+  },
+  ORPHAN_STUDENT: {
+    title: 'Sınıfı olmayan öğrenciler',
+    description: 'Sınıfı silinmiş öğrenciler hiçbir sınıf listesinde görünmez. Bir sınıfa taşınabilir ya da çöp kutusuna atılabilirler.'
+  }
+};
+
+export interface IntegrityData {
+  students: Student[];
+  classes: Classroom[];
+  exams: ExamResult[];
+  examDefinitions: ExamDefinition[];
+}
+
+export interface UnlinkedResult {
+  result: ExamResult;
+  candidates: ExamDefinition[]; // Definitions with the same name and date; relinking needs exactly one
+}
+
+export interface DuplicateGroup {
+  keep: ExamResult;
+  drop: ExamResult[];
+}
+
+export interface IntegrityReport {
+  orphanResults: ExamResult[];
+  unlinkedResults: UnlinkedResult[];
+  duplicateGroups: DuplicateGroup[];
+  orphanStudents: Student[];
+}
+
+// Writes a repair needs, in the order they are written; removed results go to the trash
+export interface IntegrityRepair {
+  updateResults: ExamResult[];
+  trashItems: TrashItem[];
+  updateStudents: Student[];
+}
+
+const normName = (name: string) => (name || '').trim().toLocaleLowerCase('tr').replace(/\s+/g, ' ');
+
+const dayOf = (date: string) => (date || '').slice(0, 10);
+
+// Best first: an attended result, then one with answers, then the newest (ids are creation timestamps)
+export const compareResultsForKeep = (a: ExamResult, b: ExamResult) => {
+  const attended = Number(b.status !== 'MISSING') - Number(a.status !== 'MISSING');
+  if (attended !== 0) return attended;
+  const answered = Number(!!b.answers) - Number(!!a.answers);
+  if (answered !== 0) return answered;
+  return b.id.localeCompare(a.id, undefined, { numeric: true });
+};
+
+const groupDefinitionsByName = (examDefinitions: ExamDefinition[]) => {
+  const defsByName = new Map<string, ExamDefinition[]>();
+  examDefinitions.forEach(d => defsByName.set(normName(d.name), [...(defsByName.get(normName(d.name)) || []), d]));
+  return defsByName;
+};
+
+// Same-named definitions of the result's day: an exam name reused in another term is a different exam
+const findNameCandidates = (defsByName: Map<string, ExamDefinition[]>, r: ExamResult) =>
+  (defsByName.get(normName(r.examName)) || []).filter(d => dayOf(d.date) === dayOf(r.date));
+
+// Which sitting of an exam a result belongs to: its definition (legacy results count as the definition they can
+// be relinked to) and its day, so results of different dates are never taken for the same exam
+export const createExamKeyResolver = (examDefinitions: ExamDefinition[]) => {
+  const defIds = new Set(examDefinitions.map(d => d.id));
+  const defsByName = groupDefinitionsByName(examDefinitions);
+  return (r: ExamResult) => {
+    if (r.examId && defIds.has(r.examId)) return `${r.examId}|${dayOf(r.date)}`;
+    const candidates = findNameCandidates(defsByName, r);
+    return candidates.length === 1 ? `${candidates[0].id}|${dayOf(r.date)}` : `name:${normName(r.examName)}|${dayOf(r.date)}`;
+  };
+};
+
+export const scanIntegrity = (data: IntegrityData): IntegrityReport => {
+  const studentIds = new Set(data.students.map(s => s.id));
+  const classIds = new Set(data.classes.map(c => c.id));
+  const defIds = new Set(data.examDefinitions.map(d => d.id));
+  const defsByName = groupDefinitionsByName(data.examDefinitions);
+
+  const orphanResults = data.exams.filter(r => !studentIds.has(r.studentId));
+  const owned = data.exams.filter(r => studentIds.has(r.studentId));
+
+  const unlinkedResults = owned
+    .filter(r => !r.examId || !defIds.has(r.examId))
+    .map(result => ({ result, candidates: findNameCandidates(defsByName, result) }));
+
+  // Legacy and linked copies of the same exam are caught together
+  const examKey = createExamKeyResolver(data.examDefinitions);
+  const groups = new Map<string, ExamResult[]>();
+  owned.forEach(r => {
+    const key = `${r.studentId}|${examKey(r)}`;
+    groups.set(key, [...(groups.get(key) || []), r]);
+  });
+  const duplicateGroups = Array.from(groups.values())
+    .filter(results => results.length > 1)
+    .map(results => {
+      const [keep, ...drop] = results.slice().sort(compareResultsForKeep);
+      return { keep, drop };
+    });
+
+  const orphanStudents = data.students.filter(s => !classIds.has(s.classroomId));
+
+  return { orphanResults, unlinkedResults, duplicateGroups, orphanStudents };
+};
+
+export const countIntegrityIssues = (report: IntegrityReport) =>
+  report.orphanResults.length + report.unlinkedResults.length + report.duplicateGroups.length + report.orphanStudents.length;
+
+const emptyRepair = (): IntegrityRepair => ({ updateResults: [], trashItems: [], updateStudents: [] });
+
+export const getRelinkableResults = (unlinked: UnlinkedResult[]) => unlinked.filter(u => u.candidates.length === 1);
+
+// Points each result at the single definition with its name and takes over the definition's exact name
+export const planRelink = (unlinked: UnlinkedResult[]): IntegrityRepair => ({
+  ...emptyRepair(),
+  updateResults: getRelinkableResults(unlinked).map(u => ({ ...u.result, examId: u.candidates[0].id, examName: u.candidates[0].name }))
+});
+
+export const planMergeDuplicates = (groups: DuplicateGroup[], profile: UserProfile): IntegrityRepair => ({
+  ...emptyRepair(),
+  trashItems: trashExamResults(INTEGRITY_ISSUE_LABELS.DUPLICATE_RESULT.title, groups.flatMap(g => g.drop), profile)
+});
+
+export const planTrashResults = (results: ExamResult[], profile: UserProfile): IntegrityRepair => ({
+  ...emptyRepair(),
+  trashItems: trashExamResults(INTEGRITY_ISSUE_LABELS.ORPHAN_RESULT.title, results, profile)
+});
+
+export const planReassignStudents = (students: Student[], classroomId: string): IntegrityRepair => ({
+  ...emptyRepair(),
+  updateStudents: students.map(s => ({ ...s, classroomId }))
+});
+
+// The part of a repair that got written before a failure
+export const takeRepairPrefix = (repair: IntegrityRepair, written: number): IntegrityRepair => {
+  const updates = repair.updateResults.length;
+  const items = repair.trashItems.length;
+  return {
+    updateResults: repair.updateResults.slice(0, written),
+    trashItems: repair.trashItems.slice(0, Math.max(0, written - updates)),
+    updateStudents: repair.updateStudents.slice(0, Math.max(0, written - updates - items))
+  };
+};
+
+// Records a repair changes; a trash item counts as the results in it
+export const countRepairWrites = (repair: IntegrityRepair) =>
+  repair.updateResults.length + repair.trashItems.reduce((sum, item) => sum + item.docs.length, 0) + repair.updateStudents.length;
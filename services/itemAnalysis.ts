@@ -0,0 +1,71 @@
+import { ExamDefinition, ExamResult } from '../types';
+import { ANSWER_CHOICES, BLANK_ANSWER, getScoringPolicy, normalizeAnswerString } from './dataService';
+
+// Share of students taken as the upper and lower groups for the discrimination index
+const GROUP_RATIO = 0.27;
+
+export interface ItemStats {
+  index: number; // 0-based question position
+  key: string;
+  difficulty: number; // p-value: share of students answering correctly
+  discrimination: number; // p(upper 27%) - p(lower 27%)
+  choiceCounts: Record<string, number>; // A-E and BLANK_ANSWER
+}
+
+export interface ItemAnalysis {
+  studentCount: number;
+  items: ItemStats[];
+  kr20: number | null; // null when there are too few students or no score variance
+}
+
+const round = (value: number, digits = 2) => parseFloat(value.toFixed(digits));
+
+export const analyzeItems = (def: ExamDefinition, results: ExamResult[]): ItemAnalysis => {
+  const { questionCount } = getScoringPolicy(def);
+  const key = def.answerKey || '';
+
+  // Only attended results with a raw answer string can be analysed per question
+  const sheets = results
+    .filter(r => r.status !== 'MISSING' && r.answers)
+    .map(r => {
+      const answers = normalizeAnswerString(r.answers!, questionCount);
+      const marks = Array.from({ length: questionCount }, (_, i) => answers[i] !== BLANK_ANSWER && answers[i] === key[i] ? 1 : 0);
+      return { answers, marks, total: marks.reduce<number>((s, m) => s + m, 0) };
+    });
+
+  const n = sheets.length;
+  const ranked = [...sheets].sort((a, b) => b.total - a.total);
+  const groupSize = Math.max(1, Math.round(n * GROUP_RATIO));
+  const upper = ranked.slice(0, groupSize);
+  const lower = ranked.slice(-groupSize);
+
+  const items: ItemStats[] = Array.from({ length: questionCount }, (_, i) => {
+    const choiceCounts: Record<string, number> = {};
+    [...ANSWER_CHOICES, BLANK_ANSWER].forEach(c => { choiceCounts[c] = 0; });
+    sheets.forEach(s => { choiceCounts[s.answers[i]]++; });
+
+    const pOf = (group: typeof sheets) => group.length > 0 ? group.reduce((s, sh) => s + sh.marks[i], 0) / group.length : 0;
+    return {
+      index: i,
+      key: key[i] || '',
+      difficulty: round(pOf(sheets)),
+      discrimination: n > 1 ? round(pOf(upper) - pOf(lower)) : 0,
+      choiceCounts
+    };
+  });
+
+  let kr20: number | null = null;
+  if (n > 1 && questionCount > 1) {
+    const mean = sheets.reduce((s, sh) => s + sh.total, 0) / n;
+    const variance = sheets.reduce((s, sh) => s + (sh.total - mean) ** 2, 0) / n;
+    if (variance > 0) {
+      const pq = items.reduce((s, item) => {
+        const p = sheets.reduce((acc, sh) => acc + sh.marks[item.index], 0) / n;
+        return s + p * (1 - p);
+      }, 0);
+      kr20 = round((questionCount / (questionCount - 1)) * (1 - pq / variance));
+    }
+  }
+
+  return { studentCount: n, items, kr20 };
+};
@@ -0,0 +1,65 @@
+import { db } from './firebase';
+import { collection, getDocs, getDoc, doc, setDoc, deleteDoc, updateDoc, query, where } from 'firebase/firestore';
+import { User } from 'firebase/auth';
+import { MemberInvite, UserProfile } from '../types';
+
+const USERS_COL = 'users';
+const INVITES_COL = 'invites';
+
+// Loads the profile of the signed-in user, creating it on first sign-in.
+// A pending invite for the user's e-mail joins them to that workspace; otherwise
+// they become the head teacher (ADMIN) of a new workspace keyed by their own uid.
+// Null while a new account's e-mail is unverified: only a verified address may claim an invite, and
+// founding a workspace first would shut the invite out for good.
+export const ensureUserProfile = async (user: User): Promise<UserProfile | null> => {
+  const profileRef = doc(db, USERS_COL, user.uid);
+  const snap = await getDoc(profileRef);
+  if (snap.exists()) return { ...snap.data(), id: snap.id } as UserProfile;
+  if (!user.emailVerified) return null;
+
+  const email = (user.email || '').toLowerCase();
+  const inviteRef = doc(db, INVITES_COL, email);
+  const inviteSnap = email ? await getDoc(inviteRef) : null;
+  const invite = inviteSnap?.exists() ? inviteSnap.data() as MemberInvite : null;
+
+  const profile: UserProfile = invite
+    ? { id: user.uid, email, role: invite.role, workspaceId: invite.workspaceId, classroomIds: invite.classroomIds || [] }
+    : { id: user.uid, email, role: 'ADMIN', workspaceId: user.uid, classroomIds: [] };
+
+  await setDoc(profileRef, profile);
+  if (invite) await deleteDoc(inviteRef);
+  return profile;
+};
+
+// --- MEMBERS ---
+
+export const fetchMembers = async (workspaceId: string) => {
+  const snap = await getDocs(query(collection(db, USERS_COL), where('workspaceId', '==', workspaceId)));
+  return snap.docs.map(d => ({ ...d.data(), id: d.id })) as UserProfile[];
+};
+
+export const apiUpdateMember = async (member: UserProfile) => {
+  await updateDoc(doc(db, USERS_COL, member.id), {
+    role: member.role,
+    classroomIds: member.classroomIds
+  });
+};
+
+export const apiRemoveMember = async (id: string) => {
+  await deleteDoc(doc(db, USERS_COL, id));
+};
+
+// --- INVITES ---
+
+export const fetchInvites = async (workspaceId: string) => {
+  const snap = await getDocs(query(collection(db, INVITES_COL), where('workspaceId', '==', workspaceId)));
+  return snap.docs.map(d => ({ ...d.data(), id: d.id })) as MemberInvite[];
+};
+
+export const apiAddInvite = async (invite: MemberInvite) => {
+  await setDoc(doc(db, INVITES_COL, invite.id), { ...invite });
+};
+
+export const apiDeleteInvite = async (id: string) => {
+  await deleteDoc(doc(db, INVITES_COL, id));
+};
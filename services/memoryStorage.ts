@@ -0,0 +1,77 @@
+import { CollectionName, StorageAdapter, WriteOperation, applyStorageQuery } from './storageAdapter';
+
+type MemoryData = Partial<Record<CollectionName, Record<string, any>[]>>;
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// Keeps everything in memory; data is lost on reload. Useful for demos and for
+// exercising the app without a Firebase project. `seed` pre-populates collections.
+export const createMemoryStorage = (seed: MemoryData = {}): StorageAdapter => {
+  const collections = new Map<CollectionName, Map<string, Record<string, any>>>();
+
+  const getCollection = (name: CollectionName) => {
+    if (!collections.has(name)) collections.set(name, new Map());
+    return collections.get(name)!;
+  };
+
+  (Object.keys(seed) as CollectionName[]).forEach(name => {
+    seed[name]!.forEach(d => getCollection(name).set(d.id, clone(d)));
+  });
+
+  const apply = (op: WriteOperation) => {
+    const col = getCollection(op.collection);
+    if (op.type === 'set') col.set(op.id, clone({ ...op.data, id: op.data.id ?? op.id }));
+    else if (op.type === 'update') col.set(op.id, clone({ ...col.get(op.id), ...op.data }));
+    else col.delete(op.id);
+  };
+
+  const assertExists = (op: WriteOperation) => {
+    if (op.type === 'update' && !getCollection(op.collection).has(op.id)) {
+      throw new Error(`Document ${op.collection}/${op.id} does not exist`);
+    }
+  };
+
+  return {
+    backend: 'memory',
+
+    fetchAll: async (collectionName, ownerId) => {
+      return Array.from(getCollection(collectionName).values()).filter(d => d.ownerId === ownerId).map(clone);
+    },
+
+    query: async (collectionName, ownerId, query) => {
+      return applyStorageQuery(Array.from(getCollection(collectionName).values()).filter(d => d.ownerId === ownerId), query).map(clone);
+    },
+
+    fetchById: async (collectionName, id) => {
+      const found = getCollection(collectionName).get(id);
+      return found ? clone(found) : null;
+    },
+
+    set: async (collectionName, id, data) => {
+      apply({ type: 'set', collection: collectionName, id, data });
+    },
+
+    update: async (collectionName, id, data) => {
+      const op: WriteOperation = { type: 'update', collection: collectionName, id, data };
+      assertExists(op);
+      apply(op);
+    },
+
+    remove: async (collectionName, id) => {
+      apply({ type: 'delete', collection: collectionName, id });
+    },
+
+    // Validates every operation before applying any, so a failing batch changes nothing; like a Firestore
+    // batch, an update may follow the set of the same document
+    commit: async (operations) => {
+      const present = new Map<string, boolean>();
+      operations.forEach(op => {
+        const key = `${op.collection}/${op.id}`;
+        if (!present.has(key)) assertExists(op);
+        else if (op.type === 'update' && !present.get(key)) throw new Error(`Document ${key} does not exist`);
+        present.set(key, op.type !== 'delete');
+      });
+      operations.forEach(apply);
+    }
+  };
+};
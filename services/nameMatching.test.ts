@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { RESOLVE_NEW, RESOLVE_SKIP, foldName, matchStudentName } from './nameMatching';
+import { Classroom, Student } from '../types';
+
+const classes: Classroom[] = [{ id: 'c1', name: '8A' }, { id: 'c2', name: '8B' }];
+const students: Student[] = [
+  { id: 's1', name: 'Ece', surname: 'Yılmaz', classroomId: 'c1' },
+  { id: 's2', name: 'Ayşe Nur', surname: 'Kaya', classroomId: 'c1' },
+  { id: 's3', name: 'Can', surname: 'Demir', classroomId: 'c1' },
+  { id: 's4', name: 'Can', surname: 'Demir', classroomId: 'c2' }
+];
+
+describe('matchStudentName', () => {
+  it('folds Turkish letters to ASCII', () => {
+    expect(foldName('  ÇAĞLA Işık-Öztürk ')).toBe('cagla isik ozturk');
+  });
+
+  it('matches one student regardless of case, diacritics and word order', () => {
+    const match = matchStudentName('YILMAZ ece', students, classes);
+    expect(match).toMatchObject({ kind: 'MATCH', student: { id: 's1' } });
+  });
+
+  it('asks the teacher when several students have the same name', () => {
+    const match = matchStudentName('Can Demir', students, classes);
+    expect(match.kind).toBe('REVIEW');
+    expect(match.candidates.map(c => c.label)).toEqual(['Can Demir (8A)', 'Can Demir (8B)']);
+  });
+
+  it('offers similar names instead of matching them', () => {
+    expect(matchStudentName('Ece Yilmz', students, classes)).toMatchObject({ kind: 'REVIEW', candidates: [{ studentId: 's1' }] });
+    expect(matchStudentName('Ayşenur Kaya', students, classes)).toMatchObject({ kind: 'REVIEW', candidates: [{ studentId: 's2', score: 0.99 }] });
+  });
+
+  it('finds nothing for an unrelated name', () => {
+    expect(matchStudentName('Zeynep Arslan', students, classes)).toEqual({ kind: 'NONE', candidates: [] });
+  });
+
+  it('follows the teacher\'s choice', () => {
+    expect(matchStudentName('Can Demir', students, classes, 's4')).toMatchObject({ kind: 'MATCH', student: { id: 's4' } });
+    expect(matchStudentName('Can Demir', students, classes, RESOLVE_NEW).kind).toBe('NEW');
+    expect(matchStudentName('Can Demir', students, classes, RESOLVE_SKIP).kind).toBe('SKIP');
+  });
+});
@@ -0,0 +1,107 @@
+import { Classroom, Student } from '../types';
+
+// Similarity-based student lookup for imports. Names are folded to ASCII (ı/i, ş/s, ğ/g, ü/u, ö/o, ç/c),
+// compared token by token regardless of order, and tolerate typos and extra middle names.
+
+// Scores at or above this are offered to the teacher as possible matches
+const CANDIDATE_SCORE = 0.75;
+const MAX_CANDIDATES = 5;
+// Penalty per name part present on only one side (e.g. a middle name)
+const EXTRA_TOKEN_PENALTY = 0.08;
+
+const TURKISH_FOLD: Record<string, string> = { 'ı': 'i', 'ş': 's', 'ğ': 'g', 'ü': 'u', 'ö': 'o', 'ç': 'c', 'â': 'a', 'î': 'i', 'û': 'u' };
+
+export const foldName = (str: string) => str
+  .toLocaleLowerCase('tr')
+  .replace(/[ışğüöçâîû]/g, ch => TURKISH_FOLD[ch])
+  .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+  .replace(/[^a-z0-9]+/g, ' ')
+  .trim();
+
+const tokenize = (str: string) => foldName(str).split(' ').filter(t => t);
+
+const levenshtein = (a: string, b: string) => {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+};
+
+const ratio = (a: string, b: string) => a === b ? 1 : 1 - levenshtein(a, b) / Math.max(a.length, b.length, 1);
+
+// 1 means the same name up to diacritics, case and word order
+export const nameSimilarity = (a: string, b: string) => {
+  const ta = tokenize(a);
+  const tb = tokenize(b);
+  if (ta.length === 0 || tb.length === 0) return 0;
+  if ([...ta].sort().join(' ') === [...tb].sort().join(' ')) return 1;
+
+  // Pair every part of the shorter name with its most similar unused part of the longer one
+  const [short, long] = ta.length <= tb.length ? [ta, tb] : [tb, ta];
+  const unused = [...long];
+  let total = 0;
+  short.forEach(token => {
+    let best = 0; let bestIndex = -1;
+    unused.forEach((other, i) => {
+      const r = ratio(token, other);
+      if (r > best) { best = r; bestIndex = i; }
+    });
+    if (bestIndex >= 0) unused.splice(bestIndex, 1);
+    total += best;
+  });
+  const tokenScore = total / short.length - EXTRA_TOKEN_PENALTY * (long.length - short.length);
+
+  // Catches split / joined names ("Ayşe Nur" vs "Ayşenur")
+  const joined = Math.max(ratio(ta.join(''), tb.join('')), ratio(ta.join(''), [...tb].reverse().join('')));
+  return Math.max(0, Math.min(0.99, Math.max(tokenScore, joined)));
+};
+
+export interface NameCandidate {
+  studentId: string;
+  label: string; // "Ad Soyad (Sınıf)"
+  score: number;
+}
+
+// 'NEW' creates a student (student import only), 'SKIP' leaves the line out, otherwise a student id
+export type NameResolution = string;
+export const RESOLVE_NEW = 'NEW';
+export const RESOLVE_SKIP = 'SKIP';
+
+export type NameMatch =
+  | { kind: 'MATCH', student: Student, candidates: NameCandidate[] }
+  | { kind: 'REVIEW', candidates: NameCandidate[] }
+  | { kind: 'NONE', candidates: NameCandidate[] }
+  | { kind: 'NEW', candidates: NameCandidate[] }
+  | { kind: 'SKIP', candidates: NameCandidate[] };
+
+const candidateLabel = (s: Student, classes: Classroom[]) => {
+  const cls = classes.find(c => c.id === s.classroomId);
+  return `${s.name} ${s.surname}${cls ? ` (${cls.name})` : ''}`;
+};
+
+// Matches automatically only when exactly one student has the same name up to diacritics and order.
+// Similar names, or several students with the same name, need the teacher's decision (`resolution`).
+export const matchStudentName = (query: string, students: Student[], classes: Classroom[], resolution?: NameResolution): NameMatch => {
+  const scored = students
+    .map(s => ({ student: s, score: nameSimilarity(query, `${s.name} ${s.surname}`) }))
+    .filter(c => c.score >= CANDIDATE_SCORE)
+    .sort((a, b) => b.score - a.score);
+  const candidates = scored.slice(0, MAX_CANDIDATES).map(c => ({ studentId: c.student.id, label: candidateLabel(c.student, classes), score: Math.round(c.score * 100) / 100 }));
+
+  if (resolution === RESOLVE_NEW) return { kind: 'NEW', candidates };
+  if (resolution === RESOLVE_SKIP) return { kind: 'SKIP', candidates };
+  if (resolution) {
+    const chosen = students.find(s => s.id === resolution);
+    if (chosen) return { kind: 'MATCH', student: chosen, candidates };
+  }
+
+  const exact = scored.filter(c => c.score === 1);
+  if (exact.length === 1) return { kind: 'MATCH', student: exact[0].student, candidates };
+  if (candidates.length > 0) return { kind: 'REVIEW', candidates };
+  return { kind: 'NONE', candidates };
+};
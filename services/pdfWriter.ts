@@ -0,0 +1,180 @@
+// Minimal PDF 1.4 writer for generated reports (no dependency). Uses the built-in Helvetica fonts,
+// whose glyph set covers Turkish; the letters missing from WinAnsiEncoding are mapped through a
+// /Differences table. Coordinates are in points with the origin at the top-left of an A4 page.
+
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+export type Rgb = [number, number, number]; // 0-255 per channel
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: Rgb;
+  align?: 'left' | 'center' | 'right';
+}
+
+export interface ShapeOptions {
+  stroke?: Rgb;
+  fill?: Rgb;
+  lineWidth?: number;
+  dash?: number[];
+}
+
+export interface PdfDocument {
+  addPage: () => void;
+  pageCount: () => number;
+  text: (x: number, y: number, value: string, options?: TextOptions) => void;
+  line: (x1: number, y1: number, x2: number, y2: number, options?: ShapeOptions) => void;
+  polyline: (points: [number, number][], options?: ShapeOptions) => void;
+  rect: (x: number, y: number, width: number, height: number, options?: ShapeOptions) => void;
+  circle: (x: number, y: number, radius: number, options?: ShapeOptions) => void;
+  textWidth: (value: string, size: number, bold?: boolean) => number;
+  // Splits text into lines that fit `maxWidth`, keeping the teacher's own line breaks
+  wrapText: (value: string, maxWidth: number, size: number, bold?: boolean) => string[];
+  toBlob: () => Blob;
+}
+
+// Codes 128-133 are reassigned to the Turkish letters WinAnsiEncoding lacks
+const TURKISH_CODES: Record<string, number> = { 'Ğ': 128, 'ğ': 129, 'Ş': 130, 'ş': 131, 'İ': 132, 'ı': 133 };
+const DIFFERENCES = '[128 /Gbreve /gbreve /Scedilla /scedilla /Idotaccent /dotlessi]';
+const WIN_ANSI_EXTRAS: Record<string, number> = { '•': 149, '–': 150, '—': 151, '‘': 145, '’': 146, '“': 147, '”': 148 };
+const REPLACEMENTS: Record<string, string> = { '→': '>', '…': '...', '←': '<', '≥': '>=', '≤': '<=' };
+
+const encodeText = (value: string): string => {
+  let out = '';
+  for (const ch of Array.from(value).map(c => REPLACEMENTS[c] ?? c).join('')) {
+    const code = TURKISH_CODES[ch] ?? WIN_ANSI_EXTRAS[ch] ?? ch.charCodeAt(0);
+    if (ch === '\\' || ch === '(' || ch === ')') out += '\\' + ch;
+    else if (code >= 32 && code < 127) out += ch;
+    else if (code >= 128 && code <= 255) out += '\\' + code.toString(8).padStart(3, '0');
+    else out += '?';
+  }
+  return out;
+};
+
+const num = (value: number) => (Math.round(value * 100) / 100).toString();
+const color = (rgb: Rgb) => rgb.map(c => num(c / 255)).join(' ');
+
+let measureContext: CanvasRenderingContext2D | null | undefined;
+
+// Arial shares Helvetica's metrics, so the browser's canvas gives accurate widths
+const measure = (value: string, size: number, bold: boolean) => {
+  if (measureContext === undefined) {
+    measureContext = typeof document !== 'undefined' ? document.createElement('canvas').getContext('2d') : null;
+  }
+  if (!measureContext) return value.length * size * 0.5;
+  measureContext.font = `${bold ? 'bold ' : ''}${size}px Helvetica, Arial, sans-serif`;
+  return measureContext.measureText(value).width;
+};
+
+export const createPdfDocument = (): PdfDocument => {
+  const pages: string[][] = [];
+  const current = () => {
+    if (pages.length === 0) pages.push([]);
+    return pages[pages.length - 1];
+  };
+  const y = (top: number) => num(PAGE_HEIGHT - top);
+
+  const paint = (path: string, options: ShapeOptions, closed: boolean) => {
+    const ops: string[] = ['q'];
+    if (options.stroke) ops.push(`${color(options.stroke)} RG`);
+    if (options.fill) ops.push(`${color(options.fill)} rg`);
+    ops.push(`${num(options.lineWidth ?? 1)} w`);
+    if (options.dash) ops.push(`[${options.dash.map(num).join(' ')}] 0 d`);
+    ops.push(path);
+    const stroke = options.stroke || !options.fill;
+    ops.push(options.fill && closed ? (stroke ? 'B' : 'f') : 'S');
+    ops.push('Q');
+    current().push(ops.join('\n'));
+  };
+
+  const textWidth = (value: string, size: number, bold = false) => measure(value, size, bold);
+
+  return {
+    addPage: () => { pages.push([]); },
+
+    pageCount: () => pages.length,
+
+    text: (x, top, value, options = {}) => {
+      const size = options.size ?? 10;
+      const bold = !!options.bold;
+      const width = options.align && options.align !== 'left' ? textWidth(value, size, bold) : 0;
+      const left = options.align === 'center' ? x - width / 2 : options.align === 'right' ? x - width : x;
+      current().push(`BT ${color(options.color ?? [17, 24, 39])} rg /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${num(left)} ${y(top)} Td (${encodeText(value)}) Tj ET`);
+    },
+
+    line: (x1, y1, x2, y2, options = {}) => paint(`${num(x1)} ${y(y1)} m ${num(x2)} ${y(y2)} l`, { stroke: [156, 163, 175], ...options }, false),
+
+    polyline: (points, options = {}) => {
+      if (points.length < 2) return;
+      const path = points.map(([px, py], i) => `${num(px)} ${y(py)} ${i === 0 ? 'm' : 'l'}`).join(' ');
+      paint(path, { stroke: [156, 163, 175], ...options }, false);
+    },
+
+    rect: (x, top, width, height, options = {}) => paint(`${num(x)} ${y(top + height)} ${num(width)} ${num(height)} re`, options, true),
+
+    circle: (cx, cy, r, options = {}) => {
+      // Four Bézier arcs
+      const k = r * 0.5523;
+      const py = PAGE_HEIGHT - cy;
+      const path = [
+        `${num(cx + r)} ${num(py)} m`,
+        `${num(cx + r)} ${num(py + k)} ${num(cx + k)} ${num(py + r)} ${num(cx)} ${num(py + r)} c`,
+        `${num(cx - k)} ${num(py + r)} ${num(cx - r)} ${num(py + k)} ${num(cx - r)} ${num(py)} c`,
+        `${num(cx - r)} ${num(py - k)} ${num(cx - k)} ${num(py - r)} ${num(cx)} ${num(py - r)} c`,
+        `${num(cx + k)} ${num(py - r)} ${num(cx + r)} ${num(py - k)} ${num(cx + r)} ${num(py)} c`
+      ].join(' ');
+      paint(path, options, true);
+    },
+
+    textWidth,
+
+    wrapText: (value, maxWidth, size, bold = false) => {
+      const lines: string[] = [];
+      value.split('\n').forEach(paragraph => {
+        let line = '';
+        paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+          const candidate = line ? `${line} ${word}` : word;
+          if (line && textWidth(candidate, size, bold) > maxWidth) {
+            lines.push(line);
+            line = word;
+          } else {
+            line = candidate;
+          }
+        });
+        lines.push(line);
+      });
+      return lines;
+    },
+
+    toBlob: () => {
+      const contents = (pages.length > 0 ? pages : [[]]).map(ops => ops.join('\n'));
+      const pageIds = contents.map((_, i) => 6 + i * 2);
+      const objects: string[] = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${contents.length} >>`,
+        `<< /Type /Encoding /BaseEncoding /WinAnsiEncoding /Differences ${DIFFERENCES} >>`,
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding 3 0 R >>',
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding 3 0 R >>'
+      ];
+      contents.forEach((content, i) => {
+        objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`);
+        objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+      });
+
+      // Every byte is ASCII (non-ASCII text is octal-escaped), so string offsets are byte offsets
+      let out = '%PDF-1.4\n';
+      const offsets: number[] = [];
+      objects.forEach((body, i) => {
+        offsets.push(out.length);
+        out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+      });
+      const xref = out.length;
+      out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+      offsets.forEach(offset => { out += `${offset.toString().padStart(10, '0')} 00000 n \n`; });
+      out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+      return new Blob([out], { type: 'application/pdf' });
+    }
+  };
+};
@@ -0,0 +1,56 @@
+import { Classroom, ExamResult, ImportSession, ShareLink, Student, TrashItem, UserProfile, UserRole } from '../types';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  ADMIN: 'Zümre Başkanı',
+  TEACHER: 'Öğretmen',
+  ASSISTANT: 'Asistan (Salt Okunur)'
+};
+
+export const canManageClasses = (p: UserProfile) => p.role === 'ADMIN';
+
+// Definitions are shared by every class, so changing or deleting them is admin only
+export const canManageExamDefinitions = (p: UserProfile) => p.role === 'ADMIN';
+
+// Terms and the end-of-year promotion affect every class
+export const canManageTerms = (p: UserProfile) => p.role === 'ADMIN';
+
+export const canManageMembers = (p: UserProfile) => p.role === 'ADMIN';
+
+// Backups cover the whole workspace, so only the head teacher may export or restore them
+export const canManageBackups = (p: UserProfile) => p.role === 'ADMIN';
+
+// The integrity check repairs data of every class
+export const canRunIntegrityCheck = (p: UserProfile) => p.role === 'ADMIN';
+
+export const canWrite = (p: UserProfile) => p.role !== 'ASSISTANT';
+
+// Teachers see and undo only their own imports; the head teacher can undo any of them
+export const canRollbackImport = (p: UserProfile, session: ImportSession) => canWrite(p) && (p.role === 'ADMIN' || session.createdBy === p.id);
+
+export const canEditClass = (p: UserProfile, classroomId?: string) => {
+  if (p.role === 'ADMIN') return true;
+  return p.role === 'TEACHER' && !!classroomId && p.classroomIds.includes(classroomId);
+};
+
+export const canEditStudent = (p: UserProfile, student?: Student | null) => !!student && canEditClass(p, student.classroomId);
+
+// Links follow the student's class, so the same teachers who edit the student manage its parent links
+export const canManageShareLink = (p: UserProfile, link: ShareLink) => canEditClass(p, link.classroomId);
+
+// Student items follow the student's class; class and exam items carry no class and are admin only
+export const canManageTrashItem = (p: UserProfile, item: TrashItem) => canEditClass(p, item.classroomId);
+
+export const canViewClass = (p: UserProfile, classroomId: string) => p.role === 'ADMIN' || p.classroomIds.includes(classroomId);
+
+// Teachers and assistants only see the classes assigned to them (and those classes' students and results)
+export const scopeDataToProfile = <T extends { students: Student[], classes: Classroom[], exams: ExamResult[] }>(data: T, p: UserProfile): T => {
+  if (p.role === 'ADMIN') return data;
+  const students = data.students.filter(s => canViewClass(p, s.classroomId));
+  const studentIds = new Set(students.map(s => s.id));
+  return {
+    ...data,
+    students,
+    classes: data.classes.filter(c => canViewClass(p, c.id)),
+    exams: data.exams.filter(e => studentIds.has(e.studentId))
+  };
+};
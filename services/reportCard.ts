@@ -0,0 +1,308 @@
+import { Classroom, ExamDefinition, ExamResult, Student } from '../types';
+import { belongsTo, getMaxQuestionCount } from './dataService';
+import { PAGE_HEIGHT, PAGE_WIDTH, PdfDocument, Rgb, createPdfDocument } from './pdfWriter';
+import { createZip } from './zipArchive';
+import { downloadBlob, toFileName } from './download';
+
+// Per-student report card ("karne") for parent meetings, rendered straight to PDF in the browser.
+
+export interface ReportCardSource {
+  students: Student[];
+  classes: Classroom[];
+  exams: ExamResult[];
+  examDefinitions: ExamDefinition[];
+}
+
+export interface ReportCardRow {
+  def: ExamDefinition;
+  result?: ExamResult; // undefined when nothing was recorded for the student
+  classAverage: number | null;
+  schoolAverage: number | null;
+}
+
+export interface ReportCardData {
+  student: Student;
+  className: string;
+  rows: ReportCardRow[]; // oldest exam first
+  averageNet: number | null;
+  classAverage: number | null;
+  schoolAverage: number | null;
+  attendedCount: number;
+  missingCount: number;
+  maxQuestionCount: number;
+}
+
+export type ReportCardOutput = 'COMBINED' | 'SEPARATE';
+
+const average = (values: number[]) => values.length > 0 ? parseFloat((values.reduce((s, v) => s + v, 0) / values.length).toFixed(2)) : null;
+
+const isAttended = (result?: ExamResult) => !!result && result.status !== 'MISSING';
+
+// 'YYYY-MM-DD' -> 'DD.MM.YYYY' for printed documents
+export const formatDay = (date: string) => {
+  const [y, m, d] = date.split('-');
+  return y && m && d ? `${d}.${m}.${y}` : date;
+};
+
+export const buildReportCard = (student: Student, source: ReportCardSource): ReportCardData => {
+  const classStudentIds = new Set(source.students.filter(s => s.classroomId === student.classroomId).map(s => s.id));
+  const attended = source.exams.filter(e => e.status !== 'MISSING');
+  const classResults = attended.filter(e => classStudentIds.has(e.studentId));
+
+  const rows = source.examDefinitions
+    .slice()
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .map(def => ({
+      def,
+      result: source.exams.find(e => e.studentId === student.id && belongsTo(e, def)),
+      classAverage: average(classResults.filter(e => belongsTo(e, def)).map(e => e.net)),
+      schoolAverage: average(attended.filter(e => belongsTo(e, def)).map(e => e.net))
+    }));
+
+  const attendedRows = rows.filter(r => isAttended(r.result));
+  return {
+    student,
+    className: source.classes.find(c => c.id === student.classroomId)?.name || 'SINIFSIZ',
+    rows,
+    averageNet: average(attendedRows.map(r => r.result!.net)),
+    classAverage: average(classResults.map(e => e.net)),
+    schoolAverage: average(attended.map(e => e.net)),
+    attendedCount: attendedRows.length,
+    missingCount: rows.filter(r => r.result?.status === 'MISSING').length,
+    maxQuestionCount: getMaxQuestionCount(source.examDefinitions)
+  };
+};
+
+// --- TEACHER COMMENTS ---
+
+// Drafts are kept on this device so a half written set of comments survives closing the dialog
+const COMMENTS_KEY = 'englishnet.reportComments';
+
+export const loadReportComments = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(COMMENTS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const saveReportComments = (comments: Record<string, string>) => {
+  localStorage.setItem(COMMENTS_KEY, JSON.stringify(comments));
+};
+
+// --- RENDERING ---
+
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const BOTTOM = PAGE_HEIGHT - 50;
+
+const INDIGO: Rgb = [79, 70, 229];
+const DARK: Rgb = [17, 24, 39];
+const GRAY: Rgb = [107, 114, 128];
+const LIGHT: Rgb = [229, 231, 235];
+const ORANGE: Rgb = [234, 88, 12];
+const GREEN: Rgb = [22, 163, 74];
+const RED: Rgb = [220, 38, 38];
+const WHITE: Rgb = [255, 255, 255];
+
+const show = (value: number | null) => value === null ? '-' : value.toString();
+
+const truncate = (doc: PdfDocument, value: string, maxWidth: number, size: number) => {
+  if (doc.textWidth(value, size) <= maxWidth) return value;
+  let cut = value;
+  while (cut.length > 1 && doc.textWidth(cut + '...', size) > maxWidth) cut = cut.slice(0, -1);
+  return cut + '...';
+};
+
+const drawHeader = (doc: PdfDocument, data: ReportCardData, generatedAt: Date) => {
+  doc.rect(0, 0, PAGE_WIDTH, 64, { fill: INDIGO });
+  doc.text(MARGIN, 30, 'ÖĞRENCİ GELİŞİM KARNESİ', { size: 16, bold: true, color: WHITE });
+  doc.text(MARGIN, 48, 'EnglishNet · İngilizce Deneme Takibi', { size: 9, color: [224, 231, 255] });
+  doc.text(PAGE_WIDTH - MARGIN, 30, generatedAt.toLocaleDateString('tr-TR'), { size: 10, color: WHITE, align: 'right' });
+
+  doc.text(MARGIN, 96, `${data.student.name} ${data.student.surname}`.toLocaleUpperCase('tr'), { size: 18, bold: true, color: DARK });
+  doc.text(MARGIN, 114, `Sınıf: ${data.className}`, { size: 11, color: INDIGO, bold: true });
+  const total = data.rows.length;
+  doc.text(PAGE_WIDTH - MARGIN, 96, `Katılım: ${data.attendedCount} / ${total}`, { size: 11, bold: true, align: 'right' });
+  if (data.missingCount > 0) doc.text(PAGE_WIDTH - MARGIN, 114, `${data.missingCount} denemeye girmedi`, { size: 9, color: RED, align: 'right' });
+};
+
+// Student, class and school averages side by side with proportional bars
+const drawComparison = (doc: PdfDocument, data: ReportCardData, top: number) => {
+  const boxes: [string, number | null, Rgb][] = [
+    ['ÖĞRENCİ ORTALAMASI', data.averageNet, INDIGO],
+    ['SINIF ORTALAMASI', data.classAverage, ORANGE],
+    ['OKUL ORTALAMASI', data.schoolAverage, GRAY]
+  ];
+  const gap = 10;
+  const width = (CONTENT_WIDTH - gap * 2) / 3;
+  boxes.forEach(([label, value, tint], i) => {
+    const x = MARGIN + i * (width + gap);
+    doc.rect(x, top, width, 58, { stroke: LIGHT, fill: [249, 250, 251] });
+    doc.text(x + 10, top + 16, label, { size: 8, bold: true, color: GRAY });
+    doc.text(x + 10, top + 38, show(value), { size: 18, bold: true, color: tint });
+    doc.rect(x + 10, top + 45, width - 20, 5, { fill: LIGHT });
+    if (value !== null && value > 0) doc.rect(x + 10, top + 45, (width - 20) * Math.min(1, value / data.maxQuestionCount), 5, { fill: tint });
+  });
+  return top + 58;
+};
+
+const drawTrendChart = (doc: PdfDocument, data: ReportCardData, top: number) => {
+  doc.text(MARGIN, top + 12, 'NET GELİŞİM GRAFİĞİ', { size: 10, bold: true });
+  const chartTop = top + 24;
+  const height = 150;
+  const left = MARGIN + 24;
+  const width = CONTENT_WIDTH - 30;
+  const max = data.maxQuestionCount;
+  const yOf = (value: number) => chartTop + height - (Math.max(0, value) / max) * height;
+
+  for (let i = 0; i <= 4; i++) {
+    const value = (max / 4) * i;
+    const gy = yOf(value);
+    doc.line(left, gy, left + width, gy, { stroke: LIGHT, lineWidth: 0.5 });
+    doc.text(left - 6, gy + 3, parseFloat(value.toFixed(1)).toString(), { size: 7, color: GRAY, align: 'right' });
+  }
+
+  const rows = data.rows;
+  if (rows.length === 0) {
+    doc.text(left + width / 2, chartTop + height / 2, 'Henüz deneme yok', { size: 10, color: GRAY, align: 'center' });
+    return chartTop + height + 10;
+  }
+  const step = rows.length > 1 ? width / (rows.length - 1) : 0;
+  const xOf = (i: number) => rows.length > 1 ? left + i * step : left + width / 2;
+
+  const classPoints = rows.map((r, i) => r.classAverage === null ? null : [xOf(i), yOf(r.classAverage)] as [number, number]).filter((p): p is [number, number] => !!p);
+  doc.polyline(classPoints, { stroke: ORANGE, lineWidth: 1.5, dash: [4, 3] });
+
+  const studentPoints = rows.map((r, i) => isAttended(r.result) ? [xOf(i), yOf(r.result!.net)] as [number, number] : null).filter((p): p is [number, number] => !!p);
+  doc.polyline(studentPoints, { stroke: INDIGO, lineWidth: 2.5 });
+  studentPoints.forEach(([px, py]) => doc.circle(px, py, 3, { fill: INDIGO, stroke: WHITE, lineWidth: 1 }));
+
+  // Missed exams are marked on the axis so gaps in the line are explained
+  rows.forEach((r, i) => {
+    if (r.result?.status === 'MISSING') doc.text(xOf(i), chartTop + height - 4, 'G', { size: 8, bold: true, color: RED, align: 'center' });
+  });
+
+  const labelWidth = rows.length > 1 ? Math.max(20, step - 4) : width;
+  const labelEvery = Math.ceil(28 / Math.max(1, labelWidth));
+  rows.forEach((r, i) => {
+    if (i % labelEvery !== 0) return;
+    doc.text(xOf(i), chartTop + height + 12, truncate(doc, r.def.name, labelWidth * labelEvery, 7), { size: 7, color: GRAY, align: 'center' });
+  });
+
+  const legendY = chartTop + height + 28;
+  doc.line(left, legendY - 3, left + 16, legendY - 3, { stroke: INDIGO, lineWidth: 2.5 });
+  doc.text(left + 20, legendY, 'Öğrenci neti', { size: 8 });
+  doc.line(left + 90, legendY - 3, left + 106, legendY - 3, { stroke: ORANGE, lineWidth: 1.5, dash: [4, 3] });
+  doc.text(left + 110, legendY, 'Sınıf ortalaması', { size: 8 });
+  return legendY + 6;
+};
+
+const TABLE_COLUMNS: { label: string, width: number, align: 'left' | 'center' }[] = [
+  { label: 'DENEME', width: 185, align: 'left' },
+  { label: 'TARİH', width: 62, align: 'center' },
+  { label: 'D', width: 34, align: 'center' },
+  { label: 'Y', width: 34, align: 'center' },
+  { label: 'B', width: 34, align: 'center' },
+  { label: 'NET', width: 46, align: 'center' },
+  { label: 'SINIF ORT.', width: 60, align: 'center' },
+  { label: 'OKUL ORT.', width: 60, align: 'center' }
+];
+const ROW_HEIGHT = 18;
+
+const drawTableHeader = (doc: PdfDocument, top: number) => {
+  doc.rect(MARGIN, top, CONTENT_WIDTH, ROW_HEIGHT, { fill: DARK });
+  let x = MARGIN;
+  TABLE_COLUMNS.forEach(col => {
+    doc.text(col.align === 'center' ? x + col.width / 2 : x + 6, top + 12, col.label, { size: 7, bold: true, color: WHITE, align: col.align });
+    x += col.width;
+  });
+  return top + ROW_HEIGHT;
+};
+
+const drawHistoryTable = (doc: PdfDocument, data: ReportCardData, top: number) => {
+  doc.text(MARGIN, top + 12, 'DENEME GEÇMİŞİ', { size: 10, bold: true });
+  let y = drawTableHeader(doc, top + 20);
+  if (data.rows.length === 0) {
+    doc.text(MARGIN + 6, y + 12, 'Tanımlı deneme yok.', { size: 8, color: GRAY });
+    return y + ROW_HEIGHT;
+  }
+  // Newest first, like the history table in the app
+  data.rows.slice().reverse().forEach((row, i) => {
+    if (y + ROW_HEIGHT > BOTTOM) {
+      doc.addPage();
+      y = drawTableHeader(doc, MARGIN);
+    }
+    if (i % 2 === 1) doc.rect(MARGIN, y, CONTENT_WIDTH, ROW_HEIGHT, { fill: [243, 244, 246] });
+    const r = row.result;
+    const missing = r?.status === 'MISSING';
+    const cells = [
+      truncate(doc, row.def.name, TABLE_COLUMNS[0].width - 12, 8),
+      formatDay(row.def.date),
+      ...(isAttended(r) ? [r!.correct, r!.incorrect, r!.empty, r!.net].map(String) : [missing ? 'G' : '-', missing ? 'G' : '-', missing ? 'G' : '-', missing ? 'Girmedi' : '-']),
+      show(row.classAverage),
+      show(row.schoolAverage)
+    ];
+    let x = MARGIN;
+    cells.forEach((cell, c) => {
+      const col = TABLE_COLUMNS[c];
+      const tint: Rgb = missing && c >= 2 && c <= 5 ? RED : c === 2 && isAttended(r) ? GREEN : c === 3 && isAttended(r) ? RED : c === 5 ? INDIGO : DARK;
+      doc.text(col.align === 'center' ? x + col.width / 2 : x + 6, y + 12, cell, { size: 8, bold: c === 5 || c === 0, color: tint, align: col.align });
+      x += col.width;
+    });
+    y += ROW_HEIGHT;
+  });
+  doc.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y, { stroke: LIGHT });
+  return y;
+};
+
+const drawComment = (doc: PdfDocument, comment: string, top: number) => {
+  const lines = comment.trim() ? doc.wrapText(comment.trim(), CONTENT_WIDTH - 20, 9) : [];
+  const height = Math.max(60, lines.length * 13 + 34);
+  let y = top;
+  if (y + height > BOTTOM) {
+    doc.addPage();
+    y = MARGIN;
+  }
+  doc.rect(MARGIN, y, CONTENT_WIDTH, height, { stroke: LIGHT });
+  doc.text(MARGIN + 10, y + 16, 'ÖĞRETMEN GÖRÜŞÜ', { size: 9, bold: true, color: INDIGO });
+  lines.forEach((line, i) => doc.text(MARGIN + 10, y + 32 + i * 13, line, { size: 9 }));
+  return y + height;
+};
+
+// Adds one report card (one or more pages) to the document
+export const drawReportCard = (doc: PdfDocument, data: ReportCardData, comment: string, generatedAt = new Date()) => {
+  doc.addPage();
+  drawHeader(doc, data, generatedAt);
+  let y = drawComparison(doc, data, 132);
+  y = drawTrendChart(doc, data, y + 14);
+  y = drawHistoryTable(doc, data, y + 10);
+  y = drawComment(doc, comment, y + 16);
+  doc.text(PAGE_WIDTH - MARGIN, Math.min(PAGE_HEIGHT - 24, y + 28), 'Veli İmza: ....................................', { size: 9, color: GRAY, align: 'right' });
+};
+
+export const reportCardFileName = (data: ReportCardData) => `karne_${toFileName(data.className)}_${toFileName(`${data.student.name} ${data.student.surname}`)}.pdf`;
+
+// One student downloads a PDF; several students either share one combined PDF or get a ZIP with a PDF each
+export const exportReportCards = async (reports: { data: ReportCardData, comment: string }[], output: ReportCardOutput, archiveName: string) => {
+  const generatedAt = new Date();
+  if (reports.length === 1 || output === 'COMBINED') {
+    const doc = createPdfDocument();
+    reports.forEach(r => drawReportCard(doc, r.data, r.comment, generatedAt));
+    downloadBlob(doc.toBlob(), reports.length === 1 ? reportCardFileName(reports[0].data) : `${archiveName}.pdf`);
+    return;
+  }
+  const files = await Promise.all(reports.map(async r => {
+    const doc = createPdfDocument();
+    drawReportCard(doc, r.data, r.comment, generatedAt);
+    return { name: reportCardFileName(r.data), data: new Uint8Array(await doc.toBlob().arrayBuffer()) };
+  }));
+  // Students sharing a name in the same class would overwrite each other inside the archive
+  const seen = new Map<string, number>();
+  files.forEach(f => {
+    const count = (seen.get(f.name) || 0) + 1;
+    seen.set(f.name, count);
+    if (count > 1) f.name = f.name.replace(/\.pdf$/, `_${count}.pdf`);
+  });
+  downloadBlob(createZip(files), `${archiveName}.zip`);
+};
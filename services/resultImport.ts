@@ -0,0 +1,155 @@
+import { Classroom, ExamDefinition, ExamResult, Student } from '../types';
+import { SheetRows } from './spreadsheet';
+import { calculateScores, isAnswerString, scoreAnswers, validateAnswerString, validateResultCounts } from './dataService';
+import { NameCandidate, NameResolution, matchStudentName } from './nameMatching';
+
+// Column roles for spreadsheet result imports
+export type ResultColumn = 'IGNORE' | 'EXAM' | 'STUDENT' | 'NAME' | 'SURNAME' | 'CORRECT' | 'INCORRECT' | 'ANSWERS';
+
+export const RESULT_COLUMN_LABELS: Record<ResultColumn, string> = {
+  IGNORE: '— Kullanma —',
+  EXAM: 'Deneme Adı',
+  STUDENT: 'Ad Soyad',
+  NAME: 'Ad',
+  SURNAME: 'Soyad',
+  CORRECT: 'Doğru',
+  INCORRECT: 'Yanlış',
+  ANSWERS: 'Cevaplar'
+};
+
+export interface ImportedScores {
+  correct: number;
+  incorrect: number;
+  empty: number;
+  net: number;
+  answers?: string;
+}
+
+// A validated row, ready to be written to examResults
+export interface ImportedResult {
+  examDef: ExamDefinition;
+  student: Student;
+  scores: ImportedScores;
+}
+
+export interface ResultImportRow extends Partial<ImportedResult> {
+  rowNumber: number; // 1-based row in the file
+  examName: string;
+  studentName: string;
+  existingResultId?: string; // Set when the row will overwrite a saved result
+  error?: string;
+  needsReview?: boolean; // Student name matched only approximately; pick one of `candidates`
+  candidates?: NameCandidate[];
+}
+
+export interface ResultImportContext {
+  examDefinitions: ExamDefinition[];
+  students: Student[];
+  classes: Classroom[];
+  exams: ExamResult[];
+  fixedExamId?: string; // Used for every row when the file has no exam column
+  canEdit: (student: Student) => boolean;
+}
+
+const norm = (str: string) => str.trim().toLocaleLowerCase('tr').replace(/\s+/g, ' ');
+
+// Header keywords (normalised) for each column role; checked in order, first match wins
+const HEADER_KEYWORDS: [ResultColumn, string[]][] = [
+  ['EXAM', ['deneme', 'sınav', 'sinav', 'exam']],
+  ['STUDENT', ['ad soyad', 'adı soyadı', 'ad-soyad', 'öğrenci', 'ogrenci', 'isim', 'student']],
+  ['SURNAME', ['soyad', 'soyadı', 'surname', 'last name']],
+  ['NAME', ['ad', 'adı', 'name', 'first name']],
+  ['CORRECT', ['doğru', 'dogru', 'd', 'correct']],
+  ['INCORRECT', ['yanlış', 'yanlis', 'y', 'incorrect', 'wrong']],
+  ['ANSWERS', ['cevap', 'cevaplar', 'yanıt', 'yanıtlar', 'answers']]
+];
+
+const matchHeader = (cell: string): ResultColumn => {
+  const value = norm(cell);
+  for (const [column, keywords] of HEADER_KEYWORDS) {
+    if (keywords.some(k => value === k || (k.length > 2 && value.startsWith(k)))) return column;
+  }
+  return 'IGNORE';
+};
+
+// Guesses the mapping from the first row. `hasHeader` is false when nothing looked like a header.
+export const guessColumnMapping = (rows: SheetRows): { mapping: ResultColumn[], hasHeader: boolean } => {
+  const width = Math.max(0, ...rows.slice(0, 20).map(r => r.length));
+  const first = rows[0] || [];
+  const used = new Set<ResultColumn>();
+  const mapping = Array.from({ length: width }, (_, i) => {
+    const column = matchHeader(first[i] || '');
+    if (column === 'IGNORE' || used.has(column)) return 'IGNORE' as ResultColumn;
+    used.add(column);
+    return column;
+  });
+  return { mapping, hasHeader: used.size > 0 };
+};
+
+export const validateColumnMapping = (mapping: ResultColumn[], hasFixedExam: boolean): string | null => {
+  const has = (c: ResultColumn) => mapping.includes(c);
+  if (!has('EXAM') && !hasFixedExam) return "Deneme sütunu seçin veya tüm satırlar için bir deneme belirleyin.";
+  if (!has('STUDENT') && !(has('NAME') && has('SURNAME'))) return "Öğrenci için 'Ad Soyad' ya da 'Ad' ve 'Soyad' sütunlarını seçin.";
+  if (!has('ANSWERS') && !(has('CORRECT') && has('INCORRECT'))) return "'Doğru' ve 'Yanlış' sütunlarını ya da 'Cevaplar' sütununu seçin.";
+  const duplicate = mapping.find((c, i) => c !== 'IGNORE' && mapping.indexOf(c) !== i);
+  if (duplicate) return `'${RESULT_COLUMN_LABELS[duplicate]}' birden fazla sütuna atanmış.`;
+  return null;
+};
+
+// Resolves every data row against the current exams and students. Nothing is written here.
+// `resolutions` holds the teacher's student choice per row number for approximate name matches.
+export const buildResultImportRows = (rows: SheetRows, mapping: ResultColumn[], hasHeader: boolean, ctx: ResultImportContext, resolutions: Record<number, NameResolution> = {}): ResultImportRow[] => {
+  const cellOf = (row: string[], column: ResultColumn) => {
+    const index = mapping.indexOf(column);
+    return index >= 0 ? (row[index] || '').trim() : '';
+  };
+  const fixedExam = ctx.examDefinitions.find(d => d.id === ctx.fixedExamId);
+  const seen = new Set<string>();
+
+  return rows.slice(hasHeader ? 1 : 0).map((row, i): ResultImportRow => {
+    const rowNumber = i + (hasHeader ? 2 : 1);
+    const examName = cellOf(row, 'EXAM') || fixedExam?.name || '';
+    const studentName = cellOf(row, 'STUDENT') || `${cellOf(row, 'NAME')} ${cellOf(row, 'SURNAME')}`.trim();
+    const base = { rowNumber, examName, studentName };
+
+    const examDef = mapping.includes('EXAM') && cellOf(row, 'EXAM')
+      ? ctx.examDefinitions.find(d => norm(d.name) === norm(examName))
+      : fixedExam;
+    if (!examDef) return { ...base, error: examName ? `Tanımsız deneme: ${examName}` : "Deneme adı boş." };
+
+    if (!studentName) return { ...base, examDef, error: "Öğrenci adı boş." };
+    const match = matchStudentName(studentName, ctx.students, ctx.classes, resolutions[rowNumber]);
+    const candidates = match.kind === 'REVIEW' || resolutions[rowNumber] ? match.candidates : undefined;
+    if (match.kind === 'REVIEW') return { ...base, examDef, candidates, needsReview: true };
+    if (match.kind === 'SKIP') return { ...base, examDef, candidates, error: "Öğretmen tarafından atlandı." };
+    if (match.kind !== 'MATCH') return { ...base, examDef, error: "Öğrenci bulunamadı." };
+    const student = match.student;
+    if (!ctx.canEdit(student)) return { ...base, examDef, student, candidates, error: "Bu öğrencinin sınıfı için yetkiniz yok." };
+
+    const rawAnswers = cellOf(row, 'ANSWERS').replace(/\s/g, '-').toUpperCase();
+    let scores: ImportedScores;
+    if (mapping.includes('ANSWERS') && rawAnswers) {
+      const answerError = !isAnswerString(rawAnswers) ? "Cevap dizisi geçersiz." : validateAnswerString(rawAnswers, examDef);
+      if (answerError) return { ...base, examDef, student, candidates, error: answerError };
+      scores = scoreAnswers(rawAnswers, examDef);
+    } else {
+      const correctStr = cellOf(row, 'CORRECT');
+      const incorrectStr = cellOf(row, 'INCORRECT');
+      const correct = Number(correctStr);
+      const incorrect = Number(incorrectStr || 0);
+      if (!correctStr || !Number.isInteger(correct) || !Number.isInteger(incorrect)) {
+        return { ...base, examDef, student, candidates, error: "Doğru / yanlış sayısı geçersiz." };
+      }
+      const countError = validateResultCounts(correct, incorrect, examDef);
+      if (countError) return { ...base, examDef, student, candidates, error: countError };
+      scores = { correct, incorrect, ...calculateScores(correct, incorrect, examDef) };
+    }
+
+    const key = `${examDef.id}:${student.id}`;
+    if (seen.has(key)) return { ...base, examDef, student, candidates, scores, error: "Bu öğrenci bu deneme için dosyada birden fazla kez geçiyor." };
+    seen.add(key);
+
+    const existing = ctx.exams.find(r => r.studentId === student.id && r.examId === examDef.id);
+    return { ...base, examDef, student, candidates, scores, existingResultId: existing?.id };
+  });
+};
@@ -0,0 +1,9 @@
+// Registers public/sw.js in production builds; during development it would serve stale modules
+export const registerServiceWorker = () => {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('./sw.js').catch(error => {
+      console.error("Service worker registration failed:", error);
+    });
+  });
+};
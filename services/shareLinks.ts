@@ -0,0 +1,101 @@
+import { Classroom, ExamDefinition, ExamResult, ShareLink, ShareSnapshot, Student, UserProfile } from '../types';
+import { getMaxQuestionCount } from './dataService';
+
+// Parent share links: an unguessable token per student opens a read-only page (see ParentShareView).
+// Parents have no account, so the page never reads workspace data; it only gets the token's document,
+// which carries a snapshot of that one student's results kept up to date by the teacher's app.
+
+export const SHARE_PARAM = 'share';
+
+export const SHARE_DURATIONS: { days: number | null, label: string }[] = [
+  { days: 7, label: '1 hafta' },
+  { days: 30, label: '1 ay' },
+  { days: 120, label: '1 dönem (4 ay)' },
+  { days: null, label: 'Süresiz' }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 24 random bytes, base64url encoded (32 characters)
+export const generateShareToken = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return btoa(String.fromCharCode(...Array.from(bytes))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const getShareTokenFromUrl = () => new URLSearchParams(window.location.search).get(SHARE_PARAM);
+
+export const shareLinkUrl = (link: ShareLink) => {
+  const url = new URL(window.location.href);
+  url.search = `?${SHARE_PARAM}=${link.id}`;
+  url.hash = '';
+  return url.toString();
+};
+
+export type ShareLinkStatus = 'ACTIVE' | 'EXPIRED' | 'REVOKED';
+
+export const SHARE_STATUS_LABELS: Record<ShareLinkStatus, string> = {
+  ACTIVE: 'Aktif',
+  EXPIRED: 'Süresi doldu',
+  REVOKED: 'İptal edildi'
+};
+
+export const getShareLinkStatus = (link: ShareLink, now = Date.now()): ShareLinkStatus => {
+  if (link.revoked) return 'REVOKED';
+  if (link.expiresAt !== null && link.expiresAt <= now) return 'EXPIRED';
+  return 'ACTIVE';
+};
+
+export interface ShareSource {
+  classes: Classroom[];
+  exams: ExamResult[];
+  examDefinitions: ExamDefinition[];
+}
+
+// Only the student's own results, oldest first; nothing about classmates or averages
+export const buildShareSnapshot = (student: Student, source: ShareSource): ShareSnapshot => ({
+  studentName: `${student.name} ${student.surname}`,
+  className: source.classes.find(c => c.id === student.classroomId)?.name || '-',
+  maxQuestionCount: getMaxQuestionCount(source.examDefinitions),
+  results: source.exams
+    .filter(e => e.studentId === student.id)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .map(e => ({ examName: e.examName, date: e.date, correct: e.correct, incorrect: e.incorrect, empty: e.empty, net: e.net, status: e.status || 'ATTENDED' })),
+  updatedAt: new Date().toISOString()
+});
+
+export const createShareLink = (student: Student, days: number | null, source: ShareSource, profile: UserProfile): ShareLink => {
+  const createdAt = new Date();
+  return {
+    id: generateShareToken(),
+    studentId: student.id,
+    classroomId: student.classroomId,
+    createdAt: createdAt.toISOString(),
+    createdBy: profile.id,
+    expiresAt: days === null ? null : createdAt.getTime() + days * DAY_MS,
+    revoked: false,
+    snapshot: buildShareSnapshot(student, source)
+  };
+};
+
+// A fresh token for the same student and the same validity period; the old link stops working
+export const regenerateShareLink = (link: ShareLink, student: Student, source: ShareSource, profile: UserProfile): ShareLink => {
+  const days = link.expiresAt === null ? null : Math.max(1, Math.round((link.expiresAt - new Date(link.createdAt).getTime()) / DAY_MS));
+  return createShareLink(student, days, source, profile);
+};
+
+const sameSnapshot = (a: ShareSnapshot, b: ShareSnapshot) => JSON.stringify({ ...a, updatedAt: '' }) === JSON.stringify({ ...b, updatedAt: '' });
+
+// Active links whose snapshot no longer matches the student's data, with the snapshot refreshed
+export const findStaleShareLinks = (links: ShareLink[], students: Student[], source: ShareSource): ShareLink[] => {
+  const stale: ShareLink[] = [];
+  links.forEach(link => {
+    if (getShareLinkStatus(link) !== 'ACTIVE') return;
+    const student = students.find(s => s.id === link.studentId);
+    if (!student) return;
+    const snapshot = buildShareSnapshot(student, source);
+    if (!sameSnapshot(snapshot, link.snapshot) || link.classroomId !== student.classroomId) {
+      stale.push({ ...link, classroomId: student.classroomId, snapshot });
+    }
+  });
+  return stale;
+};
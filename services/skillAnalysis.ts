@@ -0,0 +1,41 @@
+import { ExamDefinition, ExamResult, SkillId, SkillScore } from '../types';
+import { BLANK_ANSWER, getScoringPolicy, hasAnswerKey, normalizeAnswerString } from './dataService';
+
+export const SKILLS: { id: Exclude<SkillId, ''>, label: string }[] = [
+  { id: 'GRAMMAR', label: 'Dilbilgisi' },
+  { id: 'VOCABULARY', label: 'Kelime' },
+  { id: 'READING', label: 'Okuma' },
+  { id: 'DIALOGUE', label: 'Diyalog Tamamlama' },
+  { id: 'SITUATION', label: 'Durum / Tepki' },
+  { id: 'LISTENING', label: 'Dinleme' },
+];
+
+export const getSkillLabel = (skill: SkillId) => SKILLS.find(s => s.id === skill)?.label || 'Etiketsiz';
+
+// Aggregates per-skill correctness over every result that has a raw answer string,
+// a matching definition with an answer key and at least one tagged question.
+export const calculateSkillProfile = (results: ExamResult[], defs: ExamDefinition[]): SkillScore[] => {
+  const totals = new Map<SkillId, { correct: number, total: number }>();
+
+  results.forEach(r => {
+    if (r.status === 'MISSING' || !r.answers) return;
+    const def = defs.find(d => d.id === r.examId);
+    if (!def || !hasAnswerKey(def) || !def.skillTags?.some(t => t)) return;
+
+    const answers = normalizeAnswerString(r.answers, getScoringPolicy(def).questionCount);
+    def.skillTags.forEach((skill, i) => {
+      if (!skill) return;
+      const entry = totals.get(skill) || { correct: 0, total: 0 };
+      entry.total++;
+      if (answers[i] !== BLANK_ANSWER && answers[i] === def.answerKey![i]) entry.correct++;
+      totals.set(skill, entry);
+    });
+  });
+
+  return SKILLS
+    .filter(s => totals.has(s.id))
+    .map(s => {
+      const { correct, total } = totals.get(s.id)!;
+      return { skill: s.id, label: s.label, correct, total, mastery: Math.round((correct / total) * 100) };
+    });
+};
@@ -0,0 +1,146 @@
+// Reads CSV and XLSX files into a grid of cell strings (rows x columns), without external libraries.
+// XLSX files are zip archives of XML parts; they are unpacked with the browser's DecompressionStream.
+
+export type SheetRows = string[][];
+
+export const SPREADSHEET_ACCEPT = '.csv,.tsv,.txt,.xlsx';
+
+// --- CSV ---
+
+const detectDelimiter = (firstLine: string) => {
+  const candidates = ['\t', ';', ','];
+  const counts = candidates.map(d => firstLine.split(d).length - 1);
+  const best = counts.indexOf(Math.max(...counts));
+  return counts[best] > 0 ? candidates[best] : ',';
+};
+
+export const parseCsv = (text: string): SheetRows => {
+  const input = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(input.split(/\r?\n/, 1)[0] || '');
+  const rows: SheetRows = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else cell += ch;
+    } else if (ch === '"' && cell === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(cell); cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell); rows.push(row);
+      row = []; cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || row.length > 0) { row.push(cell); rows.push(row); }
+  return rows.map(r => r.map(c => c.trim())).filter(r => r.some(c => c !== ''));
+};
+
+// --- ZIP ---
+
+const readZipEntries = async (buffer: ArrayBuffer) => {
+  const view = new DataView(buffer);
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) { eocd = i; break; }
+  }
+  if (eocd < 0) throw new Error("Geçersiz XLSX dosyası.");
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, () => Promise<string>>();
+
+  for (let n = 0; n < entryCount; n++) {
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    entries.set(name, async () => {
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const data = new Uint8Array(buffer, dataStart, compressedSize);
+      if (method === 0) return decoder.decode(data);
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Response(stream).text();
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+// --- XLSX ---
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, 'application/xml');
+const byTag = (node: Document | Element, tag: string) => Array.from(node.getElementsByTagNameNS('*', tag));
+
+// "AB12" -> 27 (0-based column index)
+const columnIndex = (ref: string) => {
+  const letters = ref.replace(/[0-9]/g, '');
+  let index = 0;
+  for (const ch of letters) index = index * 26 + (ch.charCodeAt(0) - 64);
+  return index - 1;
+};
+
+const resolveFirstSheetPath = async (entries: Map<string, () => Promise<string>>) => {
+  const workbook = entries.get('xl/workbook.xml');
+  const rels = entries.get('xl/_rels/workbook.xml.rels');
+  if (workbook && rels) {
+    const sheet = byTag(parseXml(await workbook()), 'sheet')[0];
+    const relId = sheet?.getAttribute('r:id') || sheet?.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id');
+    const rel = byTag(parseXml(await rels()), 'Relationship').find(r => r.getAttribute('Id') === relId);
+    const target = rel?.getAttribute('Target');
+    if (target) {
+      const path = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+      if (entries.has(path)) return path;
+    }
+  }
+  return Array.from(entries.keys()).filter(k => /^xl\/worksheets\/[^/]+\.xml$/.test(k)).sort()[0];
+};
+
+export const parseXlsx = async (buffer: ArrayBuffer): Promise<SheetRows> => {
+  const entries = await readZipEntries(buffer);
+  const sheetPath = await resolveFirstSheetPath(entries);
+  if (!sheetPath) throw new Error("XLSX dosyasında sayfa bulunamadı.");
+
+  const sharedStringsEntry = entries.get('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsEntry
+    ? byTag(parseXml(await sharedStringsEntry()), 'si').map(si => byTag(si, 't').map(t => t.textContent || '').join(''))
+    : [];
+
+  const rows: SheetRows = [];
+  byTag(parseXml(await entries.get(sheetPath)!()), 'row').forEach((rowEl, i) => {
+    const rowIndex = Number(rowEl.getAttribute('r') || i + 1) - 1;
+    const row: string[] = [];
+    byTag(rowEl, 'c').forEach((c, j) => {
+      const ref = c.getAttribute('r');
+      const col = ref ? columnIndex(ref) : j;
+      const type = c.getAttribute('t');
+      const raw = byTag(c, 'v')[0]?.textContent ?? '';
+      let value = raw;
+      if (type === 's') value = sharedStrings[Number(raw)] ?? '';
+      else if (type === 'inlineStr') value = byTag(c, 't').map(t => t.textContent || '').join('');
+      else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+      row[col] = value.trim();
+    });
+    rows[rowIndex] = Array.from(row, c => c ?? '');
+  });
+  return Array.from(rows, r => r ?? []).filter(r => r.some(c => c !== ''));
+};
+
+export const readSpreadsheetFile = async (file: File): Promise<SheetRows> => {
+  if (/\.xlsx$/i.test(file.name)) return parseXlsx(await file.arrayBuffer());
+  if (/\.xls$/i.test(file.name)) throw new Error("Eski .xls biçimi desteklenmiyor. Dosyayı .xlsx veya .csv olarak kaydedin.");
+  return parseCsv(await file.text());
+};
@@ -0,0 +1,108 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { StorageAdapter } from './storageAdapter';
+import { createMemoryStorage } from './memoryStorage';
+import { createIndexedDbStorage } from './indexedDbStorage';
+
+// The same contract for every local backend; Firestore is covered by the emulator, not here
+const backends: [string, () => StorageAdapter][] = [
+  ['memory', () => createMemoryStorage()],
+  ['indexeddb', () => createIndexedDbStorage()]
+];
+
+describe.each(backends)('%s storage', (_name, create) => {
+  let storage: StorageAdapter;
+
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+    storage = create();
+  });
+
+  it('reads documents back by owner and by id', async () => {
+    await storage.set('students', 's1', { id: 's1', name: 'Ece', ownerId: 'w1' });
+    await storage.set('students', 's2', { id: 's2', name: 'Ada', ownerId: 'w2' });
+
+    expect(await storage.fetchAll('students', 'w1')).toEqual([{ id: 's1', name: 'Ece', ownerId: 'w1' }]);
+    expect(await storage.fetchById('students', 's2')).toEqual({ id: 's2', name: 'Ada', ownerId: 'w2' });
+    expect(await storage.fetchById('students', 'missing')).toBeNull();
+  });
+
+  it('queries by field values, newest first and limited', async () => {
+    await storage.commit([
+      { type: 'set', collection: 'auditLog', id: 'a1', data: { id: 'a1', studentId: 's1', classroomId: 'c1', at: '2024-01-01', ownerId: 'w1' } },
+      { type: 'set', collection: 'auditLog', id: 'a2', data: { id: 'a2', studentId: 's1', classroomId: 'c1', at: '2024-03-01', ownerId: 'w1' } },
+      { type: 'set', collection: 'auditLog', id: 'a3', data: { id: 'a3', studentId: 's1', classroomId: 'c1', at: '2024-02-01', ownerId: 'w1' } },
+      { type: 'set', collection: 'auditLog', id: 'a4', data: { id: 'a4', studentId: 's2', classroomId: 'c2', at: '2024-04-01', ownerId: 'w1' } },
+      { type: 'set', collection: 'auditLog', id: 'a5', data: { id: 'a5', studentId: 's1', classroomId: 'c1', at: '2024-05-01', ownerId: 'w2' } }
+    ]);
+
+    const latest = await storage.query('auditLog', 'w1', { where: { studentId: ['s1'] }, orderByDesc: 'at', limit: 2 });
+    expect(latest.map(d => d.id)).toEqual(['a2', 'a3']);
+
+    const scoped = await storage.query('auditLog', 'w1', { where: { classroomId: ['c2', 'c3'] } });
+    expect(scoped.map(d => d.id)).toEqual(['a4']);
+  });
+
+  it('pages below a cursor without losing documents that share the sort value', async () => {
+    await storage.commit(['a1', 'a2', 'a3', 'a4'].map(id => (
+      { type: 'set' as const, collection: 'auditLog' as const, id, data: { id, at: id === 'a1' ? '2024-01-01' : '2024-02-01', ownerId: 'w1' } }
+    )));
+
+    const first = await storage.query('auditLog', 'w1', { where: {}, orderByDesc: 'at', limit: 2 });
+    expect(first.map(d => d.id)).toEqual(['a4', 'a3']);
+
+    const last = first[first.length - 1];
+    const next = await storage.query('auditLog', 'w1', { where: {}, orderByDesc: 'at', limit: 2, startAfter: { value: last.at, id: last.id } });
+    expect(next.map(d => d.id)).toEqual(['a2', 'a1']);
+  });
+
+  it('merges updates and removes documents', async () => {
+    await storage.set('students', 's1', { id: 's1', name: 'Ece', classroomId: 'c1', ownerId: 'w1' });
+    await storage.update('students', 's1', { classroomId: 'c2' });
+    expect(await storage.fetchById('students', 's1')).toEqual({ id: 's1', name: 'Ece', classroomId: 'c2', ownerId: 'w1' });
+
+    await storage.remove('students', 's1');
+    expect(await storage.fetchById('students', 's1')).toBeNull();
+  });
+
+  it('commits a batch in order', async () => {
+    await storage.commit([
+      { type: 'set', collection: 'students', id: 's1', data: { id: 's1', name: 'Ece', ownerId: 'w1' } },
+      { type: 'update', collection: 'students', id: 's1', data: { name: 'Ece Nur' } },
+      { type: 'set', collection: 'examResults', id: 'r1', data: { id: 'r1', studentId: 's1', ownerId: 'w1' } },
+      { type: 'delete', collection: 'examResults', id: 'r1' }
+    ]);
+
+    expect(await storage.fetchById('students', 's1')).toEqual({ id: 's1', name: 'Ece Nur', ownerId: 'w1' });
+    expect(await storage.fetchById('examResults', 'r1')).toBeNull();
+  });
+
+  it('rejects a batch with an update of a missing document and writes nothing', async () => {
+    await storage.set('students', 's1', { id: 's1', name: 'Ece', ownerId: 'w1' });
+
+    await expect(storage.commit([
+      { type: 'update', collection: 'students', id: 's1', data: { name: 'Ece Nur' } },
+      { type: 'set', collection: 'students', id: 's2', data: { id: 's2', name: 'Ada', ownerId: 'w1' } },
+      { type: 'update', collection: 'students', id: 'missing', data: { name: 'X' } }
+    ])).rejects.toThrow('students/missing');
+
+    expect(await storage.fetchById('students', 's1')).toEqual({ id: 's1', name: 'Ece', ownerId: 'w1' });
+    expect(await storage.fetchById('students', 's2')).toBeNull();
+  });
+
+  it('rejects an update of a document deleted earlier in the batch', async () => {
+    await storage.set('students', 's1', { id: 's1', name: 'Ece', ownerId: 'w1' });
+
+    await expect(storage.commit([
+      { type: 'delete', collection: 'students', id: 's1' },
+      { type: 'update', collection: 'students', id: 's1', data: { name: 'Ece Nur' } }
+    ])).rejects.toThrow('students/s1');
+
+    expect(await storage.fetchById('students', 's1')).toEqual({ id: 's1', name: 'Ece', ownerId: 'w1' });
+  });
+
+  it('rejects a single update of a missing document', async () => {
+    await expect(storage.update('students', 'missing', { name: 'X' })).rejects.toThrow('does not exist');
+  });
+});
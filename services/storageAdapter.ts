@@ -0,0 +1,83 @@
+// Storage backends behind dataService. Documents are plain JSON objects keyed by id;
+// every backend filters reads by the workspace `ownerId` stamped on each document.
+
+export type StorageBackend = 'firestore' | 'indexeddb' | 'memory';
+
+export type CollectionName = 'students' | 'classrooms' | 'examResults' | 'examDefinitions' | 'importSessions' | 'shareLinks' | 'terms' | 'auditLog' | 'trash';
+
+export type WriteOperation =
+  | { type: 'set', collection: CollectionName, id: string, data: Record<string, any> }
+  | { type: 'update', collection: CollectionName, id: string, data: Record<string, any> }
+  | { type: 'delete', collection: CollectionName, id: string };
+
+// Narrows a read to documents whose fields hold one of the listed values (Firestore allows up to 30 per field)
+export interface StorageQuery {
+  where: Record<string, string[]>;
+  orderByDesc?: string; // Firestore needs a composite index for it, see firestore.indexes.json
+  limit?: number;
+  // Cursor for the next page: continues below this document in orderByDesc order, ties broken by id
+  startAfter?: { value: string, id: string };
+}
+
+// Firestore batches are limited to 500 operations; chunked writes stay below it so each chunk commits atomically
+export const MAX_BATCH_OPERATIONS = 500;
+
+export interface StorageAdapter {
+  backend: StorageBackend;
+  fetchAll: (collection: CollectionName, ownerId: string) => Promise<Record<string, any>[]>;
+  query: (collection: CollectionName, ownerId: string, query: StorageQuery) => Promise<Record<string, any>[]>;
+  // Reads a single document without an owner filter (used for public share links); null when missing
+  fetchById: (collection: CollectionName, id: string) => Promise<Record<string, any> | null>;
+  // Creates or fully replaces a document
+  set: (collection: CollectionName, id: string, data: Record<string, any>) => Promise<void>;
+  // Merges fields into an existing document; rejects when the document does not exist
+  update: (collection: CollectionName, id: string, data: Record<string, any>) => Promise<void>;
+  remove: (collection: CollectionName, id: string) => Promise<void>;
+  // Applies several writes as one batch, all or nothing; at most MAX_BATCH_OPERATIONS of them
+  commit: (operations: WriteOperation[]) => Promise<void>;
+}
+
+export const STORAGE_BACKENDS: StorageBackend[] = ['firestore', 'indexeddb', 'memory'];
+
+export const STORAGE_BACKEND_LABELS: Record<StorageBackend, string> = {
+  firestore: 'Bulut (Firebase)',
+  indexeddb: 'Bu Cihaz (Yerel)',
+  memory: 'Geçici (Bellek)'
+};
+
+const STORAGE_PREFERENCE_KEY = 'englishnet.storageBackend';
+
+const isBackend = (value: unknown): value is StorageBackend => STORAGE_BACKENDS.includes(value as StorageBackend);
+
+// Resolution order: `?storage=` URL parameter (remembered), saved preference, STORAGE_BACKEND env, Firestore
+export const resolveStorageBackend = (): StorageBackend => {
+  const fromUrl = new URLSearchParams(window.location.search).get('storage');
+  if (isBackend(fromUrl)) {
+    localStorage.setItem(STORAGE_PREFERENCE_KEY, fromUrl);
+    return fromUrl;
+  }
+  const saved = localStorage.getItem(STORAGE_PREFERENCE_KEY);
+  if (isBackend(saved)) return saved;
+  if (isBackend(process.env.STORAGE_BACKEND)) return process.env.STORAGE_BACKEND;
+  return 'firestore';
+};
+
+// Persists the choice and restarts the app on the selected backend
+export const switchStorageBackend = (backend: StorageBackend) => {
+  localStorage.setItem(STORAGE_PREFERENCE_KEY, backend);
+  const url = new URL(window.location.href);
+  url.searchParams.delete('storage');
+  window.location.replace(url.toString());
+};
+
+// The query applied in memory, for the local backends
+export const applyStorageQuery = (docs: Record<string, any>[], { where, orderByDesc, limit, startAfter }: StorageQuery) => {
+  let matching = docs.filter(d => Object.keys(where).every(field => where[field].includes(d[field])));
+  if (orderByDesc) {
+    const compare = (a: { value: string, id: string }, b: { value: string, id: string }) => b.value.localeCompare(a.value) || (b.id < a.id ? -1 : b.id > a.id ? 1 : 0);
+    const keyOf = (d: Record<string, any>) => ({ value: String(d[orderByDesc] ?? ''), id: String(d.id) });
+    matching.sort((a, b) => compare(keyOf(a), keyOf(b)));
+    if (startAfter) matching = matching.filter(d => compare(keyOf(d), startAfter) > 0);
+  }
+  return limit === undefined ? matching : matching.slice(0, limit);
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { findDuplicateStudents, findMergeConflicts, planStudentMerge, suggestConflictChoice } from './studentMerge';
+import { ExamDefinition, ExamResult, Student, Term, UserProfile } from '../types';
+
+const survivor: Student = { id: 's1', name: 'Ece', surname: 'Yılmaz', classroomId: 'c1' };
+const removed: Student = { id: 's2', name: 'Ece', surname: 'Yilmaz', classroomId: 'c1' };
+const definitions: ExamDefinition[] = [
+  { id: 'd1', name: 'Deneme 1', date: '2024-03-01' },
+  { id: 'd2', name: 'Deneme 2', date: '2024-04-01' }
+];
+const profile: UserProfile = { id: 'u1', email: 'ogretmen@okul.k12.tr', role: 'ADMIN', workspaceId: 'w1', classroomIds: [] };
+
+const result = (id: string, studentId: string, fields: Partial<ExamResult>): ExamResult => ({
+  id, studentId, examId: 'd1', examName: 'Deneme 1', date: '2024-03-01', correct: 5, incorrect: 0, empty: 5, net: 5, status: 'ATTENDED', ...fields
+});
+
+describe('findDuplicateStudents', () => {
+  it('pairs similar names in a class before identical names across classes', () => {
+    const twin: Student = { id: 's3', name: 'ECE', surname: 'YILMAZ', classroomId: 'c2' };
+    const pairs = findDuplicateStudents([survivor, removed, twin, { id: 's4', name: 'Can', surname: 'Demir', classroomId: 'c1' }]);
+
+    expect(pairs.map(p => [p.a.id, p.b.id, p.sameClass])).toEqual([['s1', 's2', true], ['s1', 's3', false], ['s2', 's3', false]]);
+  });
+});
+
+describe('findMergeConflicts', () => {
+  it('takes a legacy name-only result for the same exam as its linked copy', () => {
+    const exams = [result('r1', 's1', {}), result('r2', 's2', { examId: undefined })];
+    expect(findMergeConflicts(survivor, removed, exams, definitions).map(c => c.examKey)).toEqual(['d1|2024-03-01']);
+  });
+
+  it('does not pair results of the same exam name on different days', () => {
+    const exams = [result('r1', 's1', {}), result('r2', 's2', { examId: undefined, date: '2025-03-01' })];
+    expect(findMergeConflicts(survivor, removed, exams, definitions)).toEqual([]);
+  });
+});
+
+describe('planStudentMerge', () => {
+  const exams = [
+    result('r1', 's1', { status: 'MISSING', net: 0 }),
+    result('r2', 's2', {}),
+    result('r3', 's2', { net: 4 }),
+    result('r4', 's2', { examId: 'd2', examName: 'Deneme 2', date: '2024-04-01' })
+  ];
+  const conflict = findMergeConflicts(survivor, removed, exams, definitions)[0];
+
+  it('suggests the side with the better result', () => {
+    expect(conflict.removedResults.map(r => r.id)).toEqual(['r2', 'r3']);
+    expect(suggestConflictChoice(conflict)).toBe('REMOVED');
+  });
+
+  it('drops every result of the side not chosen and moves the rest to the survivor', () => {
+    const suggested = planStudentMerge(survivor, removed, exams, definitions, [], {}, profile);
+    expect(suggested.deletedResults.map(r => r.id)).toEqual(['r1']);
+    expect(suggested.movedResults.map(r => [r.id, r.studentId])).toEqual([['r2', 's1'], ['r3', 's1'], ['r4', 's1']]);
+
+    const chosen = planStudentMerge(survivor, removed, exams, definitions, [], { [conflict.examKey]: 'SURVIVOR' }, profile);
+    expect(chosen.deletedResults.map(r => r.id)).toEqual(['r2', 'r3']);
+    expect(chosen.movedResults.map(r => r.id)).toEqual(['r4']);
+    expect(chosen.trashItem.docs.map(d => d.data.id)).toEqual(['s2', 'r2', 'r3']);
+  });
+
+  it('lists the survivor in archived terms that only had the removed record', () => {
+    const terms: Term[] = [
+      { id: 't1', name: '2023-2024', startDate: '2023-09-01', studentClasses: { s2: 'c9' } },
+      { id: 't2', name: '2022-2023', startDate: '2022-09-01', studentClasses: { s1: 'c8', s2: 'c8' } }
+    ];
+    const plan = planStudentMerge(survivor, removed, exams, definitions, terms, {}, profile);
+    expect(plan.terms).toEqual([{ ...terms[0], studentClasses: { s2: 'c9', s1: 'c9' } }]);
+  });
+});
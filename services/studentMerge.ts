@@ -0,0 +1,120 @@
+import { Classroom, ExamDefinition, ExamResult, Student, Term, TrashItem, UserProfile } from '../types';
+import { foldName, nameSimilarity } from './nameMatching';
+import { compareResultsForKeep, createExamKeyResolver } from './integrity';
+import { trashMergedStudent } from './trash';
+
+// Imports with slightly different spellings can leave two records for one child. Likely pairs are found by
+// name similarity within a class (and by identical names across classes); merging moves every result of the
+// removed record to the surviving one and moves the removed record to the trash.
+
+// Within a class; across classes only names equal up to diacritics, case and order are paired
+const DUPLICATE_SCORE = 0.8;
+
+export interface DuplicatePair {
+  a: Student;
+  b: Student;
+  score: number;
+  sameClass: boolean;
+}
+
+const fullName = (s: Student) => `${s.name} ${s.surname}`;
+const nameKey = (s: Student) => foldName(fullName(s)).split(' ').sort().join(' ');
+
+export const findDuplicateStudents = (students: Student[]): DuplicatePair[] => {
+  const pairs: DuplicatePair[] = [];
+  const byClass = new Map<string, Student[]>();
+  students.forEach(s => byClass.set(s.classroomId, [...(byClass.get(s.classroomId) || []), s]));
+  byClass.forEach(members => {
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const score = nameSimilarity(fullName(members[i]), fullName(members[j]));
+        if (score >= DUPLICATE_SCORE) pairs.push({ a: members[i], b: members[j], score: Math.round(score * 100) / 100, sameClass: true });
+      }
+    }
+  });
+
+  const byName = new Map<string, Student[]>();
+  students.forEach(s => byName.set(nameKey(s), [...(byName.get(nameKey(s)) || []), s]));
+  byName.forEach(same => {
+    for (let i = 0; i < same.length; i++) {
+      for (let j = i + 1; j < same.length; j++) {
+        if (same[i].classroomId !== same[j].classroomId) pairs.push({ a: same[i], b: same[j], score: 1, sameClass: false });
+      }
+    }
+  });
+
+  return pairs.sort((x, y) => Number(y.sameClass) - Number(x.sameClass) || y.score - x.score);
+};
+
+// Both students have results for the same exam on the same day; only one side's results can stay
+export interface MergeConflict {
+  examKey: string;
+  examName: string;
+  date: string;
+  survivorResults: ExamResult[];
+  removedResults: ExamResult[];
+}
+
+export type ConflictChoice = 'SURVIVOR' | 'REMOVED';
+
+export interface StudentMergePlan {
+  survivor: Student;
+  removed: Student;
+  movedResults: ExamResult[]; // Results of the removed student, now pointing at the survivor
+  deletedResults: ExamResult[]; // The losing side of each conflict, moved to the trash with the removed record
+  terms: Term[]; // Archived terms that listed only the removed student now list the survivor instead
+  trashItem: TrashItem;
+}
+
+export const findMergeConflicts = (survivor: Student, removed: Student, exams: ExamResult[], examDefinitions: ExamDefinition[]): MergeConflict[] => {
+  const examKey = createExamKeyResolver(examDefinitions);
+  const groupByExam = (studentId: string) => {
+    const groups = new Map<string, ExamResult[]>();
+    exams.filter(e => e.studentId === studentId).forEach(e => groups.set(examKey(e), [...(groups.get(examKey(e)) || []), e]));
+    return groups;
+  };
+  const survivorResults = groupByExam(survivor.id);
+  return Array.from(groupByExam(removed.id).entries())
+    .filter(([key]) => survivorResults.has(key))
+    .map(([key, removedResults]) => ({ examKey: key, examName: removedResults[0].examName, date: removedResults[0].date, survivorResults: survivorResults.get(key)!, removedResults }));
+};
+
+const bestResult = (results: ExamResult[]) => results.slice().sort(compareResultsForKeep)[0];
+
+// Default side of a conflict: the side with the better result, by the same rule as the duplicate result repair
+export const suggestConflictChoice = (conflict: MergeConflict): ConflictChoice =>
+  compareResultsForKeep(bestResult(conflict.survivorResults), bestResult(conflict.removedResults)) <= 0 ? 'SURVIVOR' : 'REMOVED';
+
+export const planStudentMerge = (
+  survivor: Student,
+  removed: Student,
+  exams: ExamResult[],
+  examDefinitions: ExamDefinition[],
+  terms: Term[],
+  choices: Record<string, ConflictChoice>,
+  profile: UserProfile
+): StudentMergePlan => {
+  // Every result of the side not chosen goes, so a side with two results for the exam loses both
+  const deletedResults = findMergeConflicts(survivor, removed, exams, examDefinitions)
+    .flatMap(c => (choices[c.examKey] || suggestConflictChoice(c)) === 'REMOVED' ? c.survivorResults : c.removedResults);
+  const deletedIds = new Set(deletedResults.map(r => r.id));
+  const movedResults = exams
+    .filter(e => e.studentId === removed.id && !deletedIds.has(e.id))
+    .map(e => ({ ...e, studentId: survivor.id }));
+
+  return {
+    survivor,
+    removed,
+    movedResults,
+    deletedResults,
+    trashItem: trashMergedStudent(removed, survivor, deletedResults, profile),
+    terms: terms
+      .filter(t => t.studentClasses?.[removed.id] && !t.studentClasses[survivor.id])
+      .map(t => ({ ...t, studentClasses: { ...t.studentClasses, [survivor.id]: t.studentClasses![removed.id] } }))
+  };
+};
+
+export const describeStudent = (student: Student, classes: Classroom[]) => {
+  const cls = classes.find(c => c.id === student.classroomId);
+  return `${fullName(student)}${cls ? ` (${cls.name})` : ''}`;
+};
@@ -0,0 +1,172 @@
+import { WriteOperation } from './storageAdapter';
+
+// Writes that could not reach the backend (offline, flaky Wi-Fi) are kept here, persisted in
+// localStorage, and replayed in order once connectivity returns. All operations are idempotent
+// (set / update / delete by id), so replaying one that actually landed is harmless.
+
+export interface PendingWrite {
+  id: string;
+  label: string; // Turkish description shown in the pending changes list
+  operations: WriteOperation[];
+  createdAt: string;
+  attempts: number;
+  error?: string; // Set when the backend rejected the write; it is skipped until retried
+}
+
+export type SyncStatus = 'SYNCED' | 'PENDING' | 'SYNCING' | 'OFFLINE' | 'ERROR';
+
+export interface SyncState {
+  status: SyncStatus;
+  pending: PendingWrite[];
+}
+
+type Committer = (operations: WriteOperation[]) => Promise<void>;
+
+// One queue per signed-in user and workspace, so nobody replays changes another account made on this device
+const QUEUE_KEY_PREFIX = 'englishnet.pendingWrites';
+// A Firestore write does not reject while offline, it just waits; give up on it after this long
+const WRITE_TIMEOUT_MS = 10000;
+const RETRYABLE_CODES = ['unavailable', 'deadline-exceeded', 'resource-exhausted', 'aborted', 'cancelled', 'internal', 'timeout'];
+
+const loadQueue = (key: string): PendingWrite[] => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || '[]');
+  } catch (e) {
+    return [];
+  }
+};
+
+let queueKey: string | null = null; // null while signed out: nothing is queued or replayed
+let queue: PendingWrite[] = [];
+let isSyncing = false;
+let committer: Committer | null = null;
+const listeners = new Set<(state: SyncState) => void>();
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+export const getSyncState = (): SyncState => {
+  let status: SyncStatus = 'SYNCED';
+  if (isSyncing) status = 'SYNCING';
+  else if (queue.some(w => w.error)) status = 'ERROR';
+  else if (queue.length > 0) status = isOnline() ? 'PENDING' : 'OFFLINE';
+  else if (!isOnline()) status = 'OFFLINE';
+  return { status, pending: queue };
+};
+
+const notify = () => {
+  const state = getSyncState();
+  listeners.forEach(l => l(state));
+};
+
+const saveQueue = (next: PendingWrite[]) => {
+  queue = next;
+  if (queueKey) localStorage.setItem(queueKey, JSON.stringify(queue));
+  notify();
+};
+
+// Called on every sign-in and sign-out (see authService.setCurrentProfile). A queue left under the old
+// device-wide key is taken over by the next user; the rules reject it there if it was someone else's.
+export const setSyncScope = (userId: string | null, workspaceId: string | null) => {
+  queueKey = userId && workspaceId ? `${QUEUE_KEY_PREFIX}.${userId}.${workspaceId}` : null;
+  if (!queueKey) {
+    queue = [];
+    notify();
+    return;
+  }
+  const legacy = loadQueue(QUEUE_KEY_PREFIX);
+  queue = loadQueue(queueKey);
+  if (legacy.length > 0) {
+    localStorage.removeItem(QUEUE_KEY_PREFIX);
+    saveQueue([...legacy, ...queue]);
+  } else {
+    notify();
+  }
+};
+
+export const subscribeToSync = (callback: (state: SyncState) => void) => {
+  listeners.add(callback);
+  callback(getSyncState());
+  return () => { listeners.delete(callback); };
+};
+
+const isRetryableError = (error: any) => !isOnline() || RETRYABLE_CODES.includes(error?.code) || error instanceof TypeError;
+
+const commitWithTimeout = (operations: WriteOperation[]) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(() => reject(Object.assign(new Error('Write timed out'), { code: 'timeout' })), WRITE_TIMEOUT_MS);
+  committer!(operations).then(resolve, reject).finally(() => clearTimeout(timer));
+});
+
+const createPendingWrite = (label: string, operations: WriteOperation[]): PendingWrite => ({
+  id: Date.now().toString() + Math.random().toString(36).slice(2, 6),
+  label,
+  operations,
+  createdAt: new Date().toISOString(),
+  attempts: 0
+});
+
+// Called by dataService with the active storage backend
+export const setSyncCommitter = (commit: Committer) => {
+  committer = commit;
+};
+
+// Commits the write directly when possible. On connectivity problems the write is queued and the
+// promise still resolves, so callers keep their optimistic state. Other errors (e.g. permission
+// denied) are rethrown as before.
+export const submitWrite = async (label: string, operations: WriteOperation[]) => {
+  if (operations.length === 0) return;
+  if (!queueKey) throw new Error("Oturum açılmamış.");
+  // Keep ordering: once something is waiting to be replayed, later writes queue behind it
+  if (queue.some(w => !w.error) || !isOnline()) {
+    saveQueue([...queue, createPendingWrite(label, operations)]);
+    flushPendingWrites();
+    return;
+  }
+  try {
+    await commitWithTimeout(operations);
+  } catch (error) {
+    if (!isRetryableError(error)) throw error;
+    saveQueue([...queue, createPendingWrite(label, operations)]);
+  }
+};
+
+// Replays queued writes in order. Stops at the first connectivity failure; writes rejected by the
+// backend are flagged and skipped so they don't block the rest.
+export const flushPendingWrites = async () => {
+  if (isSyncing || !committer || !isOnline()) return;
+  if (!queue.some(w => !w.error)) return;
+  isSyncing = true;
+  notify();
+  try {
+    for (const write of queue.filter(w => !w.error)) {
+      try {
+        await commitWithTimeout(write.operations);
+        saveQueue(queue.filter(w => w.id !== write.id));
+      } catch (error: any) {
+        const attempted = { ...write, attempts: write.attempts + 1 };
+        if (isRetryableError(error)) {
+          saveQueue(queue.map(w => w.id === write.id ? attempted : w));
+          break;
+        }
+        saveQueue(queue.map(w => w.id === write.id ? { ...attempted, error: error?.message || String(error) } : w));
+      }
+    }
+  } finally {
+    isSyncing = false;
+    notify();
+  }
+};
+
+export const retryPendingWrite = (id: string) => {
+  saveQueue(queue.map(w => w.id === id ? { ...w, error: undefined } : w));
+  flushPendingWrites();
+};
+
+// Drops a queued change; the local screen may then differ from the backend until reload
+export const discardPendingWrite = (id: string) => {
+  saveQueue(queue.filter(w => w.id !== id));
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => { notify(); flushPendingWrites(); });
+  window.addEventListener('offline', notify);
+}
@@ -0,0 +1,170 @@
+import { Classroom, ExamDefinition, ExamResult, Student, Term } from '../types';
+
+// Terms (school years) scope every view. Classes and students are not copied per term: promotion
+// renames a class in place (7/A -> 8/A) and graduating classes and students are flagged, while the
+// archived term keeps a frozen copy of its class names and class lists for viewing it later.
+
+export const getActiveTerm = (terms: Term[]): Term | undefined =>
+  terms.filter(t => !t.archivedAt).sort((a, b) => b.startDate.localeCompare(a.startDate))[0];
+
+export const sortTerms = (terms: Term[]): Term[] => terms.slice().sort((a, b) => b.startDate.localeCompare(a.startDate));
+
+// School years start in September: 2026-03-01 -> "2025-2026"
+export const suggestTermName = (date = new Date()) => {
+  const start = date.getMonth() >= 8 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${start}-${start + 1}`;
+};
+
+// "2025-2026" -> "2026-2027"; names without years get the school year of today
+export const suggestNextTermName = (name: string) => /\d{4}/.test(name) ? name.replace(/\d{4}/g, y => String(Number(y) + 1)) : suggestTermName();
+
+// Legacy definitions (no termId) go to the archived term whose dates cover them, otherwise to the open term
+export const getDefinitionTermId = (def: ExamDefinition, terms: Term[]): string | undefined => {
+  if (def.termId && terms.some(t => t.id === def.termId)) return def.termId;
+  const archived = terms.find(t => t.archivedAt && t.startDate <= def.date && (!t.endDate || def.date <= t.endDate));
+  return archived?.id || getActiveTerm(terms)?.id;
+};
+
+const getResultTermId = (result: ExamResult, defsById: Map<string, ExamDefinition>, terms: Term[]) => {
+  const def = result.examId ? defsById.get(result.examId) : undefined;
+  return getDefinitionTermId(def || { id: '', name: result.examName, date: result.date }, terms);
+};
+
+// Limits the data to one term. Without any terms (workspaces from before terms existed) nothing is filtered.
+export const scopeDataToTerm = <T extends { students: Student[], classes: Classroom[], exams: ExamResult[], examDefinitions: ExamDefinition[] }>(data: T, terms: Term[], termId: string | null): T => {
+  const term = terms.find(t => t.id === termId) || getActiveTerm(terms);
+  if (!term) return data;
+
+  const defsById = new Map(data.examDefinitions.map(d => [d.id, d]));
+  const examDefinitions = data.examDefinitions.filter(d => getDefinitionTermId(d, terms) === term.id);
+  const exams = data.exams.filter(e => getResultTermId(e, defsById, terms) === term.id);
+
+  if (!term.archivedAt) {
+    return {
+      ...data,
+      students: data.students.filter(s => !s.alumniTermId),
+      classes: data.classes.filter(c => !c.graduatedTermId),
+      examDefinitions,
+      exams
+    };
+  }
+
+  // Archived term: classes and class lists as they were, even if a class was deleted since
+  const classNames = term.classNames || {};
+  const studentClasses = term.studentClasses || {};
+  const classes = Object.keys(classNames).map(id => ({ ...(data.classes.find(c => c.id === id) || { id }), name: classNames[id] }) as Classroom);
+  const students = data.students.filter(s => studentClasses[s.id]).map(s => ({ ...s, classroomId: studentClasses[s.id] }));
+  return { ...data, classes, students, examDefinitions, exams };
+};
+
+// --- END OF TERM ---
+
+export type PromotionAction = 'PROMOTE' | 'GRADUATE' | 'KEEP';
+
+export interface PromotionRow {
+  classroomId: string;
+  action: PromotionAction;
+  newName: string; // Used when promoting
+}
+
+export const PROMOTION_ACTION_LABELS: Record<PromotionAction, string> = {
+  PROMOTE: 'Üst sınıfa geçir',
+  GRADUATE: 'Mezun et',
+  KEEP: 'Olduğu gibi bırak'
+};
+
+const gradeOf = (name: string): number | null => {
+  const match = name.match(/\d+/);
+  return match ? Number(match[0]) : null;
+};
+
+// Increments the first number in the name: "7/A" -> "8/A", "9-B" -> "10-B"
+export const suggestPromotedName = (name: string) => name.replace(/\d+/, n => String(Number(n) + 1));
+
+// Classes of the highest grade graduate, other numbered classes move up, the rest stay as they are
+export const suggestPromotion = (classes: Classroom[]): PromotionRow[] => {
+  const grades = classes.map(c => gradeOf(c.name)).filter((g): g is number => g !== null);
+  const topGrade = grades.length > 0 ? Math.max(...grades) : null;
+  return classes.map(c => {
+    const grade = gradeOf(c.name);
+    const action: PromotionAction = grade === null ? 'KEEP' : grade === topGrade ? 'GRADUATE' : 'PROMOTE';
+    return { classroomId: c.id, action, newName: action === 'PROMOTE' ? suggestPromotedName(c.name) : c.name };
+  });
+};
+
+export interface TermTransitionPlan {
+  archivedTerm: Term; // The ending term, with its archive snapshot
+  newTerm: Term;
+  renamedClasses: Classroom[];
+  graduatedClasses: Classroom[];
+  alumni: Student[];
+  definitions: ExamDefinition[]; // Legacy definitions stamped with the ending term so they stay there
+}
+
+export interface TermTransitionInput {
+  endingTerm: Term; // May be new when the workspace had no terms yet
+  newTermName: string;
+  rows: PromotionRow[];
+  students: Student[]; // Current (open term) students and classes
+  classes: Classroom[];
+  examDefinitions: ExamDefinition[];
+  terms: Term[];
+}
+
+export const planTermTransition = (input: TermTransitionInput): TermTransitionPlan => {
+  const { endingTerm, rows, students, classes } = input;
+  const now = new Date();
+  const today = now.toISOString().slice(0, 10);
+  const rowsById = new Map(rows.map(r => [r.classroomId, r]));
+  const graduatingIds = new Set(rows.filter(r => r.action === 'GRADUATE').map(r => r.classroomId));
+
+  const archivedTerm: Term = {
+    ...endingTerm,
+    endDate: today,
+    archivedAt: now.toISOString(),
+    classNames: Object.fromEntries(classes.map(c => [c.id, c.name])),
+    studentClasses: Object.fromEntries(students.map(s => [s.id, s.classroomId]))
+  };
+  // Whatever is shown in the ending term now stays there, including legacy definitions placed by fallback
+  const termsBefore = [...input.terms.filter(t => t.id !== endingTerm.id), endingTerm];
+
+  return {
+    archivedTerm,
+    newTerm: {
+      id: `${Date.now()}${Math.random().toString(36).slice(2, 7)}`,
+      name: input.newTermName.trim(),
+      startDate: today
+    },
+    renamedClasses: classes
+      .filter(c => rowsById.get(c.id)?.action === 'PROMOTE' && rowsById.get(c.id)!.newName.trim() !== c.name)
+      .map(c => ({ ...c, name: rowsById.get(c.id)!.newName.trim() })),
+    graduatedClasses: classes.filter(c => graduatingIds.has(c.id)).map(c => ({ ...c, graduatedTermId: endingTerm.id })),
+    alumni: students.filter(s => graduatingIds.has(s.classroomId)).map(s => ({ ...s, alumniTermId: endingTerm.id })),
+    definitions: input.examDefinitions
+      .filter(d => d.termId !== endingTerm.id && getDefinitionTermId(d, termsBefore) === endingTerm.id)
+      .map(d => ({ ...d, termId: endingTerm.id }))
+  };
+};
+
+// Problems that block the transition, e.g. two classes ending up with the same name
+export const validatePromotion = (rows: PromotionRow[], classes: Classroom[]): string[] => {
+  const errors: string[] = [];
+  const finalNames = new Map<string, { name: string, sources: string[] }>();
+  rows.forEach(r => {
+    if (r.action === 'GRADUATE') return;
+    const cls = classes.find(c => c.id === r.classroomId);
+    const name = (r.action === 'PROMOTE' ? r.newName : cls?.name || '').trim();
+    if (!name) {
+      errors.push(`${cls?.name || r.classroomId}: yeni sınıf adı boş olamaz.`);
+      return;
+    }
+    const key = name.toLocaleUpperCase('tr-TR');
+    const entry = finalNames.get(key) || { name, sources: [] };
+    entry.sources.push(cls?.name || r.classroomId);
+    finalNames.set(key, entry);
+  });
+  finalNames.forEach(({ name, sources }) => {
+    if (sources.length > 1) errors.push(`${sources.join(', ')} aynı adı alıyor: ${name}`);
+  });
+  return errors;
+};
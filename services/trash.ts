@@ -0,0 +1,114 @@
+import { Classroom, ExamDefinition, ExamResult, Student, TrashItem, TrashKind, TrashedDoc, UserProfile } from '../types';
+
+// Deleting a student, class or exam moves it, with the results deleted along with it, into a trash
+// item. Restoring writes the same documents back; items older than the retention period are purged.
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TRASH_KIND_LABELS: Record<TrashKind, string> = {
+  STUDENT: 'Öğrenci',
+  CLASS: 'Sınıf',
+  EXAM_DEFINITION: 'Deneme',
+  EXAM_RESULTS: 'Sonuçlar'
+};
+
+export interface TrashState {
+  students: Student[];
+  classes: Classroom[];
+  exams: ExamResult[];
+  examDefinitions: ExamDefinition[];
+}
+
+const newId = () => Date.now().toString() + Math.floor(Math.random() * 100000).toString();
+
+const toTrashedDoc = (collection: TrashedDoc['collection'], doc: object): TrashedDoc => {
+  const { ownerId, ...data } = JSON.parse(JSON.stringify(doc));
+  return { collection, data };
+};
+
+const createTrashItem = (kind: TrashKind, label: string, classroomId: string, docs: TrashedDoc[], profile: UserProfile): TrashItem => ({
+  id: newId(),
+  kind,
+  label,
+  classroomId,
+  deletedAt: new Date().toISOString(),
+  deletedBy: profile.id,
+  deletedByEmail: profile.email,
+  docs
+});
+
+export const trashStudent = (student: Student, exams: ExamResult[], profile: UserProfile): TrashItem => createTrashItem(
+  'STUDENT',
+  `${student.name} ${student.surname}`,
+  student.classroomId,
+  [toTrashedDoc('students', student), ...exams.filter(e => e.studentId === student.id).map(e => toTrashedDoc('examResults', e))],
+  profile
+);
+
+// The record a student merge removes, with the results not kept; the moved results stay with the surviving record
+export const trashMergedStudent = (removed: Student, survivor: Student, droppedResults: ExamResult[], profile: UserProfile): TrashItem => createTrashItem(
+  'STUDENT',
+  `${removed.name} ${removed.surname} → ${survivor.name} ${survivor.surname}`,
+  removed.classroomId,
+  [toTrashedDoc('students', removed), ...droppedResults.map(r => toTrashedDoc('examResults', r))],
+  profile
+);
+
+export const trashClass = (classroom: Classroom, profile: UserProfile): TrashItem =>
+  createTrashItem('CLASS', classroom.name, '', [toTrashedDoc('classrooms', classroom)], profile);
+
+export const trashExamDefinition = (def: ExamDefinition, results: ExamResult[], profile: UserProfile): TrashItem => createTrashItem(
+  'EXAM_DEFINITION',
+  def.name,
+  '',
+  [toTrashedDoc('examDefinitions', def), ...results.map(r => toTrashedDoc('examResults', r))],
+  profile
+);
+
+// Results removed on their own by a data repair; many of them are split over several items (see the size limit below)
+const RESULTS_PER_TRASH_ITEM = 200;
+
+export const trashExamResults = (label: string, results: ExamResult[], profile: UserProfile): TrashItem[] => {
+  const parts: ExamResult[][] = [];
+  for (let i = 0; i < results.length; i += RESULTS_PER_TRASH_ITEM) parts.push(results.slice(i, i + RESULTS_PER_TRASH_ITEM));
+  return parts.map((part, i) => createTrashItem(
+    'EXAM_RESULTS',
+    parts.length > 1 ? `${label} (${i + 1}/${parts.length})` : label,
+    '',
+    part.map(r => toTrashedDoc('examResults', r)),
+    profile
+  ));
+};
+
+// A trash item is a single Firestore document (at most 1 MiB); an exam with very many results may not fit
+const MAX_TRASH_ITEM_BYTES = 900 * 1024;
+
+export const isTrashItemTooLarge = (item: TrashItem) => new TextEncoder().encode(JSON.stringify(item)).length > MAX_TRASH_ITEM_BYTES;
+
+export const getTrashResultCount = (item: TrashItem) => item.docs.filter(d => d.collection === 'examResults').length;
+
+export const getTrashExpiry = (item: TrashItem) => new Date(new Date(item.deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+
+export const isTrashExpired = (item: TrashItem, now = Date.now()) => getTrashExpiry(item).getTime() <= now;
+
+export const getTrashDaysLeft = (item: TrashItem, now = Date.now()) => Math.max(0, Math.ceil((getTrashExpiry(item).getTime() - now) / DAY_MS));
+
+// Why an item cannot be restored yet, or null. A student needs their class back first.
+export const getRestoreBlocker = (item: TrashItem, state: TrashState): string | null => {
+  if (item.kind !== 'STUDENT') return null;
+  if (state.classes.some(c => c.id === item.classroomId)) return null;
+  return "Öğrencinin sınıfı silinmiş. Önce sınıfı çöp kutusundan geri yükleyin.";
+};
+
+// Restored documents of one collection, typed for putting them back into state
+export const getTrashedDocs = <T>(item: TrashItem, collection: TrashedDoc['collection']): T[] =>
+  item.docs.filter(d => d.collection === collection).map(d => d.data as T);
+
+// Replaces documents with the same id, appends the rest
+export const mergeRestored = <T extends { id: string }>(current: T[], restored: T[]): T[] => {
+  if (restored.length === 0) return current;
+  const ids = new Set(restored.map(d => d.id));
+  return [...current.filter(d => !ids.has(d.id)), ...restored];
+};
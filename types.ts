@@ -2,14 +2,40 @@
 export interface Classroom {
   id: string;
   name: string;
+  graduatedTermId?: string; // Set when the class graduated at the end of that term; hidden from later terms
+  ownerId?: string; // Workspace the document belongs to (uid of the head teacher's account)
 }
 
-export interface ExamDefinition {
+export type NetRounding = 'ROUND_2' | 'ROUND_1' | 'FLOOR_2';
+
+export interface ScoringPolicy {
+  questionCount: number;
+  penaltyRatio: number; // Net lost per incorrect answer (0.33 = 3 wrong cancel 1, 0.25 = 4 wrong cancel 1)
+  rounding: NetRounding;
+}
+
+export interface ExamDefinition extends Partial<ScoringPolicy> {
   id: string;
   name: string;
   date: string;
+  answerKey?: string; // One choice (A-E) per question, empty string when the exam has no key
+  skillTags?: SkillId[]; // Skill per question position, '' when untagged
+  termId?: string; // Legacy definitions have none and are placed by date (see services/terms.ts)
+  ownerId?: string;
 }
 
+export type SkillId = 'GRAMMAR' | 'VOCABULARY' | 'READING' | 'DIALOGUE' | 'SITUATION' | 'LISTENING' | '';
+
+export interface SkillScore {
+  skill: SkillId;
+  label: string;
+  correct: number;
+  total: number;
+  mastery: number; // Percentage of tagged questions answered correctly
+}
+
+export type AbsenceReason = 'SICK' | 'EXCUSED' | 'UNEXCUSED' | 'TRANSFERRED';
+
 export interface ExamResult {
   id: string;
   studentId: string;
@@ -21,6 +47,10 @@ export interface ExamResult {
   empty: number;
   net: number;
   status?: 'ATTENDED' | 'MISSING'; // New field
+  absenceReason?: AbsenceReason; // Only with status MISSING; older absences have none
+  answers?: string; // Raw answer string, '-' marks an empty answer
+  classroomId?: string; // Class of the student, stamped on every write for the rules; older results have none
+  ownerId?: string;
 }
 
 export interface Student {
@@ -28,6 +58,15 @@ export interface Student {
   name: string;
   surname: string;
   classroomId: string;
+  alumniTermId?: string; // Term the student graduated in; alumni only appear in that term and earlier
+  goal?: StudentGoal | null; // null once a goal is cleared, so the update removes it
+  ownerId?: string;
+}
+
+export interface StudentGoal {
+  targetNet: number;
+  targetDate: string; // 'YYYY-MM-DD'
+  setDate: string; // Day the goal was set or last changed; progress is measured from the net at that point
 }
 
 export interface StudentWithStats extends Student {
@@ -40,4 +79,126 @@ export interface StudentWithStats extends Student {
   previousResult?: ExamResult;
 }
 
-export type ViewState = 'DASHBOARD' | 'STUDENTS' | 'CLASSES' | 'CLASS_DETAIL' | 'STUDENT_DETAIL' | 'EXAMS' | 'EXAM_DETAIL' | 'RESULTS' | 'ANALYTICS';
+// School year / term. Exam definitions belong to one; at most one term is open (not archived) at a time.
+export interface Term {
+  id: string;
+  name: string; // e.g. "2025-2026"
+  startDate: string; // YYYY-MM-DD
+  endDate?: string; // Set when the term is archived
+  archivedAt?: string; // ISO timestamp
+  // Frozen when archiving, since promotion renames classes and students move on afterwards
+  classNames?: Record<string, string>; // classroomId -> class name during the term
+  studentClasses?: Record<string, string>; // studentId -> classroomId during the term
+  ownerId?: string;
+}
+
+export type UserRole = 'ADMIN' | 'TEACHER' | 'ASSISTANT';
+
+export interface UserProfile {
+  id: string; // Firebase Auth uid
+  email: string;
+  role: UserRole;
+  workspaceId: string; // Stamped as ownerId on every document of the workspace
+  classroomIds: string[]; // Classes a TEACHER may edit / an ASSISTANT may view
+}
+
+export interface MemberInvite {
+  id: string; // Lowercased e-mail of the invited account
+  email: string;
+  role: UserRole;
+  workspaceId: string;
+  classroomIds: string[];
+}
+
+export type ImportSessionKind = 'STUDENTS' | 'RESULTS' | 'CLASS_CHANGE' | 'RESULT_FILE';
+
+// One document written by a batch import, with its state before (null when the import created it) and after
+export interface ImportChange {
+  collection: 'students' | 'classrooms' | 'examResults';
+  id: string;
+  before: Record<string, any> | null;
+  after: Record<string, any>;
+}
+
+export interface ImportSession {
+  id: string;
+  kind: ImportSessionKind;
+  createdAt: string; // ISO timestamp
+  createdBy: string; // uid of the importing user
+  createdByEmail: string;
+  summary: string; // e.g. "3 yeni, 12 güncellendi"
+  changes: ImportChange[];
+  rolledBackAt?: string;
+  ownerId?: string;
+}
+
+export type TrashKind = 'STUDENT' | 'CLASS' | 'EXAM_DEFINITION' | 'EXAM_RESULTS';
+
+export interface TrashedDoc {
+  collection: 'students' | 'classrooms' | 'examResults' | 'examDefinitions';
+  data: Record<string, any>; // Full document without ownerId
+}
+
+// A deleted entity together with the documents removed with it (e.g. a student and their results)
+export interface TrashItem {
+  id: string;
+  kind: TrashKind;
+  label: string; // e.g. student name
+  classroomId: string; // Student's class, so class permissions apply; '' for admin only items
+  deletedAt: string; // ISO timestamp
+  deletedBy: string;
+  deletedByEmail: string;
+  docs: TrashedDoc[];
+  ownerId?: string;
+}
+
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE';
+
+export type AuditedCollection = 'students' | 'classrooms' | 'examResults' | 'examDefinitions' | 'terms';
+
+export interface AuditFieldChange {
+  field: string;
+  before: any; // null when the field did not exist
+  after: any;
+}
+
+// One changed document; written in the same batch as the change itself (see services/auditLog.ts)
+export interface AuditEntry {
+  id: string;
+  at: string; // ISO timestamp
+  actorId: string;
+  actorEmail: string;
+  action: AuditAction;
+  collection: AuditedCollection;
+  docId: string;
+  docLabel: string; // e.g. student name, kept so deleted documents stay readable
+  operation: string; // Label of the write, e.g. "Sonuç güncelle: Deneme 3"
+  studentId?: string; // Set for students and their results, for filtering
+  classroomId?: string; // Class of the student, for students and their results; entries without one are admin only
+  examId?: string; // Set for definitions and their results
+  changes: AuditFieldChange[];
+  ownerId?: string;
+}
+
+// Public, read-only copy of one student's results behind a parent share link
+export interface ShareSnapshot {
+  studentName: string;
+  className: string;
+  maxQuestionCount: number;
+  results: Pick<ExamResult, 'examName' | 'date' | 'correct' | 'incorrect' | 'empty' | 'net' | 'status'>[];
+  updatedAt: string; // ISO timestamp
+}
+
+export interface ShareLink {
+  id: string; // Random token, also the document id
+  studentId: string;
+  classroomId: string; // Lets the security rules apply the class permissions of the student
+  createdAt: string;
+  createdBy: string;
+  expiresAt: number | null; // Epoch millis, null for no expiry
+  revoked: boolean;
+  snapshot: ShareSnapshot;
+  ownerId?: string;
+}
+
+export type ViewState = 'DASHBOARD' | 'STUDENTS' | 'CLASSES' | 'CLASS_DETAIL' | 'STUDENT_DETAIL' | 'EXAMS' | 'EXAM_DETAIL' | 'RESULTS' | 'ANALYTICS' | 'MEMBERS' | 'BACKUP' | 'HISTORY' | 'TRASH' | 'INTEGRITY';
@@ -12,7 +12,10 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.FIREBASE_AUTH_EMULATOR_HOST': JSON.stringify(env.FIREBASE_AUTH_EMULATOR_HOST || ''),
+        'process.env.FIRESTORE_EMULATOR_HOST': JSON.stringify(env.FIRESTORE_EMULATOR_HOST || ''),
+        'process.env.STORAGE_BACKEND': JSON.stringify(env.STORAGE_BACKEND || '')
       },
       resolve: {
         alias: {